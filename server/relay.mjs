@@ -0,0 +1,110 @@
+/**
+ * server/relay.mjs
+ *
+ * Minimal WebSocket relay for online PvP.
+ * Pairs up to two clients per room and forwards everything they send to the
+ * other one, wrapped as { type: "peer", data } so a client can't pass its
+ * frames off as the relay's own messages. A room is created by the first player (who shares its code) and
+ * closes when both players have left. The relay knows nothing about the game;
+ * both browsers run the full battle and stay in sync because they apply the
+ * same commands.
+ *
+ * A player who drops out mid-match can reclaim their seat by joining with
+ * their team; the room stays open while the other player is still in it.
+ *
+ * Usage: npm run relay            (listens on port 8787)
+ *        PORT=9000 npm run relay
+ *
+ * See src/network/protocol.ts for the message shapes.
+ */
+
+import { WebSocketServer } from "ws";
+
+const PORT = Number(process.env.PORT ?? 8787);
+const TEAMS = ["player1", "player2"];
+
+/** room name -> [player1 socket, player2 socket] */
+const rooms = new Map();
+
+const server = new WebSocketServer({ port: PORT });
+
+server.on("connection", (socket) => {
+  let room = null;
+  let seat = -1;
+
+  const send = (target, message) => {
+    if (target && target.readyState === target.OPEN) {
+      target.send(JSON.stringify(message));
+    }
+  };
+
+  socket.on("message", (data) => {
+    // Before joining, the only accepted message is a join
+    if (room === null) {
+      let message;
+      try {
+        message = JSON.parse(String(data));
+      } catch {
+        message = null;
+      }
+      if (!message || message.type !== "join" || typeof message.room !== "string" || !message.room) {
+        send(socket, { type: "error", message: "Expected a join message" });
+        return;
+      }
+
+      if (message.create && rooms.has(message.room)) {
+        send(socket, { type: "error", message: `Room ${message.room} already exists` });
+        return;
+      }
+      if (!message.create && !rooms.has(message.room)) {
+        send(socket, { type: "error", message: `No room with code ${message.room}` });
+        return;
+      }
+
+      const seats = rooms.get(message.room) ?? [null, null];
+      const wanted = TEAMS.indexOf(message.team);
+      const free = wanted === -1 ? seats.indexOf(null) : seats[wanted] === null ? wanted : -1;
+      if (free === -1) {
+        send(socket, { type: "error", message: `Room ${message.room} is full` });
+        return;
+      }
+
+      seats[free] = socket;
+      rooms.set(message.room, seats);
+      room = message.room;
+      seat = free;
+      const peer = seats[1 - seat];
+      send(socket, { type: "joined", room, team: TEAMS[seat], peerConnected: peer !== null });
+      console.log(`[${room}] ${TEAMS[seat]} joined`);
+
+      if (peer) send(peer, { type: "peerJoined" });
+      return;
+    }
+
+    // After joining, forward to the other seat in an envelope
+    send(rooms.get(room)?.[1 - seat], { type: "peer", data: String(data) });
+  });
+
+  // A misbehaving client only loses its own connection ("close" follows)
+  socket.on("error", (error) => {
+    console.warn(`[${room ?? "no room"}] socket error:`, error.message);
+  });
+
+  socket.on("close", () => {
+    if (room === null) return;
+    const seats = rooms.get(room);
+    if (!seats) return;
+
+    seats[seat] = null;
+    console.log(`[${room}] ${TEAMS[seat]} left`);
+    if (seats.every(s => s === null)) {
+      rooms.delete(room);
+    } else {
+      send(seats[1 - seat], { type: "peerLeft" });
+    }
+  });
+});
+
+server.on("listening", () => {
+  console.log(`Relay listening on ws://localhost:${PORT}`);
+});
@@ -44,13 +44,35 @@ export interface CoverCommand extends BaseCommand {
   type: "cover";
 }
 
+/** Steady the next attack for bonus damage */
+export interface AimCommand extends BaseCommand {
+  type: "aim";
+}
+
+/** Build a barricade on an adjacent empty tile */
+export interface BarricadeCommand extends BaseCommand {
+  type: "barricade";
+  targetX: number;
+  targetZ: number;
+}
+
+/** Attack the barricade on a tile */
+export interface AttackBarricadeCommand extends BaseCommand {
+  type: "attackBarricade";
+  targetX: number;
+  targetZ: number;
+}
+
 /** Union of all command types */
 export type BattleCommand =
   | MoveCommand
   | AttackCommand
   | HealCommand
   | ConcealCommand
-  | CoverCommand;
+  | CoverCommand
+  | AimCommand
+  | BarricadeCommand
+  | AttackBarricadeCommand;
 
 // =============================================================================
 // COMMAND FACTORIES
@@ -81,6 +103,21 @@ export function createCoverCommand(): CoverCommand {
   return { type: "cover" };
 }
 
+/** Create an aim command */
+export function createAimCommand(): AimCommand {
+  return { type: "aim" };
+}
+
+/** Create a barricade command */
+export function createBarricadeCommand(targetX: number, targetZ: number): BarricadeCommand {
+  return { type: "barricade", targetX, targetZ };
+}
+
+/** Create an attack-barricade command */
+export function createAttackBarricadeCommand(targetX: number, targetZ: number): AttackBarricadeCommand {
+  return { type: "attackBarricade", targetX, targetZ };
+}
+
 // =============================================================================
 // COMMAND QUEUE
 // =============================================================================
@@ -189,6 +226,15 @@ export interface CommandExecutor {
   /** Execute a cover command */
   executeCover(command: CoverCommand, onComplete: () => void): void;
 
+  /** Execute an aim command */
+  executeAim(command: AimCommand, onComplete: () => void): void;
+
+  /** Execute a barricade command */
+  executeBarricade(command: BarricadeCommand, onComplete: () => void): void;
+
+  /** Execute an attack-barricade command */
+  executeAttackBarricade(command: AttackBarricadeCommand, onComplete: () => void): void;
+
   /** Called when all queued commands are complete */
   onQueueComplete(): void;
 
@@ -243,6 +289,15 @@ export function processCommandQueue(
       case "cover":
         executor.executeCover(command, afterExecution);
         break;
+      case "aim":
+        executor.executeAim(command, afterExecution);
+        break;
+      case "barricade":
+        executor.executeBarricade(command, afterExecution);
+        break;
+      case "attackBarricade":
+        executor.executeAttackBarricade(command, afterExecution);
+        break;
     }
   }
 
@@ -253,13 +308,13 @@ export function processCommandQueue(
 // COMMAND VALIDATION
 // =============================================================================
 
-/** Validate a move command (basic bounds check) */
-export function isValidMoveCommand(command: MoveCommand, gridSize: number): boolean {
+/** Validate a move command (basic bounds check against the grid rectangle) */
+export function isValidMoveCommand(command: MoveCommand, width: number, height: number = width): boolean {
   return (
     command.targetX >= 0 &&
-    command.targetX < gridSize &&
+    command.targetX < width &&
     command.targetZ >= 0 &&
-    command.targetZ < gridSize
+    command.targetZ < height
   );
 }
 
@@ -276,5 +331,11 @@ export function describeCommand(command: BattleCommand): string {
       return "Activate Conceal";
     case "cover":
       return "Activate Cover";
+    case "aim":
+      return "Take Aim";
+    case "barricade":
+      return `Build barricade at (${command.targetX}, ${command.targetZ})`;
+    case "attackBarricade":
+      return `Attack barricade at (${command.targetX}, ${command.targetZ})`;
   }
 }
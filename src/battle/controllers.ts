@@ -5,12 +5,22 @@
  * Enables PvE (Human vs AI), PvP (Human vs Network), and simulations (AI vs AI).
  */
 
+import { getClassData, BARRICADE_HP, BARRICADE_DURATION_TURNS, MAX_BARRICADES_PER_UNIT } from "../config";
+import { TERRAIN_DATA } from "../types";
 import type { BattleCommand } from "./commands";
 import type { BattleState, UnitState } from "./state";
+import { toGridKey, hasStatus, getTerrain } from "./state";
+import type { EffectContext } from "./effects";
+import { applyStatus, removeStatus } from "./effects";
+import type { CommandValidation } from "./validation";
+import type { RandomFn } from "./random";
 import {
   getValidMoveTiles,
   getAttackableEnemies,
   getHealableAllies,
+  getAttackableBarricades,
+  getBuildableTiles,
+  calculateDamage,
   checkWinCondition,
 } from "./rules";
 
@@ -24,6 +34,11 @@ import {
  */
 export type IssueCommandFn = (command: BattleCommand) => boolean;
 
+/**
+ * Callback to check a command against the rules without queuing it.
+ */
+export type ValidateCommandFn = (command: BattleCommand) => CommandValidation;
+
 /**
  * Callback to execute all queued commands and end the turn.
  */
@@ -42,6 +57,9 @@ export interface ControllerContext {
   /** Issue a command (move, attack, etc.) */
   issueCommand: IssueCommandFn;
 
+  /** Check a command against the live turn (queued commands included) */
+  validateCommand: ValidateCommandFn;
+
   /** Execute queued commands and end turn */
   executeTurn: ExecuteTurnFn;
 
@@ -58,7 +76,7 @@ export interface ControllerContext {
  */
 export interface Controller {
   /** Controller type identifier */
-  readonly type: "human" | "ai" | "network";
+  readonly type: "human" | "ai" | "network" | "replay";
 
   /**
    * Called when a unit controlled by this controller starts its turn.
@@ -134,10 +152,14 @@ export class AIController implements Controller {
 
   private difficulty: AIDifficulty;
   private thinkingDelay: number;
+  private random: RandomFn;
+  /** Whether a candidate command would be accepted this turn (set while thinking) */
+  private isAllowed: (command: BattleCommand) => boolean = () => true;
 
-  constructor(difficulty: AIDifficulty = "medium", thinkingDelayMs: number = 500) {
+  constructor(difficulty: AIDifficulty = "medium", thinkingDelayMs: number = 500, random: RandomFn = Math.random) {
     this.difficulty = difficulty;
     this.thinkingDelay = thinkingDelayMs;
+    this.random = random;
   }
 
   onTurnStart(context: ControllerContext): void {
@@ -148,7 +170,8 @@ export class AIController implements Controller {
   }
 
   private think(context: ControllerContext): void {
-    const { state, unit } = context;
+    const { unit } = context;
+    let state = context.state;
 
     // Check if game is already over
     const gameStatus = checkWinCondition(state);
@@ -159,14 +182,28 @@ export class AIController implements Controller {
     let actionsUsed = 0;
     const maxActions = context.actionsRemaining;
 
+    // The AI plays by the same rules as everyone else: candidates are checked
+    // against the validator (which sees the queued commands, not this
+    // planning snapshot) before they're chosen, and a rejected choice is
+    // struck off so the next best one gets a turn
+    const rejected = new Set<string>();
+    this.isAllowed = (command) => !rejected.has(JSON.stringify(command)) && context.validateCommand(command).ok;
+
     // Plan all actions for this turn
     while (actionsUsed < maxActions) {
       const action = this.chooseBestAction(state, unit, actionsUsed, maxActions);
 
-      if (!action) {
+      if (!action || rejected.has(JSON.stringify(action))) {
         break;
       }
 
+      const validation = context.validateCommand(action);
+      if (!validation.ok) {
+        console.warn(`AI chose an invalid ${action.type} (${validation.message}); trying another action`);
+        rejected.add(JSON.stringify(action));
+        continue;
+      }
+
       const accepted = context.issueCommand(action);
       if (accepted) {
         actionsUsed++;
@@ -176,9 +213,16 @@ export class AIController implements Controller {
           unit.gridX = action.targetX;
           unit.gridZ = action.targetZ;
         }
-        // Track conceal state
-        if (action.type === "conceal") {
-          unit.isConcealed = true;
+        // Track the effects we have queued (aim is spent by the next attack)
+        const planned: EffectContext = { state, events: [] };
+        if (action.type === "conceal" || action.type === "cover" || action.type === "aim") {
+          applyStatus(planned, unit, action.type, unit.id);
+        } else if (action.type === "attack" || action.type === "attackBarricade") {
+          removeStatus(planned, unit, "aim", "consumed");
+        }
+        // Plan around barricades we have already queued
+        if (action.type === "barricade") {
+          state = this.withPlannedBarricade(state, unit, action.targetX, action.targetZ);
         }
       } else {
         break;
@@ -197,8 +241,14 @@ export class AIController implements Controller {
     actionsUsed: number,
     maxActions: number
   ): BattleCommand | null {
-    const enemies = getAttackableEnemies(state, unit);
-    const moveTiles = getValidMoveTiles(state, unit);
+    const enemies = getAttackableEnemies(state, unit)
+      .filter(enemy => this.isAllowed({ type: "attack", targetUnitId: enemy.id }));
+    // Never plan to end a move on ground that hurts
+    const moveTiles = getValidMoveTiles(state, unit).filter(tile => {
+      const terrain = getTerrain(state, tile.x, tile.z);
+      return (!terrain || TERRAIN_DATA[terrain].turnEndDamage === 0)
+        && this.isAllowed({ type: "move", targetX: tile.x, targetZ: tile.z });
+    });
     const enemyTeam = unit.team === "player1" ? "player2" : "player1";
     const allEnemies = state.units.filter(u => u.team === enemyTeam && u.hp > 0);
     const isMelee = unit.combatStyle === "melee";
@@ -219,16 +269,50 @@ export class AIController implements Controller {
       }
     }
 
-    // === CLASS-SPECIFIC BEHAVIOR ===
-    switch (unit.unitClass) {
-      case "operator":
-        return this.operatorBehavior(state, unit, actionsUsed, enemies, moveTiles, allEnemies, isMelee);
+    // === CLASS-SPECIFIC BEHAVIOR (archetype from the class definition) ===
+    const classAction = this.archetypeBehavior(state, unit, actionsUsed, actionsLeft, enemies, moveTiles, allEnemies, isMelee);
+    if (classAction) {
+      return classAction;
+    }
+
+    // === GENERAL FALLBACK: Nothing else to do - knock down an enemy barricade ===
+    const barricade = getAttackableBarricades(state, unit).find(b => {
+      const owner = state.units.find(u => u.id === b.ownerId);
+      return (!owner || owner.team !== unit.team)
+        && this.isAllowed({ type: "attackBarricade", targetX: b.x, targetZ: b.z });
+    });
+    if (barricade) {
+      return { type: "attackBarricade", targetX: barricade.x, targetZ: barricade.z };
+    }
+
+    return null;
+  }
+
+  private archetypeBehavior(
+    state: BattleState,
+    unit: UnitState,
+    actionsUsed: number,
+    actionsLeft: number,
+    enemies: UnitState[],
+    moveTiles: { x: number; z: number }[],
+    allEnemies: UnitState[],
+    isMelee: boolean
+  ): BattleCommand | null {
+    switch (getClassData(unit.unitClass).aiArchetype) {
+      case "stealth":
+        return this.stealthBehavior(state, unit, actionsUsed, enemies, moveTiles, allEnemies, isMelee);
+
+      case "frontline":
+        return this.frontlineBehavior(state, unit, actionsUsed, enemies, moveTiles, allEnemies, isMelee);
 
-      case "soldier":
-        return this.soldierBehavior(state, unit, actionsUsed, enemies, moveTiles, allEnemies, isMelee);
+      case "support":
+        return this.supportBehavior(state, unit, actionsUsed, actionsLeft, enemies, moveTiles, allEnemies);
 
-      case "medic":
-        return this.medicBehavior(state, unit, actionsUsed, actionsLeft, enemies, moveTiles, allEnemies);
+      case "builder":
+        return this.builderBehavior(state, unit, enemies, moveTiles, allEnemies);
+
+      case "marksman":
+        return this.marksmanBehavior(state, unit, enemies, moveTiles, allEnemies);
 
       default:
         return null;
@@ -243,16 +327,14 @@ export class AIController implements Controller {
     moveTiles: { x: number; z: number }[],
     _allEnemies: UnitState[]
   ): BattleCommand | null {
-    const isMelee = unit.combatStyle === "melee";
-    const damage = isMelee ? unit.attack * 2 : unit.attack; // Melee does 2x damage
-
     // Can kill from current position?
     for (const enemy of currentEnemies) {
+      const damage = calculateDamage(state, unit, enemy);
       if (enemy.hp <= damage) {
         return { type: "attack", targetUnitId: enemy.id };
       }
-      // Can kill with 2 attacks?
-      if (actionsLeft >= 2 && enemy.hp <= damage * 2) {
+      // Can kill with 2 attacks? (an Aim bonus only lands on the first)
+      if (actionsLeft >= 2 && enemy.hp <= damage + calculateDamage(state, { ...unit, statusEffects: unit.statusEffects.filter(e => e.id !== "aim") }, enemy)) {
         return { type: "attack", targetUnitId: enemy.id };
       }
     }
@@ -263,7 +345,7 @@ export class AIController implements Controller {
         const simulatedUnit = { ...unit, gridX: tile.x, gridZ: tile.z };
         const enemiesFromTile = getAttackableEnemies(state, simulatedUnit);
         for (const enemy of enemiesFromTile) {
-          if (enemy.hp <= damage) {
+          if (enemy.hp <= calculateDamage(state, simulatedUnit, enemy)) {
             return { type: "move", targetX: tile.x, targetZ: tile.z };
           }
         }
@@ -273,7 +355,7 @@ export class AIController implements Controller {
     return null;
   }
 
-  private operatorBehavior(
+  private stealthBehavior(
     state: BattleState,
     unit: UnitState,
     _actionsUsed: number,
@@ -282,8 +364,8 @@ export class AIController implements Controller {
     allEnemies: UnitState[],
     isMelee: boolean
   ): BattleCommand | null {
-    // Operator: Get conceal before doing anything else
-    if (!unit.isConcealed) {
+    // Stealth: Get conceal before doing anything else
+    if (!hasStatus(unit, "conceal")) {
       return { type: "conceal" };
     }
 
@@ -324,7 +406,7 @@ export class AIController implements Controller {
     return null;
   }
 
-  private soldierBehavior(
+  private frontlineBehavior(
     state: BattleState,
     unit: UnitState,
     actionsUsed: number,
@@ -333,7 +415,7 @@ export class AIController implements Controller {
     allEnemies: UnitState[],
     isMelee: boolean
   ): BattleCommand | null {
-    // Soldier: attack if possible
+    // Frontline: attack if possible
     if (enemies.length > 0) {
       const target = this.selectAttackTarget(enemies);
       return { type: "attack", targetUnitId: target.id };
@@ -360,19 +442,19 @@ export class AIController implements Controller {
     }
 
     // No target available after first move - use cover
-    if (actionsUsed > 0 && !unit.isCovering) {
+    if (actionsUsed > 0 && !hasStatus(unit, "cover")) {
       return { type: "cover" };
     }
 
     // First action with no good moves - just cover
-    if (!unit.isCovering) {
+    if (!hasStatus(unit, "cover")) {
       return { type: "cover" };
     }
 
     return null;
   }
 
-  private medicBehavior(
+  private supportBehavior(
     state: BattleState,
     unit: UnitState,
     _actionsUsed: number,
@@ -381,7 +463,8 @@ export class AIController implements Controller {
     moveTiles: { x: number; z: number }[],
     allEnemies: UnitState[]
   ): BattleCommand | null {
-    const healTargets = getHealableAllies(state, unit);
+    const healTargets = getHealableAllies(state, unit)
+      .filter(ally => this.isAllowed({ type: "heal", targetUnitId: ally.id }));
     const allAllies = state.units.filter(u => u.team === unit.team && u.hp > 0);
 
     // Check for very injured ally who could benefit from double heal (and we're adjacent)
@@ -437,6 +520,122 @@ export class AIController implements Controller {
     return null;
   }
 
+  private builderBehavior(
+    state: BattleState,
+    unit: UnitState,
+    enemies: UnitState[],
+    moveTiles: { x: number; z: number }[],
+    allEnemies: UnitState[]
+  ): BattleCommand | null {
+    // Builder: attack if possible
+    if (enemies.length > 0) {
+      const target = this.selectAttackTarget(enemies);
+      return { type: "attack", targetUnitId: target.id };
+    }
+
+    // A move that brings an enemy into reach beats hiding
+    if (moveTiles.length > 0 && allEnemies.length > 0) {
+      const attackMove = this.selectMoveForRanged(state, unit, moveTiles, allEnemies);
+      if (attackMove) {
+        return { type: "move", targetX: attackMove.x, targetZ: attackMove.z };
+      }
+    }
+
+    // No targets - wall off the enemies that can shoot us
+    const standing = state.barricades.filter(b => b.ownerId === unit.id).length;
+    if (standing < MAX_BARRICADES_PER_UNIT) {
+      const buildTile = this.selectBarricadeTile(state, unit, allEnemies);
+      if (buildTile) {
+        return { type: "barricade", targetX: buildTile.x, targetZ: buildTile.z };
+      }
+    }
+
+    // Nothing worth blocking - advance
+    if (moveTiles.length > 0 && allEnemies.length > 0) {
+      const bestMove = this.selectMoveTowardEnemy(unit, moveTiles, allEnemies, true);
+      if (bestMove) {
+        return { type: "move", targetX: bestMove.x, targetZ: bestMove.z };
+      }
+    }
+
+    return null;
+  }
+
+  private marksmanBehavior(
+    state: BattleState,
+    unit: UnitState,
+    enemies: UnitState[],
+    moveTiles: { x: number; z: number }[],
+    allEnemies: UnitState[]
+  ): BattleCommand | null {
+    // Marksman: shoot whatever is in reach (two plain shots beat aim + shot)
+    if (enemies.length > 0) {
+      const target = this.selectAttackTarget(enemies);
+      return { type: "attack", targetUnitId: target.id };
+    }
+
+    // No targets - find a firing position
+    if (moveTiles.length > 0 && allEnemies.length > 0) {
+      const bestMove = this.selectMoveForRanged(state, unit, moveTiles, allEnemies);
+      if (bestMove) {
+        return { type: "move", targetX: bestMove.x, targetZ: bestMove.z };
+      }
+    }
+
+    // Nothing in reach - steady the aim for the next target that shows up
+    if (!hasStatus(unit, "aim")) {
+      return { type: "aim" };
+    }
+
+    if (moveTiles.length > 0 && allEnemies.length > 0) {
+      const closeMove = this.selectMoveTowardEnemy(unit, moveTiles, allEnemies, true);
+      if (closeMove) {
+        return { type: "move", targetX: closeMove.x, targetZ: closeMove.z };
+      }
+    }
+
+    return null;
+  }
+
+  /** Buildable tile that cuts off the most enemies able to attack the unit (if any) */
+  private selectBarricadeTile(
+    state: BattleState,
+    unit: UnitState,
+    enemies: UnitState[]
+  ): { x: number; z: number } | null {
+    const countThreats = (s: BattleState) =>
+      enemies.filter(e => getAttackableEnemies(s, e).some(t => t.id === unit.id)).length;
+
+    const currentThreats = countThreats(state);
+    if (currentThreats === 0) return null;
+
+    let bestTile: { x: number; z: number } | null = null;
+    let bestBlocked = 0;
+
+    for (const tile of getBuildableTiles(state, unit)) {
+      if (!this.isAllowed({ type: "barricade", targetX: tile.x, targetZ: tile.z })) continue;
+      const blocked = currentThreats - countThreats(this.withPlannedBarricade(state, unit, tile.x, tile.z));
+      if (blocked > bestBlocked) {
+        bestBlocked = blocked;
+        bestTile = tile;
+      }
+    }
+
+    return bestTile;
+  }
+
+  /** Copy of the state with a barricade standing at (x, z) */
+  private withPlannedBarricade(state: BattleState, unit: UnitState, x: number, z: number): BattleState {
+    return {
+      ...state,
+      terrain: new Map([...state.terrain, [toGridKey(x, z), "wall"]]),
+      barricades: [
+        ...state.barricades,
+        { x, z, hp: BARRICADE_HP, maxHp: BARRICADE_HP, ownerId: unit.id, turnsRemaining: BARRICADE_DURATION_TURNS },
+      ],
+    };
+  }
+
   private selectSafePositionBehindAllies(
     unit: UnitState,
     moveTiles: { x: number; z: number }[],
@@ -567,7 +766,7 @@ export class AIController implements Controller {
   private selectAttackTarget(enemies: UnitState[]): UnitState {
     // Easy: random, Medium: lowest HP, Hard: best tactical choice
     if (this.difficulty === "easy") {
-      return enemies[Math.floor(Math.random() * enemies.length)];
+      return enemies[Math.floor(this.random() * enemies.length)];
     }
 
     // Target lowest HP enemy (finish them off)
@@ -668,15 +867,24 @@ export class AIController implements Controller {
  */
 export type SendCommandFn = (command: BattleCommand) => void;
 
+/** A remote message waiting for the local turn to start */
+type PendingRemoteAction =
+  | { kind: "command"; command: BattleCommand }
+  | { kind: "execute" };
+
 /**
  * Network controller - receives commands from a remote player.
  * Used for online PvP.
+ *
+ * The remote player may finish a turn before this client has played back the
+ * previous one, so anything received outside the turn is held until it starts.
  */
 export class NetworkController implements Controller {
   readonly type = "network" as const;
 
   private currentContext: ControllerContext | null = null;
   private onSendCommand: SendCommandFn | null = null;
+  private pending: PendingRemoteAction[] = [];
 
   /**
    * Set callback for sending commands to remote player.
@@ -689,32 +897,42 @@ export class NetworkController implements Controller {
   onTurnStart(context: ControllerContext): void {
     this.currentContext = context;
     // Network controller waits for commands from remote
-    // Commands come in via receiveCommand()
+    // Commands come in via receiveCommand(); replay any that arrived early
+    this.flushPending();
   }
 
   onTurnEnd(): void {
     this.currentContext = null;
   }
 
+  dispose(): void {
+    this.currentContext = null;
+    this.pending = [];
+  }
+
   /**
    * Receive a command from the remote player.
    * Called by network layer when a command arrives.
+   * Commands that fail validation are dropped; commands that arrive before
+   * the turn starts are queued.
    */
   receiveCommand(command: BattleCommand): boolean {
-    if (!this.currentContext) {
-      console.warn("Received command but it's not this controller's turn");
-      return false;
+    if (!this.currentContext || this.pending.length > 0) {
+      this.pending.push({ kind: "command", command });
+      return true;
     }
-    return this.currentContext.issueCommand(command);
+    return this.issueRemoteCommand(this.currentContext, command);
   }
 
   /**
    * Signal from remote that turn should execute.
    */
   receiveExecute(): void {
-    if (this.currentContext) {
-      this.currentContext.executeTurn();
+    if (!this.currentContext || this.pending.length > 0) {
+      this.pending.push({ kind: "execute" });
+      return;
     }
+    this.executeRemoteTurn(this.currentContext);
   }
 
   /**
@@ -724,6 +942,33 @@ export class NetworkController implements Controller {
   sendCommand(command: BattleCommand): void {
     this.onSendCommand?.(command);
   }
+
+  /** Issue queued remote actions up to and including the next execute */
+  private flushPending(): void {
+    const context = this.currentContext;
+    while (context && this.pending.length > 0) {
+      const action = this.pending.shift()!;
+      if (action.kind === "execute") {
+        this.executeRemoteTurn(context);
+        return;
+      }
+      this.issueRemoteCommand(context, action.command);
+    }
+  }
+
+  private issueRemoteCommand(context: ControllerContext, command: BattleCommand): boolean {
+    const validation = context.validateCommand(command);
+    if (!validation.ok) {
+      console.warn(`Rejected remote ${command.type} (${validation.reason}): ${validation.message}`);
+      return false;
+    }
+    return context.issueCommand(command);
+  }
+
+  private executeRemoteTurn(context: ControllerContext): void {
+    this.currentContext = null;
+    context.executeTurn();
+  }
 }
 
 // =============================================================================
@@ -807,24 +1052,38 @@ export function createLocalPvPControllers(): ControllerManager {
 /** Create controllers for PvE (human vs AI) */
 export function createPvEControllers(
   humanTeam: "player1" | "player2" = "player1",
-  aiDifficulty: AIDifficulty = "medium"
+  aiDifficulty: AIDifficulty = "medium",
+  random: RandomFn = Math.random
 ): ControllerManager {
   const human = new HumanController();
-  const ai = new AIController(aiDifficulty);
+  const ai = new AIController(aiDifficulty, undefined, random);
 
   return humanTeam === "player1"
     ? new ControllerManager(human, ai)
     : new ControllerManager(ai, human);
 }
 
+/** Create controllers for online PvP (local human vs remote player) */
+export function createOnlinePvPControllers(
+  localTeam: "player1" | "player2",
+  remote: NetworkController
+): ControllerManager {
+  const human = new HumanController();
+
+  return localTeam === "player1"
+    ? new ControllerManager(human, remote)
+    : new ControllerManager(remote, human);
+}
+
 /** Create controllers for AI vs AI (simulations) */
 export function createSimulationControllers(
   difficulty1: AIDifficulty = "medium",
   difficulty2: AIDifficulty = "medium",
-  thinkingDelay: number = 100
+  thinkingDelay: number = 100,
+  random: RandomFn = Math.random
 ): ControllerManager {
   return new ControllerManager(
-    new AIController(difficulty1, thinkingDelay),
-    new AIController(difficulty2, thinkingDelay)
+    new AIController(difficulty1, thinkingDelay, random),
+    new AIController(difficulty2, thinkingDelay, random)
   );
 }
@@ -0,0 +1,205 @@
+/**
+ * battle/effects.ts
+ *
+ * Status effects - buffs and debuffs that sit on a unit for a while.
+ * Each effect is defined once here: how long it lasts, what re-applying it
+ * does, and the hooks it reacts to. The reducer and engine only apply, remove
+ * and run hooks; they never special-case an effect's expiry.
+ *
+ * Hooks:
+ * - onTurnStart / onTurnEnd: the holder's turn begins or ends
+ * - beforeDamage: the holder is about to be hit; returns the damage to take
+ * - afterMove: any unit moved (the holder or someone else)
+ * - onRemove: the effect is ending, for cleanup
+ */
+
+import type { StatusEffect, StatusEffectId } from "../types";
+import type { BattleEvent, StatusRemovalReason } from "./events";
+import type { BattleState, UnitState } from "./state";
+import { getStatus, toGridKey } from "./state";
+import { getCoverTiles } from "./rules";
+
+// =============================================================================
+// DEFINITIONS
+// =============================================================================
+
+/** State being changed and the events produced so far */
+export interface EffectContext {
+  state: BattleState;
+  events: BattleEvent[];
+}
+
+/**
+ * What applying an effect the unit already has does:
+ * ignore it, restart the duration, or add a stack and restart the duration.
+ */
+export type StatusStacking = "ignore" | "refresh" | "stack";
+
+/** Rules for one status effect */
+export interface StatusEffectDefinition {
+  /** Shown on the unit's status line */
+  name: string;
+  stacking: StatusStacking;
+  /** Holder's turns it lasts, or null until something removes it */
+  duration: number | null;
+  onTurnStart?(ctx: EffectContext, unit: UnitState, effect: StatusEffect): void;
+  onTurnEnd?(ctx: EffectContext, unit: UnitState, effect: StatusEffect): void;
+  beforeDamage?(ctx: EffectContext, unit: UnitState, effect: StatusEffect, damage: number, attacker: UnitState): number;
+  afterMove?(ctx: EffectContext, unit: UnitState, effect: StatusEffect, mover: UnitState): void;
+  onRemove?(ctx: EffectContext, unit: UnitState, effect: StatusEffect, reason: StatusRemovalReason): void;
+}
+
+export const STATUS_EFFECTS: Record<StatusEffectId, StatusEffectDefinition> = {
+  // Negates the next hit; concealed units also slip past enemy Cover
+  conceal: {
+    name: "Concealed",
+    stacking: "ignore",
+    duration: null,
+    beforeDamage(ctx, unit) {
+      removeStatus(ctx, unit, "conceal", "consumed");
+      return 0;
+    },
+  },
+
+  // Reaction fire on enemies ending an action in the covered tiles, until the
+  // holder's next turn or until it is hit
+  cover: {
+    name: "Covering",
+    stacking: "ignore",
+    duration: 1,
+    beforeDamage(ctx, unit, _effect, damage) {
+      if (damage > 0) removeStatus(ctx, unit, "cover", "hit");
+      return damage;
+    },
+    afterMove(ctx, unit) {
+      updateCoverTiles(ctx, unit);
+    },
+    onRemove(_ctx, unit) {
+      unit.coveredTiles = [];
+    },
+  },
+
+  // Bonus damage on the next attack (see rules.ts)
+  aim: {
+    name: "Aiming",
+    stacking: "ignore",
+    duration: null,
+  },
+};
+
+// =============================================================================
+// APPLYING AND REMOVING
+// =============================================================================
+
+/**
+ * Apply an effect, following its stacking rule.
+ * Returns false if the unit already had it and the effect ignores re-applying.
+ */
+export function applyStatus(ctx: EffectContext, unit: UnitState, id: StatusEffectId, sourceId: string): boolean {
+  const definition = STATUS_EFFECTS[id];
+  let effect = getStatus(unit, id);
+
+  if (effect) {
+    if (definition.stacking === "ignore") return false;
+    if (definition.stacking === "stack") effect.stacks++;
+    effect.turnsRemaining = definition.duration;
+  } else {
+    effect = { id, sourceId, turnsRemaining: definition.duration, stacks: 1 };
+    unit.statusEffects.push(effect);
+  }
+
+  ctx.events.push({
+    type: "statusApplied",
+    unitId: unit.id,
+    effectId: id,
+    sourceId: effect.sourceId,
+    turnsRemaining: effect.turnsRemaining,
+    stacks: effect.stacks,
+  });
+  return true;
+}
+
+/** Remove an effect if the unit has it. Returns true if it was removed. */
+export function removeStatus(ctx: EffectContext, unit: UnitState, id: StatusEffectId, reason: StatusRemovalReason): boolean {
+  const effect = getStatus(unit, id);
+  if (!effect) return false;
+
+  unit.statusEffects = unit.statusEffects.filter(e => e !== effect);
+  STATUS_EFFECTS[id].onRemove?.(ctx, unit, effect, reason);
+  ctx.events.push({ type: "statusRemoved", unitId: unit.id, effectId: id, reason });
+  return true;
+}
+
+// =============================================================================
+// HOOKS
+// =============================================================================
+
+/**
+ * The holder's turn begins: run onTurnStart hooks, then count durations down.
+ * An effect that reaches 0 expires, so a 1-turn effect lasts until the
+ * holder's next turn.
+ */
+export function startTurnEffects(ctx: EffectContext, unit: UnitState): void {
+  for (const effect of [...unit.statusEffects]) {
+    STATUS_EFFECTS[effect.id].onTurnStart?.(ctx, unit, effect);
+  }
+  for (const effect of [...unit.statusEffects]) {
+    if (effect.turnsRemaining === null) continue;
+    effect.turnsRemaining--;
+    if (effect.turnsRemaining <= 0) removeStatus(ctx, unit, effect.id, "expired");
+  }
+}
+
+/** The holder's turn ends */
+export function endTurnEffects(ctx: EffectContext, unit: UnitState): void {
+  for (const effect of [...unit.statusEffects]) {
+    STATUS_EFFECTS[effect.id].onTurnEnd?.(ctx, unit, effect);
+  }
+}
+
+/**
+ * Pass incoming damage through the defender's effects in the order they were
+ * applied. Once an effect absorbs the whole hit, the rest don't see it.
+ */
+export function applyBeforeDamageEffects(
+  ctx: EffectContext,
+  defender: UnitState,
+  attacker: UnitState,
+  damage: number
+): number {
+  let remaining = damage;
+  for (const effect of [...defender.statusEffects]) {
+    if (remaining <= 0) break;
+    const hook = STATUS_EFFECTS[effect.id].beforeDamage;
+    if (hook) remaining = Math.max(0, hook(ctx, defender, effect, remaining, attacker));
+  }
+  return remaining;
+}
+
+/** A unit moved: every living unit's effects get to react */
+export function applyAfterMoveEffects(ctx: EffectContext, mover: UnitState): void {
+  for (const unit of ctx.state.units) {
+    if (unit.hp <= 0) continue;
+    for (const effect of [...unit.statusEffects]) {
+      STATUS_EFFECTS[effect.id].afterMove?.(ctx, unit, effect, mover);
+    }
+  }
+}
+
+// =============================================================================
+// COVER TILES
+// =============================================================================
+
+/** Set a covering unit's tiles from where it stands (or from the given tile) */
+export function updateCoverTiles(ctx: EffectContext, unit: UnitState, fromX?: number, fromZ?: number): void {
+  const tiles = getCoverTiles(ctx.state, unit, fromX, fromZ);
+  unit.coveredTiles = tiles.map(t => toGridKey(t.x, t.z));
+  ctx.events.push({ type: "coverUpdated", unitId: unit.id, tiles });
+}
+
+/** Recompute covered tiles for every covering unit (line of sight changed) */
+export function refreshCoverTiles(ctx: EffectContext): void {
+  for (const unit of ctx.state.units) {
+    if (unit.hp > 0 && getStatus(unit, "cover")) updateCoverTiles(ctx, unit);
+  }
+}
@@ -0,0 +1,192 @@
+/**
+ * The engine's turn loop, run headlessly: the action economy, the order a
+ * turn resolves in, Cover interrupts, forfeits and whole AI battles.
+ */
+
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { Team } from "../types";
+import { ACTIONS_PER_TURN, ALL_CLASSES, getClassData } from "../config";
+import { createCoverCommand, createMoveCommand } from "./commands";
+import { AIController, ControllerManager } from "./controllers";
+import { BattleEngine, attachControllers } from "./engine";
+import type { BattleEvent, TurnResolvedEvent } from "./events";
+import { createSeededRandom } from "./random";
+import { getSpawnPositions } from "./spawn";
+import type { BattleState, GridPosition, UnitState } from "./state";
+import { createBattleState, getUnit } from "./state";
+
+function makeUnit(team: Team, index: number, unitClass: string, at: GridPosition): UnitState {
+  const data = getClassData(unitClass);
+  return {
+    id: `${team}-${index}`,
+    unitClass,
+    team,
+    gridX: at.x,
+    gridZ: at.z,
+    hp: data.hp,
+    maxHp: data.hp,
+    attack: data.attack,
+    healAmount: data.healAmount,
+    moveRange: data.moveRange,
+    attackRange: data.attackRange,
+    minRange: data.minRange,
+    combatStyle: "ranged",
+    speed: 1,
+    speedBonus: 0,
+    accumulator: 0,
+    loadoutIndex: index,
+    statusEffects: [],
+    coveredTiles: [],
+    actionsUsed: 0,
+  };
+}
+
+/** Two ranged soldiers in opposite corners of an empty 6x6 field; player1-0 acts first */
+function createDuel(): BattleState {
+  const state = createBattleState(6);
+  state.units.push(
+    makeUnit("player1", 0, "soldier", { x: 0, z: 0 }),
+    makeUnit("player2", 0, "soldier", { x: 5, z: 5 }),
+  );
+  return state;
+}
+
+function startEngine(state: BattleState): { engine: BattleEngine; events: BattleEvent[] } {
+  const engine = new BattleEngine(state);
+  const events: BattleEvent[] = [];
+  engine.subscribe(event => events.push(event));
+  engine.start();
+  return { engine, events };
+}
+
+describe("BattleEngine", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("starts with the first unit of the opening round", () => {
+    const { engine, events } = startEngine(createDuel());
+    expect(engine.getCurrentUnit()?.id).toBe("player1-0");
+    expect(engine.getActionsRemaining()).toBe(ACTIONS_PER_TURN);
+    expect(events).toEqual([{ type: "turnStarted", unitId: "player1-0" }]);
+  });
+
+  it("refuses commands past ACTIONS_PER_TURN and refunds undone ones", () => {
+    const { engine, events } = startEngine(createDuel());
+    const moves = [createMoveCommand(1, 0), createMoveCommand(2, 0), createMoveCommand(3, 0)];
+
+    for (const move of moves.slice(0, ACTIONS_PER_TURN)) {
+      expect(engine.issueCommand(move)).toBe(true);
+    }
+    expect(engine.getActionsRemaining()).toBe(0);
+
+    const extra = moves[ACTIONS_PER_TURN];
+    expect(engine.validateCommand(extra)).toMatchObject({ ok: false, reason: "noActionsLeft" });
+    expect(engine.issueCommand(extra)).toBe(false);
+    expect(events[events.length - 1]).toMatchObject({ type: "commandRejected", unitId: "player1-0", reason: "noActionsLeft" });
+    expect(engine.getQueuedCommands()).toHaveLength(ACTIONS_PER_TURN);
+
+    expect(engine.undoLastCommand()).toEqual(moves[ACTIONS_PER_TURN - 1]);
+    expect(engine.getActionsRemaining()).toBe(1);
+    expect(engine.issueCommand(extra)).toBe(true);
+  });
+
+  it("resolves the commands, ends the turn, reports it resolved and then starts the next", () => {
+    const { engine, events } = startEngine(createDuel());
+    engine.issueCommand(createMoveCommand(1, 0));
+    events.length = 0;
+
+    engine.executeTurn();
+
+    expect(events.map(e => e.type)).toEqual([
+      "commandsExecuted",
+      "unitMoved",
+      "turnEnded",
+      "turnResolved",
+      "turnStarted",
+    ]);
+    const resolved = events.find((e): e is TurnResolvedEvent => e.type === "turnResolved");
+    expect(resolved).toMatchObject({ unitId: "player1-0", turn: 1 });
+    expect(getUnit(resolved!.state, "player1-0")).toMatchObject({ gridX: 1, gridZ: 0 });
+    expect(events[events.length - 1]).toEqual({ type: "turnStarted", unitId: "player2-0" });
+    expect(engine.getQueuedCommands()).toHaveLength(0);
+  });
+
+  it("stops a turn's remaining commands when a Cover reaction interrupts it", () => {
+    const { engine, events } = startEngine(createDuel());
+    engine.executeTurn(); // player1-0 waits
+
+    expect(engine.issueCommand(createCoverCommand())).toBe(true); // player2-0
+    engine.executeTurn();
+    expect(engine.getCurrentUnit()?.id).toBe("player1-0");
+    events.length = 0;
+
+    // (1,1) is within the covering soldier's range; the move on to (0,1) never happens
+    expect(engine.issueCommand(createMoveCommand(1, 1))).toBe(true);
+    expect(engine.issueCommand(createMoveCommand(0, 1))).toBe(true);
+    engine.executeTurn();
+
+    const types = events.map(e => e.type);
+    expect(events).toContainEqual({ type: "coverTriggered", unitId: "player2-0", targetId: "player1-0" });
+    expect(types.filter(t => t === "unitMoved")).toHaveLength(1);
+    expect(types.indexOf("coverTriggered")).toBeLessThan(types.indexOf("turnEnded"));
+
+    const state = engine.getState();
+    const mover = getUnit(state, "player1-0")!;
+    expect(mover).toMatchObject({ gridX: 1, gridZ: 1 });
+    expect(mover.hp).toBeLessThan(mover.maxHp);
+    expect(getUnit(state, "player2-0")!.statusEffects.some(e => e.id === "cover")).toBe(false);
+  });
+
+  it("ends the battle when a team forfeits", () => {
+    const { engine, events } = startEngine(createDuel());
+    engine.issueCommand(createMoveCommand(1, 0));
+
+    engine.forfeit("player1");
+
+    expect(engine.isGameOver()).toBe(true);
+    expect(engine.getState()).toMatchObject({ winner: "player2", currentUnitId: null });
+    expect(events[events.length - 1]).toEqual({ type: "gameOver", winner: "player2", reason: "forfeit" });
+    expect(engine.getQueuedCommands()).toHaveLength(0);
+    expect(engine.validateCommand(createMoveCommand(2, 0))).toMatchObject({ ok: false, reason: "gameOver" });
+
+    // Nothing happens after the end
+    const count = events.length;
+    engine.forfeit("player2");
+    engine.executeTurn();
+    expect(events).toHaveLength(count);
+  });
+
+  it("plays a seeded AI-vs-AI battle through to a winner", () => {
+    vi.useFakeTimers();
+    const state = createBattleState(8);
+    const spawns = {
+      player1: getSpawnPositions("player1", 4, 8, 8),
+      player2: getSpawnPositions("player2", 4, 8, 8),
+    };
+    for (let i = 0; i < 4; i++) {
+      state.units.push(makeUnit("player1", i, ALL_CLASSES[i % ALL_CLASSES.length], spawns.player1[i]));
+      state.units.push(makeUnit("player2", i, ALL_CLASSES[(i + 1) % ALL_CLASSES.length], spawns.player2[i]));
+    }
+
+    const engine = new BattleEngine(state);
+    const manager = new ControllerManager(
+      new AIController("hard", 0, createSeededRandom(7)),
+      new AIController("hard", 0, createSeededRandom(8))
+    );
+    attachControllers(engine, manager);
+    let rejected = 0;
+    engine.subscribe(event => {
+      if (event.type === "commandRejected") rejected++;
+    });
+
+    engine.start();
+    vi.runAllTimers();
+
+    const final = engine.getState();
+    expect(final.isGameOver).toBe(true);
+    expect(final.winner).not.toBeNull();
+    expect(final.units.filter(u => u.team !== final.winner).every(u => u.hp <= 0)).toBe(true);
+    expect(rejected).toBe(0);
+  });
+});
@@ -0,0 +1,384 @@
+/**
+ * battle/engine.ts
+ *
+ * Headless battle engine - owns the authoritative turn loop.
+ * Accepts a stream of BattleCommands, enforces the action economy, resolves
+ * them through the reducer, advances initiative and emits BattleEvents.
+ * Renderers (BattleScene) and controllers subscribe; nothing here touches Babylon.js.
+ */
+
+import type { Team } from "../types";
+import { TERRAIN_DATA } from "../types";
+import type { BattleCommand } from "./commands";
+import type { BattleEvent, BattleEventListener } from "./events";
+import type { ControllerContext, ControllerManager } from "./controllers";
+import type { BattleState, UnitState } from "./state";
+import type { CommandValidation } from "./validation";
+import { CommandQueue } from "./commands";
+import { validateCommand } from "./validation";
+import { cloneBattleState, getUnit, getCurrentUnit, getTerrain, toGridKey } from "./state";
+import { applyDamage, buildFirstRoundQueue, checkWinCondition, getNextUnitByAccumulator } from "./rules";
+import { applyCommands } from "./reducer";
+import type { EffectContext } from "./effects";
+import { startTurnEffects, endTurnEffects, refreshCoverTiles } from "./effects";
+import { ACTIONS_PER_TURN, SPEED_BONUS_PER_UNUSED_ACTION } from "../config";
+
+// =============================================================================
+// BATTLE ENGINE
+// =============================================================================
+
+/**
+ * Runs a battle from an initial state.
+ * All state changes happen synchronously; listeners receive events in order
+ * and may animate them at their own pace.
+ */
+export class BattleEngine {
+  private state: BattleState;
+  private queue = new CommandQueue();
+  private listeners: BattleEventListener[] = [];
+  private pendingEvents: BattleEvent[] = [];
+  private isDispatching = false;
+  private started = false;
+  private executedTurns = 0;
+
+  constructor(initialState: BattleState) {
+    this.state = cloneBattleState(initialState);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Queries
+  // ---------------------------------------------------------------------------
+
+  /** Snapshot of the current state (safe to mutate) */
+  getState(): BattleState {
+    return cloneBattleState(this.state);
+  }
+
+  /** The unit whose turn it is */
+  getCurrentUnit(): UnitState | undefined {
+    const unit = getCurrentUnit(this.state);
+    return unit
+      ? { ...unit, statusEffects: unit.statusEffects.map(e => ({ ...e })), coveredTiles: [...unit.coveredTiles] }
+      : undefined;
+  }
+
+  /** Commands queued for the current turn */
+  getQueuedCommands(): readonly BattleCommand[] {
+    return this.queue.getCommands();
+  }
+
+  /** Actions the current unit can still queue */
+  getActionsRemaining(): number {
+    return this.state.actionsRemaining;
+  }
+
+  isGameOver(): boolean {
+    return this.state.isGameOver;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Subscriptions
+  // ---------------------------------------------------------------------------
+
+  /** Subscribe to battle events. Returns an unsubscribe function. */
+  subscribe(listener: BattleEventListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Turn loop
+  // ---------------------------------------------------------------------------
+
+  /** Build the opening round and start the first turn */
+  start(): void {
+    if (this.started) return;
+    this.started = true;
+    this.state.firstRoundQueue = buildFirstRoundQueue(this.state);
+    this.advanceTurn();
+  }
+
+  /** Check a command for the current unit against the rules and its queued commands */
+  validateCommand(command: BattleCommand): CommandValidation {
+    const unitId = this.state.currentUnitId;
+    if (unitId === null) {
+      return { ok: false, reason: this.state.isGameOver ? "gameOver" : "notCurrentUnit", message: "No active turn" };
+    }
+    return validateCommand(this.state, unitId, command, this.queue.getCommands());
+  }
+
+  /**
+   * Queue a command for the current unit.
+   * Returns false (and emits commandRejected) if the command fails validation.
+   */
+  issueCommand(command: BattleCommand): boolean {
+    const unit = getCurrentUnit(this.state);
+    const validation = this.validateCommand(command);
+    if (!validation.ok) {
+      this.emit({
+        type: "commandRejected",
+        unitId: unit?.id ?? null,
+        command,
+        reason: validation.reason,
+        message: validation.message,
+      });
+      return false;
+    }
+    if (!unit) return false;
+
+    this.queue.enqueue(command);
+    this.state.actionsRemaining--;
+    unit.actionsUsed++;
+    this.emit({ type: "commandQueued", unitId: unit.id, command });
+    return true;
+  }
+
+  /** Remove the last queued command, refunding its action */
+  undoLastCommand(): BattleCommand | undefined {
+    const unit = getCurrentUnit(this.state);
+    if (!unit) return undefined;
+
+    const command = this.queue.pop();
+    if (!command) return undefined;
+
+    this.state.actionsRemaining++;
+    unit.actionsUsed--;
+    this.emit({ type: "commandUndone", unitId: unit.id, command });
+    return command;
+  }
+
+  /** Discard all queued commands, refunding every action */
+  clearQueue(): void {
+    const unit = getCurrentUnit(this.state);
+    if (!unit) return;
+
+    this.queue.clear();
+    this.state.actionsRemaining = ACTIONS_PER_TURN;
+    unit.actionsUsed = 0;
+    this.emit({ type: "queueCleared", unitId: unit.id });
+  }
+
+  /**
+   * Resolve the queued commands in order, then end the turn and start the next.
+   * A Cover reaction interrupts the remaining commands.
+   * turnResolved is emitted in between with a snapshot of the settled state.
+   */
+  executeTurn(): void {
+    const unitId = this.state.currentUnitId;
+    if (unitId === null || this.state.isGameOver) return;
+
+    const commands = [...this.queue.getCommands()];
+    this.queue.clear();
+    this.emit({ type: "commandsExecuted", unitId, commands });
+
+    const result = applyCommands(this.state, commands);
+    this.state = result.state;
+    for (const event of result.events) {
+      this.emit(event);
+    }
+
+    const unit = getUnit(this.state, unitId);
+    if (unit && !this.state.isGameOver) this.endTurn(unit);
+
+    this.executedTurns++;
+    this.emit({ type: "turnResolved", unitId, turn: this.executedTurns, state: cloneBattleState(this.state) });
+
+    if (!this.state.isGameOver) this.advanceTurn();
+  }
+
+  /** End the battle with the given team conceding */
+  forfeit(team: Team): void {
+    if (this.state.isGameOver) return;
+    const winner: Team = team === "player1" ? "player2" : "player1";
+    this.finishGame(winner, "forfeit");
+  }
+
+  // ---------------------------------------------------------------------------
+  // Turn sequencing
+  // ---------------------------------------------------------------------------
+
+  private advanceTurn(): void {
+    const next = this.takeNextUnit();
+    if (!next) {
+      this.state.currentUnitId = null;
+      return;
+    }
+    this.startTurn(next);
+  }
+
+  /** Opening round queue first, then the accumulator */
+  private takeNextUnit(): UnitState | null {
+    while (this.state.firstRoundQueue.length > 0) {
+      const unit = getUnit(this.state, this.state.firstRoundQueue.shift()!);
+      if (unit && unit.hp > 0) return unit;
+    }
+    return getNextUnitByAccumulator(this.state);
+  }
+
+  private startTurn(unit: UnitState): void {
+    this.applyEffects(ctx => startTurnEffects(ctx, unit));
+    this.ageBarricades(unit);
+
+    this.state.currentUnitId = unit.id;
+    this.state.actionsRemaining = ACTIONS_PER_TURN;
+    this.state.pendingActions = [];
+    this.state.originalPosition = { x: unit.gridX, z: unit.gridZ };
+    this.queue.clear();
+
+    // Speed bonus is spent once the turn it earned has arrived
+    unit.accumulator = 0;
+    unit.speedBonus = 0;
+    unit.actionsUsed = 0;
+
+    this.emit({ type: "turnStarted", unitId: unit.id });
+  }
+
+  private endTurn(unit: UnitState): void {
+    this.applyEffects(ctx => endTurnEffects(ctx, unit));
+    this.applyTerrainDamage(unit);
+    if (this.state.isGameOver) return;
+
+    unit.speedBonus = this.state.actionsRemaining * SPEED_BONUS_PER_UNUSED_ACTION;
+    unit.actionsUsed = 0;
+
+    this.state.lastActingTeam = unit.team;
+    this.state.currentUnitId = null;
+    this.state.actionsRemaining = 0;
+    this.state.originalPosition = null;
+
+    this.emit({ type: "turnEnded", unitId: unit.id, speedBonus: unit.speedBonus });
+  }
+
+  // ---------------------------------------------------------------------------
+  // State changes outside command resolution
+  // ---------------------------------------------------------------------------
+
+  /** Run status effect changes against the live state and emit what they produce */
+  private applyEffects(change: (ctx: EffectContext) => void): void {
+    const ctx: EffectContext = { state: this.state, events: [] };
+    change(ctx);
+    for (const event of ctx.events) {
+      this.emit(event);
+    }
+  }
+
+  /** A unit ending its turn on hazardous ground takes damage (and may die of it) */
+  private applyTerrainDamage(unit: UnitState): void {
+    const terrain = getTerrain(this.state, unit.gridX, unit.gridZ);
+    const damage = terrain ? TERRAIN_DATA[terrain].turnEndDamage : 0;
+    if (!terrain || damage <= 0 || unit.hp <= 0) return;
+
+    const died = applyDamage(unit, damage);
+    this.emit({ type: "terrainDamage", unitId: unit.id, terrain, amount: damage, hp: unit.hp });
+    if (!died) return;
+
+    this.state.firstRoundQueue = this.state.firstRoundQueue.filter(id => id !== unit.id);
+    this.emit({ type: "unitDied", unitId: unit.id });
+    const result = checkWinCondition(this.state);
+    if (result.isOver) this.finishGame(result.winner, "elimination");
+  }
+
+  /**
+   * A unit's barricades age by one of its turns; those out of turns crumble.
+   * A fallen builder's barricades stand until they are destroyed.
+   */
+  private ageBarricades(unit: UnitState): void {
+    for (const barricade of this.state.barricades) {
+      if (barricade.ownerId === unit.id) barricade.turnsRemaining--;
+    }
+    const expired = this.state.barricades.filter(b => b.turnsRemaining <= 0);
+    if (expired.length === 0) return;
+
+    this.state.barricades = this.state.barricades.filter(b => !expired.includes(b));
+    for (const barricade of expired) {
+      this.state.terrain.delete(toGridKey(barricade.x, barricade.z));
+      this.emit({ type: "barricadeRemoved", x: barricade.x, z: barricade.z, reason: "expired" });
+    }
+
+    // Line of sight opened up, so covered tiles may have changed
+    this.applyEffects(refreshCoverTiles);
+  }
+
+  private finishGame(winner: Team | null, reason: "elimination" | "forfeit"): void {
+    this.state.isGameOver = true;
+    this.state.winner = winner;
+    this.state.currentUnitId = null;
+    this.queue.clear();
+    this.emit({ type: "gameOver", winner, reason });
+  }
+
+  // ---------------------------------------------------------------------------
+  // Event dispatch
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Events raised while listeners are running (e.g. a controller acting
+   * synchronously on turnStarted) are queued so every listener sees them in order.
+   */
+  private emit(event: BattleEvent): void {
+    this.pendingEvents.push(event);
+    if (this.isDispatching) return;
+
+    this.isDispatching = true;
+    try {
+      while (this.pendingEvents.length > 0) {
+        const next = this.pendingEvents.shift()!;
+        for (const listener of [...this.listeners]) {
+          listener(next);
+        }
+      }
+    } finally {
+      this.isDispatching = false;
+    }
+  }
+}
+
+// =============================================================================
+// CONTROLLER WIRING
+// =============================================================================
+
+/**
+ * Build a ControllerContext for the engine's current turn.
+ * The context state is a snapshot; `unit` is that snapshot's entry for the acting unit.
+ */
+export function createEngineControllerContext(engine: BattleEngine): ControllerContext | null {
+  const state = engine.getState();
+  const unit = getCurrentUnit(state);
+  if (!unit) return null;
+
+  return {
+    state,
+    unit,
+    actionsRemaining: engine.getActionsRemaining(),
+    issueCommand: (command) => engine.issueCommand(command),
+    validateCommand: (command) => engine.validateCommand(command),
+    executeTurn: () => engine.executeTurn(),
+    undoLastCommand: () => { engine.undoLastCommand(); },
+  };
+}
+
+/**
+ * Drive an engine with a ControllerManager (headless play and simulations).
+ * Returns an unsubscribe function.
+ */
+export function attachControllers(engine: BattleEngine, manager: ControllerManager): () => void {
+  return engine.subscribe((event) => {
+    switch (event.type) {
+      case "turnStarted": {
+        const context = createEngineControllerContext(engine);
+        if (context) manager.notifyTurnStart(context.unit.team, context);
+        break;
+      }
+      case "turnEnded": {
+        const unit = getUnit(engine.getState(), event.unitId);
+        if (unit) manager.notifyTurnEnd(unit.team);
+        break;
+      }
+      case "gameOver":
+        manager.notifyGameEnd(event.winner);
+        break;
+    }
+  });
+}
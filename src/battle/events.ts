@@ -0,0 +1,240 @@
+/**
+ * battle/events.ts
+ *
+ * Events emitted by the battle engine as the game progresses.
+ * Events are pure data - renderers, network sync and logs subscribe to them
+ * instead of inspecting state after every change.
+ */
+
+import type { StatusEffectId, TerrainType, Team } from "../types";
+import type { BattleCommand } from "./commands";
+import type { BattleState, GridPosition } from "./state";
+import type { CommandRejectionReason } from "./validation";
+
+// =============================================================================
+// TURN EVENTS
+// =============================================================================
+
+/** A unit's turn has begun */
+export interface TurnStartedEvent {
+  type: "turnStarted";
+  unitId: string;
+}
+
+/** A unit's turn has ended (speed bonus earned from unused actions) */
+export interface TurnEndedEvent {
+  type: "turnEnded";
+  unitId: string;
+  speedBonus: number;
+}
+
+/**
+ * An executed turn has fully resolved, before the next unit starts.
+ * `turn` counts executed turns from 1. Two engines fed the same commands hold
+ * equal states here, which makes it the point to compare them.
+ */
+export interface TurnResolvedEvent {
+  type: "turnResolved";
+  unitId: string;
+  turn: number;
+  /** Snapshot of the settled state */
+  state: BattleState;
+}
+
+/** A command was accepted into the current unit's queue */
+export interface CommandQueuedEvent {
+  type: "commandQueued";
+  unitId: string;
+  command: BattleCommand;
+}
+
+/** A command failed validation and was not queued */
+export interface CommandRejectedEvent {
+  type: "commandRejected";
+  /** Acting unit, or null if no turn was active */
+  unitId: string | null;
+  command: BattleCommand;
+  reason: CommandRejectionReason;
+  message: string;
+}
+
+/** The last queued command was removed */
+export interface CommandUndoneEvent {
+  type: "commandUndone";
+  unitId: string;
+  command: BattleCommand;
+}
+
+/** The current unit's queued commands are being resolved (outcomes follow) */
+export interface CommandsExecutedEvent {
+  type: "commandsExecuted";
+  unitId: string;
+  commands: BattleCommand[];
+}
+
+/** All queued commands were discarded */
+export interface QueueClearedEvent {
+  type: "queueCleared";
+  unitId: string;
+}
+
+// =============================================================================
+// ACTION EVENTS
+// =============================================================================
+
+/** A unit moved along a path (path includes start and end tiles) */
+export interface UnitMovedEvent {
+  type: "unitMoved";
+  unitId: string;
+  path: GridPosition[];
+}
+
+/** A unit attacked another (outcome follows as separate events) */
+export interface AttackPerformedEvent {
+  type: "attackPerformed";
+  attackerId: string;
+  targetId: string;
+  /** True when the attack is a Cover reaction rather than a queued command */
+  isReaction: boolean;
+}
+
+/** Damage applied to a unit */
+export interface DamageDealtEvent {
+  type: "damageDealt";
+  attackerId: string;
+  targetId: string;
+  amount: number;
+  /** Target HP after damage */
+  hp: number;
+}
+
+/** A unit ended its turn on terrain that hurts (unitDied follows if it was lethal) */
+export interface TerrainDamageEvent {
+  type: "terrainDamage";
+  unitId: string;
+  terrain: TerrainType;
+  amount: number;
+  /** Unit HP after damage */
+  hp: number;
+}
+
+/** A unit was reduced to 0 HP */
+export interface UnitDiedEvent {
+  type: "unitDied";
+  unitId: string;
+}
+
+/** A unit healed itself or an ally */
+export interface UnitHealedEvent {
+  type: "unitHealed";
+  healerId: string;
+  targetId: string;
+  amount: number;
+  /** Target HP after healing */
+  hp: number;
+}
+
+/** A status effect was applied, or re-applied (refreshed or stacked) */
+export interface StatusAppliedEvent {
+  type: "statusApplied";
+  unitId: string;
+  effectId: StatusEffectId;
+  sourceId: string;
+  turnsRemaining: number | null;
+  stacks: number;
+}
+
+/**
+ * Why a status effect ended.
+ * "consumed": it did its job (Conceal absorbed a hit, Aim was fired);
+ * "hit"/"triggered": Cover broke from a hit or after its reaction shot.
+ */
+export type StatusRemovalReason = "expired" | "consumed" | "hit" | "triggered";
+
+/** A status effect ended */
+export interface StatusRemovedEvent {
+  type: "statusRemoved";
+  unitId: string;
+  effectId: StatusEffectId;
+  reason: StatusRemovalReason;
+}
+
+/** A covering unit's tiles were set or changed because something moved */
+export interface CoverUpdatedEvent {
+  type: "coverUpdated";
+  unitId: string;
+  tiles: GridPosition[];
+}
+
+/** An enemy entered a covered tile and provoked a reaction attack */
+export interface CoverTriggeredEvent {
+  type: "coverTriggered";
+  unitId: string;
+  targetId: string;
+}
+
+/** A unit built a barricade */
+export interface BarricadeBuiltEvent {
+  type: "barricadeBuilt";
+  unitId: string;
+  x: number;
+  z: number;
+  hp: number;
+}
+
+/** A unit attacked a barricade */
+export interface BarricadeDamagedEvent {
+  type: "barricadeDamaged";
+  attackerId: string;
+  x: number;
+  z: number;
+  amount: number;
+  /** Barricade HP after damage */
+  hp: number;
+}
+
+/** Why a barricade came down */
+export type BarricadeRemovalReason = "destroyed" | "expired";
+
+/** A barricade was destroyed or crumbled with age */
+export interface BarricadeRemovedEvent {
+  type: "barricadeRemoved";
+  x: number;
+  z: number;
+  reason: BarricadeRemovalReason;
+}
+
+/** The battle ended (winner is null for a draw) */
+export interface GameOverEvent {
+  type: "gameOver";
+  winner: Team | null;
+  reason: "elimination" | "forfeit";
+}
+
+/** Union of all battle events */
+export type BattleEvent =
+  | TurnStartedEvent
+  | TurnEndedEvent
+  | TurnResolvedEvent
+  | CommandQueuedEvent
+  | CommandRejectedEvent
+  | CommandUndoneEvent
+  | QueueClearedEvent
+  | CommandsExecutedEvent
+  | UnitMovedEvent
+  | AttackPerformedEvent
+  | DamageDealtEvent
+  | TerrainDamageEvent
+  | UnitDiedEvent
+  | UnitHealedEvent
+  | StatusAppliedEvent
+  | StatusRemovedEvent
+  | CoverUpdatedEvent
+  | CoverTriggeredEvent
+  | BarricadeBuiltEvent
+  | BarricadeDamagedEvent
+  | BarricadeRemovedEvent
+  | GameOverEvent;
+
+/** Subscriber callback for battle events */
+export type BattleEventListener = (event: BattleEvent) => void;
@@ -0,0 +1,392 @@
+/**
+ * Parity between what BattleScene highlights, what the validator accepts and
+ * what the AI issues. The scene is stood in for by plain units and a turn
+ * kept in step with the engine the way BattleScene does it; highlights come
+ * from extractBattleState() and the same rule functions its wrappers call.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { MapStyle, Team } from "../types";
+import { ALL_CLASSES, getClassData } from "../config";
+import type { BattleCommand } from "./commands";
+import { createCoverCommand, createMoveCommand } from "./commands";
+import type { ControllerContext } from "./controllers";
+import { AIController } from "./controllers";
+import { BattleEngine } from "./engine";
+import {
+  extractBattleState,
+  extractUnitState,
+  getHighlightedBuildTiles,
+  getHighlightedHealTargets,
+} from "./extract";
+import type { SceneSnapshot, SceneTurn, SceneUnit } from "./extract";
+import { MAP_GENERATORS, generateMap } from "./mapgen";
+import { createSeededRandom } from "./random";
+import { getAttackableBarricades, getAttackableEnemies, getCoverTiles, getValidMoveTiles } from "./rules";
+import { getSpawnPositions } from "./spawn";
+import type { BattleState, GridPosition, UnitState } from "./state";
+import { createBattleState, hasStatus, isInBounds, toGridKey } from "./state";
+
+// =============================================================================
+// SCENE STAND-IN
+// =============================================================================
+
+/** The scene's side of a turn: its units, the turn being planned and the shadow of a queued move */
+interface FakeScene {
+  snapshot: SceneSnapshot & { units: SceneUnit[]; turnState: SceneTurn };
+  shadow: GridPosition | null;
+}
+
+/** Tiles, unit ids and barricades a player can pick, as sorted keys */
+interface Targets {
+  move: string[];
+  attack: string[];
+  heal: string[];
+  build: string[];
+  barricades: string[];
+}
+
+function makeUnitState(team: Team, index: number, unitClass: string, at: GridPosition, melee: boolean): UnitState {
+  const data = getClassData(unitClass);
+  return {
+    id: `${team}-${index}`,
+    unitClass,
+    team,
+    gridX: at.x,
+    gridZ: at.z,
+    hp: data.hp,
+    maxHp: data.hp,
+    attack: data.attack,
+    healAmount: data.healAmount,
+    moveRange: data.moveRange,
+    attackRange: data.attackRange,
+    minRange: data.minRange,
+    combatStyle: melee ? "melee" : "ranged",
+    speed: 1,
+    speedBonus: 0,
+    accumulator: 0,
+    loadoutIndex: index,
+    statusEffects: [],
+    coveredTiles: [],
+    actionsUsed: 0,
+  };
+}
+
+/** A scene unit mirroring the engine's */
+function toSceneUnit(unit: UnitState): SceneUnit {
+  return {
+    id: unit.id,
+    unitClass: unit.unitClass,
+    team: unit.team,
+    gridX: unit.gridX,
+    gridZ: unit.gridZ,
+    hp: unit.hp,
+    maxHp: unit.maxHp,
+    attack: unit.attack,
+    healAmount: unit.healAmount,
+    moveRange: unit.moveRange,
+    attackRange: unit.attackRange,
+    minRange: unit.minRange,
+    customization: { combatStyle: unit.combatStyle },
+    speed: unit.speed,
+    speedBonus: unit.speedBonus,
+    accumulator: unit.accumulator,
+    loadoutIndex: unit.loadoutIndex,
+    statusEffects: unit.statusEffects.map(e => ({ ...e })),
+  };
+}
+
+/** The scene as it stands when the engine's current unit starts planning */
+function createScene(engine: BattleEngine): FakeScene {
+  const state = engine.getState();
+  const units = state.units.filter(u => u.hp > 0).map(toSceneUnit);
+  const unit = units.find(u => u.id === state.currentUnitId)!;
+  return {
+    snapshot: {
+      width: state.width,
+      height: state.height,
+      holes: state.holes,
+      terrain: new Map([...state.terrain].filter(([key]) => !state.barricades.some(b => toGridKey(b.x, b.z) === key))),
+      heights: state.heights,
+      units,
+      barricades: state.barricades,
+      turnState: {
+        unit,
+        actionsRemaining: state.actionsRemaining,
+        pendingActions: [],
+        originalPosition: { x: unit.gridX, z: unit.gridZ },
+      },
+      isGameOver: state.isGameOver,
+    },
+    shadow: null,
+  };
+}
+
+/** Record a queued command the way the scene's queue functions do */
+function queueInScene(scene: FakeScene, command: BattleCommand): void {
+  const { turnState } = scene.snapshot;
+  const findUnit = (id: string) => scene.snapshot.units.find(u => u.id === id);
+  switch (command.type) {
+    case "move":
+      turnState.pendingActions.push({ type: "move", targetX: command.targetX, targetZ: command.targetZ });
+      scene.shadow = { x: command.targetX, z: command.targetZ };
+      break;
+    case "attack":
+      turnState.pendingActions.push({ type: "attack", targetUnit: findUnit(command.targetUnitId) });
+      break;
+    case "heal":
+      turnState.pendingActions.push({ type: "ability", abilityName: "heal", targetUnit: findUnit(command.targetUnitId) });
+      break;
+    case "barricade":
+      turnState.pendingActions.push({ type: "ability", abilityName: "barricade", targetX: command.targetX, targetZ: command.targetZ });
+      break;
+    case "attackBarricade":
+      turnState.pendingActions.push({ type: "attack", targetX: command.targetX, targetZ: command.targetZ });
+      break;
+    default:
+      turnState.pendingActions.push({ type: "ability", abilityName: command.type });
+  }
+  turnState.actionsRemaining--;
+}
+
+const toKeys = (tiles: readonly GridPosition[]) => tiles.map(t => toGridKey(t.x, t.z)).sort();
+
+/** What the scene highlights for its acting unit (same calls as its rule wrappers) */
+function getHighlights(scene: FakeScene): Targets {
+  const { turnState } = scene.snapshot;
+  const unit = turnState.unit;
+  if (turnState.actionsRemaining <= 0) return { move: [], attack: [], heal: [], build: [], barricades: [] };
+
+  const state = extractBattleState(scene.snapshot);
+  const self = extractUnitState(unit, turnState);
+  const x = scene.shadow?.x ?? unit.gridX;
+  const z = scene.shadow?.z ?? unit.gridZ;
+
+  return {
+    move: toKeys(getValidMoveTiles(state, self, x, z)),
+    attack: getAttackableEnemies(state, self, x, z).map(u => u.id).sort(),
+    heal: getHighlightedHealTargets(state, self, x, z, scene.shadow !== null).map(u => u.id).sort(),
+    build: toKeys(getHighlightedBuildTiles(state, self, x, z)),
+    barricades: toKeys(getAttackableBarricades(state, self, x, z)),
+  };
+}
+
+/** Everything the engine's validator would accept from the acting unit right now */
+function getAccepted(engine: BattleEngine): Targets {
+  const state = engine.getState();
+  const tiles: GridPosition[] = [];
+  for (let x = 0; x < state.width; x++) {
+    for (let z = 0; z < state.height; z++) {
+      if (isInBounds(state, x, z)) tiles.push({ x, z });
+    }
+  }
+  const accepts = (command: BattleCommand) => engine.validateCommand(command).ok;
+  return {
+    move: toKeys(tiles.filter(t => accepts({ type: "move", targetX: t.x, targetZ: t.z }))),
+    attack: state.units.filter(u => accepts({ type: "attack", targetUnitId: u.id })).map(u => u.id).sort(),
+    heal: state.units.filter(u => accepts({ type: "heal", targetUnitId: u.id })).map(u => u.id).sort(),
+    build: toKeys(tiles.filter(t => accepts({ type: "barricade", targetX: t.x, targetZ: t.z }))),
+    barricades: toKeys(tiles.filter(t => accepts({ type: "attackBarricade", targetX: t.x, targetZ: t.z }))),
+  };
+}
+
+/** Whether a command picks something the scene highlights */
+function isHighlighted(highlights: Targets, command: BattleCommand, unit: SceneUnit): boolean {
+  switch (command.type) {
+    case "move":
+      return highlights.move.includes(toGridKey(command.targetX, command.targetZ));
+    case "attack":
+      return highlights.attack.includes(command.targetUnitId);
+    case "heal":
+      return highlights.heal.includes(command.targetUnitId);
+    case "barricade":
+      return highlights.build.includes(toGridKey(command.targetX, command.targetZ));
+    case "attackBarricade":
+      return highlights.barricades.includes(toGridKey(command.targetX, command.targetZ));
+    default:
+      return getClassData(unit.unitClass).ability === command.type;
+  }
+}
+
+// =============================================================================
+// BATTLES
+// =============================================================================
+
+const WIDTH = 8;
+const HEIGHT = 8;
+const MAX_TURNS = 30;
+const SEEDS = [1, 2, 3, 4, 5];
+const STYLES = Object.keys(MAP_GENERATORS) as MapStyle[];
+
+/** A generated battlefield with a hole on each side and mixed teams */
+function createBattle(seed: number): BattleState {
+  const random = createSeededRandom(seed);
+  const count = 3 + (seed % 3);
+  const spawns = {
+    player1: getSpawnPositions("player1", count, WIDTH, HEIGHT),
+    player2: getSpawnPositions("player2", count, WIDTH, HEIGHT),
+  };
+  const map = generateMap(WIDTH, HEIGHT, spawns, random, { style: STYLES[seed % STYLES.length], density: 1 });
+
+  const state = createBattleState(WIDTH, HEIGHT);
+  state.terrain = map.terrain;
+  state.heights = map.heights;
+  for (const hole of [toGridKey(0, 3), toGridKey(WIDTH - 1, HEIGHT - 4)]) {
+    state.holes.add(hole);
+    state.terrain.delete(hole);
+    state.heights.delete(hole);
+  }
+  for (let i = 0; i < count; i++) {
+    const melee = (seed + i) % 2 === 1;
+    state.units.push(makeUnitState("player1", i, ALL_CLASSES[(seed + i) % ALL_CLASSES.length], spawns.player1[i], melee));
+    state.units.push(makeUnitState("player2", i, ALL_CLASSES[(seed + 2 * i) % ALL_CLASSES.length], spawns.player2[i], melee));
+  }
+  return state;
+}
+
+/** Play a turn with the AI through the scene, checking each command against the highlights */
+function playAiTurn(engine: BattleEngine, scene: FakeScene, ai: AIController): BattleCommand[] {
+  const state = engine.getState();
+  const issued: BattleCommand[] = [];
+  const unit = scene.snapshot.turnState.unit;
+
+  const context: ControllerContext = {
+    state,
+    unit: state.units.find(u => u.id === unit.id)!,
+    actionsRemaining: engine.getActionsRemaining(),
+    issueCommand(command) {
+      expect(isHighlighted(getHighlights(scene), command, unit), `${unit.id} chose ${JSON.stringify(command)}`).toBe(true);
+      if (!engine.issueCommand(command)) return false;
+      queueInScene(scene, command);
+      issued.push(command);
+      expect(getHighlights(scene), `${unit.id} after ${JSON.stringify(command)}`).toEqual(getAccepted(engine));
+      return true;
+    },
+    validateCommand: (command) => engine.validateCommand(command),
+    executeTurn: () => {},
+    undoLastCommand: () => { engine.undoLastCommand(); },
+  };
+
+  ai.onTurnStart(context);
+  vi.runAllTimers();
+  return issued;
+}
+
+describe("scene highlights", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it.each(SEEDS)("match the validator and cover the AI's commands (battle %i)", (seed) => {
+    const engine = new BattleEngine(createBattle(seed));
+    const ai = new AIController("hard", 0, createSeededRandom(seed));
+    engine.start();
+
+    let turns = 0;
+    while (turns < MAX_TURNS && !engine.isGameOver()) {
+      const scene = createScene(engine);
+      const label = `turn ${turns}, ${scene.snapshot.turnState.unit.id}`;
+
+      expect(getHighlights(scene), label).toEqual(getAccepted(engine));
+
+      // Standing cover is drawn from the same rules as the preview
+      const state = extractBattleState(scene.snapshot);
+      for (const unit of engine.getState().units) {
+        if (unit.hp <= 0 || !hasStatus(unit, "cover")) continue;
+        const sceneUnit = scene.snapshot.units.find(u => u.id === unit.id)!;
+        const tiles = toKeys(getCoverTiles(state, extractUnitState(sceneUnit, scene.snapshot.turnState)));
+        expect(tiles, `${label}: ${unit.id}'s cover`).toEqual([...unit.coveredTiles].sort());
+      }
+
+      playAiTurn(engine, scene, ai);
+      engine.executeTurn();
+      turns++;
+    }
+    expect(turns).toBeGreaterThan(5);
+  });
+});
+
+// =============================================================================
+// EXTRACTION
+// =============================================================================
+
+/** Engineer and soldier against a lone enemy on an open field with one wall */
+function createSmallBattle(): BattleEngine {
+  const state = createBattleState(6, 6);
+  state.terrain.set(toGridKey(2, 3), "wall");
+  state.units.push(
+    makeUnitState("player1", 0, "soldier", { x: 1, z: 1 }, false),
+    makeUnitState("player2", 0, "soldier", { x: 4, z: 4 }, false),
+    makeUnitState("player1", 1, "engineer", { x: 3, z: 1 }, true),
+  );
+  const engine = new BattleEngine(state);
+  engine.start();
+  return engine;
+}
+
+describe("extractBattleState", () => {
+  it("takes the turn from the scene and stands queued barricades as walls", () => {
+    const engine = createSmallBattle();
+    engine.executeTurn(); // player1-0
+    engine.executeTurn(); // player2-0
+    const scene = createScene(engine);
+    const builder = scene.snapshot.turnState.unit;
+    expect(builder.id).toBe("player1-1");
+
+    const command: BattleCommand = { type: "barricade", targetX: 3, targetZ: 2 };
+    expect(engine.issueCommand(command)).toBe(true);
+    queueInScene(scene, command);
+
+    const state = extractBattleState(scene.snapshot);
+    expect(state.currentUnitId).toBe(builder.id);
+    expect(state.actionsRemaining).toBe(1);
+    expect(state.originalPosition).toEqual({ x: 3, z: 1 });
+    expect(state.terrain.get(toGridKey(3, 2))).toBe("wall");
+    expect(state.pendingActions).toEqual([{
+      type: "ability",
+      targetX: 3,
+      targetZ: 2,
+      targetUnitId: undefined,
+      abilityName: "barricade",
+    }]);
+    expect(state.units.find(u => u.id === builder.id)?.actionsUsed).toBe(1);
+    expect(state.units.find(u => u.id === "player1-0")?.actionsUsed).toBe(0);
+    expect(getHighlights(scene)).toEqual(getAccepted(engine));
+  });
+
+  it("previews the cover the engine sets up after a queued move", () => {
+    const engine = createSmallBattle();
+    const scene = createScene(engine);
+    const soldier = scene.snapshot.turnState.unit;
+    expect(soldier.id).toBe("player1-0");
+
+    const move = createMoveCommand(2, 2);
+    for (const command of [move, createCoverCommand()]) {
+      expect(engine.issueCommand(command)).toBe(true);
+      queueInScene(scene, command);
+    }
+
+    // BattleScene previews cover from where the unit will end its turn
+    const preview = toKeys(getCoverTiles(
+      extractBattleState(scene.snapshot),
+      extractUnitState(soldier, scene.snapshot.turnState),
+      move.targetX,
+      move.targetZ
+    ));
+
+    let covered: string[] | undefined;
+    engine.subscribe(event => {
+      if (event.type === "turnResolved") {
+        covered = event.state.units.find(u => u.id === soldier.id)?.coveredTiles;
+      }
+    });
+    engine.executeTurn();
+
+    expect(preview.length).toBeGreaterThan(0);
+    expect([...covered!].sort()).toEqual(preview);
+  });
+});
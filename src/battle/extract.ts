@@ -0,0 +1,159 @@
+/**
+ * battle/extract.ts
+ *
+ * Converts the battle scene's runtime units and turn into a BattleState.
+ * BattleScene seeds the engine from this and evaluates every highlight
+ * (move, attack, heal, build, cover) against it, so the tiles a player sees
+ * come from the same rules the validator and the AI use. The two highlight
+ * rules the scene adds on top of rules.ts live here too. Only types are
+ * taken from the scene side; nothing here touches Babylon.js.
+ */
+
+import type { PendingAction, TerrainType, Unit, UnitCustomization } from "../types";
+import type { BarricadeState, BattleState, GridKey, GridPosition, UnitState } from "./state";
+import { toGridKey } from "./state";
+import { getBuildableTiles, getHealableAllies } from "./rules";
+import { ACTIONS_PER_TURN, MAX_BARRICADES_PER_UNIT, getClassData } from "../config";
+
+// =============================================================================
+// SCENE TYPES
+// =============================================================================
+// Only the fields read here, so a scene Unit and TurnState fit as they are.
+
+/** The game data of a scene unit */
+export type SceneUnit = Pick<Unit,
+  | "id" | "unitClass" | "team" | "gridX" | "gridZ"
+  | "hp" | "maxHp" | "attack" | "healAmount" | "moveRange" | "attackRange" | "minRange"
+  | "speed" | "speedBonus" | "accumulator" | "loadoutIndex" | "statusEffects"
+> & {
+  customization?: Pick<UnitCustomization, "combatStyle">;
+};
+
+/** An action queued in the scene */
+export type ScenePendingAction = Omit<PendingAction, "targetUnit"> & {
+  targetUnit?: Pick<Unit, "id">;
+};
+
+/** The turn the scene is planning */
+export interface SceneTurn {
+  unit: SceneUnit;
+  actionsRemaining: number;
+  pendingActions: ScenePendingAction[];
+  originalPosition: GridPosition;
+}
+
+/** The parts of the battle scene a BattleState is built from */
+export interface SceneSnapshot {
+  width: number;
+  height: number;
+  holes: Iterable<GridKey>;
+  terrain: ReadonlyMap<GridKey, TerrainType>;
+  heights: ReadonlyMap<GridKey, number>;
+  units: readonly SceneUnit[];
+  barricades: readonly BarricadeState[];
+  /** The turn being planned, if any */
+  turnState: SceneTurn | null;
+  isGameOver: boolean;
+}
+
+// =============================================================================
+// EXTRACTION
+// =============================================================================
+
+/** Tiles of barricades queued this turn (they block highlights as if built) */
+export function getPendingBarricadeTiles(turnState: SceneTurn | null): GridKey[] {
+  return (turnState?.pendingActions ?? [])
+    .filter(a => a.type === "ability" && a.abilityName === "barricade")
+    .map(a => toGridKey(a.targetX!, a.targetZ!));
+}
+
+/** Pure UnitState for a scene unit (actions used come from the turn being planned) */
+export function extractUnitState(unit: SceneUnit, turnState: SceneTurn | null): UnitState {
+  return {
+    id: unit.id,
+    unitClass: unit.unitClass,
+    team: unit.team,
+    gridX: unit.gridX,
+    gridZ: unit.gridZ,
+    hp: unit.hp,
+    maxHp: unit.maxHp,
+    attack: unit.attack,
+    healAmount: unit.healAmount,
+    moveRange: unit.moveRange,
+    attackRange: unit.attackRange,
+    minRange: unit.minRange,
+    combatStyle: unit.customization?.combatStyle ?? "ranged",
+    speed: unit.speed,
+    speedBonus: unit.speedBonus,
+    accumulator: unit.accumulator,
+    loadoutIndex: unit.loadoutIndex,
+    statusEffects: unit.statusEffects.map(e => ({ ...e })),
+    coveredTiles: [],
+    actionsUsed: turnState?.unit === unit ? (ACTIONS_PER_TURN - turnState.actionsRemaining) : 0,
+  };
+}
+
+/** Complete BattleState for the scene, with queued barricades standing as walls */
+export function extractBattleState(scene: SceneSnapshot): BattleState {
+  const { turnState } = scene;
+  return {
+    width: scene.width,
+    height: scene.height,
+    holes: new Set(scene.holes),
+    terrain: new Map([...scene.terrain, ...getPendingBarricadeTiles(turnState).map(key => [key, "wall"] as const)]),
+    heights: new Map(scene.heights),
+    units: scene.units.map(u => extractUnitState(u, turnState)),
+    barricades: scene.barricades.map(b => ({ ...b })),
+    currentUnitId: turnState ? turnState.unit.id : null,
+    actionsRemaining: turnState?.actionsRemaining ?? 0,
+    pendingActions: turnState?.pendingActions.map(a => ({
+      type: a.type,
+      targetX: a.targetX,
+      targetZ: a.targetZ,
+      targetUnitId: a.targetUnit?.id,
+      abilityName: a.abilityName,
+    })) ?? [],
+    originalPosition: turnState?.originalPosition ?? null,
+    isGameOver: scene.isGameOver,
+    winner: null,
+    lastActingTeam: null,
+    firstRoundQueue: [],
+  };
+}
+
+// =============================================================================
+// HIGHLIGHT RULES
+// =============================================================================
+
+/** Empty cardinal tiles to build on, while the builder is under its barricade limit (queued ones count) */
+export function getHighlightedBuildTiles(
+  state: BattleState,
+  builder: UnitState,
+  fromX?: number,
+  fromZ?: number
+): GridPosition[] {
+  if (getClassData(builder.unitClass).ability !== "barricade") return [];
+  const standing = state.barricades.filter(b => b.ownerId === builder.id).length;
+  const queued = state.pendingActions.filter(a => a.type === "ability" && a.abilityName === "barricade").length;
+  if (standing + queued >= MAX_BARRICADES_PER_UNIT) return [];
+  return getBuildableTiles(state, builder, fromX, fromZ);
+}
+
+/**
+ * Allies to heal from a tile. With a move queued the healer still stands on
+ * its original tile; it self-heals by clicking the shadow position instead.
+ */
+export function getHighlightedHealTargets(
+  state: BattleState,
+  healer: UnitState,
+  fromX: number,
+  fromZ: number,
+  hasQueuedMove: boolean
+): UnitState[] {
+  if (healer.healAmount <= 0) return [];
+  const allies = getHealableAllies(state, healer, fromX, fromZ);
+  if (hasQueuedMove && healer.hp < healer.maxHp && !allies.some(a => a.id === healer.id)) {
+    allies.push(healer);
+  }
+  return allies;
+}
@@ -0,0 +1,164 @@
+/**
+ * battle/fairness.ts
+ *
+ * Headless balance check for a battlefield: how much the terrain favours one
+ * side's spawns over the other's. Only the ground counts (terrain, heights
+ * and holes, with standing barricades as terrain); units are ignored.
+ * Generated maps that come out too uneven are re-rolled (see mapgen.ts), and
+ * the battle's debug overlay shows the scores.
+ *
+ * Each team is scored on:
+ * - reachableArea: walkable tiles its spawns get to before the enemy's do
+ * - enemyDistance: average walking cost from its spawns to the nearest enemy spawn
+ * - losLanes: enemy-side tiles that can see one of its spawns within firing range
+ * - coverDensity: share of its area next to something that blocks sight
+ */
+
+import type { Team } from "../types";
+import { TERRAIN_DATA } from "../types";
+import { CLASS_DATA } from "../config";
+import type { BattleState, GridKey, GridPosition } from "./state";
+import { cloneBattleState, fromGridKey, getHeight, getTerrain, isInBounds, toGridKey } from "./state";
+import { getPathCosts, getTilesInLOS } from "./rules";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** One side's scores */
+export interface TeamFairness {
+  /** Walkable tiles this team's spawns reach first (ties count for neither side) */
+  reachableArea: number;
+  /** Average walking cost from a spawn to the nearest enemy spawn */
+  enemyDistance: number;
+  /** Tiles on the enemy's side with line of sight into this team's spawn zone */
+  losLanes: number;
+  /** Fraction (0-1) of reachableArea next to sight-blocking terrain or higher ground */
+  coverDensity: number;
+}
+
+/** Both sides' scores and how far apart they are */
+export interface FairnessReport {
+  teams: Record<Team, TeamFairness>;
+  /**
+   * Gap on the most uneven score, from 0 (level) to 1 (one side has it all).
+   * Each score's gap is |a - b| / (a + b).
+   */
+  imbalance: number;
+}
+
+const TEAMS: Team[] = ["player1", "player2"];
+
+/** Sight lines are counted out to the longest attack range of any class */
+const LANE_RANGE = Math.max(...Object.values(CLASS_DATA).map(data => data.attackRange));
+
+const CARDINAL_DIRS = [
+  { dx: 0, dz: 1 },
+  { dx: 0, dz: -1 },
+  { dx: 1, dz: 0 },
+  { dx: -1, dz: 0 },
+];
+
+// =============================================================================
+// ANALYSIS
+// =============================================================================
+
+/** Cheapest walking cost from any of the spawns to each reachable tile */
+function getZoneCosts(state: BattleState, spawns: readonly GridPosition[]): Map<GridKey, number> {
+  const costs = new Map<GridKey, number>();
+  for (const spawn of spawns) {
+    for (const [key, cost] of getPathCosts(state, spawn.x, spawn.z)) {
+      if (cost < (costs.get(key) ?? Infinity)) costs.set(key, cost);
+    }
+  }
+  return costs;
+}
+
+/** Average cost from each spawn to the nearest enemy spawn it can reach */
+function getAverageEnemyDistance(
+  state: BattleState,
+  spawns: readonly GridPosition[],
+  enemySpawns: readonly GridPosition[]
+): number {
+  const distances: number[] = [];
+  for (const spawn of spawns) {
+    const costs = getPathCosts(state, spawn.x, spawn.z);
+    const nearest = Math.min(...enemySpawns.map(enemy => costs.get(toGridKey(enemy.x, enemy.z)) ?? Infinity));
+    if (nearest < Infinity) distances.push(nearest);
+  }
+  return distances.length > 0 ? distances.reduce((sum, d) => sum + d, 0) / distances.length : 0;
+}
+
+/** A tile has cover if a neighbour blocks sight or stands higher */
+function hasCover(state: BattleState, x: number, z: number): boolean {
+  return CARDINAL_DIRS.some(({ dx, dz }) => {
+    const nx = x + dx;
+    const nz = z + dz;
+    if (!isInBounds(state, nx, nz)) return false;
+    const terrain = getTerrain(state, nx, nz);
+    if (terrain && TERRAIN_DATA[terrain].sightHeight > 0) return true;
+    return getHeight(state, nx, nz) > getHeight(state, x, z);
+  });
+}
+
+/** Gap between two scores, from 0 (equal) to 1 */
+function getGap(a: number, b: number): number {
+  return a + b > 0 ? Math.abs(a - b) / (a + b) : 0;
+}
+
+/**
+ * Score how evenly a battlefield treats the two sides' spawns.
+ * Spawns that can't reach each other simply score nothing for the tiles
+ * they can't get to.
+ */
+export function analyzeFairness(
+  state: BattleState,
+  spawns: Readonly<Record<Team, readonly GridPosition[]>>
+): FairnessReport {
+  const terrainOnly = cloneBattleState(state);
+  terrainOnly.units = [];
+
+  const costs = {
+    player1: getZoneCosts(terrainOnly, spawns.player1),
+    player2: getZoneCosts(terrainOnly, spawns.player2),
+  };
+
+  const teams = {} as Record<Team, TeamFairness>;
+  for (const team of TEAMS) {
+    const enemy: Team = team === "player1" ? "player2" : "player1";
+    const ownCosts = costs[team];
+    const enemyCosts = costs[enemy];
+    const isEnemyHeld = (key: GridKey) => (enemyCosts.get(key) ?? Infinity) < (ownCosts.get(key) ?? Infinity);
+
+    const area = [...ownCosts.keys()].filter(key => ownCosts.get(key)! < (enemyCosts.get(key) ?? Infinity));
+    const covered = area.filter(key => {
+      const { x, z } = fromGridKey(key);
+      return hasCover(terrainOnly, x, z);
+    });
+
+    const lanes = new Set<GridKey>();
+    for (const spawn of spawns[team]) {
+      for (const tile of getTilesInLOS(terrainOnly, spawn.x, spawn.z, false, undefined, LANE_RANGE)) {
+        const key = toGridKey(tile.x, tile.z);
+        if (isEnemyHeld(key)) lanes.add(key);
+      }
+    }
+
+    teams[team] = {
+      reachableArea: area.length,
+      enemyDistance: getAverageEnemyDistance(terrainOnly, spawns[team], spawns[enemy]),
+      losLanes: lanes.size,
+      coverDensity: area.length > 0 ? covered.length / area.length : 0,
+    };
+  }
+
+  const { player1, player2 } = teams;
+  const imbalance = Math.max(
+    getGap(player1.reachableArea, player2.reachableArea),
+    getGap(player1.enemyDistance, player2.enemyDistance),
+    getGap(player1.losLanes, player2.losLanes),
+    getGap(player1.coverDensity, player2.coverDensity)
+  );
+
+  return { teams, imbalance };
+}
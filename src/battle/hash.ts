@@ -0,0 +1,119 @@
+/**
+ * battle/hash.ts
+ *
+ * Canonical state hashing.
+ * Two clients that applied the same commands must hold identical states; a
+ * short hash of the canonical form lets them check that cheaply every turn.
+ * Only gameplay state is included - UI previews (pendingActions,
+ * originalPosition) are left out.
+ */
+
+import type { TerrainType, Team } from "../types";
+import type { BarricadeState, BattleState, GridKey, UnitState } from "./state";
+
+/** BattleState reduced to plain JSON with a fixed key and element order */
+export interface CanonicalBattleState {
+  width: number;
+  height: number;
+  /** Hole tiles, sorted */
+  holes: GridKey[];
+  terrain: [GridKey, TerrainType][];
+  /** Raised tiles as [key, level] pairs; ground-level tiles are left out */
+  heights: [GridKey, number][];
+  units: UnitState[];
+  barricades: BarricadeState[];
+  currentUnitId: string | null;
+  actionsRemaining: number;
+  isGameOver: boolean;
+  winner: Team | null;
+  lastActingTeam: Team | null;
+  firstRoundQueue: string[];
+}
+
+/** Rebuild a unit with its keys in declaration order and cover tiles sorted */
+function canonicalizeUnit(unit: UnitState): UnitState {
+  return {
+    id: unit.id,
+    unitClass: unit.unitClass,
+    team: unit.team,
+    gridX: unit.gridX,
+    gridZ: unit.gridZ,
+    hp: unit.hp,
+    maxHp: unit.maxHp,
+    attack: unit.attack,
+    healAmount: unit.healAmount,
+    moveRange: unit.moveRange,
+    attackRange: unit.attackRange,
+    minRange: unit.minRange,
+    combatStyle: unit.combatStyle,
+    speed: unit.speed,
+    speedBonus: unit.speedBonus,
+    accumulator: unit.accumulator,
+    loadoutIndex: unit.loadoutIndex,
+    // Effect order matters (damage passes through them in order), so it's kept
+    statusEffects: unit.statusEffects.map(e => ({
+      id: e.id,
+      sourceId: e.sourceId,
+      turnsRemaining: e.turnsRemaining,
+      stacks: e.stacks,
+    })),
+    coveredTiles: [...unit.coveredTiles].sort(),
+    actionsUsed: unit.actionsUsed,
+  };
+}
+
+/** Rebuild a barricade with its keys in declaration order */
+function canonicalizeBarricade(barricade: BarricadeState): BarricadeState {
+  return {
+    x: barricade.x,
+    z: barricade.z,
+    hp: barricade.hp,
+    maxHp: barricade.maxHp,
+    ownerId: barricade.ownerId,
+    turnsRemaining: barricade.turnsRemaining,
+  };
+}
+
+/**
+ * Canonical form of a state: units sorted by id, barricades by position, terrain,
+ * heights and cover tiles sorted.
+ * Equal gameplay states always produce equal canonical forms.
+ */
+export function canonicalizeBattleState(state: BattleState): CanonicalBattleState {
+  return {
+    width: state.width,
+    height: state.height,
+    holes: [...state.holes].sort(),
+    terrain: [...state.terrain].sort((a, b) => (a[0] < b[0] ? -1 : a[0] > b[0] ? 1 : 0)),
+    heights: [...state.heights].filter(([, level]) => level !== 0).sort((a, b) => (a[0] < b[0] ? -1 : a[0] > b[0] ? 1 : 0)),
+    units: [...state.units].sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0)).map(canonicalizeUnit),
+    barricades: [...state.barricades].sort((a, b) => a.x - b.x || a.z - b.z).map(canonicalizeBarricade),
+    currentUnitId: state.currentUnitId,
+    actionsRemaining: state.actionsRemaining,
+    isGameOver: state.isGameOver,
+    winner: state.winner,
+    lastActingTeam: state.lastActingTeam,
+    // Turn order matters, so this one keeps its order
+    firstRoundQueue: [...state.firstRoundQueue],
+  };
+}
+
+/** Canonical JSON for a state (for hashing and debug dumps) */
+export function serializeCanonicalState(state: BattleState): string {
+  return JSON.stringify(canonicalizeBattleState(state));
+}
+
+/** 32-bit FNV-1a hash of a string, as 8 hex digits */
+function fnv1a(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+/** Short hash of a state's canonical form */
+export function hashBattleState(state: BattleState): string {
+  return fnv1a(serializeCanonicalState(state));
+}
@@ -13,12 +13,18 @@ export {
   type HealCommand,
   type ConcealCommand,
   type CoverCommand,
+  type AimCommand,
+  type BarricadeCommand,
+  type AttackBarricadeCommand,
   type CommandExecutor,
   createMoveCommand,
   createAttackCommand,
   createHealCommand,
   createConcealCommand,
   createCoverCommand,
+  createAimCommand,
+  createBarricadeCommand,
+  createAttackBarricadeCommand,
   CommandQueue,
   processCommandQueue,
   isValidMoveCommand,
@@ -30,27 +36,50 @@ export {
   type GridPosition,
   type GridKey,
   type UnitState,
+  type BarricadeState,
   type QueuedAction,
   type ActionType,
   type BattleState,
   toGridKey,
   fromGridKey,
   createBattleState,
+  cloneBattleState,
   getUnit,
   getCurrentUnit,
   getTeamUnits,
+  getStatus,
+  hasStatus,
   getUnitAt,
   hasTerrain,
+  getTerrain,
+  isImpassable,
+  getHeight,
+  getBarricadeAt,
   isInBounds,
   isBlocked,
 } from "./state";
 
+// Scene state extraction
+export {
+  type SceneUnit,
+  type ScenePendingAction,
+  type SceneTurn,
+  type SceneSnapshot,
+  getPendingBarricadeTiles,
+  extractUnitState,
+  extractBattleState,
+  getHighlightedBuildTiles,
+  getHighlightedHealTargets,
+} from "./extract";
+
 // Game rules
 export {
   // Grid helpers
   isAdjacent,
   isDiagonal,
   getAdjacentTiles,
+  getAttackDistance,
+  isInAttackRange,
 
   // Line of sight
   hasLineOfSight,
@@ -59,20 +88,30 @@ export {
   // Movement
   getValidMoveTiles,
   getPathToTarget,
+  getReachableTiles,
+  getPathCosts,
 
   // Combat - targeting
   getValidAttackTiles,
   getAttackableEnemies,
   getHealableAllies,
+  getAttackableBarricades,
+
+  // Barricades
+  getBuildableTiles,
 
   // Combat - damage
   calculateDamage,
+  calculateBarricadeDamage,
   applyDamage,
   applyHealing,
 
   // Turn system
+  type PredictedTurn,
   getEffectiveSpeed,
+  buildFirstRoundQueue,
   getNextUnitByAccumulator,
+  predictTurnOrder,
 
   // Win condition
   checkWinCondition,
@@ -82,11 +121,129 @@ export {
   getEnemyCoveringTile,
 } from "./rules";
 
+// Randomness
+export {
+  type RandomFn,
+  createSeededRandom,
+  generateSeed,
+  parseSeed,
+  randomInt,
+  randomElement,
+  shuffle,
+} from "./random";
+
+// State hashing
+export {
+  type CanonicalBattleState,
+  canonicalizeBattleState,
+  serializeCanonicalState,
+  hashBattleState,
+} from "./hash";
+
+// Validation
+export {
+  type CommandRejectionReason,
+  type CommandValidation,
+  validateCommand,
+} from "./validation";
+
+// Reducer
+export {
+  type CommandResult,
+  applyCommand,
+  applyCommands,
+} from "./reducer";
+
+// Engine and events
+export {
+  BattleEngine,
+  createEngineControllerContext,
+  attachControllers,
+} from "./engine";
+
+export {
+  type BattleEvent,
+  type BattleEventListener,
+  type StatusRemovalReason,
+  type TurnStartedEvent,
+  type TurnEndedEvent,
+  type TurnResolvedEvent,
+  type CommandQueuedEvent,
+  type CommandRejectedEvent,
+  type CommandUndoneEvent,
+  type QueueClearedEvent,
+  type CommandsExecutedEvent,
+  type UnitMovedEvent,
+  type AttackPerformedEvent,
+  type DamageDealtEvent,
+  type TerrainDamageEvent,
+  type UnitDiedEvent,
+  type UnitHealedEvent,
+  type StatusAppliedEvent,
+  type StatusRemovedEvent,
+  type CoverUpdatedEvent,
+  type CoverTriggeredEvent,
+  type BarricadeBuiltEvent,
+  type BarricadeDamagedEvent,
+  type BarricadeRemovalReason,
+  type BarricadeRemovedEvent,
+  type GameOverEvent,
+} from "./events";
+
+// Status effects
+export {
+  type EffectContext,
+  type StatusStacking,
+  type StatusEffectDefinition,
+  STATUS_EFFECTS,
+  applyStatus,
+  removeStatus,
+  startTurnEffects,
+  endTurnEffects,
+  applyBeforeDamageEffects,
+  applyAfterMoveEffects,
+} from "./effects";
+
+// Spawning
+export { getSpawnPositions } from "./spawn";
+
+// Map generation
+export {
+  type GeneratedMap,
+  type MapGenContext,
+  type MapGenerator,
+  DEFAULT_MAP_GEN,
+  MAP_GENERATORS,
+  generateMap,
+} from "./mapgen";
+
+// Map fairness
+export {
+  type TeamFairness,
+  type FairnessReport,
+  analyzeFairness,
+} from "./fairness";
+
+// Replays
+export {
+  type Replay,
+  type ReplayTurn,
+  type ReplaySetup,
+  type ForfeitFn,
+  REPLAY_FORMAT_VERSION,
+  serializeReplay,
+  parseReplay,
+  ReplayRecorder,
+  ReplayController,
+  applyReplayTurns,
+} from "./replay";
+
 // Controllers
 export {
   type Controller,
   type ControllerContext,
   type IssueCommandFn,
+  type ValidateCommandFn,
   type ExecuteTurnFn,
   type AIDifficulty,
   type SendCommandFn,
@@ -96,5 +253,6 @@ export {
   ControllerManager,
   createLocalPvPControllers,
   createPvEControllers,
+  createOnlinePvPControllers,
   createSimulationControllers,
 } from "./controllers";
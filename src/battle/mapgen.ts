@@ -0,0 +1,587 @@
+/**
+ * battle/mapgen.ts
+ *
+ * Procedural battlefields for matches without a hand-authored map.
+ * Each style lays out terrain and hills its own way, drawing every roll from
+ * the battle's seeded random source, so a seed and style always give the
+ * same map. Whatever a style builds, the result is finished the same way:
+ * spawn tiles are cleared and walls are cut through wherever a spawn couldn't
+ * walk to the others. A map that favours one side too much (see fairness.ts)
+ * is thrown away and rolled again from the same random source.
+ *
+ * Styles:
+ * - classic: scattered terrain off a protected edge corridor (the original
+ *   generator; seeds keep their maps, apart from the odd one whose corridor
+ *   stepped diagonally and left a spawn cut off)
+ * - symmetric: scattered terrain and hills, each half the other turned around
+ * - lanes: walls across the field with narrow gaps to push fights into chokepoints
+ * - urban: blocks of buildings with streets between them
+ * - open: a few pieces of cover and low hills on otherwise open ground
+ *
+ * Adding a style means adding an entry to MAP_GENERATORS (and to MapStyle).
+ */
+
+import type { MapGenOptions, MapStyle, Team, TerrainType } from "../types";
+import { TERRAIN_DATA } from "../types";
+import {
+  GRID_SIZE,
+  TERRAIN_COUNT,
+  TERRAIN_TYPE_WEIGHTS,
+  ELEVATION_HILL_COUNT,
+  MAX_ELEVATION,
+  MAX_HEIGHT_STEP,
+  MAP_FAIRNESS_THRESHOLD,
+  MAP_GEN_MAX_ATTEMPTS,
+} from "../config";
+import type { BattleState, GridKey, GridPosition } from "./state";
+import { createBattleState, toGridKey, fromGridKey } from "./state";
+import { getReachableTiles } from "./rules";
+import type { FairnessReport } from "./fairness";
+import { analyzeFairness } from "./fairness";
+import type { RandomFn } from "./random";
+import { randomInt, randomElement, shuffle } from "./random";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** Terrain and hills for a generated battlefield */
+export interface GeneratedMap {
+  terrain: Map<GridKey, TerrainType>;
+  /** Raised tile levels (ground tiles are left out) */
+  heights: Map<GridKey, number>;
+}
+
+/** What a style builds from */
+export interface MapGenContext {
+  width: number;
+  height: number;
+  /** Both teams' starting tiles */
+  spawns: readonly GridPosition[];
+  /** Amount of terrain relative to the style's usual amount (1) */
+  density: number;
+  random: RandomFn;
+}
+
+/** One way of laying out a battlefield */
+export interface MapGenerator {
+  /** Shown on the loadout screen */
+  name: string;
+  description: string;
+  /** Lay out terrain and hills; spawns are cleared and connected afterwards */
+  generate(ctx: MapGenContext): GeneratedMap;
+}
+
+/** Used when a match doesn't say how to generate its map */
+export const DEFAULT_MAP_GEN: MapGenOptions = { style: "classic", density: 1 };
+
+// =============================================================================
+// SHARED HELPERS
+// =============================================================================
+
+/** A base amount scaled by density and by map area (relative to the default grid) */
+function scaledCount(ctx: MapGenContext, base: number): number {
+  return Math.round(base * ctx.density * (ctx.width * ctx.height) / (GRID_SIZE * GRID_SIZE));
+}
+
+/** Hills for a map of this size (density doesn't change them) */
+function hillCount(ctx: MapGenContext): number {
+  return Math.max(1, Math.round(ELEVATION_HILL_COUNT * (ctx.width * ctx.height) / (GRID_SIZE * GRID_SIZE)));
+}
+
+/** The tile a half-turn around the map's center puts this one on */
+function rotateHalfTurn(ctx: MapGenContext, x: number, z: number): GridPosition {
+  return { x: ctx.width - 1 - x, z: ctx.height - 1 - z };
+}
+
+/** A terrain type rolled by TERRAIN_TYPE_WEIGHTS */
+function rollTerrainType(random: RandomFn, types: TerrainType[] = Object.keys(TERRAIN_TYPE_WEIGHTS) as TerrainType[]): TerrainType {
+  const totalWeight = types.reduce((sum, type) => sum + TERRAIN_TYPE_WEIGHTS[type], 0);
+  let roll = random() * totalWeight;
+  return types.find(t => (roll -= TERRAIN_TYPE_WEIGHTS[t]) < 0) ?? "wall";
+}
+
+/**
+ * Raise a hill: each tile takes the taller of its level and the peak minus
+ * its Manhattan distance from the peak, so neighbouring tiles never differ
+ * by more than one level and every slope can be climbed.
+ */
+function raiseHill(ctx: MapGenContext, heights: Map<GridKey, number>, peakX: number, peakZ: number, peak: number): void {
+  for (let x = 0; x < ctx.width; x++) {
+    for (let z = 0; z < ctx.height; z++) {
+      const level = peak - Math.abs(x - peakX) - Math.abs(z - peakZ);
+      const key = toGridKey(x, z);
+      if (level > (heights.get(key) ?? 0)) heights.set(key, level);
+    }
+  }
+}
+
+/** A random peak outside the home rows, so neither team starts on top of one */
+function rollPeak(ctx: MapGenContext, maxLevel: number): { x: number; z: number; level: number } {
+  return {
+    x: randomInt(0, ctx.width - 1, ctx.random),
+    z: randomInt(2, ctx.height - 3, ctx.random),
+    level: randomInt(1, maxLevel, ctx.random),
+  };
+}
+
+/** Every tile once, paired with its half-turn partner (the center tile of an odd map pairs with itself) */
+function getTilePairs(ctx: MapGenContext): [GridPosition, GridPosition][] {
+  const pairs: [GridPosition, GridPosition][] = [];
+  for (let z = 0; z < ctx.height; z++) {
+    for (let x = 0; x < ctx.width; x++) {
+      const partner = rotateHalfTurn(ctx, x, z);
+      if (partner.z * ctx.width + partner.x >= z * ctx.width + x) pairs.push([{ x, z }, partner]);
+    }
+  }
+  return pairs;
+}
+
+function setPair(terrain: Map<GridKey, TerrainType>, pair: readonly GridPosition[], type: TerrainType): void {
+  for (const p of pair) terrain.set(toGridKey(p.x, p.z), type);
+}
+
+// =============================================================================
+// CLASSIC
+// =============================================================================
+
+/**
+ * Edge-hugging corridor from bottom to top.
+ * Routes along the left or right edge with some variance, leaving the middle open.
+ */
+function generateEdgeCorridor(ctx: MapGenContext): GridPosition[] {
+  const { width, height, random } = ctx;
+  const path: GridPosition[] = [];
+
+  // Pick which edge to favor (left or right)
+  const favorLeft = random() < 0.5;
+
+  // Start position: on or near the chosen edge
+  let x = favorLeft
+    ? randomInt(0, 1, random)
+    : width - 1 - randomInt(0, 1, random);
+
+  for (let z = 0; z < height; z++) {
+    path.push({ x, z });
+
+    // Occasionally drift laterally (but stay near the edge)
+    if (z < height - 1 && random() < 0.3) {
+      const driftTowardEdge = random() < 0.6;  // Bias toward edge
+      if (driftTowardEdge) {
+        if (favorLeft && x > 0) x--;
+        else if (!favorLeft && x < width - 1) x++;
+      } else {
+        // Move away from the edge, but stay in the outer third
+        const maxDrift = Math.floor(width / 3);
+        if (favorLeft && x < maxDrift) x++;
+        else if (!favorLeft && x > width - 1 - maxDrift) x--;
+      }
+    }
+  }
+
+  return path;
+}
+
+/**
+ * Shortest cardinal path (units can't move diagonally) from a tile to any
+ * tile in the target set, by BFS.
+ */
+function findCardinalPathToSet(ctx: MapGenContext, startX: number, startZ: number, targets: Set<GridKey>): GridPosition[] {
+  const startKey = toGridKey(startX, startZ);
+  const visited = new Set<GridKey>([startKey]);
+  const parent = new Map<GridKey, GridKey | null>([[startKey, null]]);
+  const queue: GridPosition[] = [{ x: startX, z: startZ }];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    const currentKey = toGridKey(current.x, current.z);
+
+    // Reached a target tile (but not the start itself)
+    if (targets.has(currentKey) && currentKey !== startKey) {
+      const path: GridPosition[] = [];
+      let key: GridKey | null = currentKey;
+      while (key) {
+        path.unshift(fromGridKey(key));
+        key = parent.get(key) ?? null;
+      }
+      return path;
+    }
+
+    for (const [dx, dz] of [[0, 1], [0, -1], [1, 0], [-1, 0]]) {
+      const nx = current.x + dx;
+      const nz = current.z + dz;
+      const key = toGridKey(nx, nz);
+      if (nx < 0 || nx >= ctx.width || nz < 0 || nz >= ctx.height) continue;
+      if (visited.has(key)) continue;
+      visited.add(key);
+      parent.set(key, currentKey);
+      queue.push({ x: nx, z: nz });
+    }
+  }
+
+  // No path (can't happen on an open grid): just the start
+  console.warn(`No cardinal path found from (${startX},${startZ}) to corridor`);
+  return [{ x: startX, z: startZ }];
+}
+
+/**
+ * Constructive: protect a corridor along one edge and a cardinal path from
+ * each spawn to it, then scatter terrain over what's left. Types are rolled
+ * after the hills are raised, in the order the original generator rolled
+ * them, so seeds keep their maps.
+ */
+function generateClassic(ctx: MapGenContext): GeneratedMap {
+  const { random } = ctx;
+  const protectedTiles = new Set<GridKey>();
+
+  // Main corridor along an edge (leaves the middle open for terrain)
+  for (const tile of generateEdgeCorridor(ctx)) {
+    protectedTiles.add(toGridKey(tile.x, tile.z));
+  }
+
+  // Connect each spawn to the corridor. Spawns aren't protected until their
+  // path is found, or the search would end where it starts.
+  for (const spawn of ctx.spawns) {
+    for (const tile of findCardinalPathToSet(ctx, spawn.x, spawn.z, protectedTiles)) {
+      protectedTiles.add(toGridKey(tile.x, tile.z));
+    }
+    protectedTiles.add(toGridKey(spawn.x, spawn.z));
+  }
+
+  // Every spawn needs a protected cardinal exit
+  for (const spawn of ctx.spawns) {
+    const cardinalNeighbors = [
+      { x: spawn.x - 1, z: spawn.z },
+      { x: spawn.x + 1, z: spawn.z },
+      { x: spawn.x, z: spawn.z - 1 },
+      { x: spawn.x, z: spawn.z + 1 },
+    ].filter(n => n.x >= 0 && n.x < ctx.width && n.z >= 0 && n.z < ctx.height);
+    const hasCardinalExit = cardinalNeighbors.some(n => protectedTiles.has(toGridKey(n.x, n.z)));
+    if (!hasCardinalExit && cardinalNeighbors.length > 0) {
+      const neighbor = randomElement(cardinalNeighbors, random);
+      protectedTiles.add(toGridKey(neighbor.x, neighbor.z));
+    }
+  }
+
+  // Terrain goes on unprotected tiles
+  const eligibleTiles: GridPosition[] = [];
+  for (let x = 0; x < ctx.width; x++) {
+    for (let z = 0; z < ctx.height; z++) {
+      if (!protectedTiles.has(toGridKey(x, z))) eligibleTiles.push({ x, z });
+    }
+  }
+  shuffle(eligibleTiles, random);
+  const positions = eligibleTiles.slice(0, Math.min(scaledCount(ctx, TERRAIN_COUNT), eligibleTiles.length));
+
+  const heights = new Map<GridKey, number>();
+  for (let i = 0; i < hillCount(ctx); i++) {
+    const peak = rollPeak(ctx, MAX_ELEVATION);
+    raiseHill(ctx, heights, peak.x, peak.z, peak.level);
+  }
+
+  const terrain = new Map<GridKey, TerrainType>();
+  for (const pos of positions) {
+    terrain.set(toGridKey(pos.x, pos.z), rollTerrainType(random));
+  }
+  return { terrain, heights };
+}
+
+// =============================================================================
+// SYMMETRIC
+// =============================================================================
+
+/** Scattered terrain and hills, placed in half-turn pairs so both sides get the same field */
+function generateSymmetric(ctx: MapGenContext): GeneratedMap {
+  const { random } = ctx;
+  const spawnKeys = new Set(ctx.spawns.map(s => toGridKey(s.x, s.z)));
+
+  const pairs = getTilePairs(ctx).filter(pair => !pair.some(p => spawnKeys.has(toGridKey(p.x, p.z))));
+  shuffle(pairs, random);
+  const terrain = new Map<GridKey, TerrainType>();
+  for (const pair of pairs.slice(0, Math.round(scaledCount(ctx, TERRAIN_COUNT) / 2))) {
+    setPair(terrain, pair, rollTerrainType(random));
+  }
+
+  // Each hill and its partner; the higher of two overlapping slopes wins, so the field stays symmetric
+  const heights = new Map<GridKey, number>();
+  for (let i = 0; i < Math.ceil(hillCount(ctx) / 2); i++) {
+    const peak = rollPeak(ctx, MAX_ELEVATION);
+    const partner = rotateHalfTurn(ctx, peak.x, peak.z);
+    raiseHill(ctx, heights, peak.x, peak.z, peak.level);
+    raiseHill(ctx, heights, partner.x, partner.z, peak.level);
+  }
+  return { terrain, heights };
+}
+
+// =============================================================================
+// LANES
+// =============================================================================
+
+/**
+ * A wall across the field on each side of the middle, broken by one-tile
+ * gaps; lower density leaves more gaps. Low walls and rough ground dot the
+ * space between the barriers.
+ */
+function generateLanes(ctx: MapGenContext): GeneratedMap {
+  const { width, height, random } = ctx;
+  const terrain = new Map<GridKey, TerrainType>();
+
+  // Barrier rows sit a third of the way in from each edge
+  const barrierZ = Math.max(1, Math.floor(height / 3));
+  const gapCount = Math.max(2, Math.round(width / 4 / ctx.density));
+  const gaps = new Set<number>();
+  const spacing = width / gapCount;
+  for (let i = 0; i < gapCount; i++) {
+    // One gap somewhere in each stretch of the barrier
+    const from = Math.floor(i * spacing);
+    const to = Math.max(from, Math.floor((i + 1) * spacing) - 1);
+    gaps.add(randomInt(from, to, random));
+  }
+  for (let x = 0; x < width; x++) {
+    if (gaps.has(x)) continue;
+    // Now and then a low wall: it still blocks the way but can be fought over
+    const type: TerrainType = random() < 0.2 ? "lowWall" : "wall";
+    setPair(terrain, [{ x, z: barrierZ }, rotateHalfTurn(ctx, x, barrierZ)], type);
+  }
+
+  // Cover anywhere off the home edges
+  const open = getTilePairs(ctx).filter(pair => pair.every(p => !terrain.has(toGridKey(p.x, p.z)) && p.z > 0 && p.z < height - 1));
+  shuffle(open, random);
+  for (const pair of open.slice(0, Math.round(scaledCount(ctx, 4) / 2))) {
+    setPair(terrain, pair, rollTerrainType(random, ["lowWall", "rough"]));
+  }
+
+  // One low hill pair for some high ground
+  const heights = new Map<GridKey, number>();
+  const peak = rollPeak(ctx, 1);
+  const partner = rotateHalfTurn(ctx, peak.x, peak.z);
+  raiseHill(ctx, heights, peak.x, peak.z, peak.level);
+  raiseHill(ctx, heights, partner.x, partner.z, peak.level);
+  return { terrain, heights };
+}
+
+// =============================================================================
+// URBAN
+// =============================================================================
+
+/**
+ * Buildings on a grid of blocks with one-tile streets between them. Some
+ * blocks are empty lots; some buildings are ruins of low walls and rubble.
+ * Each building has a partner on the other side, so the city is symmetric.
+ * The ground is flat.
+ */
+function generateUrban(ctx: MapGenContext): GeneratedMap {
+  const { width, height, random } = ctx;
+  const terrain = new Map<GridKey, TerrainType>();
+  const block = 3;  // Building lot plus the street beside it
+  const buildChance = Math.min(0.9, 0.6 * ctx.density);
+
+  // Lots in the lower half (and the middle row of lots); each is mirrored into the upper half
+  for (let lotZ = 1; lotZ < height / 2; lotZ += block) {
+    for (let lotX = randomInt(0, 1, random); lotX < width; lotX += block) {
+      if (random() >= buildChance) continue;
+      const ruined = random() < 0.3;
+      const sizeX = randomInt(1, block - 1, random);
+      const sizeZ = randomInt(1, block - 1, random);
+      for (let x = lotX; x < Math.min(width, lotX + sizeX); x++) {
+        for (let z = lotZ; z < Math.min(height, lotZ + sizeZ); z++) {
+          const type: TerrainType = ruined ? (random() < 0.5 ? "lowWall" : "rough") : "wall";
+          setPair(terrain, [{ x, z }, rotateHalfTurn(ctx, x, z)], type);
+        }
+      }
+    }
+  }
+
+  // Debris in the streets
+  const streets = getTilePairs(ctx).filter(pair => pair.every(p => !terrain.has(toGridKey(p.x, p.z))));
+  shuffle(streets, random);
+  for (const pair of streets.slice(0, Math.round(scaledCount(ctx, 2) / 2))) {
+    setPair(terrain, pair, rollTerrainType(random, ["lowWall", "rough", "hazard"]));
+  }
+
+  return { terrain, heights: new Map() };
+}
+
+// =============================================================================
+// OPEN FIELD
+// =============================================================================
+
+/** A few low walls, rocks and rough patches scattered over rolling ground */
+function generateOpen(ctx: MapGenContext): GeneratedMap {
+  const { random } = ctx;
+  const spawnKeys = new Set(ctx.spawns.map(s => toGridKey(s.x, s.z)));
+
+  const tiles: GridPosition[] = [];
+  for (let x = 0; x < ctx.width; x++) {
+    for (let z = 0; z < ctx.height; z++) {
+      if (!spawnKeys.has(toGridKey(x, z))) tiles.push({ x, z });
+    }
+  }
+  shuffle(tiles, random);
+  const terrain = new Map<GridKey, TerrainType>();
+  for (const tile of tiles.slice(0, scaledCount(ctx, 6))) {
+    terrain.set(toGridKey(tile.x, tile.z), rollTerrainType(random, ["lowWall", "rough", "wall"]));
+  }
+
+  // Gentle slopes only
+  const heights = new Map<GridKey, number>();
+  for (let i = 0; i < hillCount(ctx); i++) {
+    const peak = rollPeak(ctx, 1);
+    raiseHill(ctx, heights, peak.x, peak.z, peak.level);
+  }
+  return { terrain, heights };
+}
+
+// =============================================================================
+// GENERATORS
+// =============================================================================
+
+export const MAP_GENERATORS: Record<MapStyle, MapGenerator> = {
+  classic: {
+    name: "Classic",
+    description: "Scattered terrain with a clear path along one edge",
+    generate: generateClassic,
+  },
+  symmetric: {
+    name: "Symmetric",
+    description: "Both halves are the same field, turned around",
+    generate: generateSymmetric,
+  },
+  lanes: {
+    name: "Lanes",
+    description: "Walls across the field with narrow chokepoints",
+    generate: generateLanes,
+  },
+  urban: {
+    name: "Urban",
+    description: "City blocks and the streets between them",
+    generate: generateUrban,
+  },
+  open: {
+    name: "Open Field",
+    description: "Open ground with a little scattered cover",
+    generate: generateOpen,
+  },
+};
+
+/**
+ * Cheapest way from a spawn to any reachable tile counting blocking terrain
+ * crossed (0-1 BFS over cardinal steps a unit could climb). Returns the
+ * blocked tiles on it.
+ */
+function findBlockedTilesToReach(
+  ctx: MapGenContext,
+  map: GeneratedMap,
+  from: GridPosition,
+  reachable: Set<GridKey>
+): GridKey[] {
+  const isBlocked = (key: GridKey) => {
+    const type = map.terrain.get(key);
+    return type !== undefined && !TERRAIN_DATA[type].walkable;
+  };
+  const levelAt = (x: number, z: number) => map.heights.get(toGridKey(x, z)) ?? 0;
+
+  const startKey = toGridKey(from.x, from.z);
+  const cost = new Map<GridKey, number>([[startKey, 0]]);
+  const parent = new Map<GridKey, GridKey | null>([[startKey, null]]);
+  const deque: GridPosition[] = [from];
+
+  while (deque.length > 0) {
+    const current = deque.shift()!;
+    const currentKey = toGridKey(current.x, current.z);
+    if (reachable.has(currentKey)) {
+      const blocked: GridKey[] = [];
+      for (let key: GridKey | null = currentKey; key; key = parent.get(key) ?? null) {
+        if (isBlocked(key)) blocked.push(key);
+      }
+      return blocked;
+    }
+    for (const [dx, dz] of [[0, 1], [0, -1], [1, 0], [-1, 0]]) {
+      const nx = current.x + dx;
+      const nz = current.z + dz;
+      if (nx < 0 || nx >= ctx.width || nz < 0 || nz >= ctx.height) continue;
+      if (Math.abs(levelAt(nx, nz) - levelAt(current.x, current.z)) > MAX_HEIGHT_STEP) continue;
+      const key = toGridKey(nx, nz);
+      const step = isBlocked(key) ? 1 : 0;
+      const next = cost.get(currentKey)! + step;
+      if (cost.has(key) && cost.get(key)! <= next) continue;
+      cost.set(key, next);
+      parent.set(key, currentKey);
+      if (step === 0) deque.unshift({ x: nx, z: nz });
+      else deque.push({ x: nx, z: nz });
+    }
+  }
+  return [];
+}
+
+/**
+ * Clear the spawn tiles and cut through blocking terrain until every spawn
+ * can walk to the first one. Cuts are made in half-turn pairs when the
+ * style is symmetric, so the map stays that way.
+ */
+function connectSpawns(ctx: MapGenContext, map: GeneratedMap, symmetric: boolean): void {
+  const clear = (key: GridKey) => {
+    map.terrain.delete(key);
+    if (symmetric) {
+      const { x, z } = fromGridKey(key);
+      const partner = rotateHalfTurn(ctx, x, z);
+      map.terrain.delete(toGridKey(partner.x, partner.z));
+    }
+  };
+  for (const spawn of ctx.spawns) clear(toGridKey(spawn.x, spawn.z));
+  if (ctx.spawns.length === 0) return;
+
+  // Each pass connects at least one more spawn, so this ends
+  for (let pass = 0; pass < ctx.spawns.length; pass++) {
+    const state = toBattleState(ctx, map);
+    const first = ctx.spawns[0];
+    const reachable = new Set(getReachableTiles(state, first.x, first.z).map(p => toGridKey(p.x, p.z)));
+    const cutOff = ctx.spawns.find(s => !reachable.has(toGridKey(s.x, s.z)));
+    if (!cutOff) return;
+    findBlockedTilesToReach(ctx, map, cutOff, reachable).forEach(clear);
+  }
+}
+
+/** An empty battle on a generated map, for checking it against the rules */
+function toBattleState(ctx: MapGenContext, map: GeneratedMap): BattleState {
+  const state = createBattleState(ctx.width, ctx.height);
+  state.terrain = map.terrain;
+  state.heights = map.heights;
+  return state;
+}
+
+/** Styles whose maps are built in half-turn pairs */
+const SYMMETRIC_STYLES = new Set<MapStyle>(["symmetric", "lanes", "urban"]);
+
+/**
+ * Generate a battlefield. Every spawn ends up clear and able to walk to
+ * every other spawn. Maps are rolled until one scores within
+ * MAP_FAIRNESS_THRESHOLD, keeping the fairest if none does in
+ * MAP_GEN_MAX_ATTEMPTS.
+ */
+export function generateMap(
+  width: number,
+  height: number,
+  spawns: Readonly<Record<Team, readonly GridPosition[]>>,
+  random: RandomFn,
+  options: MapGenOptions = DEFAULT_MAP_GEN
+): GeneratedMap {
+  const ctx: MapGenContext = {
+    width,
+    height,
+    spawns: [...spawns.player1, ...spawns.player2],
+    density: options.density,
+    random,
+  };
+  const generator = MAP_GENERATORS[options.style] ?? MAP_GENERATORS.classic;
+
+  let best: { map: GeneratedMap; fairness: FairnessReport } | null = null;
+  for (let attempt = 1; attempt <= MAP_GEN_MAX_ATTEMPTS; attempt++) {
+    const map = generator.generate(ctx);
+    connectSpawns(ctx, map, SYMMETRIC_STYLES.has(options.style));
+    const fairness = analyzeFairness(toBattleState(ctx, map), spawns);
+    if (!best || fairness.imbalance < best.fairness.imbalance) best = { map, fairness };
+    if (fairness.imbalance <= MAP_FAIRNESS_THRESHOLD) break;
+  }
+  return best!.map;
+}
@@ -0,0 +1,56 @@
+/**
+ * battle/random.ts
+ *
+ * Seedable random number generation.
+ * Anything that rolls dice (terrain, AI tie-breaking) takes a RandomFn so a
+ * match can be regenerated exactly from its seed.
+ */
+
+/** Returns a uniform random number in [0, 1), like Math.random */
+export type RandomFn = () => number;
+
+/**
+ * Create a deterministic generator from a 32-bit seed (mulberry32).
+ * The same seed always yields the same sequence.
+ */
+export function createSeededRandom(seed: number): RandomFn {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Pick a fresh random seed */
+export function generateSeed(): number {
+  return Math.floor(Math.random() * 4294967296);
+}
+
+/** Parse a user-supplied seed (e.g. from a URL). Returns null if invalid. */
+export function parseSeed(value: string | null | undefined): number | null {
+  if (value == null || !/^\d+$/.test(value.trim())) return null;
+  const seed = Number(value.trim());
+  return seed <= 0xffffffff ? seed : null;
+}
+
+/** Random integer between min and max (inclusive) */
+export function randomInt(min: number, max: number, random: RandomFn): number {
+  return Math.floor(random() * (max - min + 1)) + min;
+}
+
+/** Random element of a non-empty array */
+export function randomElement<T>(array: readonly T[], random: RandomFn): T {
+  return array[Math.floor(random() * array.length)];
+}
+
+/** Shuffle an array in place (Fisher-Yates). Returns the same array. */
+export function shuffle<T>(array: T[], random: RandomFn): T[] {
+  for (let i = array.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [array[i], array[j]] = [array[j], array[i]];
+  }
+  return array;
+}
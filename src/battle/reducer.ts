@@ -0,0 +1,253 @@
+/**
+ * battle/reducer.ts
+ *
+ * Pure command resolution.
+ * applyCommand takes a state and a command and returns the next state plus the
+ * events that describe what happened. The input state is never mutated, and the
+ * same inputs always produce the same outputs.
+ */
+
+import type { Team } from "../types";
+import type { BattleCommand } from "./commands";
+import type { BattleEvent, BarricadeRemovalReason } from "./events";
+import type { BarricadeState, BattleState, UnitState } from "./state";
+import { cloneBattleState, getUnit, getCurrentUnit, getBarricadeAt, hasStatus, hasTerrain, isBlocked, toGridKey } from "./state";
+import {
+  getPathToTarget,
+  calculateDamage,
+  calculateBarricadeDamage,
+  applyDamage,
+  applyHealing,
+  checkWinCondition,
+  getEnemyCoveringTile,
+} from "./rules";
+import type { EffectContext } from "./effects";
+import {
+  applyStatus,
+  removeStatus,
+  applyBeforeDamageEffects,
+  applyAfterMoveEffects,
+  updateCoverTiles,
+  refreshCoverTiles,
+} from "./effects";
+import { BARRICADE_HP, BARRICADE_DURATION_TURNS } from "../config";
+
+// =============================================================================
+// RESULT TYPE
+// =============================================================================
+
+/** Next state and the events produced getting there */
+export interface CommandResult {
+  state: BattleState;
+  events: BattleEvent[];
+  /** True if a Cover reaction interrupted the acting unit's remaining commands */
+  interrupted: boolean;
+}
+
+/** Working state for one reduction (the state here is already a private copy) */
+type Reduction = EffectContext;
+
+// =============================================================================
+// REDUCERS
+// =============================================================================
+
+/**
+ * Resolve one command for the current unit, followed by any Cover reaction it provokes.
+ * `remaining` lists the commands still queued after this one; Cover is set up
+ * from the tile the unit will end its turn on.
+ */
+export function applyCommand(
+  state: BattleState,
+  command: BattleCommand,
+  remaining: readonly BattleCommand[] = []
+): CommandResult {
+  const r: Reduction = { state: cloneBattleState(state), events: [] };
+  const unit = getCurrentUnit(r.state);
+  if (!unit || r.state.isGameOver) {
+    return { state: r.state, events: r.events, interrupted: false };
+  }
+
+  const resolved = resolveCommand(r, unit, command, remaining);
+  const interrupted = resolved && !r.state.isGameOver && checkCoverReaction(r, unit);
+  return { state: r.state, events: r.events, interrupted };
+}
+
+/**
+ * Resolve a turn's queued commands in order.
+ * Stops early when a Cover reaction interrupts the unit or the game ends.
+ */
+export function applyCommands(state: BattleState, commands: readonly BattleCommand[]): CommandResult {
+  let current = state;
+  const events: BattleEvent[] = [];
+
+  for (let i = 0; i < commands.length; i++) {
+    const result = applyCommand(current, commands[i], commands.slice(i + 1));
+    current = result.state;
+    events.push(...result.events);
+    if (result.interrupted) {
+      return { state: current, events, interrupted: true };
+    }
+    if (current.isGameOver) break;
+  }
+
+  return { state: current, events, interrupted: false };
+}
+
+// =============================================================================
+// COMMAND RESOLUTION
+// =============================================================================
+
+/**
+ * Apply one command for the acting unit.
+ * Returns false if the command was skipped (e.g. its target already died),
+ * in which case no reaction check follows.
+ */
+function resolveCommand(
+  r: Reduction,
+  unit: UnitState,
+  command: BattleCommand,
+  remaining: readonly BattleCommand[]
+): boolean {
+  switch (command.type) {
+    case "move": {
+      const path = getPathToTarget(r.state, unit, unit.gridX, unit.gridZ, command.targetX, command.targetZ);
+      unit.gridX = command.targetX;
+      unit.gridZ = command.targetZ;
+      r.events.push({ type: "unitMoved", unitId: unit.id, path });
+      applyAfterMoveEffects(r, unit);
+      return true;
+    }
+
+    case "attack": {
+      const target = getUnit(r.state, command.targetUnitId);
+      if (!target || target.hp <= 0) return false;
+      resolveAttack(r, unit, target, false);
+      return true;
+    }
+
+    case "heal": {
+      const target = getUnit(r.state, command.targetUnitId);
+      if (!target || target.hp <= 0) return false;
+      const amount = applyHealing(unit, target);
+      r.events.push({ type: "unitHealed", healerId: unit.id, targetId: target.id, amount, hp: target.hp });
+      return true;
+    }
+
+    case "conceal":
+      applyStatus(r, unit, "conceal", unit.id);
+      return true;
+
+    case "aim":
+      applyStatus(r, unit, "aim", unit.id);
+      return true;
+
+    case "cover": {
+      // Cover is set up from where the unit will end its turn
+      // (validation refuses it while it's already up)
+      let coverX = unit.gridX;
+      let coverZ = unit.gridZ;
+      for (const next of remaining) {
+        if (next.type === "move") {
+          coverX = next.targetX;
+          coverZ = next.targetZ;
+        }
+      }
+      applyStatus(r, unit, "cover", unit.id);
+      updateCoverTiles(r, unit, coverX, coverZ);
+      return true;
+    }
+
+    case "barricade": {
+      // The tile may have filled up since the command was queued
+      if (isBlocked(r.state, command.targetX, command.targetZ, unit.id) || hasTerrain(r.state, command.targetX, command.targetZ)) return false;
+      const barricade: BarricadeState = {
+        x: command.targetX,
+        z: command.targetZ,
+        hp: BARRICADE_HP,
+        maxHp: BARRICADE_HP,
+        ownerId: unit.id,
+        turnsRemaining: BARRICADE_DURATION_TURNS,
+      };
+      r.state.barricades.push(barricade);
+      r.state.terrain.set(toGridKey(barricade.x, barricade.z), "wall");
+      r.events.push({ type: "barricadeBuilt", unitId: unit.id, x: barricade.x, z: barricade.z, hp: barricade.hp });
+      refreshCoverTiles(r);
+      return true;
+    }
+
+    case "attackBarricade": {
+      const barricade = getBarricadeAt(r.state, command.targetX, command.targetZ);
+      if (!barricade) return false;
+      const damage = calculateBarricadeDamage(unit);
+      removeStatus(r, unit, "aim", "consumed");
+      barricade.hp = Math.max(0, barricade.hp - damage);
+      r.events.push({
+        type: "barricadeDamaged",
+        attackerId: unit.id,
+        x: barricade.x,
+        z: barricade.z,
+        amount: damage,
+        hp: barricade.hp,
+      });
+      if (barricade.hp <= 0) {
+        removeBarricade(r, barricade, "destroyed");
+      }
+      return true;
+    }
+  }
+}
+
+function resolveAttack(r: Reduction, attacker: UnitState, defender: UnitState, isReaction: boolean): void {
+  r.events.push({ type: "attackPerformed", attackerId: attacker.id, targetId: defender.id, isReaction });
+
+  // Aim is spent on the attack even if Conceal absorbs it
+  const rolled = calculateDamage(r.state, attacker, defender);
+  removeStatus(r, attacker, "aim", "consumed");
+
+  // The defender's effects may soften or negate the hit
+  const damage = applyBeforeDamageEffects(r, defender, attacker, rolled);
+  if (rolled > 0 && damage === 0) return;
+
+  const died = applyDamage(defender, damage);
+  r.events.push({ type: "damageDealt", attackerId: attacker.id, targetId: defender.id, amount: damage, hp: defender.hp });
+
+  if (died) {
+    r.state.firstRoundQueue = r.state.firstRoundQueue.filter(id => id !== defender.id);
+    r.events.push({ type: "unitDied", unitId: defender.id });
+
+    const result = checkWinCondition(r.state);
+    if (result.isOver) {
+      finishGame(r, result.winner);
+    }
+  }
+}
+
+/**
+ * Trigger an enemy Cover reaction if the acting unit stands in a covered tile.
+ * Concealed units slip through unnoticed. Returns true if the turn is interrupted.
+ */
+function checkCoverReaction(r: Reduction, unit: UnitState): boolean {
+  if (unit.hp <= 0 || hasStatus(unit, "conceal")) return false;
+
+  const coveringUnit = getEnemyCoveringTile(r.state, unit.gridX, unit.gridZ, unit);
+  if (!coveringUnit) return false;
+
+  r.events.push({ type: "coverTriggered", unitId: coveringUnit.id, targetId: unit.id });
+  resolveAttack(r, coveringUnit, unit, true);
+  removeStatus(r, coveringUnit, "cover", "triggered");
+  return true;
+}
+
+function removeBarricade(r: Reduction, barricade: BarricadeState, reason: BarricadeRemovalReason): void {
+  r.state.barricades = r.state.barricades.filter(b => b !== barricade);
+  r.state.terrain.delete(toGridKey(barricade.x, barricade.z));
+  r.events.push({ type: "barricadeRemoved", x: barricade.x, z: barricade.z, reason });
+  refreshCoverTiles(r);
+}
+
+function finishGame(r: Reduction, winner: Team | null): void {
+  r.state.isGameOver = true;
+  r.state.winner = winner;
+  r.state.currentUnitId = null;
+  r.events.push({ type: "gameOver", winner, reason: "elimination" });
+}
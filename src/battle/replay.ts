@@ -0,0 +1,317 @@
+/**
+ * battle/replay.ts
+ *
+ * Match recording and playback.
+ * A replay is the seed, map and loadout a match started from plus every
+ * executed command batch. Feeding the batches back through a BattleEngine
+ * reproduces the match exactly.
+ */
+
+import type { Loadout, Team, TerrainType } from "../types";
+import type { BattleCommand } from "./commands";
+import type { BattleEvent } from "./events";
+import type { BattleEngine } from "./engine";
+import type { Controller, ControllerContext } from "./controllers";
+import type { GridKey } from "./state";
+
+// =============================================================================
+// REPLAY FORMAT
+// =============================================================================
+
+/** Bump when the replay format changes incompatibly */
+export const REPLAY_FORMAT_VERSION = 2;
+
+/** Version 1 replays (square grids only) still load */
+const OLDEST_READABLE_VERSION = 1;
+
+/** One executed turn: the acting unit and the commands it resolved */
+export interface ReplayTurn {
+  unitId: string;
+  commands: BattleCommand[];
+}
+
+/** A recorded match */
+export interface Replay {
+  version: number;
+  seed: number;
+  width: number;
+  height: number;
+  /** Tiles inside the grid that aren't part of the map; missing if there are none */
+  holes?: GridKey[];
+  /** Every terrain tile; walls unless terrainTypes says otherwise */
+  terrain: GridKey[];
+  /** Terrain tiles that aren't walls; missing for matches recorded before terrain types */
+  terrainTypes?: Record<GridKey, TerrainType>;
+  /** Raised tile levels; missing for matches recorded on a flat grid */
+  heights?: Record<GridKey, number>;
+  loadout: Loadout;
+  turns: ReplayTurn[];
+  /** Team that conceded, if the match ended by forfeit */
+  forfeitedBy: Team | null;
+  winner: Team | null;
+  /** ISO timestamp of when recording started */
+  recordedAt: string;
+}
+
+/** Serialize a replay for saving or sharing */
+export function serializeReplay(replay: Replay): string {
+  return JSON.stringify(replay);
+}
+
+/**
+ * Parse a saved replay.
+ * Throws if the data is not a replay or uses an unsupported version.
+ */
+export function parseReplay(json: string): Replay {
+  const data = JSON.parse(json) as Partial<Replay> & { gridSize?: number };
+  if (!data || typeof data !== "object" || !Array.isArray(data.turns) || !Array.isArray(data.terrain)) {
+    throw new Error("Not a replay file");
+  }
+  if (typeof data.version !== "number" || data.version < OLDEST_READABLE_VERSION || data.version > REPLAY_FORMAT_VERSION) {
+    throw new Error(`Unsupported replay version ${data.version} (expected ${REPLAY_FORMAT_VERSION})`);
+  }
+  if (data.version === 1) {
+    // Version 1 stored one side of a square grid
+    const { gridSize, ...rest } = data;
+    return parseReplayFields({ ...rest, version: REPLAY_FORMAT_VERSION, width: gridSize, height: gridSize });
+  }
+  return parseReplayFields(data);
+}
+
+function parseReplayFields(data: Partial<Replay>): Replay {
+  if (typeof data.seed !== "number" || typeof data.width !== "number" || typeof data.height !== "number" || !data.loadout) {
+    throw new Error("Replay is missing its seed, grid size or loadout");
+  }
+  return data as Replay;
+}
+
+// =============================================================================
+// RECORDING
+// =============================================================================
+
+/** Where a recorded match started from */
+export interface ReplaySetup {
+  seed: number;
+  width: number;
+  height: number;
+  holes: ReadonlySet<GridKey>;
+  terrain: ReadonlyMap<GridKey, TerrainType>;
+  heights: ReadonlyMap<GridKey, number>;
+  loadout: Loadout;
+}
+
+/**
+ * Builds a Replay from engine events.
+ * Attach before calling engine.start().
+ */
+export class ReplayRecorder {
+  private replay: Replay;
+
+  constructor(setup: ReplaySetup) {
+    this.replay = {
+      version: REPLAY_FORMAT_VERSION,
+      seed: setup.seed,
+      width: setup.width,
+      height: setup.height,
+      ...(setup.holes.size > 0 ? { holes: [...setup.holes] } : {}),
+      terrain: [...setup.terrain.keys()],
+      terrainTypes: Object.fromEntries([...setup.terrain].filter(([, type]) => type !== "wall")),
+      heights: Object.fromEntries([...setup.heights].filter(([, level]) => level !== 0)),
+      loadout: setup.loadout,
+      turns: [],
+      forfeitedBy: null,
+      winner: null,
+      recordedAt: new Date().toISOString(),
+    };
+  }
+
+  /** Subscribe to an engine. Returns an unsubscribe function. */
+  attach(engine: BattleEngine): () => void {
+    return engine.subscribe(event => this.record(event));
+  }
+
+  record(event: BattleEvent): void {
+    switch (event.type) {
+      case "commandsExecuted":
+        this.replay.turns.push({ unitId: event.unitId, commands: [...event.commands] });
+        break;
+      case "gameOver":
+        this.replay.winner = event.winner;
+        if (event.reason === "forfeit" && event.winner) {
+          this.replay.forfeitedBy = event.winner === "player1" ? "player2" : "player1";
+        }
+        break;
+    }
+  }
+
+  /** The match so far */
+  getReplay(): Replay {
+    return { ...this.replay, turns: this.replay.turns.map(t => ({ ...t, commands: [...t.commands] })) };
+  }
+}
+
+// =============================================================================
+// PLAYBACK
+// =============================================================================
+
+/**
+ * Fast-forward an engine through recorded turns, with no controllers or
+ * delays (used to rebuild a match in progress). Call after engine.start().
+ * Returns the number of turns applied; stops early if the log goes out of sync.
+ */
+export function applyReplayTurns(engine: BattleEngine, turns: readonly ReplayTurn[]): number {
+  for (let i = 0; i < turns.length; i++) {
+    const turn = turns[i];
+    const unitId = engine.getState().currentUnitId;
+    if (engine.isGameOver() || turn.unitId !== unitId) {
+      console.warn(`Turn log out of sync at turn ${i + 1}: expected ${turn.unitId}, got ${unitId}`);
+      return i;
+    }
+    for (const command of turn.commands) {
+      if (!engine.issueCommand(command)) {
+        console.warn(`Logged command rejected at turn ${i + 1}:`, command);
+      }
+    }
+    engine.executeTurn();
+  }
+  return turns.length;
+}
+
+/** Called when playback reaches a recorded forfeit */
+export type ForfeitFn = (team: Team) => void;
+
+/**
+ * Replays a recorded match for both teams.
+ * Register the same instance as both teams' controller; each turn waits for
+ * step() (or plays automatically while playing).
+ */
+export class ReplayController implements Controller {
+  readonly type = "replay" as const;
+
+  private replay: Replay;
+  private onForfeit: ForfeitFn;
+  private stepDelay: number;
+  private context: ControllerContext | null = null;
+  private cursor = 0;
+  private playing = false;
+  private speed = 1;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private onProgress: (() => void) | null = null;
+
+  constructor(replay: Replay, onForfeit: ForfeitFn, stepDelayMs: number = 800) {
+    this.replay = replay;
+    this.onForfeit = onForfeit;
+    this.stepDelay = stepDelayMs;
+  }
+
+  onTurnStart(context: ControllerContext): void {
+    this.context = context;
+    if (this.playing) this.scheduleStep();
+    this.onProgress?.();
+  }
+
+  onTurnEnd(): void {
+    this.context = null;
+  }
+
+  onGameEnd(): void {
+    this.pause();
+  }
+
+  dispose(): void {
+    this.pause();
+    this.onProgress = null;
+  }
+
+  /** Notified whenever the cursor or play state changes (for UI) */
+  setProgressCallback(callback: () => void): void {
+    this.onProgress = callback;
+  }
+
+  /**
+   * Play the next recorded turn.
+   * Returns false if no turn is ready, the replay is finished or out of sync.
+   */
+  step(): boolean {
+    const context = this.context;
+    if (!context) return false;
+
+    const turn = this.replay.turns[this.cursor];
+    if (!turn) {
+      this.finish();
+      return false;
+    }
+    if (turn.unitId !== context.unit.id) {
+      console.warn(`Replay out of sync at turn ${this.cursor + 1}: expected ${turn.unitId}, got ${context.unit.id}`);
+      this.pause();
+      return false;
+    }
+
+    this.cursor++;
+    this.context = null;
+    for (const command of turn.commands) {
+      if (!context.issueCommand(command)) {
+        console.warn(`Replay command rejected at turn ${this.cursor}:`, command);
+      }
+    }
+    context.executeTurn();
+    this.onProgress?.();
+    return true;
+  }
+
+  play(): void {
+    this.playing = true;
+    if (this.context) this.scheduleStep();
+    this.onProgress?.();
+  }
+
+  pause(): void {
+    this.playing = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.onProgress?.();
+  }
+
+  isPlaying(): boolean {
+    return this.playing;
+  }
+
+  /** Playback speed multiplier (1 = normal) */
+  setSpeed(speed: number): void {
+    this.speed = speed;
+    this.onProgress?.();
+  }
+
+  getSpeed(): number {
+    return this.speed;
+  }
+
+  /** Turns played so far */
+  getPosition(): number {
+    return this.cursor;
+  }
+
+  getTurnCount(): number {
+    return this.replay.turns.length;
+  }
+
+  private scheduleStep(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      if (this.playing) this.step();
+    }, this.stepDelay / this.speed);
+  }
+
+  /** Out of turns: apply a recorded forfeit, then stop */
+  private finish(): void {
+    this.pause();
+    if (this.replay.forfeitedBy) {
+      const team = this.replay.forfeitedBy;
+      this.replay = { ...this.replay, forfeitedBy: null };
+      this.onForfeit(team);
+    }
+  }
+}
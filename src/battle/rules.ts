@@ -6,9 +6,31 @@
  * This enables headless game simulations for AI and balancing.
  */
 
-import type { BattleState, UnitState, GridPosition } from "./state";
-import { toGridKey, hasTerrain, isInBounds, getUnitAt, getTeamUnits } from "./state";
-import { ACCUMULATOR_THRESHOLD, MELEE_DAMAGE_MULTIPLIER, LOS_EPSILON } from "../config";
+import type { Team } from "../types";
+import { TERRAIN_DATA } from "../types";
+import type { BattleState, UnitState, GridPosition, GridKey, BarricadeState } from "./state";
+import {
+  toGridKey,
+  hasTerrain,
+  getTerrain,
+  isImpassable,
+  hasStatus,
+  getHeight,
+  isInBounds,
+  getUnit,
+  getUnitAt,
+  getTeamUnits,
+} from "./state";
+import {
+  ACCUMULATOR_THRESHOLD,
+  MELEE_DAMAGE_MULTIPLIER,
+  AIM_BONUS_DAMAGE,
+  LOS_EPSILON,
+  MAX_HEIGHT_STEP,
+  ELEVATION_DAMAGE_PER_LEVEL,
+  UNIT_HEIGHT,
+  UNIT_SIGHT_HEIGHT,
+} from "../config";
 
 // =============================================================================
 // GRID HELPERS
@@ -38,19 +60,30 @@ export function isAdjacent(x1: number, z1: number, x2: number, z2: number): bool
   return dx <= 1 && dz <= 1 && !(dx === 0 && dz === 0);
 }
 
+/** Distance for attack range: a diagonal step counts as one, as in adjacency */
+export function getAttackDistance(x1: number, z1: number, x2: number, z2: number): number {
+  return Math.max(Math.abs(x2 - x1), Math.abs(z2 - z1));
+}
+
+/** Check if a tile is in a ranged unit's band: past its minimum range, within its attack range */
+export function isInAttackRange(unit: UnitState, fromX: number, fromZ: number, toX: number, toZ: number): boolean {
+  const distance = getAttackDistance(fromX, fromZ, toX, toZ);
+  return distance > unit.minRange && distance <= unit.attackRange;
+}
+
 /** Check if position is diagonal from another */
 export function isDiagonal(x1: number, z1: number, x2: number, z2: number): boolean {
   return x1 !== x2 && z1 !== z2;
 }
 
-/** Get all 8 adjacent tiles (including diagonals), excluding terrain */
+/** Get all 8 adjacent tiles (including diagonals), excluding impassable terrain */
 export function getAdjacentTiles(state: BattleState, x: number, z: number): GridPosition[] {
   const adjacent: GridPosition[] = [];
 
   for (const { dx, dz } of ALL_DIRS) {
     const nx = x + dx;
     const nz = z + dz;
-    if (isInBounds(state, nx, nz) && !hasTerrain(state, nx, nz)) {
+    if (isInBounds(state, nx, nz) && !isImpassable(state, nx, nz)) {
       adjacent.push({ x: nx, z: nz });
     }
   }
@@ -62,15 +95,22 @@ export function getAdjacentTiles(state: BattleState, x: number, z: number): Grid
 // LINE OF SIGHT
 // =============================================================================
 
+/** Where a line segment crosses a tile: the parameter range along the line, and whether it only grazes a corner */
+interface LineRectHit {
+  type: "interior" | "corner";
+  tMin: number;
+  tMax: number;
+}
+
 /**
- * Check intersection type between line segment and tile rectangle.
+ * Check intersection between line segment and tile rectangle.
  * Uses Liang-Barsky algorithm for parametric line clipping.
  */
 function lineRectIntersection(
   ax: number, az: number,
   bx: number, bz: number,
   tileX: number, tileZ: number
-): "none" | "interior" | "corner" {
+): LineRectHit | null {
   const minX = tileX;
   const maxX = tileX + 1;
   const minZ = tileZ;
@@ -91,7 +131,7 @@ function lineRectIntersection(
 
   for (const { p, q } of edges) {
     if (Math.abs(p) < LOS_EPSILON) {
-      if (q < 0) return "none";
+      if (q < 0) return null;
     } else {
       const t = q / p;
       if (p < 0) {
@@ -103,7 +143,7 @@ function lineRectIntersection(
   }
 
   if (tMin > tMax + LOS_EPSILON) {
-    return "none";
+    return null;
   }
 
   const entryX = ax + tMin * dx;
@@ -121,13 +161,12 @@ function lineRectIntersection(
     ];
     for (const corner of corners) {
       if (Math.abs(entryX - corner.x) < LOS_EPSILON && Math.abs(entryZ - corner.z) < LOS_EPSILON) {
-        return "corner";
+        return { type: "corner", tMin, tMax };
       }
     }
-    return "interior";
   }
 
-  return "interior";
+  return { type: "interior", tMin, tMax };
 }
 
 /** Determine which side of a line a point is on (cross product) */
@@ -137,7 +176,12 @@ function sideOfLine(ax: number, az: number, bx: number, bz: number, px: number,
 
 /**
  * Check if there's line of sight between two tiles.
- * Terrain blocks LOS. Units block interior intersections but not corners.
+ * The sight line runs between the two units' eyes (tile elevation plus
+ * UNIT_SIGHT_HEIGHT), so it only blocks on things that rise above it where it
+ * crosses them: raised ground, terrain (see TERRAIN_DATA sightHeight) and units
+ * standing on it. High ground sees over low blockers, and a unit right next to
+ * a low wall sees over it. Terrain (and raised ground) blocks at corners too,
+ * units only on interior intersections.
  */
 export function hasLineOfSight(
   state: BattleState,
@@ -151,14 +195,19 @@ export function hasLineOfSight(
   const az = fromZ + 0.5;
   const bx = toX + 0.5;
   const bz = toZ + 0.5;
+  const eyeFrom = getHeight(state, fromX, fromZ) + UNIT_SIGHT_HEIGHT;
+  const eyeTo = getHeight(state, toX, toZ) + UNIT_SIGHT_HEIGHT;
+  // Lowest point of the sight line between two parameters (it's straight, so at an end)
+  const lowestSightBetween = (t0: number, t1: number) =>
+    Math.min(eyeFrom + (eyeTo - eyeFrom) * t0, eyeFrom + (eyeTo - eyeFrom) * t1);
 
   let leftTerrainCorner = false;
   let rightTerrainCorner = false;
 
   const minTileX = Math.max(0, Math.min(fromX, toX) - 1);
-  const maxTileX = Math.min(state.gridSize - 1, Math.max(fromX, toX) + 1);
+  const maxTileX = Math.min(state.width - 1, Math.max(fromX, toX) + 1);
   const minTileZ = Math.max(0, Math.min(fromZ, toZ) - 1);
-  const maxTileZ = Math.min(state.gridSize - 1, Math.max(fromZ, toZ) + 1);
+  const maxTileZ = Math.min(state.height - 1, Math.max(fromZ, toZ) + 1);
 
   for (let tileX = minTileX; tileX <= maxTileX; tileX++) {
     for (let tileZ = minTileZ; tileZ <= maxTileZ; tileZ++) {
@@ -166,19 +215,31 @@ export function hasLineOfSight(
         continue;
       }
 
-      const isTerrain = hasTerrain(state, tileX, tileZ);
+      const terrain = getTerrain(state, tileX, tileZ);
+      const terrainData = terrain ? TERRAIN_DATA[terrain] : undefined;
+      if (terrainData?.peekable && (isAdjacent(tileX, tileZ, fromX, fromZ) || isAdjacent(tileX, tileZ, toX, toZ))) {
+        continue;
+      }
+
       const unitAtTile = getUnitAt(state, tileX, tileZ);
       const hasUnit = unitAtTile && unitAtTile.id !== excludeUnitId;
 
-      if (!isTerrain && !hasUnit) continue;
+      // Ground and terrain are solid; a unit adds its height on top of its tile
+      const groundTop = getHeight(state, tileX, tileZ) + (terrainData?.sightHeight ?? 0);
+      const top = hasUnit ? groundTop + UNIT_HEIGHT : groundTop;
+      if (top <= 0) continue;
 
       const intersection = lineRectIntersection(ax, az, bx, bz, tileX, tileZ);
+      if (!intersection) continue;
+
+      const sightHeight = lowestSightBetween(intersection.tMin, intersection.tMax);
 
-      if (intersection === "interior") {
-        return false;
+      if (intersection.type === "interior") {
+        if (top > sightHeight + LOS_EPSILON) return false;
+        continue;
       }
 
-      if (intersection === "corner" && isTerrain) {
+      if (groundTop > sightHeight + LOS_EPSILON) {
         const tileCenterX = tileX + 0.5;
         const tileCenterZ = tileZ + 0.5;
         const side = sideOfLine(ax, az, bx, bz, tileCenterX, tileCenterZ);
@@ -201,20 +262,24 @@ export function hasLineOfSight(
   return true;
 }
 
-/** Get all tiles in line of sight from a position */
+/**
+ * Get all tiles in line of sight from a position, optionally only those
+ * within maxRange (attack distance), which keeps the scan small on big maps
+ */
 export function getTilesInLOS(
   state: BattleState,
   fromX: number,
   fromZ: number,
   excludeAdjacent: boolean,
-  excludeUnitId?: string
+  excludeUnitId?: string,
+  maxRange: number = Infinity
 ): GridPosition[] {
   const result: GridPosition[] = [];
 
-  for (let x = 0; x < state.gridSize; x++) {
-    for (let z = 0; z < state.gridSize; z++) {
+  for (let x = Math.max(0, fromX - maxRange); x < Math.min(state.width, fromX + maxRange + 1); x++) {
+    for (let z = Math.max(0, fromZ - maxRange); z < Math.min(state.height, fromZ + maxRange + 1); z++) {
       if (x === fromX && z === fromZ) continue;
-      if (hasTerrain(state, x, z)) continue;
+      if (!isInBounds(state, x, z) || isImpassable(state, x, z)) continue;
 
       // Exclude all 8 adjacent tiles (including diagonals) for ranged weapons
       if (excludeAdjacent && isAdjacent(fromX, fromZ, x, z)) continue;
@@ -233,64 +298,112 @@ export function getTilesInLOS(
 // =============================================================================
 
 /**
- * Get all tiles a unit can move to from a position.
- * Uses BFS for pathfinding. Cannot pass through enemies or terrain.
+ * Movement cost of one cardinal step between neighbouring tiles.
+ * Stepping onto open ground costs 1 (terrain may cost more, see TERRAIN_DATA);
+ * climbing adds the rise on top. Returns null if the destination can't be
+ * walked on or the height difference is more than MAX_HEIGHT_STEP.
  */
-export function getValidMoveTiles(
-  state: BattleState,
-  unit: UnitState,
-  fromX?: number,
-  fromZ?: number
-): GridPosition[] {
-  const startX = fromX ?? unit.gridX;
-  const startZ = fromZ ?? unit.gridZ;
+export function getStepCost(state: BattleState, fromX: number, fromZ: number, toX: number, toZ: number): number | null {
+  const terrain = getTerrain(state, toX, toZ);
+  if (terrain && !TERRAIN_DATA[terrain].walkable) return null;
+  const rise = getHeight(state, toX, toZ) - getHeight(state, fromX, fromZ);
+  if (Math.abs(rise) > MAX_HEIGHT_STEP) return null;
+  return (terrain ? TERRAIN_DATA[terrain].moveCost : 1) + Math.max(0, rise);
+}
 
-  const visited = new Set<string>();
-  const reachable: GridPosition[] = [];
-  const queue: [number, number, number][] = [[startX, startZ, 0]];
-  visited.add(toGridKey(startX, startZ));
+/** A tile reached while searching for paths, with the cost to get there */
+interface PathNode {
+  x: number;
+  z: number;
+  cost: number;
+}
 
-  while (queue.length > 0) {
-    const [cx, cz, dist] = queue.shift()!;
+/**
+ * Cheapest-first search over cardinal steps from a tile (Dijkstra).
+ * Cannot pass through enemies of `team`, impassable terrain or cliffs; allies
+ * can be walked through. With no team, units are ignored.
+ * Stops expanding past maxCost, or once the stop tile is settled.
+ * Nodes come back in the order they were settled; ties settle in discovery
+ * order, so on level ground this is a plain BFS.
+ */
+function searchPaths(
+  state: BattleState,
+  team: Team | null,
+  fromX: number,
+  fromZ: number,
+  maxCost: number,
+  stop?: GridPosition
+): { settled: PathNode[]; parent: Map<string, string | null> } {
+  const best = new Map<string, number>();
+  const parent = new Map<string, string | null>();
+  const settled: PathNode[] = [];
+  const done = new Set<string>();
+  const frontier: PathNode[] = [{ x: fromX, z: fromZ, cost: 0 }];
+  const startKey = toGridKey(fromX, fromZ);
+  best.set(startKey, 0);
+  parent.set(startKey, null);
 
-    if (dist > 0 && dist <= unit.moveRange) {
-      const occupied = getUnitAt(state, cx, cz);
-      if (!occupied && !hasTerrain(state, cx, cz)) {
-        reachable.push({ x: cx, z: cz });
-      }
+  while (frontier.length > 0) {
+    let next = 0;
+    for (let i = 1; i < frontier.length; i++) {
+      if (frontier[i].cost < frontier[next].cost) next = i;
     }
+    const current = frontier.splice(next, 1)[0];
+    const currentKey = toGridKey(current.x, current.z);
+    if (done.has(currentKey)) continue;
+    done.add(currentKey);
+    settled.push(current);
 
-    if (dist >= unit.moveRange) continue;
+    if (stop && current.x === stop.x && current.z === stop.z) break;
 
     for (const { dx, dz } of CARDINAL_DIRS) {
-      const nx = cx + dx;
-      const nz = cz + dz;
+      const nx = current.x + dx;
+      const nz = current.z + dz;
       const key = toGridKey(nx, nz);
 
       if (!isInBounds(state, nx, nz)) continue;
-      if (visited.has(key)) continue;
-
-      if (hasTerrain(state, nx, nz)) {
-        visited.add(key);
-        continue;
-      }
+      if (done.has(key)) continue;
 
       const unitAtTile = getUnitAt(state, nx, nz);
-      if (unitAtTile && unitAtTile.team !== unit.team) {
-        visited.add(key);
-        continue;
-      }
+      if (unitAtTile && team !== null && unitAtTile.team !== team) continue;
+
+      const stepCost = getStepCost(state, current.x, current.z, nx, nz);
+      if (stepCost === null) continue;
+      const cost = current.cost + stepCost;
+      if (cost > maxCost) continue;
+      if (best.has(key) && best.get(key)! <= cost) continue;
 
-      visited.add(key);
-      queue.push([nx, nz, dist + 1]);
+      best.set(key, cost);
+      parent.set(key, currentKey);
+      frontier.push({ x: nx, z: nz, cost });
     }
   }
 
-  return reachable;
+  return { settled, parent };
+}
+
+/**
+ * Get all tiles a unit can move to from a position.
+ * A tile is reachable if the cheapest path there costs at most the unit's
+ * move range (see getStepCost). Cannot pass through enemies or impassable terrain.
+ */
+export function getValidMoveTiles(
+  state: BattleState,
+  unit: UnitState,
+  fromX?: number,
+  fromZ?: number
+): GridPosition[] {
+  const startX = fromX ?? unit.gridX;
+  const startZ = fromZ ?? unit.gridZ;
+
+  const { settled } = searchPaths(state, unit.team, startX, startZ, unit.moveRange);
+  return settled
+    .filter(node => node.cost > 0 && !getUnitAt(state, node.x, node.z))
+    .map(node => ({ x: node.x, z: node.z }));
 }
 
 /**
- * Find shortest path from start to target using BFS.
+ * Find the cheapest path from start to target.
  * Returns array of positions including start and end.
  */
 export function getPathToTarget(
@@ -301,48 +414,39 @@ export function getPathToTarget(
   toX: number,
   toZ: number
 ): GridPosition[] {
-  const visited = new Set<string>();
-  const parent = new Map<string, string | null>();
-
-  const queue: [number, number][] = [[fromX, fromZ]];
-  const startKey = toGridKey(fromX, fromZ);
-  visited.add(startKey);
-  parent.set(startKey, null);
-
-  while (queue.length > 0) {
-    const [cx, cz] = queue.shift()!;
-    const currentKey = toGridKey(cx, cz);
-
-    if (cx === toX && cz === toZ) {
-      const path: GridPosition[] = [];
-      let key: string | null = currentKey;
-      while (key) {
-        const [x, z] = key.split(",").map(Number);
-        path.unshift({ x, z });
-        key = parent.get(key) || null;
-      }
-      return path;
-    }
-
-    for (const { dx, dz } of CARDINAL_DIRS) {
-      const nx = cx + dx;
-      const nz = cz + dz;
-      const key = toGridKey(nx, nz);
-
-      if (!isInBounds(state, nx, nz)) continue;
-      if (visited.has(key)) continue;
-      if (hasTerrain(state, nx, nz)) continue;
+  const { parent } = searchPaths(state, unit.team, fromX, fromZ, Infinity, { x: toX, z: toZ });
 
-      const unitAtTile = getUnitAt(state, nx, nz);
-      if (unitAtTile && unitAtTile.team !== unit.team) continue;
+  const targetKey = toGridKey(toX, toZ);
+  if (!parent.has(targetKey)) {
+    return [{ x: fromX, z: fromZ }, { x: toX, z: toZ }];
+  }
 
-      visited.add(key);
-      parent.set(key, currentKey);
-      queue.push([nx, nz]);
-    }
+  const path: GridPosition[] = [];
+  let key: string | null = targetKey;
+  while (key) {
+    const [x, z] = key.split(",").map(Number);
+    path.unshift({ x, z });
+    key = parent.get(key) ?? null;
   }
+  return path;
+}
 
-  return [{ x: fromX, z: fromZ }, { x: toX, z: toZ }];
+/**
+ * Every tile reachable from a position with unlimited moves, ignoring units
+ * (includes the start). Used to check that a map's spawns are connected.
+ */
+export function getReachableTiles(state: BattleState, fromX: number, fromZ: number): GridPosition[] {
+  const { settled } = searchPaths(state, null, fromX, fromZ, Infinity);
+  return settled.map(node => ({ x: node.x, z: node.z }));
+}
+
+/**
+ * Cheapest walking cost from a position to every tile reachable from it,
+ * ignoring units (the start costs 0)
+ */
+export function getPathCosts(state: BattleState, fromX: number, fromZ: number): Map<GridKey, number> {
+  const { settled } = searchPaths(state, null, fromX, fromZ, Infinity);
+  return new Map(settled.map(node => [toGridKey(node.x, node.z), node.cost]));
 }
 
 // =============================================================================
@@ -352,7 +456,7 @@ export function getPathToTarget(
 /**
  * Get valid attack tiles for a unit based on weapon type.
  * Melee: All 8 adjacent tiles (diagonals need LOS)
- * Ranged: All LOS tiles except adjacent
+ * Ranged: Tiles past minRange and within attackRange (only those with LOS can be targeted)
  */
 export function getValidAttackTiles(
   state: BattleState,
@@ -372,8 +476,17 @@ export function getValidAttackTiles(
       return { x: tile.x, z: tile.z, hasLOS: los };
     });
   } else {
-    const losTiles = getTilesInLOS(state, x, z, true, unit.id);
-    return losTiles.map(tile => ({ x: tile.x, z: tile.z, hasLOS: true }));
+    // Every tile in the range band; blocked ones are reported with hasLOS false
+    const result: { x: number; z: number; hasLOS: boolean }[] = [];
+    for (let tx = Math.max(0, x - unit.attackRange); tx <= Math.min(state.width - 1, x + unit.attackRange); tx++) {
+      for (let tz = Math.max(0, z - unit.attackRange); tz <= Math.min(state.height - 1, z + unit.attackRange); tz++) {
+        if (tx === x && tz === z) continue;
+        if (!isInBounds(state, tx, tz) || isImpassable(state, tx, tz)) continue;
+        if (!isInAttackRange(unit, x, z, tx, tz)) continue;
+        result.push({ x: tx, z: tz, hasLOS: hasLineOfSight(state, x, z, tx, tz, unit.id) });
+      }
+    }
+    return result;
   }
 }
 
@@ -411,7 +524,7 @@ export function getHealableAllies(
 
   return state.units.filter(u => {
     if (u.team !== unit.team) return false;
-    if (u.hp >= u.maxHp) return false;
+    if (u.hp <= 0 || u.hp >= u.maxHp) return false;
 
     // Self-heal always allowed
     if (u.gridX === effectiveX && u.gridZ === effectiveZ) {
@@ -429,14 +542,84 @@ export function getHealableAllies(
   });
 }
 
+/**
+ * Get barricades that can be attacked from a position.
+ * Same reach as attacking a unit standing on the barricade's tile.
+ */
+export function getAttackableBarricades(
+  state: BattleState,
+  unit: UnitState,
+  fromX?: number,
+  fromZ?: number
+): BarricadeState[] {
+  const x = fromX ?? unit.gridX;
+  const z = fromZ ?? unit.gridZ;
+  const isMelee = unit.combatStyle === "melee";
+
+  return state.barricades.filter(b => {
+    if (isMelee) {
+      if (!isAdjacent(x, z, b.x, b.z)) return false;
+      return isDiagonal(x, z, b.x, b.z) ? hasLineOfSight(state, x, z, b.x, b.z, unit.id) : true;
+    }
+    return isInAttackRange(unit, x, z, b.x, b.z) && hasLineOfSight(state, x, z, b.x, b.z, unit.id);
+  });
+}
+
+// =============================================================================
+// BARRICADES
+// =============================================================================
+
+/**
+ * Get tiles a barricade can be built on from a position: empty tiles without
+ * terrain in the four cardinal directions. The builder itself doesn't block (it may have
+ * queued a move away from its current tile).
+ */
+export function getBuildableTiles(
+  state: BattleState,
+  unit: UnitState,
+  fromX?: number,
+  fromZ?: number
+): GridPosition[] {
+  const x = fromX ?? unit.gridX;
+  const z = fromZ ?? unit.gridZ;
+  const result: GridPosition[] = [];
+
+  for (const { dx, dz } of CARDINAL_DIRS) {
+    const nx = x + dx;
+    const nz = z + dz;
+    if (!isInBounds(state, nx, nz) || hasTerrain(state, nx, nz)) continue;
+    const occupant = getUnitAt(state, nx, nz);
+    if (occupant && occupant.id !== unit.id) continue;
+    result.push({ x: nx, z: nz });
+  }
+
+  return result;
+}
+
 // =============================================================================
 // COMBAT - DAMAGE CALCULATION
 // =============================================================================
 
-/** Calculate damage for an attack */
-export function calculateDamage(attacker: UnitState, _defender: UnitState): number {
+/**
+ * Calculate damage for an attack (Aim adds a flat bonus on top of melee 2x).
+ * Each level the attacker stands above the defender adds
+ * ELEVATION_DAMAGE_PER_LEVEL of that; each level below takes it away.
+ */
+export function calculateDamage(state: BattleState, attacker: UnitState, defender: UnitState): number {
+  const levels = getHeight(state, attacker.gridX, attacker.gridZ) - getHeight(state, defender.gridX, defender.gridZ);
+  const damage = getAttackDamage(attacker) * (1 + ELEVATION_DAMAGE_PER_LEVEL * levels);
+  return Math.max(0, Math.round(damage));
+}
+
+/** Calculate damage for an attack on a barricade (same as hitting a unit) */
+export function calculateBarricadeDamage(attacker: UnitState): number {
+  return getAttackDamage(attacker);
+}
+
+function getAttackDamage(attacker: UnitState): number {
   const isMelee = attacker.combatStyle === "melee";
-  return isMelee ? attacker.attack * MELEE_DAMAGE_MULTIPLIER : attacker.attack;
+  const damage = isMelee ? attacker.attack * MELEE_DAMAGE_MULTIPLIER : attacker.attack;
+  return hasStatus(attacker, "aim") ? damage + AIM_BONUS_DAMAGE : damage;
 }
 
 /** Apply damage to a unit, returns true if unit dies */
@@ -461,9 +644,41 @@ export function getEffectiveSpeed(unit: UnitState): number {
   return unit.speed + unit.speedBonus;
 }
 
+/**
+ * Build the opening round order: teams alternate (P1, P2, P1, ...),
+ * each team in loadout order. Returns unit IDs.
+ */
+export function buildFirstRoundQueue(state: BattleState): string[] {
+  const byLoadout = (a: UnitState, b: UnitState) => a.loadoutIndex - b.loadoutIndex;
+  const player1Units = getTeamUnits(state, "player1").sort(byLoadout);
+  const player2Units = getTeamUnits(state, "player2").sort(byLoadout);
+
+  const queue: string[] = [];
+  const maxLen = Math.max(player1Units.length, player2Units.length);
+  for (let i = 0; i < maxLen; i++) {
+    if (player1Units[i]) queue.push(player1Units[i].id);
+    if (player2Units[i]) queue.push(player2Units[i].id);
+  }
+  return queue;
+}
+
+/** Order ready units: team that didn't just act, then accumulator, speed and loadout index */
+function compareReadyUnits(a: UnitState, b: UnitState, lastActingTeam: Team | null): number {
+  if (lastActingTeam !== null) {
+    if (a.team !== lastActingTeam && b.team === lastActingTeam) return -1;
+    if (b.team !== lastActingTeam && a.team === lastActingTeam) return 1;
+  }
+  if (b.accumulator !== a.accumulator) return b.accumulator - a.accumulator;
+  const speedA = getEffectiveSpeed(a);
+  const speedB = getEffectiveSpeed(b);
+  if (speedB !== speedA) return speedB - speedA;
+  return a.loadoutIndex - b.loadoutIndex;
+}
+
 /**
  * Get next unit to act based on accumulator system.
  * Units accumulate speed each round until reaching threshold.
+ * Mutates accumulators; the caller resets the chosen unit's accumulator.
  */
 export function getNextUnitByAccumulator(state: BattleState): UnitState | null {
   const aliveUnits = state.units.filter(u => u.hp > 0);
@@ -480,18 +695,58 @@ export function getNextUnitByAccumulator(state: BattleState): UnitState | null {
     readyUnits = aliveUnits.filter(u => u.accumulator >= ACCUMULATOR_THRESHOLD);
   }
 
-  // Sort by accumulator (desc), then speed (desc), then loadout index (asc)
-  readyUnits.sort((a, b) => {
-    if (b.accumulator !== a.accumulator) return b.accumulator - a.accumulator;
-    const speedA = getEffectiveSpeed(a);
-    const speedB = getEffectiveSpeed(b);
-    if (speedB !== speedA) return speedB - speedA;
-    return a.loadoutIndex - b.loadoutIndex;
-  });
+  readyUnits.sort((a, b) => compareReadyUnits(a, b, state.lastActingTeam));
 
   return readyUnits[0];
 }
 
+/** A predicted upcoming turn */
+export interface PredictedTurn {
+  unitId: string;
+  /** Speed bonus the unit carries into that turn */
+  speedBonus: number;
+}
+
+/**
+ * Predict the next `count` turns without modifying state.
+ * Remaining opening round entries come first, then the accumulator is simulated
+ * with each unit's bonus consumed after it acts.
+ */
+export function predictTurnOrder(state: BattleState, count: number): PredictedTurn[] {
+  const result: PredictedTurn[] = [];
+  const aliveUnits = state.units.filter(u => u.hp > 0);
+  if (aliveUnits.length === 0) return result;
+
+  let simLastTeam = state.lastActingTeam;
+  for (const id of state.firstRoundQueue) {
+    const unit = getUnit(state, id);
+    if (!unit || unit.hp <= 0) continue;
+    result.push({ unitId: unit.id, speedBonus: unit.speedBonus });
+    simLastTeam = unit.team;
+    if (result.length >= count) return result;
+  }
+
+  const sim = aliveUnits.map(u => ({ ...u }));
+  while (result.length < count) {
+    let readyUnits = sim.filter(u => u.accumulator >= ACCUMULATOR_THRESHOLD);
+    while (readyUnits.length === 0) {
+      for (const unit of sim) {
+        unit.accumulator += getEffectiveSpeed(unit);
+      }
+      readyUnits = sim.filter(u => u.accumulator >= ACCUMULATOR_THRESHOLD);
+    }
+    readyUnits.sort((a, b) => compareReadyUnits(a, b, simLastTeam));
+
+    const next = readyUnits[0];
+    result.push({ unitId: next.id, speedBonus: next.speedBonus });
+    next.accumulator = 0;
+    next.speedBonus = 0;
+    simLastTeam = next.team;
+  }
+
+  return result;
+}
+
 // =============================================================================
 // WIN CONDITION
 // =============================================================================
@@ -521,7 +776,7 @@ export function checkWinCondition(state: BattleState): { isOver: boolean; winner
 /**
  * Get tiles a unit would cover based on weapon type.
  * Melee: All 8 adjacent tiles (diagonals need LOS)
- * Ranged: All LOS tiles (not adjacent)
+ * Ranged: LOS tiles within its range band
  */
 export function getCoverTiles(
   state: BattleState,
@@ -540,7 +795,7 @@ export function getCoverTiles(
       return !diag || hasLineOfSight(state, x, z, tile.x, tile.z, unit.id);
     });
   } else {
-    return getTilesInLOS(state, x, z, true, unit.id);
+    return getTilesInLOS(state, x, z, true, unit.id, unit.attackRange).filter(t => isInAttackRange(unit, x, z, t.x, t.z));
   }
 }
 
@@ -552,7 +807,7 @@ export function getEnemyCoveringTile(
   forUnit: UnitState
 ): UnitState | null {
   for (const unit of state.units) {
-    if (unit.team === forUnit.team || unit.hp <= 0 || !unit.isCovering) continue;
+    if (unit.team === forUnit.team || unit.hp <= 0 || !hasStatus(unit, "cover")) continue;
     if (unit.coveredTiles.includes(toGridKey(x, z))) {
       return unit;
     }
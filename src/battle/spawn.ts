@@ -0,0 +1,61 @@
+/**
+ * battle/spawn.ts
+ *
+ * Starting tiles for each team.
+ * The first units use the fixed spawn positions from config (centered along
+ * x on grids wider or narrower than the default); larger teams fill further
+ * tiles in their home rows. Player 2's tiles mirror player 1's through the
+ * center of the grid (as the configured positions do), so both sides get the
+ * same layout.
+ */
+
+import type { Team } from "../types";
+import type { GridPosition } from "./state";
+import { GRID_SIZE, PLAYER1_SPAWN_POSITIONS } from "../config";
+
+function isAdjacent(a: GridPosition, b: GridPosition): boolean {
+  return Math.abs(a.x - b.x) + Math.abs(a.z - b.z) === 1;
+}
+
+/** Player 1's starting tiles for a team of `count` units */
+function getPlayer1SpawnPositions(count: number, width: number, height: number): GridPosition[] {
+  const shift = Math.floor((width - GRID_SIZE) / 2);
+  const positions: GridPosition[] = PLAYER1_SPAWN_POSITIONS
+    .map(p => ({ x: p.x + shift, z: p.z }))
+    .filter(p => p.x >= 0 && p.x < width && p.z < Math.floor(height / 2))
+    .slice(0, count);
+  if (positions.length >= count) return positions;
+
+  // Home half of the grid: rows nearest the team's own edge first, then centered
+  const center = (width - 1) / 2;
+  const candidates: GridPosition[] = [];
+  for (let z = 0; z < Math.floor(height / 2); z++) {
+    for (let x = 0; x < width; x++) candidates.push({ x, z });
+  }
+  candidates.sort((a, b) => a.z - b.z || Math.abs(a.x - center) - Math.abs(b.x - center) || a.x - b.x);
+
+  const isFree = (p: GridPosition) => !positions.some(q => q.x === p.x && q.z === p.z);
+  while (positions.length < count) {
+    const free = candidates.filter(isFree);
+    if (free.length === 0) break;
+    // Spread out where possible: skip tiles touching a unit that's already placed
+    const spaced = free.find(p => !positions.some(q => isAdjacent(p, q)));
+    positions.push(spaced ?? free[0]);
+  }
+  return positions;
+}
+
+/**
+ * Starting tiles for a team of `count` units.
+ * Returns fewer positions only if the home half of the grid is full.
+ */
+export function getSpawnPositions(
+  team: Team,
+  count: number,
+  width: number = GRID_SIZE,
+  height: number = width
+): GridPosition[] {
+  const positions = getPlayer1SpawnPositions(count, width, height);
+  if (team === "player1") return positions;
+  return positions.map(p => ({ x: width - 1 - p.x, z: height - 1 - p.z }));
+}
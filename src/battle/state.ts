@@ -5,7 +5,8 @@
  * These types enable headless game simulations without rendering.
  */
 
-import type { UnitClass, Team, CombatStyle } from "../types";
+import type { UnitClass, Team, CombatStyle, StatusEffect, StatusEffectId, TerrainType } from "../types";
+import { TERRAIN_DATA } from "../types";
 
 // =============================================================================
 // GRID & POSITION
@@ -43,7 +44,7 @@ export interface UnitState {
   /** Unique identifier for the unit */
   id: string;
 
-  /** Unit class (soldier, operator, medic) */
+  /** Unit class id (see config/classes.json) */
   unitClass: UnitClass;
 
   /** Which team the unit belongs to */
@@ -62,6 +63,8 @@ export interface UnitState {
   healAmount: number;
   moveRange: number;
   attackRange: number;
+  /** Ranged attacks can't reach this close (1 = adjacent tiles) */
+  minRange: number;
 
   /** Combat style determines weapon type and attack rules */
   combatStyle: CombatStyle;
@@ -72,15 +75,35 @@ export interface UnitState {
   accumulator: number;
   loadoutIndex: number;
 
-  /** Ability states */
-  isConcealed: boolean;
-  isCovering: boolean;
+  /** Status effects, in the order they were applied */
+  statusEffects: StatusEffect[];
+  /** Tiles watched while Cover is up */
   coveredTiles: GridKey[];
 
   /** Action tracking for current turn */
   actionsUsed: number;
 }
 
+// =============================================================================
+// BARRICADES
+// =============================================================================
+
+/**
+ * A barricade built by an Engineer.
+ * Its tile is also in BattleState.terrain (as a wall) while it stands, so
+ * movement and line of sight treat it like any other obstacle.
+ */
+export interface BarricadeState {
+  x: number;
+  z: number;
+  hp: number;
+  maxHp: number;
+  /** Unit that built it */
+  ownerId: string;
+  /** Owner turns left before it crumbles */
+  turnsRemaining: number;
+}
+
 // =============================================================================
 // PENDING ACTIONS
 // =============================================================================
@@ -106,11 +129,21 @@ export interface QueuedAction {
  * Contains all data needed to evaluate game rules without rendering.
  */
 export interface BattleState {
-  /** Grid dimensions */
-  gridSize: number;
+  /** Grid dimensions: x runs 0..width-1, z runs 0..height-1 */
+  width: number;
+  height: number;
+
+  /** Tiles inside the rectangle that aren't part of the map (out of bounds) */
+  holes: Set<GridKey>;
 
-  /** Terrain positions (blocked tiles) */
-  terrain: Set<GridKey>;
+  /** Terrain on each tile that has any, including standing barricades (as walls) */
+  terrain: Map<GridKey, TerrainType>;
+
+  /** Tile elevation levels; tiles not listed are at ground level (0) */
+  heights: Map<GridKey, number>;
+
+  /** Standing barricades */
+  barricades: BarricadeState[];
 
   /** All units in the battle */
   units: UnitState[];
@@ -132,17 +165,27 @@ export interface BattleState {
 
   /** Winning team (if game over) */
   winner: Team | null;
+
+  /** Team that took the previous turn (tie-breaker for simultaneous readiness) */
+  lastActingTeam: Team | null;
+
+  /** Opening round turn order (unit IDs), consumed before the accumulator takes over */
+  firstRoundQueue: string[];
 }
 
 // =============================================================================
 // FACTORY FUNCTIONS
 // =============================================================================
 
-/** Create initial battle state */
-export function createBattleState(gridSize: number): BattleState {
+/** Create initial battle state (square unless a height is given) */
+export function createBattleState(width: number, height: number = width): BattleState {
   return {
-    gridSize,
-    terrain: new Set(),
+    width,
+    height,
+    holes: new Set(),
+    terrain: new Map(),
+    heights: new Map(),
+    barricades: [],
     units: [],
     currentUnitId: null,
     actionsRemaining: 0,
@@ -150,6 +193,27 @@ export function createBattleState(gridSize: number): BattleState {
     originalPosition: null,
     isGameOver: false,
     winner: null,
+    lastActingTeam: null,
+    firstRoundQueue: [],
+  };
+}
+
+/** Deep copy of a battle state (units, terrain and queues are not shared) */
+export function cloneBattleState(state: BattleState): BattleState {
+  return {
+    ...state,
+    holes: new Set(state.holes),
+    terrain: new Map(state.terrain),
+    heights: new Map(state.heights),
+    barricades: state.barricades.map(b => ({ ...b })),
+    units: state.units.map(u => ({
+      ...u,
+      statusEffects: u.statusEffects.map(e => ({ ...e })),
+      coveredTiles: [...u.coveredTiles],
+    })),
+    pendingActions: state.pendingActions.map(a => ({ ...a })),
+    originalPosition: state.originalPosition ? { ...state.originalPosition } : null,
+    firstRoundQueue: [...state.firstRoundQueue],
   };
 }
 
@@ -169,25 +233,56 @@ export function getTeamUnits(state: BattleState, team: Team): UnitState[] {
   return state.units.filter(u => u.team === team && u.hp > 0);
 }
 
+/** Get a unit's status effect by id */
+export function getStatus(unit: { statusEffects: readonly StatusEffect[] }, id: StatusEffectId): StatusEffect | undefined {
+  return unit.statusEffects.find(e => e.id === id);
+}
+
+/** Check whether a unit has a status effect */
+export function hasStatus(unit: { statusEffects: readonly StatusEffect[] }, id: StatusEffectId): boolean {
+  return unit.statusEffects.some(e => e.id === id);
+}
+
 /** Get unit at position */
 export function getUnitAt(state: BattleState, x: number, z: number): UnitState | undefined {
   return state.units.find(u => u.gridX === x && u.gridZ === z && u.hp > 0);
 }
 
-/** Check if position has terrain */
+/** Check if position has terrain of any type */
 export function hasTerrain(state: BattleState, x: number, z: number): boolean {
   return state.terrain.has(toGridKey(x, z));
 }
 
-/** Check if position is within grid bounds */
+/** Get the terrain type at a position (undefined for open ground) */
+export function getTerrain(state: BattleState, x: number, z: number): TerrainType | undefined {
+  return state.terrain.get(toGridKey(x, z));
+}
+
+/** Check if position has terrain units can't stand on or walk through */
+export function isImpassable(state: BattleState, x: number, z: number): boolean {
+  const terrain = getTerrain(state, x, z);
+  return terrain !== undefined && !TERRAIN_DATA[terrain].walkable;
+}
+
+/** Get a tile's elevation level (0 = ground) */
+export function getHeight(state: BattleState, x: number, z: number): number {
+  return state.heights.get(toGridKey(x, z)) ?? 0;
+}
+
+/** Get the barricade standing at a position */
+export function getBarricadeAt(state: BattleState, x: number, z: number): BarricadeState | undefined {
+  return state.barricades.find(b => b.x === x && b.z === z);
+}
+
+/** Check if position is on the map (within grid bounds and not a hole) */
 export function isInBounds(state: BattleState, x: number, z: number): boolean {
-  return x >= 0 && x < state.gridSize && z >= 0 && z < state.gridSize;
+  return x >= 0 && x < state.width && z >= 0 && z < state.height && !state.holes.has(toGridKey(x, z));
 }
 
-/** Check if position is blocked (terrain or unit) */
+/** Check if position is blocked (impassable terrain or unit) */
 export function isBlocked(state: BattleState, x: number, z: number, excludeUnitId?: string): boolean {
   if (!isInBounds(state, x, z)) return true;
-  if (hasTerrain(state, x, z)) return true;
+  if (isImpassable(state, x, z)) return true;
   const unitAtPos = getUnitAt(state, x, z);
   if (unitAtPos && unitAtPos.id !== excludeUnitId) return true;
   return false;
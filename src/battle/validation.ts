@@ -0,0 +1,228 @@
+/**
+ * battle/validation.ts
+ *
+ * Authoritative command validation.
+ * Every command entering the engine - from the UI, the AI or a remote client -
+ * is checked here against the rules before it can be queued.
+ */
+
+import { getClassData } from "../config";
+import type { BattleCommand } from "./commands";
+import type { BattleState, UnitState } from "./state";
+import { getUnit, hasStatus, toGridKey } from "./state";
+import {
+  getValidMoveTiles,
+  getAttackableEnemies,
+  getHealableAllies,
+  getAttackableBarricades,
+  getBuildableTiles,
+} from "./rules";
+import { MAX_BARRICADES_PER_UNIT } from "../config";
+
+// =============================================================================
+// RESULT TYPES
+// =============================================================================
+
+/** Why a command was rejected */
+export type CommandRejectionReason =
+  | "gameOver"
+  | "unknownUnit"
+  | "notCurrentUnit"
+  | "noActionsLeft"
+  | "moveOutOfRange"
+  | "invalidAttackTarget"
+  | "invalidHealTarget"
+  | "targetAtFullHp"
+  | "alreadyConcealed"
+  | "alreadyCovering"
+  | "alreadyAiming"
+  | "abilityUnavailable"
+  | "invalidBuildTile"
+  | "barricadeLimit"
+  | "invalidBarricadeTarget";
+
+/** Outcome of validating a command */
+export type CommandValidation =
+  | { ok: true }
+  | { ok: false; reason: CommandRejectionReason; message: string };
+
+function reject(reason: CommandRejectionReason, message: string): CommandValidation {
+  return { ok: false, reason, message };
+}
+
+// =============================================================================
+// QUEUE PROJECTION
+// =============================================================================
+
+/** Where a unit will stand, and which abilities it will have up, after its queued commands */
+interface ProjectedUnit {
+  x: number;
+  z: number;
+  isConcealed: boolean;
+  isCovering: boolean;
+  isAiming: boolean;
+  /** Barricades the queued commands will build */
+  barricadesBuilt: number;
+}
+
+function projectQueuedCommands(unit: UnitState, queued: readonly BattleCommand[]): ProjectedUnit {
+  const projected: ProjectedUnit = {
+    x: unit.gridX,
+    z: unit.gridZ,
+    isConcealed: hasStatus(unit, "conceal"),
+    isCovering: hasStatus(unit, "cover"),
+    isAiming: hasStatus(unit, "aim"),
+    barricadesBuilt: 0,
+  };
+  for (const command of queued) {
+    if (command.type === "move") {
+      projected.x = command.targetX;
+      projected.z = command.targetZ;
+    } else if (command.type === "conceal") {
+      projected.isConcealed = true;
+    } else if (command.type === "cover") {
+      projected.isCovering = true;
+    } else if (command.type === "aim") {
+      projected.isAiming = true;
+    } else if (command.type === "attack" || command.type === "attackBarricade") {
+      projected.isAiming = false;
+    } else if (command.type === "barricade") {
+      projected.barricadesBuilt++;
+    }
+  }
+  return projected;
+}
+
+/** The state as the unit will see it: barricades it has queued already stand */
+function projectQueuedTerrain(state: BattleState, queued: readonly BattleCommand[]): BattleState {
+  const built = queued.filter(c => c.type === "barricade");
+  if (built.length === 0) return state;
+  const terrain = new Map(state.terrain);
+  for (const command of built) terrain.set(toGridKey(command.targetX, command.targetZ), "wall");
+  return { ...state, terrain };
+}
+
+// =============================================================================
+// VALIDATION
+// =============================================================================
+
+/**
+ * Check whether a unit may queue a command.
+ * `queued` holds the commands already queued this turn; targeting is evaluated
+ * from the position the unit will occupy once they resolve.
+ */
+export function validateCommand(
+  state: BattleState,
+  unitId: string,
+  command: BattleCommand,
+  queued: readonly BattleCommand[] = []
+): CommandValidation {
+  if (state.isGameOver) {
+    return reject("gameOver", "The battle is over");
+  }
+
+  const unit = getUnit(state, unitId);
+  if (!unit || unit.hp <= 0) {
+    return reject("unknownUnit", `No living unit with id ${unitId}`);
+  }
+  if (state.currentUnitId !== unitId) {
+    return reject("notCurrentUnit", `It is not ${unitId}'s turn`);
+  }
+  if (state.actionsRemaining <= 0) {
+    return reject("noActionsLeft", "No actions left this turn");
+  }
+
+  const projected = projectQueuedCommands(unit, queued);
+  const planned = projectQueuedTerrain(state, queued);
+  const ability = getClassData(unit.unitClass).ability;
+
+  switch (command.type) {
+    case "move": {
+      const validTiles = getValidMoveTiles(planned, unit, projected.x, projected.z);
+      if (!validTiles.some(t => t.x === command.targetX && t.z === command.targetZ)) {
+        return reject("moveOutOfRange", `(${command.targetX},${command.targetZ}) is not reachable`);
+      }
+      return { ok: true };
+    }
+
+    case "attack": {
+      const targets = getAttackableEnemies(planned, unit, projected.x, projected.z);
+      if (!targets.some(t => t.id === command.targetUnitId)) {
+        return reject("invalidAttackTarget", `${command.targetUnitId} cannot be attacked`);
+      }
+      return { ok: true };
+    }
+
+    case "heal": {
+      if (ability !== "heal") {
+        return reject("abilityUnavailable", `${unit.unitClass} cannot heal`);
+      }
+      const target = getUnit(state, command.targetUnitId);
+      if (!target || target.hp <= 0 || target.team !== unit.team) {
+        return reject("invalidHealTarget", `${command.targetUnitId} is not a living ally`);
+      }
+      if (target.hp >= target.maxHp) {
+        return reject("targetAtFullHp", `${target.id} is already at full HP`);
+      }
+      // Self-heal works from wherever the medic ends up
+      if (target.id === unit.id) {
+        return { ok: true };
+      }
+      const allies = getHealableAllies(planned, unit, projected.x, projected.z);
+      if (!allies.some(a => a.id === target.id)) {
+        return reject("invalidHealTarget", `${target.id} is out of reach`);
+      }
+      return { ok: true };
+    }
+
+    case "conceal":
+      if (ability !== "conceal") {
+        return reject("abilityUnavailable", `${unit.unitClass} cannot conceal`);
+      }
+      if (projected.isConcealed) {
+        return reject("alreadyConcealed", `${unit.id} is already concealed`);
+      }
+      return { ok: true };
+
+    case "cover":
+      if (ability !== "cover") {
+        return reject("abilityUnavailable", `${unit.unitClass} cannot take cover`);
+      }
+      if (projected.isCovering) {
+        return reject("alreadyCovering", `${unit.id} is already covering`);
+      }
+      return { ok: true };
+
+    case "aim":
+      if (ability !== "aim") {
+        return reject("abilityUnavailable", `${unit.unitClass} cannot aim`);
+      }
+      if (projected.isAiming) {
+        return reject("alreadyAiming", `${unit.id} is already aiming`);
+      }
+      return { ok: true };
+
+    case "barricade": {
+      if (ability !== "barricade") {
+        return reject("abilityUnavailable", `${unit.unitClass} cannot build barricades`);
+      }
+      const standing = state.barricades.filter(b => b.ownerId === unit.id).length;
+      if (standing + projected.barricadesBuilt >= MAX_BARRICADES_PER_UNIT) {
+        return reject("barricadeLimit", `${unit.id} already has ${MAX_BARRICADES_PER_UNIT} barricades up`);
+      }
+      const tiles = getBuildableTiles(planned, unit, projected.x, projected.z);
+      if (!tiles.some(t => t.x === command.targetX && t.z === command.targetZ)) {
+        return reject("invalidBuildTile", `Cannot build at (${command.targetX},${command.targetZ})`);
+      }
+      return { ok: true };
+    }
+
+    case "attackBarricade": {
+      const targets = getAttackableBarricades(planned, unit, projected.x, projected.z);
+      if (!targets.some(b => b.x === command.targetX && b.z === command.targetZ)) {
+        return reject("invalidBarricadeTarget", `No barricade to attack at (${command.targetX},${command.targetZ})`);
+      }
+      return { ok: true };
+    }
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * classes.ts
+ *
+ * Unit class definitions, loaded from classes.json.
+ * Each entry carries a class's stats, point cost, ability, model file and AI
+ * archetype, so adding a class only means adding an entry there (plus its
+ * models under public/models). The file is validated when this module loads;
+ * a bad entry stops the game with a message naming the field.
+ */
+
+import type { AbilityId, AiArchetype, ClassData, UnitClass } from "../types";
+import classDefinitions from "./classes.json";
+
+/** Abilities a class may use */
+const ABILITY_IDS: AbilityId[] = ["cover", "conceal", "heal", "barricade", "aim"];
+
+/** AI playstyles, with the ability each one's behavior relies on */
+const AI_ARCHETYPE_ABILITIES: Record<AiArchetype, AbilityId> = {
+  frontline: "cover",
+  stealth: "conceal",
+  support: "heal",
+  builder: "barricade",
+  marksman: "aim",
+};
+
+/** Loadout codes store the class (its codeId) in 4 bits */
+const MAX_CLASSES = 16;
+
+const STRING_FIELDS = ["id", "name", "tagline", "description", "abilityName", "abilityDescription", "modelFile"] as const;
+const STAT_FIELDS = ["hp", "attack", "moveRange", "attackRange", "minRange", "healAmount", "pointCost"] as const;
+
+/** Stats that must be at least 1 for the unit to work at all */
+const POSITIVE_STATS = new Set<string>(["hp", "moveRange", "attackRange", "minRange"]);
+
+/**
+ * Validate class definitions (the parsed contents of classes.json).
+ * Throws listing every problem found.
+ */
+export function parseClassDefinitions(json: unknown): ClassData[] {
+  const errors: string[] = [];
+  const list = (json as { classes?: unknown } | null)?.classes;
+  if (!Array.isArray(list) || list.length === 0) {
+    throw new Error("Invalid class definitions: expected a non-empty \"classes\" array");
+  }
+  if (list.length > MAX_CLASSES) {
+    errors.push(`at most ${MAX_CLASSES} classes are supported`);
+  }
+
+  const seen = new Set<string>();
+  const seenCodeIds = new Set<number>();
+  list.forEach((entry: unknown, i) => {
+    const raw = (entry && typeof entry === "object" ? entry : {}) as Record<string, unknown>;
+    const where = `classes[${i}]${typeof raw.id === "string" ? ` (${raw.id})` : ""}`;
+
+    for (const field of STRING_FIELDS) {
+      if (typeof raw[field] !== "string" || !raw[field]) {
+        errors.push(`${where}.${field} must be a non-empty string`);
+      }
+    }
+    for (const field of STAT_FIELDS) {
+      const value = raw[field];
+      const min = POSITIVE_STATS.has(field) ? 1 : 0;
+      if (typeof value !== "number" || !Number.isInteger(value) || value < min) {
+        errors.push(`${where}.${field} must be an integer of at least ${min}`);
+      }
+    }
+    if (typeof raw.attackRange === "number" && typeof raw.minRange === "number" && raw.attackRange <= raw.minRange) {
+      errors.push(`${where}.attackRange must be greater than minRange`);
+    }
+    if (!ABILITY_IDS.includes(raw.ability as AbilityId)) {
+      errors.push(`${where}.ability must be one of ${ABILITY_IDS.join(", ")}`);
+    } else if (raw.ability === "heal" && raw.healAmount === 0) {
+      errors.push(`${where}.healAmount must be above 0 for a healer`);
+    }
+    const archetypeAbility = Object.prototype.hasOwnProperty.call(AI_ARCHETYPE_ABILITIES, String(raw.aiArchetype))
+      ? AI_ARCHETYPE_ABILITIES[raw.aiArchetype as AiArchetype]
+      : undefined;
+    if (!archetypeAbility) {
+      errors.push(`${where}.aiArchetype must be one of ${Object.keys(AI_ARCHETYPE_ABILITIES).join(", ")}`);
+    } else if (raw.ability !== archetypeAbility) {
+      errors.push(`${where}.aiArchetype ${raw.aiArchetype} needs the ${archetypeAbility} ability`);
+    }
+    if (typeof raw.id === "string") {
+      if (seen.has(raw.id)) errors.push(`${where}.id is used by more than one class`);
+      seen.add(raw.id);
+    }
+    const codeId = raw.codeId;
+    if (typeof codeId !== "number" || !Number.isInteger(codeId) || codeId < 0 || codeId >= MAX_CLASSES) {
+      errors.push(`${where}.codeId must be an integer from 0 to ${MAX_CLASSES - 1}`);
+    } else {
+      if (seenCodeIds.has(codeId)) errors.push(`${where}.codeId is used by more than one class`);
+      seenCodeIds.add(codeId);
+    }
+  });
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid class definitions:\n${errors.map(e => `  - ${e}`).join("\n")}`);
+  }
+  return list as ClassData[];
+}
+
+const LOADED_CLASSES = parseClassDefinitions(classDefinitions);
+
+/** Class definitions by id */
+export const CLASS_DATA: Record<UnitClass, ClassData> = Object.fromEntries(
+  LOADED_CLASSES.map(data => [data.id, data])
+);
+
+/** All available unit classes, in the order the loadout screen offers them */
+export const ALL_CLASSES: UnitClass[] = LOADED_CLASSES.map(data => data.id);
+
+/** Helper to get class data by class ID */
+export function getClassData(unitClass: UnitClass): ClassData {
+  const data = CLASS_DATA[unitClass];
+  if (!data) throw new Error(`Unknown unit class: ${unitClass}`);
+  return data;
+}
@@ -102,9 +102,38 @@ export const TILE_COLOR_LIGHT = { r: 0.18, g: 0.22, b: 0.17 };
 /** Dark tile color (checkerboard pattern) */
 export const TILE_COLOR_DARK = { r: 0.12, g: 0.15, b: 0.11 };
 
+/** Side color of raised tiles (the ground beneath an elevated tile) */
+export const ELEVATION_SIDE_COLOR = { r: 0.2, g: 0.18, b: 0.14 };
+
 /** Terrain block color (obstacles) */
 export const TERRAIN_COLOR = { r: 0.4, g: 0.35, b: 0.3 };
 
+/** Low wall color (lighter than full walls so the two read apart) */
+export const LOW_WALL_COLOR = { r: 0.52, g: 0.48, b: 0.42 };
+
+/** Rough ground tile color */
+export const ROUGH_GROUND_COLOR = { r: 0.26, g: 0.22, b: 0.14 };
+
+/** Water tile color */
+export const WATER_COLOR = { r: 0.15, g: 0.3, b: 0.5 };
+
+/** Hazard tile color */
+export const HAZARD_COLOR = { r: 0.55, g: 0.2, b: 0.08 };
+
+/** Engineer barricade color */
+export const BARRICADE_COLOR = { r: 0.55, g: 0.45, b: 0.25 };
+
+/** Objective marker color (hand-authored maps) */
+export const OBJECTIVE_COLOR = { r: 0.95, g: 0.75, b: 0.2 };
+
+/** Map decoration colors, by kind */
+export const DECORATION_COLORS = {
+  rock: { r: 0.35, g: 0.34, b: 0.32 },
+  crate: { r: 0.45, g: 0.32, b: 0.18 },
+  barrel: { r: 0.3, g: 0.32, b: 0.3 },
+  bush: { r: 0.16, g: 0.3, b: 0.12 },
+};
+
 // =============================================================================
 // TILE HIGHLIGHT COLORS (RGB 0-1 range for Color3)
 // =============================================================================
@@ -124,6 +153,9 @@ export const HIGHLIGHT_HEALABLE = { r: 0.3, g: 0.9, b: 0.5 };
 /** Blocked/no-LOS target highlight (gray) */
 export const HIGHLIGHT_BLOCKED = { r: 0.4, g: 0.4, b: 0.4 };
 
+/** Tile a barricade can be built on (orange) */
+export const HIGHLIGHT_BUILDABLE = { r: 0.9, g: 0.6, b: 0.2 };
+
 // =============================================================================
 // HP BAR COLORS (hex for GUI)
 // =============================================================================
@@ -241,12 +273,18 @@ export const SCENE_BACKGROUNDS = {
   /** Title scene - warm black with subtle undertone */
   title: { r: 0.02, g: 0.01, b: 0.01, a: 1 },
 
+  /** Lobby scene - warm black (matches title) */
+  lobby: { r: 0.03, g: 0.02, b: 0.02, a: 1 },
+
   /** Loadout scene - dark blue-gray */
   loadout: { r: 0.08, g: 0.08, b: 0.12, a: 1 },
 
   /** Battle scene - dark blue-gray */
   battle: { r: 0.1, g: 0.1, b: 0.15, a: 1 },
 
+  /** Map editor - dark blue-gray (matches battle) */
+  editor: { r: 0.1, g: 0.1, b: 0.15, a: 1 },
+
   /** RTT preview background - lighter to see dark elements */
   rttPreview: { r: 0.3, g: 0.32, b: 0.38, a: 1 },
 } as const;
@@ -10,6 +10,8 @@
  * 3. Use SCREAMING_SNAKE_CASE for naming
  */
 
+import type { CombatStyle, TerrainType } from "../types";
+
 // =============================================================================
 // GRID & TERRAIN
 // =============================================================================
@@ -23,14 +25,92 @@ export const TILE_SIZE = 1;
 /** Gap between tiles for visual separation */
 export const TILE_GAP = 0.05;
 
-/** Number of random terrain cubes to generate */
+/** Number of random terrain tiles on a default-size classic map at normal density */
 export const TERRAIN_COUNT = 10;
 
+/** Relative odds of each terrain type when a terrain tile is generated */
+export const TERRAIN_TYPE_WEIGHTS: Record<TerrainType, number> = {
+  wall: 4,
+  lowWall: 2,
+  water: 2,
+  rough: 1,
+  hazard: 1,
+};
+
+/** How tall a low wall stands above its tile, in levels (a full wall is TERRAIN_BLOCK_HEIGHT) */
+export const LOW_WALL_HEIGHT = 0.75;
+
+/** Movement cost of stepping onto rough ground (level ground costs 1) */
+export const ROUGH_GROUND_MOVE_COST = 2;
+
+/** Damage a unit takes when it ends its turn on hazardous ground */
+export const HAZARD_DAMAGE = 10;
+
+// =============================================================================
+// MAPS
+// =============================================================================
+
+/** Smallest side a hand-authored map may have */
+export const MAP_MIN_SIZE = 4;
+
+/** Largest side a hand-authored map may have */
+export const MAP_MAX_SIZE = 24;
+
+/** Terrain densities offered for generated maps (1 = each style's usual amount) */
+export const MAP_DENSITY_OPTIONS = [
+  { label: "Sparse", density: 0.5 },
+  { label: "Normal", density: 1 },
+  { label: "Dense", density: 1.5 },
+] as const;
+
+/**
+ * Generated maps scoring above this imbalance are re-rolled (see
+ * battle/fairness.ts: 0 is level, 1 is as lopsided as it gets)
+ */
+export const MAP_FAIRNESS_THRESHOLD = 0.3;
+
+/** Most maps generated looking for a fair one; the fairest is kept */
+export const MAP_GEN_MAX_ATTEMPTS = 10;
+
+/** Edits the map editor can undo */
+export const EDITOR_UNDO_LIMIT = 100;
+
+// =============================================================================
+// ELEVATION
+// =============================================================================
+
+/** Highest tile level (0 = ground) */
+export const MAX_ELEVATION = 2;
+
+/** Number of hills raised on a default-size generated map */
+export const ELEVATION_HILL_COUNT = 3;
+
+/** Largest height difference a unit can step up or down in one move */
+export const MAX_HEIGHT_STEP = 1;
+
+/** Extra damage per level the attacker stands above the defender (less per level below) */
+export const ELEVATION_DAMAGE_PER_LEVEL = 0.2;
+
+/** How tall a terrain block stands above its tile, in levels (for line of sight) */
+export const TERRAIN_BLOCK_HEIGHT = 1;
+
+/** How tall a unit stands above its tile, in levels (for line of sight) */
+export const UNIT_HEIGHT = 1;
+
+/** Eye height above a unit's tile, in levels (sight lines run between eyes) */
+export const UNIT_SIGHT_HEIGHT = 0.5;
+
+/** World units per elevation level when rendering */
+export const ELEVATION_LEVEL_HEIGHT = 0.35;
+
 // =============================================================================
 // SPAWN POSITIONS
 // =============================================================================
 
-/** Starting positions for Player 1 units (bottom-left quadrant) */
+/**
+ * Starting positions for Player 1 units (bottom-left quadrant).
+ * Teams larger than this fill further tiles in their home rows (see getSpawnPositions).
+ */
 export const PLAYER1_SPAWN_POSITIONS = [
   { x: 1, z: 1 },
   { x: 3, z: 0 },
@@ -141,9 +221,25 @@ export const BASE_UNIT_SPEED = 1;
 /** Damage multiplier for melee attacks (vs ranged) */
 export const MELEE_DAMAGE_MULTIPLIER = 2;
 
+/** Extra damage on the next attack after Aim */
+export const AIM_BONUS_DAMAGE = 15;
+
 /** Multiplier for loadout boosts (HP, Damage, Speed) - 0.25 = 25% bonus */
 export const BOOST_MULTIPLIER = 0.25;
 
+// =============================================================================
+// BARRICADES (ENGINEER)
+// =============================================================================
+
+/** Hit points of a freshly built barricade */
+export const BARRICADE_HP = 40;
+
+/** Builder turns a barricade lasts, counted down as each one starts (it crumbles at 0) */
+export const BARRICADE_DURATION_TURNS = 3;
+
+/** Barricades one unit can have standing at once */
+export const MAX_BARRICADES_PER_UNIT = 2;
+
 // =============================================================================
 // HP BAR THRESHOLDS
 // =============================================================================
@@ -273,8 +369,12 @@ export const START_BUTTON_HEIGHT = "50px";
 // LOADOUT SCENE
 // =============================================================================
 
-/** Required number of units per team */
-export const UNITS_PER_TEAM = 3;
+/** Units each team starts with on the loadout screen */
+export const DEFAULT_UNITS_PER_TEAM = 3;
+
+/** Team size limits (the point budget decides what fits in between) */
+export const MIN_UNITS_PER_TEAM = 1;
+export const MAX_UNITS_PER_TEAM = 6;
 
 /** Total number of team color options */
 export const TEAM_COLOR_COUNT = 7;
@@ -282,3 +382,35 @@ export const TEAM_COLOR_COUNT = 7;
 /** Default team color indices (into TEAM_COLORS array) */
 export const DEFAULT_PLAYER1_COLOR_INDEX = 2; // Blue
 export const DEFAULT_PLAYER2_COLOR_INDEX = 0; // Red
+
+// =============================================================================
+// ARMY BUILDING (POINTS)
+// =============================================================================
+
+/** Extra points for each combat style (ranged can hit from further away) */
+export const COMBAT_STYLE_POINT_COSTS: Record<CombatStyle, number> = {
+  ranged: 10,
+  melee: 0,
+};
+
+/** Point cost of each boost, by boost index (Tough, Deadly, Quick) */
+export const BOOST_POINT_COSTS = [20, 25, 25];
+
+/** Budget each team is built under unless the players pick another */
+export const DEFAULT_POINT_BUDGET = 400;
+
+/** Budgets offered on the loadout screen */
+export const POINT_BUDGET_OPTIONS = [300, 400, 500, 650, 800];
+
+// =============================================================================
+// ONLINE PLAY
+// =============================================================================
+
+/** Port the relay server (npm run relay) listens on */
+export const RELAY_DEFAULT_PORT = 8787;
+
+/** Characters in a lobby room code */
+export const ROOM_CODE_LENGTH = 5;
+
+/** How long a rejoining player waits for the opponent to send the match log (ms) */
+export const RESUME_TIMEOUT_MS = 5000;
@@ -0,0 +1,175 @@
+/**
+ * Shareable loadout codes: every class and item survives a round trip,
+ * version 1 codes still decode, and damaged or unknown codes are refused.
+ */
+
+import { describe, expect, it } from "vitest";
+import type { EquipmentId, EquipmentSlot, UnitEquipment, UnitSelection } from "../types";
+import { EQUIPMENT_DATA } from "../types";
+import { ALL_CLASSES, CLASS_DATA, EYE_COLORS, HAIR_COLORS, SKIN_TONES } from "../config";
+import { LOADOUT_CODE_VERSION, decodeLoadoutCode, encodeLoadoutCode } from "./codes";
+
+const BASE64_URL = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_";
+
+/** Write raw bytes as a code, with the checksum the format specifies (16-bit folded FNV-1a) */
+function packCode(bytes: number[]): string {
+  let hash = 0x811c9dc5;
+  for (const byte of bytes) {
+    hash ^= byte;
+    hash = Math.imul(hash, 0x01000193);
+  }
+  const sum = ((hash >>> 16) ^ hash) & 0xffff;
+  const binary = String.fromCharCode(...bytes, sum >> 8, sum & 0xff);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+/** The bytes a code holds */
+function unpackCode(code: string): Uint8Array {
+  return Uint8Array.from(atob(code.replace(/-/g, "+").replace(/_/g, "/")), c => c.charCodeAt(0));
+}
+
+/** Every way to fill a slot, starting with leaving it empty */
+function slotOptions(slot: EquipmentSlot): (EquipmentId | undefined)[] {
+  return [undefined, ...Object.values(EQUIPMENT_DATA).filter(item => item.slot === slot).map(item => item.id)];
+}
+
+/** One unit of a class carrying each combination of equipment */
+function withAllEquipment(unitClass: string): UnitSelection[] {
+  const units: UnitSelection[] = [];
+  for (const weapon of slotOptions("weapon")) {
+    for (const armor of slotOptions("armor")) {
+      for (const utility of slotOptions("utility")) {
+        const i = units.length;
+        units.push({
+          unitClass,
+          boost: i % 3,
+          customization: {
+            body: i % 2 ? "female" : "male",
+            combatStyle: i % 3 ? "ranged" : "melee",
+            handedness: i % 5 ? "right" : "left",
+            head: i % 4,
+            hairColor: i % HAIR_COLORS.length,
+            eyeColor: (i + 1) % EYE_COLORS.length,
+            skinTone: (i + 2) % SKIN_TONES.length,
+          },
+          equipment: { weapon, armor, utility } as UnitEquipment,
+        });
+      }
+    }
+  }
+  return units;
+}
+
+const SNIPER: UnitSelection = {
+  unitClass: "sniper",
+  boost: 2,
+  customization: {
+    body: "female",
+    combatStyle: "ranged",
+    handedness: "left",
+    head: 3,
+    hairColor: HAIR_COLORS.length - 1,
+    eyeColor: EYE_COLORS.length - 1,
+    skinTone: SKIN_TONES.length - 1,
+  },
+  equipment: { weapon: "rifle", armor: "light", utility: "scope" },
+};
+
+describe("loadout codes", () => {
+  it.each(ALL_CLASSES)("round-trip every equipment combination for %s", (unitClass) => {
+    const units = withAllEquipment(unitClass);
+    expect(decodeLoadoutCode(encodeLoadoutCode(units))).toEqual(units);
+  });
+
+  it("round-trip the largest appearance values and a mixed team", () => {
+    const team = [SNIPER, ...ALL_CLASSES.map(unitClass => withAllEquipment(unitClass)[7])];
+    const code = encodeLoadoutCode(team);
+    expect(code).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeLoadoutCode(` ${code}\n`)).toEqual(team);
+  });
+
+  it("store classes by their codeId", () => {
+    for (const unitClass of ALL_CLASSES) {
+      const bytes = unpackCode(encodeLoadoutCode([{ unitClass }]));
+      expect(bytes[0]).toBe(LOADOUT_CODE_VERSION);
+      expect(bytes[2] >> 4).toBe(CLASS_DATA[unitClass].codeId);
+    }
+  });
+
+  it("give units saved without an appearance the editor's defaults", () => {
+    const [unit] = decodeLoadoutCode(encodeLoadoutCode([{ unitClass: "medic" }]));
+    expect(unit).toEqual({
+      unitClass: "medic",
+      boost: 0,
+      customization: { body: "male", combatStyle: "ranged", handedness: "right", head: 0, hairColor: 0, eyeColor: 2, skinTone: 4 },
+      equipment: {},
+    });
+  });
+
+  it("still decode version 1 codes (no equipment byte)", () => {
+    const medic = CLASS_DATA.medic.codeId;
+    const soldier = CLASS_DATA.soldier.codeId;
+    const code = packCode([
+      1, 2,
+      (medic << 4) | (1 << 2) | 0b01, (1 << 7) | (2 << 4) | 3, (4 << 4) | 5,
+      (soldier << 4) | 0b10, 0, 0,
+    ]);
+
+    expect(decodeLoadoutCode(code)).toEqual([
+      {
+        unitClass: "medic",
+        boost: 1,
+        customization: { body: "female", combatStyle: "ranged", handedness: "left", head: 2, hairColor: 4, eyeColor: 5, skinTone: 3 },
+        equipment: {},
+      },
+      {
+        unitClass: "soldier",
+        boost: 0,
+        customization: { body: "male", combatStyle: "melee", handedness: "right", head: 0, hairColor: 0, eyeColor: 0, skinTone: 0 },
+        equipment: {},
+      },
+    ]);
+  });
+
+  it("refuse a code with a character changed", () => {
+    const code = encodeLoadoutCode([SNIPER]);
+    const i = 5;
+    const flipped = BASE64_URL[(BASE64_URL.indexOf(code[i]) + 1) % 64];
+    expect(() => decodeLoadoutCode(code.slice(0, i) + flipped + code.slice(i + 1))).toThrow("checksum");
+  });
+
+  it("refuse a code spelled with unused bits set", () => {
+    // 8 bytes leave 2 unused bits in the last character
+    const code = encodeLoadoutCode([SNIPER]);
+    const last = BASE64_URL.indexOf(code[code.length - 1]);
+    expect(last % 4).toBe(0);
+    const respelled = code.slice(0, -1) + BASE64_URL[last + 1];
+    expect(() => decodeLoadoutCode(respelled)).toThrow("checksum");
+  });
+
+  it("refuse codes of the wrong length", () => {
+    const code = encodeLoadoutCode([SNIPER]);
+    expect(() => decodeLoadoutCode(code.slice(0, 3))).toThrow("too short");
+    expect(() => decodeLoadoutCode(packCode([LOADOUT_CODE_VERSION, 2, 0, 0, 0, 0]))).toThrow("wrong length");
+  });
+
+  it("refuse an unknown version", () => {
+    expect(() => decodeLoadoutCode(packCode([LOADOUT_CODE_VERSION + 1, 0]))).toThrow(
+      `Unsupported loadout code version ${LOADOUT_CODE_VERSION + 1}`
+    );
+  });
+
+  it("refuse a codeId no class has", () => {
+    const used = new Set(Object.values(CLASS_DATA).map(data => data.codeId));
+    const unused = [...Array(16).keys()].find(id => !used.has(id))!;
+    expect(() => decodeLoadoutCode(packCode([LOADOUT_CODE_VERSION, 1, unused << 4, 0, 0, 0]))).toThrow("invalid unit 1");
+  });
+
+  it("refuse to encode a class this build doesn't know", () => {
+    expect(() => encodeLoadoutCode([{ unitClass: "pirate" }])).toThrow("unknown unit class: pirate");
+  });
+
+  it("refuse characters outside the URL-safe alphabet", () => {
+    expect(() => decodeLoadoutCode("AgE+AAAA")).toThrow("invalid characters");
+  });
+});
@@ -0,0 +1,206 @@
+/**
+ * loadouts/codes.ts
+ *
+ * Shareable loadout codes.
+ * A team packs into a few bytes (4 per unit) and is written as URL-safe
+ * base64, short enough to paste in chat or put in a link (?p1= / ?p2=).
+ *
+ * Layout (version 2):
+ *   byte 0      format version
+ *   byte 1      unit count
+ *   per unit    [class:4 | boost:2 | style:1 | body:1]
+ *               [handedness:1 | head:3 | skin:4]
+ *               [hair:4 | eye:4]
+ *               [weapon:4 | armor:2 | utility:2]
+ *   last 2      checksum of everything before it
+ *
+ * The class field holds the class's codeId from classes.json, so adding or
+ * reordering classes doesn't change what existing codes decode to.
+ * Equipment fields hold 1 + the item's position in EQUIPMENT_DATA within its
+ * slot, or 0 for none. Version 1 codes (no equipment byte) still decode.
+ */
+
+import type { EquipmentId, EquipmentSlot, Team, UnitClass, UnitCustomization, UnitEquipment, UnitSelection } from "../types";
+import { EQUIPMENT_DATA } from "../types";
+import { CLASS_DATA, SKIN_TONES, HAIR_COLORS, EYE_COLORS } from "../config";
+
+/** Bump when the byte layout changes */
+export const LOADOUT_CODE_VERSION = 2;
+
+/** Bytes per unit for each readable version */
+const BYTES_PER_UNIT: Record<number, number> = { 1: 3, 2: 4 };
+const HEAD_COUNT = 4;
+const BOOST_COUNT = 3;
+
+/** Appearance used for units saved without one (matches the editor's defaults) */
+const DEFAULT_CUSTOMIZATION: UnitCustomization = {
+  body: "male",
+  combatStyle: "ranged",
+  handedness: "right",
+  head: 0,
+  hairColor: 0,
+  eyeColor: 2,
+  skinTone: 4,
+};
+
+/** Items of a slot in code order */
+function slotItems(slot: EquipmentSlot): EquipmentId[] {
+  return Object.values(EQUIPMENT_DATA).filter(item => item.slot === slot).map(item => item.id);
+}
+
+function encodeItem(slot: EquipmentSlot, id: EquipmentId | undefined): number {
+  return id ? slotItems(slot).indexOf(id) + 1 : 0;
+}
+
+/** Item for an encoded field; null if the field is out of range */
+function decodeItem(slot: EquipmentSlot, field: number): EquipmentId | undefined | null {
+  if (field === 0) return undefined;
+  return slotItems(slot)[field - 1] ?? null;
+}
+
+/** Class stored under a code id, if any */
+function classForCodeId(codeId: number): UnitClass | undefined {
+  return Object.values(CLASS_DATA).find(data => data.codeId === codeId)?.id;
+}
+
+/** 16-bit checksum (FNV-1a folded) */
+function checksum(bytes: Uint8Array): number {
+  let hash = 0x811c9dc5;
+  for (const byte of bytes) {
+    hash ^= byte;
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return ((hash >>> 16) ^ hash) & 0xffff;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(code: string): Uint8Array {
+  const base64 = code.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64 + "=".repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+}
+
+/** Encode a team as a shareable code. Throws on a class this build doesn't know. */
+export function encodeLoadoutCode(units: UnitSelection[]): string {
+  const bytesPerUnit = BYTES_PER_UNIT[LOADOUT_CODE_VERSION];
+  const bytes = new Uint8Array(2 + units.length * bytesPerUnit + 2);
+  bytes[0] = LOADOUT_CODE_VERSION;
+  bytes[1] = units.length;
+
+  units.forEach((unit, i) => {
+    const c = unit.customization ?? DEFAULT_CUSTOMIZATION;
+    const equipment = unit.equipment ?? {};
+    const offset = 2 + i * bytesPerUnit;
+    const classData = CLASS_DATA[unit.unitClass];
+    if (!classData) throw new Error(`Cannot encode unknown unit class: ${unit.unitClass}`);
+    bytes[offset] =
+      (classData.codeId << 4) |
+      ((unit.boost ?? 0) << 2) |
+      ((c.combatStyle === "melee" ? 1 : 0) << 1) |
+      (c.body === "female" ? 1 : 0);
+    bytes[offset + 1] = ((c.handedness === "left" ? 1 : 0) << 7) | (c.head << 4) | c.skinTone;
+    bytes[offset + 2] = (c.hairColor << 4) | c.eyeColor;
+    bytes[offset + 3] =
+      (encodeItem("weapon", equipment.weapon) << 4) |
+      (encodeItem("armor", equipment.armor) << 2) |
+      encodeItem("utility", equipment.utility);
+  });
+
+  const sum = checksum(bytes.subarray(0, bytes.length - 2));
+  bytes[bytes.length - 2] = sum >> 8;
+  bytes[bytes.length - 1] = sum & 0xff;
+  return toBase64Url(bytes);
+}
+
+/**
+ * Decode a shared code.
+ * Throws with a player-readable message if the code is mistyped, corrupted
+ * or from an unsupported version.
+ */
+export function decodeLoadoutCode(code: string): UnitSelection[] {
+  const trimmed = code.trim();
+  if (!/^[A-Za-z0-9_-]+$/.test(trimmed)) {
+    throw new Error("Loadout code contains invalid characters");
+  }
+
+  const bytes = fromBase64Url(trimmed);
+  if (bytes.length < 4) throw new Error("Loadout code is too short");
+  // The last character can carry unused bits; only the canonical spelling is valid
+  if (toBase64Url(bytes) !== trimmed) {
+    throw new Error("Loadout code checksum doesn't match - check for typos");
+  }
+  const bytesPerUnit = BYTES_PER_UNIT[bytes[0]];
+  if (!bytesPerUnit) {
+    throw new Error(`Unsupported loadout code version ${bytes[0]}`);
+  }
+  const count = bytes[1];
+  if (bytes.length !== 2 + count * bytesPerUnit + 2) {
+    throw new Error("Loadout code has the wrong length");
+  }
+  const sum = (bytes[bytes.length - 2] << 8) | bytes[bytes.length - 1];
+  if (sum !== checksum(bytes.subarray(0, bytes.length - 2))) {
+    throw new Error("Loadout code checksum doesn't match - check for typos");
+  }
+
+  const units: UnitSelection[] = [];
+  for (let i = 0; i < count; i++) {
+    const offset = 2 + i * bytesPerUnit;
+    const [b0, b1, b2] = [bytes[offset], bytes[offset + 1], bytes[offset + 2]];
+    // Version 1 codes have no equipment byte
+    const b3 = bytesPerUnit > 3 ? bytes[offset + 3] : 0;
+
+    const unitClass = classForCodeId(b0 >> 4);
+    const boost = (b0 >> 2) & 0b11;
+    const head = (b1 >> 4) & 0b111;
+    const skinTone = b1 & 0xf;
+    const hairColor = b2 >> 4;
+    const eyeColor = b2 & 0xf;
+    const weapon = decodeItem("weapon", b3 >> 4);
+    const armor = decodeItem("armor", (b3 >> 2) & 0b11);
+    const utility = decodeItem("utility", b3 & 0b11);
+    if (
+      !unitClass || boost >= BOOST_COUNT || head >= HEAD_COUNT ||
+      skinTone >= SKIN_TONES.length || hairColor >= HAIR_COLORS.length || eyeColor >= EYE_COLORS.length ||
+      weapon === null || armor === null || utility === null
+    ) {
+      throw new Error(`Loadout code has an invalid unit ${i + 1}`);
+    }
+
+    units.push({
+      unitClass,
+      boost,
+      customization: {
+        body: b0 & 1 ? "female" : "male",
+        combatStyle: (b0 >> 1) & 1 ? "melee" : "ranged",
+        handedness: b1 >> 7 ? "left" : "right",
+        head,
+        hairColor,
+        eyeColor,
+        skinTone,
+      },
+      equipment: { weapon, armor, utility } as UnitEquipment,
+    });
+  }
+  return units;
+}
+
+/** Teams shared by link (?p1= / ?p2=); unreadable codes are skipped */
+export function getSharedLoadoutsFromUrl(): Partial<Record<Team, UnitSelection[]>> {
+  const params = new URLSearchParams(window.location.search);
+  const shared: Partial<Record<Team, UnitSelection[]>> = {};
+  for (const [param, team] of [["p1", "player1"], ["p2", "player2"]] as const) {
+    const code = params.get(param);
+    if (!code) continue;
+    try {
+      shared[team] = decodeLoadoutCode(code);
+    } catch (error) {
+      console.warn(`Ignoring ?${param}= loadout code:`, error);
+    }
+  }
+  return shared;
+}
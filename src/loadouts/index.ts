@@ -0,0 +1,35 @@
+/**
+ * loadouts/index.ts
+ *
+ * Army building: point costs, the local loadout library and shareable
+ * loadout codes.
+ */
+
+// Points
+export {
+  type TeamPointCheck,
+  getUnitPointCost,
+  getTeamPointCost,
+  checkTeamPoints,
+} from "./points";
+
+// Library
+export {
+  type SavedLoadout,
+  LOADOUT_LIBRARY_VERSION,
+  parseLoadoutLibrary,
+  listSavedLoadouts,
+  getSavedLoadout,
+  saveLoadout,
+  renameSavedLoadout,
+  duplicateSavedLoadout,
+  deleteSavedLoadout,
+} from "./library";
+
+// Share codes
+export {
+  LOADOUT_CODE_VERSION,
+  encodeLoadoutCode,
+  decodeLoadoutCode,
+  getSharedLoadoutsFromUrl,
+} from "./codes";
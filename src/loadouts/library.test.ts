@@ -0,0 +1,117 @@
+/**
+ * The loadout library in storage: old data is migrated, entries this build
+ * can't read survive writes, and a library it can't read refuses changes.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { UnitSelection } from "../types";
+import {
+  LOADOUT_LIBRARY_VERSION,
+  deleteSavedLoadout,
+  listSavedLoadouts,
+  parseLoadoutLibrary,
+  renameSavedLoadout,
+  saveLoadout,
+} from "./library";
+
+const STORAGE_KEY = "crucible-loadout-library";
+
+const UNITS: UnitSelection[] = [
+  { unitClass: "soldier", boost: 1, equipment: { weapon: "rifle" } },
+  { unitClass: "medic" },
+];
+
+const SAVED = {
+  id: "a1",
+  name: "Wall",
+  units: UNITS,
+  teamColor: "#ff0000",
+  createdAt: "2025-01-01T00:00:00.000Z",
+  updatedAt: "2025-01-02T00:00:00.000Z",
+};
+
+/** Entries a later build might have written */
+const FROM_LATER_BUILD = [
+  { ...SAVED, id: "b2", units: [{ unitClass: "pirate" }] },
+  { id: "c3", name: "Future", units: "compressed:AgE" },
+  42,
+];
+
+/** Minimal in-memory localStorage */
+function createStorage(): Storage {
+  const items = new Map<string, string>();
+  return {
+    get length() { return items.size; },
+    clear: () => items.clear(),
+    getItem: (key) => items.get(key) ?? null,
+    key: (index) => [...items.keys()][index] ?? null,
+    removeItem: (key) => { items.delete(key); },
+    setItem: (key, value) => { items.set(key, String(value)); },
+  };
+}
+
+function store(data: unknown): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+}
+
+function stored(): { version: number; loadouts: unknown[] } {
+  return JSON.parse(localStorage.getItem(STORAGE_KEY)!);
+}
+
+describe("loadout library", () => {
+  beforeEach(() => {
+    vi.stubGlobal("localStorage", createStorage());
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("migrates an unversioned library (a bare array) to the current version", () => {
+    expect(parseLoadoutLibrary(JSON.stringify([SAVED]))).toMatchObject([{ id: "a1", name: "Wall" }]);
+
+    store([SAVED]);
+    expect(listSavedLoadouts()).toMatchObject([{ id: "a1", units: [{ unitClass: "soldier" }, { unitClass: "medic" }] }]);
+
+    saveLoadout("Second", UNITS, "#00ff00");
+    const data = stored();
+    expect(data.version).toBe(LOADOUT_LIBRARY_VERSION);
+    expect(data.loadouts).toHaveLength(2);
+    expect(data.loadouts[0]).toMatchObject({ id: "a1", name: "Wall", teamColor: "#ff0000" });
+  });
+
+  it("writes entries it can't read back unchanged", () => {
+    store({ version: LOADOUT_LIBRARY_VERSION, loadouts: [SAVED, ...FROM_LATER_BUILD] });
+    expect(listSavedLoadouts().map(entry => entry.id)).toEqual(["a1"]);
+
+    const entry = saveLoadout("Second", UNITS, "#00ff00");
+    renameSavedLoadout("a1", "Renamed");
+    deleteSavedLoadout(entry.id);
+
+    const { loadouts } = stored();
+    expect(loadouts).toHaveLength(1 + FROM_LATER_BUILD.length);
+    expect(loadouts[0]).toMatchObject({ id: "a1", name: "Renamed" });
+    expect(loadouts.slice(1)).toEqual(FROM_LATER_BUILD);
+  });
+
+  it.each([
+    ["a newer version", JSON.stringify({ version: LOADOUT_LIBRARY_VERSION + 1, loadouts: [SAVED] })],
+    ["broken JSON", "{\"version\": 1, \"loadouts\": ["],
+    ["no list of loadouts", JSON.stringify({ version: LOADOUT_LIBRARY_VERSION })],
+  ])("refuses to write over a library with %s", (_, json) => {
+    localStorage.setItem(STORAGE_KEY, json);
+    expect(listSavedLoadouts()).toEqual([]);
+
+    expect(() => saveLoadout("Second", UNITS, "#00ff00")).toThrow("can't be read");
+    expect(() => deleteSavedLoadout("a1")).toThrow("can't be read");
+    expect(() => renameSavedLoadout("a1", "Renamed")).toThrow("can't be read");
+    expect(localStorage.getItem(STORAGE_KEY)).toBe(json);
+  });
+
+  it("reports a newer version when parsing", () => {
+    const json = JSON.stringify({ version: LOADOUT_LIBRARY_VERSION + 1, loadouts: [] });
+    expect(() => parseLoadoutLibrary(json)).toThrow("newer than this build supports");
+  });
+});
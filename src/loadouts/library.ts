@@ -0,0 +1,270 @@
+/**
+ * loadouts/library.ts
+ *
+ * Named loadout library, stored in localStorage.
+ * Each entry is one team: the unit picks (class, boost, customization) and
+ * the team color. The stored data carries a schema version; older data is
+ * migrated step by step on load, so new fields can be added without losing
+ * anyone's saved teams. Data this build can't read is never overwritten:
+ * entries it doesn't understand (say, a class it doesn't have) are written
+ * back as they were, and a library it can't read at all refuses changes.
+ */
+
+import type { EquipmentId, EquipmentSlot, UnitClass, UnitCustomization, UnitEquipment, UnitSelection } from "../types";
+import { EQUIPMENT_DATA } from "../types";
+import { ALL_CLASSES } from "../config";
+
+// =============================================================================
+// FORMAT
+// =============================================================================
+
+/** Bump when the stored format changes, and add a migration below */
+export const LOADOUT_LIBRARY_VERSION = 1;
+
+const STORAGE_KEY = "crucible-loadout-library";
+
+/** One saved team */
+export interface SavedLoadout {
+  id: string;
+  name: string;
+  units: UnitSelection[];
+  teamColor: string;
+  /** ISO timestamps */
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface LoadoutLibraryData {
+  version: number;
+  /** Saved entries, including any this build can't read */
+  loadouts: unknown[];
+}
+
+/** The stored library: entries this build reads, and the raw ones it doesn't */
+interface StoredLibrary {
+  loadouts: SavedLoadout[];
+  unreadable: unknown[];
+}
+
+/**
+ * MIGRATIONS[n] upgrades version n data to version n + 1.
+ * Version 0 is the unversioned shape: a bare array of entries.
+ */
+const MIGRATIONS: Record<number, (data: unknown) => unknown> = {
+  0: (data) => ({ version: 1, loadouts: data }),
+};
+
+function getVersion(data: unknown): number {
+  if (data && typeof data === "object" && "version" in data && typeof data.version === "number") {
+    return data.version;
+  }
+  return 0;
+}
+
+// =============================================================================
+// PARSING
+// =============================================================================
+
+function isUnitClass(value: unknown): value is UnitClass {
+  return ALL_CLASSES.includes(value as UnitClass);
+}
+
+/** Keep only well-formed customizations (anything else is re-rolled in the UI) */
+function parseCustomization(value: unknown): UnitCustomization | undefined {
+  if (!value || typeof value !== "object") return undefined;
+  const c = value as Partial<UnitCustomization>;
+  const ok =
+    (c.body === "male" || c.body === "female") &&
+    (c.combatStyle === "melee" || c.combatStyle === "ranged") &&
+    (c.handedness === "right" || c.handedness === "left") &&
+    [c.head, c.hairColor, c.eyeColor, c.skinTone].every(n => Number.isInteger(n));
+  return ok ? { ...c } as UnitCustomization : undefined;
+}
+
+/** Keep only known items in their own slots */
+function parseEquipment(value: unknown): UnitEquipment | undefined {
+  if (!value || typeof value !== "object") return undefined;
+  const raw = value as Record<string, unknown>;
+  const equipment: Record<string, EquipmentId> = {};
+  for (const slot of ["weapon", "armor", "utility"] as EquipmentSlot[]) {
+    const id = raw[slot];
+    if (typeof id === "string" && EQUIPMENT_DATA[id as EquipmentId]?.slot === slot) {
+      equipment[slot] = id as EquipmentId;
+    }
+  }
+  return equipment as UnitEquipment;
+}
+
+function parseUnitSelection(value: unknown): UnitSelection | null {
+  if (!value || typeof value !== "object") return null;
+  const unit = value as Partial<UnitSelection>;
+  if (!isUnitClass(unit.unitClass)) return null;
+  return {
+    unitClass: unit.unitClass,
+    customization: parseCustomization(unit.customization),
+    boost: Number.isInteger(unit.boost) ? unit.boost : undefined,
+    equipment: parseEquipment(unit.equipment),
+  };
+}
+
+function parseSavedLoadout(value: unknown): SavedLoadout | null {
+  if (!value || typeof value !== "object") return null;
+  const entry = value as Partial<SavedLoadout>;
+  if (typeof entry.id !== "string" || typeof entry.name !== "string" || !Array.isArray(entry.units)) {
+    return null;
+  }
+  const units = entry.units.map(parseUnitSelection);
+  if (units.some(u => u === null)) return null;
+
+  const now = new Date().toISOString();
+  return {
+    id: entry.id,
+    name: entry.name,
+    units: units as UnitSelection[],
+    teamColor: typeof entry.teamColor === "string" ? entry.teamColor : "",
+    createdAt: entry.createdAt ?? now,
+    updatedAt: entry.updatedAt ?? entry.createdAt ?? now,
+  };
+}
+
+/** Parse and migrate stored library data, keeping unreadable entries aside */
+function parseStoredLibrary(json: string): StoredLibrary {
+  let data: unknown = JSON.parse(json);
+  let version = getVersion(data);
+  if (version > LOADOUT_LIBRARY_VERSION) {
+    throw new Error(`Loadout library version ${version} is newer than this build supports`);
+  }
+  while (version < LOADOUT_LIBRARY_VERSION) {
+    data = MIGRATIONS[version](data);
+    version++;
+  }
+
+  const entries = (data as LoadoutLibraryData).loadouts;
+  if (!Array.isArray(entries)) throw new Error("Loadout library has no list of loadouts");
+  const library: StoredLibrary = { loadouts: [], unreadable: [] };
+  for (const entry of entries) {
+    const parsed = parseSavedLoadout(entry);
+    if (parsed) library.loadouts.push(parsed);
+    else library.unreadable.push(entry);
+  }
+  if (library.unreadable.length > 0) {
+    console.warn(`Skipped ${library.unreadable.length} unreadable saved loadout(s); they are kept in storage`);
+  }
+  return library;
+}
+
+/**
+ * Parse stored library data, migrating older versions.
+ * Malformed entries are left out; data from a newer version is refused.
+ */
+export function parseLoadoutLibrary(json: string): SavedLoadout[] {
+  return parseStoredLibrary(json).loadouts;
+}
+
+// =============================================================================
+// STORAGE
+// =============================================================================
+
+/** The stored library, or null if there is one but it can't be read */
+function readStoredLibrary(): StoredLibrary | null {
+  try {
+    const json = localStorage.getItem(STORAGE_KEY);
+    return json ? parseStoredLibrary(json) : { loadouts: [], unreadable: [] };
+  } catch (error) {
+    console.warn("Could not read the loadout library:", error);
+    return null;
+  }
+}
+
+function readLibrary(): SavedLoadout[] {
+  return readStoredLibrary()?.loadouts ?? [];
+}
+
+/** The library to change. Throws rather than let a write replace data that couldn't be read. */
+function readLibraryForUpdate(): StoredLibrary {
+  const library = readStoredLibrary();
+  if (!library) {
+    throw new Error("Could not save - the saved loadouts can't be read (they may be from a newer version), so they were left as they are");
+  }
+  return library;
+}
+
+function writeLibrary(library: StoredLibrary): void {
+  const data: LoadoutLibraryData = {
+    version: LOADOUT_LIBRARY_VERSION,
+    loadouts: [...library.loadouts, ...library.unreadable],
+  };
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+  } catch (error) {
+    console.error("Could not save the loadout library:", error);
+    throw new Error("Could not save - browser storage is full or disabled");
+  }
+}
+
+function createId(): string {
+  return Date.now().toString(36) + Math.random().toString(36).slice(2, 8);
+}
+
+/** Deep copy so stored entries never share objects with the loadout screen */
+function copyUnits(units: UnitSelection[]): UnitSelection[] {
+  return units.map(u => ({
+    unitClass: u.unitClass,
+    customization: u.customization ? { ...u.customization } : undefined,
+    boost: u.boost,
+    equipment: u.equipment ? { ...u.equipment } : undefined,
+  }));
+}
+
+/** Every saved loadout, most recently updated first */
+export function listSavedLoadouts(): SavedLoadout[] {
+  return readLibrary().sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export function getSavedLoadout(id: string): SavedLoadout | undefined {
+  return readLibrary().find(entry => entry.id === id);
+}
+
+/** Save a team under a new name. Throws if storage is unavailable. */
+export function saveLoadout(name: string, units: UnitSelection[], teamColor: string): SavedLoadout {
+  const now = new Date().toISOString();
+  const entry: SavedLoadout = {
+    id: createId(),
+    name: name.trim() || "Untitled",
+    units: copyUnits(units),
+    teamColor,
+    createdAt: now,
+    updatedAt: now,
+  };
+  const library = readLibraryForUpdate();
+  writeLibrary({ ...library, loadouts: [...library.loadouts, entry] });
+  return entry;
+}
+
+export function renameSavedLoadout(id: string, name: string): SavedLoadout | undefined {
+  const trimmed = name.trim();
+  if (!trimmed) return undefined;
+  return updateEntry(id, entry => ({ ...entry, name: trimmed }));
+}
+
+/** Copy an entry as "<name> (copy)" */
+export function duplicateSavedLoadout(id: string): SavedLoadout | undefined {
+  const original = getSavedLoadout(id);
+  if (!original) return undefined;
+  return saveLoadout(`${original.name} (copy)`, original.units, original.teamColor);
+}
+
+export function deleteSavedLoadout(id: string): void {
+  const library = readLibraryForUpdate();
+  writeLibrary({ ...library, loadouts: library.loadouts.filter(entry => entry.id !== id) });
+}
+
+function updateEntry(id: string, update: (entry: SavedLoadout) => SavedLoadout): SavedLoadout | undefined {
+  const library = readLibraryForUpdate();
+  const { loadouts } = library;
+  const index = loadouts.findIndex(entry => entry.id === id);
+  if (index === -1) return undefined;
+  loadouts[index] = { ...update(loadouts[index]), updatedAt: new Date().toISOString() };
+  writeLibrary(library);
+  return loadouts[index];
+}
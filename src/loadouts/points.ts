@@ -0,0 +1,53 @@
+/**
+ * loadouts/points.ts
+ *
+ * Point costs for army building.
+ * Each unit costs its class (config/classes.json) plus its combat style plus
+ * its boost (see the ARMY BUILDING section of config/constants.ts) plus its
+ * equipment; a team must fit the match's point budget and the team size limits.
+ */
+
+import type { UnitSelection } from "../types";
+import { getUnitEquipment } from "../types";
+import {
+  getClassData,
+  COMBAT_STYLE_POINT_COSTS,
+  BOOST_POINT_COSTS,
+  MIN_UNITS_PER_TEAM,
+  MAX_UNITS_PER_TEAM,
+} from "../config";
+
+/** Point cost of one unit */
+export function getUnitPointCost(unit: UnitSelection): number {
+  const style = unit.customization?.combatStyle ?? "ranged";
+  const equipment = getUnitEquipment(unit).reduce((total, item) => total + item.pointCost, 0);
+  return getClassData(unit.unitClass).pointCost + COMBAT_STYLE_POINT_COSTS[style] + (BOOST_POINT_COSTS[unit.boost ?? 0] ?? 0) + equipment;
+}
+
+/** Point cost of a whole team */
+export function getTeamPointCost(units: readonly UnitSelection[]): number {
+  return units.reduce((total, unit) => total + getUnitPointCost(unit), 0);
+}
+
+/** Result of checking a team against a budget */
+export interface TeamPointCheck {
+  ok: boolean;
+  total: number;
+  /** Why the team can't be used, if it can't */
+  reason?: string;
+}
+
+/** Check a team's size and cost against a point budget */
+export function checkTeamPoints(units: readonly UnitSelection[], budget: number): TeamPointCheck {
+  const total = getTeamPointCost(units);
+  if (units.length < MIN_UNITS_PER_TEAM) {
+    return { ok: false, total, reason: `A team needs at least ${MIN_UNITS_PER_TEAM} unit(s)` };
+  }
+  if (units.length > MAX_UNITS_PER_TEAM) {
+    return { ok: false, total, reason: `A team can have at most ${MAX_UNITS_PER_TEAM} units` };
+  }
+  if (total > budget) {
+    return { ok: false, total, reason: `${total} points is over the ${budget} point budget` };
+  }
+  return { ok: true, total };
+}
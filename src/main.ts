@@ -1,9 +1,14 @@
 import { Engine, Scene } from "@babylonjs/core";
 import { createStartScene } from "./scenes/StartScene";
 import { createTitleScene } from "./scenes/TitleScene";
+import { createLobbyScene } from "./scenes/LobbyScene";
 import { createLoadoutScene } from "./scenes/LoadoutScene";
 import { createBattleScene } from "./scenes/BattleScene";
-import type { Loadout, SceneName, GameMode } from "./types";
+import { createEditorScene } from "./scenes/EditorScene";
+import type { Loadout, MapDefinition, SceneName, GameMode, UnitSelection } from "./types";
+import type { Replay } from "./battle";
+import { OnlineSession, getRelayUrl } from "./network";
+import { ALL_CLASSES, DEFAULT_UNITS_PER_TEAM } from "./config";
 
 // Re-export for backwards compatibility
 export type { SceneName } from "./types";
@@ -13,8 +18,12 @@ const engine = new Engine(canvas, true);
 
 let currentScene: Scene;
 let currentLoadout: Loadout | null = null;
+let currentReplay: Replay | null = null;
 let currentGameMode: GameMode = "local-pvp";
 let currentHumanTeam: "player1" | "player2" = "player1";
+let onlineSession: OnlineSession | null = null;
+// Set while a map from the editor is being playtested, so the battle returns there
+let playtesting = false;
 
 /** Set game mode before navigating to loadout */
 export function setGameMode(mode: GameMode, humanTeam?: "player1" | "player2"): void {
@@ -27,6 +36,50 @@ export function setGameMode(mode: GameMode, humanTeam?: "player1" | "player2"):
   }
 }
 
+/**
+ * Create or join an online room (used by the lobby).
+ * Rejects if the relay can't be reached or refuses the room code.
+ */
+export async function connectOnline(room: string, create: boolean): Promise<OnlineSession> {
+  leaveOnline();
+  const session = await OnlineSession.connect(getRelayUrl(), room, create);
+  onlineSession = session;
+  return session;
+}
+
+/** The current online room, if any */
+export function getOnlineSession(): OnlineSession | null {
+  return onlineSession;
+}
+
+/** Leave the current online room */
+export function leaveOnline(): void {
+  onlineSession?.close();
+  onlineSession = null;
+}
+
+/**
+ * Rejoin the online match this tab was in before a reload, if any.
+ * Rebuilds the battle from the opponent's match log; if that fails the
+ * match is forgotten and the normal start screen stays up.
+ */
+async function resumeOnline(): Promise<void> {
+  const saved = OnlineSession.loadSavedMatch();
+  if (!saved) return;
+
+  try {
+    const session = await OnlineSession.rejoin(saved);
+    onlineSession = session;
+    setGameMode("online-pvp", session.team);
+    currentLoadout = session.getMatchLoadout();
+    currentReplay = null;
+    navigateTo("battle");
+  } catch (error) {
+    OnlineSession.clearSavedMatch();
+    console.warn("Could not resume online match:", error);
+  }
+}
+
 /** Get current game mode */
 export function getGameMode(): { mode: GameMode; humanTeam: "player1" | "player2" } {
   return { mode: currentGameMode, humanTeam: currentHumanTeam };
@@ -36,26 +89,70 @@ export function navigateTo(sceneName: SceneName): void {
   if (currentScene) {
     currentScene.dispose();
   }
+  if (sceneName !== "battle") playtesting = false;
 
   switch (sceneName) {
     case "start":
       currentScene = createStartScene(engine, canvas, navigateTo);
       break;
     case "title":
+      // Back at the title, any online match is over
+      leaveOnline();
       currentScene = createTitleScene(engine, canvas, navigateTo);
       break;
+    case "lobby":
+      currentScene = createLobbyScene(engine, canvas, navigateTo);
+      break;
     case "loadout":
       currentScene = createLoadoutScene(engine, canvas, (loadout: Loadout) => {
+        currentReplay = null;
+        if (currentGameMode === "online-pvp" && onlineSession) {
+          // Wait for the opponent; both sides start with the host's loadout and seed
+          const team = onlineSession.team;
+          const teamColor = team === "player1" ? loadout.player1TeamColor : loadout.player2TeamColor;
+          onlineSession.submitLoadout(loadout[team], teamColor, (matchLoadout) => {
+            currentLoadout = matchLoadout;
+            navigateTo("battle");
+          });
+          return;
+        }
         currentLoadout = loadout;
         navigateTo("battle");
       }, navigateTo);
       break;
     case "battle":
-      currentScene = createBattleScene(engine, canvas, currentLoadout);
+      currentScene = createBattleScene(
+        engine,
+        canvas,
+        currentLoadout,
+        currentReplay,
+        currentGameMode === "online-pvp" ? onlineSession : null,
+        playtesting
+      );
+      break;
+    case "editor":
+      currentScene = createEditorScene(engine, canvas, navigateTo);
       break;
   }
 }
 
+/** Watch a recorded match */
+export function startReplay(replay: Replay): void {
+  currentLoadout = { ...replay.loadout, seed: replay.seed };
+  currentReplay = replay;
+  navigateTo("battle");
+}
+
+/** Play a map from the editor: local PvP with the default teams */
+export function startPlaytest(map: MapDefinition): void {
+  const units: UnitSelection[] = ALL_CLASSES.slice(0, DEFAULT_UNITS_PER_TEAM).map(unitClass => ({ unitClass }));
+  setGameMode("local-pvp");
+  currentLoadout = { player1: units, player2: units, gameMode: "local-pvp", map };
+  currentReplay = null;
+  playtesting = true;
+  navigateTo("battle");
+}
+
 // Helper to switch back to loadout from battle
 export function switchToLoadout(): void {
   navigateTo("loadout");
@@ -63,6 +160,7 @@ export function switchToLoadout(): void {
 
 // Start with click-to-start screen
 navigateTo("start");
+void resumeOnline();
 
 engine.runRenderLoop(() => {
   currentScene.render();
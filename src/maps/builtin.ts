@@ -0,0 +1,30 @@
+/**
+ * maps/builtin.ts
+ *
+ * Maps that ship with the game, validated when this module loads.
+ * A battle plays one when the match setup names it (Loadout.map) or the page
+ * is opened with ?map=<id>; otherwise the map is generated from the seed.
+ */
+
+import type { MapDefinition } from "../types";
+import { parseMapDefinition } from "./format";
+import crossroads from "./builtin/crossroads.json";
+import ridgeline from "./builtin/ridgeline.json";
+import badlands from "./builtin/badlands.json";
+
+/** Bundled maps, in the order they are offered */
+export const BUILTIN_MAPS: MapDefinition[] = [crossroads, ridgeline, badlands].map(json => parseMapDefinition(json));
+
+/** Get a bundled map by id */
+export function getBuiltinMap(id: string): MapDefinition | undefined {
+  return BUILTIN_MAPS.find(map => map.id === id);
+}
+
+/** Bundled map named by ?map= in the URL, if any */
+export function getRequestedMap(): MapDefinition | null {
+  const id = new URLSearchParams(window.location.search).get("map");
+  if (!id) return null;
+  const map = getBuiltinMap(id);
+  if (!map) console.warn(`Unknown map "${id}"; generating one instead`);
+  return map ?? null;
+}
@@ -0,0 +1,263 @@
+/**
+ * maps/format.ts
+ *
+ * Hand-authored map files: the tile legend, validation, and turning a map
+ * into battle terrain.
+ *
+ * A map draws its terrain as rows of characters (see MAP_TILE_LEGEND), with
+ * optional elevation rows of digits beside them. Maps needn't be square, and
+ * a space marks a hole: a tile that isn't part of the battlefield at all,
+ * which is how irregular shapes are drawn. Validation checks the map's
+ * shape and then plays it against the battle's own movement rules: every
+ * spawn must be able to walk to the enemy's spawns, the guarantee generated
+ * maps get from their protected corridor.
+ */
+
+import type { MapDecorationKind, MapDefinition, Team, TerrainType } from "../types";
+import { TERRAIN_DATA } from "../types";
+import { MAP_MAX_SIZE, MAP_MIN_SIZE, MAX_ELEVATION, MAX_UNITS_PER_TEAM } from "../config";
+import type { BattleState, GridKey } from "../battle";
+import { createBattleState, getReachableTiles, toGridKey } from "../battle";
+
+/** Bump when the map format changes incompatibly */
+export const MAP_FORMAT_VERSION = 1;
+
+/** Terrain for each tile character; "." is open ground */
+export const MAP_TILE_LEGEND: Record<string, TerrainType | null> = {
+  ".": null,
+  "#": "wall",
+  "=": "lowWall",
+  ",": "rough",
+  "~": "water",
+  "^": "hazard",
+};
+
+/** Tile character for a hole (out of bounds) */
+export const MAP_HOLE_CHAR = " ";
+
+const DECORATION_KINDS: MapDecorationKind[] = ["rock", "crate", "barrel", "bush"];
+
+const TEAMS: Team[] = ["player1", "player2"];
+
+// =============================================================================
+// TERRAIN
+// =============================================================================
+
+/** Terrain on each tile that has any */
+export function getMapTerrain(map: MapDefinition): Map<GridKey, TerrainType> {
+  const terrain = new Map<GridKey, TerrainType>();
+  map.tiles.forEach((row, z) => {
+    [...row].forEach((char, x) => {
+      const type = MAP_TILE_LEGEND[char];
+      if (type) terrain.set(toGridKey(x, z), type);
+    });
+  });
+  return terrain;
+}
+
+/** Raised tile levels (ground tiles and holes are left out) */
+export function getMapHeights(map: MapDefinition): Map<GridKey, number> {
+  const heights = new Map<GridKey, number>();
+  map.heights?.forEach((row, z) => {
+    [...row].forEach((char, x) => {
+      const level = Number(char);
+      if (level > 0 && map.tiles[z][x] !== MAP_HOLE_CHAR) heights.set(toGridKey(x, z), level);
+    });
+  });
+  return heights;
+}
+
+/** Tiles that aren't part of the battlefield */
+export function getMapHoles(map: MapDefinition): Set<GridKey> {
+  const holes = new Set<GridKey>();
+  map.tiles.forEach((row, z) => {
+    [...row].forEach((char, x) => {
+      if (char === MAP_HOLE_CHAR) holes.add(toGridKey(x, z));
+    });
+  });
+  return holes;
+}
+
+/** An empty battle on the map: its shape, terrain and heights, no units */
+export function createMapState(map: MapDefinition): BattleState {
+  const state = createBattleState(map.width, map.height);
+  state.holes = getMapHoles(map);
+  state.terrain = getMapTerrain(map);
+  state.heights = getMapHeights(map);
+  return state;
+}
+
+// =============================================================================
+// VALIDATION
+// =============================================================================
+
+function isTile(value: unknown, width: number, height: number): value is { x: number; z: number } {
+  const p = value as { x?: unknown; z?: unknown } | null;
+  return !!p && Number.isInteger(p.x) && Number.isInteger(p.z)
+    && (p.x as number) >= 0 && (p.x as number) < width
+    && (p.z as number) >= 0 && (p.z as number) < height;
+}
+
+/** Check that rows are `height` strings of `width` allowed characters */
+function checkRows(
+  rows: unknown,
+  field: string,
+  width: number,
+  height: number,
+  isAllowed: (char: string) => boolean,
+  errors: string[]
+): void {
+  if (!Array.isArray(rows) || rows.length !== height) {
+    errors.push(`${field} must have ${height} rows`);
+    return;
+  }
+  rows.forEach((row: unknown, z) => {
+    if (typeof row !== "string" || row.length !== width) {
+      errors.push(`${field}[${z}] must be ${width} characters`);
+      return;
+    }
+    const bad = [...row].find(char => !isAllowed(char));
+    if (bad !== undefined) errors.push(`${field}[${z}] has an invalid character "${bad}"`);
+  });
+}
+
+/** Problems with the spawns themselves; connectivity is checked separately */
+function checkSpawns(raw: Record<string, unknown>, map: MapDefinition, errors: string[]): void {
+  const spawns = raw.spawns as Record<string, unknown> | null | undefined;
+  const terrain = getMapTerrain(map);
+  const holes = getMapHoles(map);
+  const taken = new Set<GridKey>();
+
+  for (const team of TEAMS) {
+    const list = spawns?.[team];
+    if (!Array.isArray(list) || list.length < MAX_UNITS_PER_TEAM) {
+      errors.push(`spawns.${team} must list at least ${MAX_UNITS_PER_TEAM} tiles`);
+      continue;
+    }
+    list.forEach((tile: unknown, i) => {
+      const where = `spawns.${team}[${i}]`;
+      if (!isTile(tile, map.width, map.height)) {
+        errors.push(`${where} must be a tile on the map`);
+        return;
+      }
+      const key = toGridKey(tile.x, tile.z);
+      const type = terrain.get(key);
+      if (holes.has(key)) {
+        errors.push(`${where} is on a hole`);
+      } else if (type && !TERRAIN_DATA[type].walkable) {
+        errors.push(`${where} is on ${TERRAIN_DATA[type].name.toLowerCase()}`);
+      } else if (type && TERRAIN_DATA[type].turnEndDamage > 0) {
+        errors.push(`${where} is on a hazard`);
+      }
+      if (taken.has(key)) errors.push(`${where} (${key}) is used by more than one spawn`);
+      taken.add(key);
+    });
+  }
+}
+
+/** Spawns that can't walk to every other spawn */
+function findUnconnectedSpawns(map: MapDefinition): string[] {
+  const first = map.spawns.player1[0];
+  const reachable = new Set(
+    getReachableTiles(createMapState(map), first.x, first.z).map(p => toGridKey(p.x, p.z))
+  );
+
+  const errors: string[] = [];
+  for (const team of TEAMS) {
+    map.spawns[team].forEach((tile, i) => {
+      if (!reachable.has(toGridKey(tile.x, tile.z))) {
+        errors.push(`spawns.${team}[${i}] (${tile.x},${tile.z}) is cut off from the other spawns`);
+      }
+    });
+  }
+  return errors;
+}
+
+/**
+ * Everything wrong with a map (the parsed contents of a map JSON file), or
+ * an empty list if it's playable. Checks run in stages, so a map whose rows
+ * don't parse isn't also reported for its spawns.
+ */
+export function getMapProblems(json: unknown): string[] {
+  if (!json || typeof json !== "object") return ["expected an object"];
+  const raw = json as Record<string, unknown>;
+  if (raw.version !== MAP_FORMAT_VERSION) {
+    return [`unsupported version ${raw.version} (expected ${MAP_FORMAT_VERSION})`];
+  }
+
+  const errors: string[] = [];
+  for (const field of ["id", "name"]) {
+    if (typeof raw[field] !== "string" || !raw[field]) errors.push(`${field} must be a non-empty string`);
+  }
+  for (const field of ["width", "height"]) {
+    const value = raw[field];
+    if (typeof value !== "number" || !Number.isInteger(value) || value < MAP_MIN_SIZE || value > MAP_MAX_SIZE) {
+      errors.push(`${field} must be an integer from ${MAP_MIN_SIZE} to ${MAP_MAX_SIZE}`);
+    }
+  }
+  if (errors.length > 0) return errors;
+
+  const width = raw.width as number;
+  const height = raw.height as number;
+  checkRows(raw.tiles, "tiles", width, height, char => char in MAP_TILE_LEGEND || char === MAP_HOLE_CHAR, errors);
+  if (raw.heights !== undefined) {
+    checkRows(raw.heights, "heights", width, height, char => /^\d$/.test(char) && Number(char) <= MAX_ELEVATION, errors);
+  }
+  if (errors.length > 0) return errors;
+
+  const map = raw as unknown as MapDefinition;
+  checkSpawns(raw, map, errors);
+
+  if (raw.objectives !== undefined) {
+    if (!Array.isArray(raw.objectives)) {
+      errors.push("objectives must be a list");
+    } else {
+      const holes = getMapHoles(map);
+      raw.objectives.forEach((objective: unknown, i) => {
+        if (!isTile(objective, width, height) || holes.has(toGridKey(objective.x, objective.z))) {
+          errors.push(`objectives[${i}] must be a tile on the map`);
+        }
+      });
+    }
+  }
+  if (raw.decorations !== undefined) {
+    if (!Array.isArray(raw.decorations)) {
+      errors.push("decorations must be a list");
+    } else {
+      raw.decorations.forEach((entry: unknown, i) => {
+        const decoration = (entry && typeof entry === "object" ? entry : {}) as Record<string, unknown>;
+        if (!DECORATION_KINDS.includes(decoration.kind as MapDecorationKind)) {
+          errors.push(`decorations[${i}].kind must be one of ${DECORATION_KINDS.join(", ")}`);
+        }
+        if (!Number.isFinite(decoration.x) || !Number.isFinite(decoration.z)) {
+          errors.push(`decorations[${i}] needs numeric x and z`);
+        }
+        if (decoration.rotation !== undefined && !Number.isFinite(decoration.rotation)) {
+          errors.push(`decorations[${i}].rotation must be a number`);
+        }
+      });
+    }
+  }
+  if (errors.length > 0) return errors;
+
+  return findUnconnectedSpawns(map);
+}
+
+/**
+ * Validate a map (the parsed contents of a map JSON file).
+ * Throws listing every problem found.
+ */
+export function parseMapDefinition(json: unknown): MapDefinition {
+  const problems = getMapProblems(json);
+  if (problems.length > 0) {
+    const id = (json as { id?: unknown } | null)?.id;
+    const name = typeof id === "string" ? `map ${id}` : "map";
+    throw new Error(`Invalid ${name}:\n${problems.map(e => `  - ${e}`).join("\n")}`);
+  }
+  return json as MapDefinition;
+}
+
+/** Serialize a map for saving or sharing (readable, one row per line) */
+export function serializeMap(map: MapDefinition): string {
+  return JSON.stringify(map, null, 2);
+}
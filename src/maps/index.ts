@@ -0,0 +1,27 @@
+/**
+ * maps/index.ts
+ *
+ * Hand-authored maps: the map file format, its validation and the maps
+ * bundled with the game.
+ */
+
+// Format
+export {
+  MAP_FORMAT_VERSION,
+  MAP_TILE_LEGEND,
+  MAP_HOLE_CHAR,
+  getMapTerrain,
+  getMapHeights,
+  getMapHoles,
+  createMapState,
+  getMapProblems,
+  parseMapDefinition,
+  serializeMap,
+} from "./format";
+
+// Bundled maps
+export {
+  BUILTIN_MAPS,
+  getBuiltinMap,
+  getRequestedMap,
+} from "./builtin";
@@ -0,0 +1,138 @@
+/**
+ * network/client.ts
+ *
+ * WebSocket connection to the relay server.
+ * Handles joining a room and (de)serializing protocol messages; match logic
+ * lives in OnlineSession.
+ */
+
+import type { Team } from "../types";
+import { RELAY_DEFAULT_PORT, ROOM_CODE_LENGTH } from "../config";
+import type { JoinMessage, JoinedMessage, PeerMessage, ServerMessage } from "./protocol";
+import { parseServerMessage } from "./protocol";
+
+export type ServerMessageListener = (message: ServerMessage) => void;
+
+/** Relay URL from ?relay=, otherwise the relay port on the page's host */
+export function getRelayUrl(): string {
+  const param = new URLSearchParams(window.location.search).get("relay");
+  if (param) return param;
+  const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+  const host = window.location.hostname || "localhost";
+  return `${protocol}//${host}:${RELAY_DEFAULT_PORT}`;
+}
+
+// Room codes skip look-alike characters (0/O, 1/I/L) so they can be read aloud
+const ROOM_CODE_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+
+/** Pick a fresh room code for a new lobby */
+export function generateRoomCode(): string {
+  let code = "";
+  for (let i = 0; i < ROOM_CODE_LENGTH; i++) {
+    code += ROOM_CODE_ALPHABET[Math.floor(Math.random() * ROOM_CODE_ALPHABET.length)];
+  }
+  return code;
+}
+
+/** Normalize a typed-in room code (case and stray whitespace) */
+export function normalizeRoomCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/** Room code from an invite link (?room=), if any */
+export function getInvitedRoomCode(): string | null {
+  const room = new URLSearchParams(window.location.search).get("room");
+  return room ? normalizeRoomCode(room) : null;
+}
+
+/** Link that drops a friend straight into a room */
+export function getInviteUrl(code: string): string {
+  const url = new URL(window.location.href);
+  url.searchParams.set("room", code);
+  return url.toString();
+}
+
+export class RelayClient {
+  private socket: WebSocket | null = null;
+  private listeners = new Set<ServerMessageListener>();
+  private onClose: (() => void) | null = null;
+
+  /**
+   * Connect and join a room (creating it if `create` is set, or reclaiming
+   * `team`'s seat). Resolves with the seat the relay assigned; rejects if the
+   * connection fails or the relay refuses the join.
+   */
+  connect(url: string, room: string, create: boolean, team?: Team): Promise<JoinedMessage> {
+    return new Promise((resolve, reject) => {
+      let joined = false;
+      const socket = new WebSocket(url);
+      this.socket = socket;
+
+      socket.addEventListener("open", () => {
+        const join: JoinMessage = { type: "join", room, create, team };
+        socket.send(JSON.stringify(join));
+      });
+
+      socket.addEventListener("message", (event) => {
+        const message = parseServerMessage(String(event.data));
+        if (!message) {
+          console.warn("Ignoring unrecognized relay message:", event.data);
+          return;
+        }
+        if (!joined) {
+          if (message.type === "joined") {
+            joined = true;
+            resolve(message);
+          } else if (message.type === "error") {
+            reject(new Error(message.message));
+            socket.close();
+          }
+          return;
+        }
+        for (const listener of this.listeners) {
+          listener(message);
+        }
+      });
+
+      socket.addEventListener("close", () => {
+        if (!joined) {
+          // No-op if the relay already refused the join
+          reject(new Error(`Could not reach the relay at ${url}`));
+        }
+        this.socket = null;
+        this.onClose?.();
+      });
+    });
+  }
+
+  /** Send a message to the other player in the room */
+  send(message: PeerMessage): void {
+    if (!this.socket || this.socket.readyState !== WebSocket.OPEN) {
+      console.warn(`Dropped ${message.type} message: not connected`);
+      return;
+    }
+    this.socket.send(JSON.stringify(message));
+  }
+
+  /** Listen for messages after joining. Returns an unsubscribe function. */
+  subscribe(listener: ServerMessageListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /** Called once when the connection drops or is closed */
+  setCloseCallback(callback: () => void): void {
+    this.onClose = callback;
+  }
+
+  isConnected(): boolean {
+    return this.socket?.readyState === WebSocket.OPEN;
+  }
+
+  close(): void {
+    this.onClose = null;
+    this.listeners.clear();
+    this.socket?.close();
+    this.socket = null;
+  }
+}
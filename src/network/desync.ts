@@ -0,0 +1,85 @@
+/**
+ * network/desync.ts
+ *
+ * Compares per-turn state hashes between the two clients of an online match.
+ * Either side may report a turn first (playback runs at different speeds), so
+ * hashes are held until both are in. The first mismatch is reported once,
+ * and again when the opponent's state dump arrives.
+ */
+
+import type { BattleState } from "../battle";
+import { hashBattleState, serializeCanonicalState } from "../battle";
+
+/** Details of the first turn on which the clients disagreed */
+export interface DesyncReport {
+  turn: number;
+  localHash: string;
+  remoteHash: string;
+  /** Canonical JSON of this client's state after the turn */
+  localState: string;
+  /** Canonical JSON of the opponent's state, once their dump arrives */
+  remoteState: string | null;
+}
+
+export type DesyncFn = (report: DesyncReport) => void;
+
+interface LocalTurn {
+  hash: string;
+  state: string;
+}
+
+export class DesyncDetector {
+  private local = new Map<number, LocalTurn>();
+  private remote = new Map<number, string>();
+  private report: DesyncReport | null = null;
+  private onDesync: DesyncFn;
+
+  constructor(onDesync: DesyncFn) {
+    this.onDesync = onDesync;
+  }
+
+  /** Hash this client's state after a turn. Returns the hash to send. */
+  recordLocal(turn: number, state: BattleState): string {
+    const hash = hashBattleState(state);
+    this.local.set(turn, { hash, state: serializeCanonicalState(state) });
+    this.compare(turn);
+    return hash;
+  }
+
+  /** The opponent's hash for a turn */
+  recordRemote(turn: number, hash: string): void {
+    this.remote.set(turn, hash);
+    this.compare(turn);
+  }
+
+  /** The opponent's state dump for the mismatched turn */
+  receiveDump(turn: number, state: string): void {
+    if (!this.report || this.report.turn !== turn) return;
+    this.report = { ...this.report, remoteState: state };
+    this.onDesync(this.report);
+  }
+
+  /** The first mismatch, if any */
+  getReport(): DesyncReport | null {
+    return this.report;
+  }
+
+  private compare(turn: number): void {
+    const local = this.local.get(turn);
+    const remoteHash = this.remote.get(turn);
+    if (!local || remoteHash === undefined) return;
+
+    this.local.delete(turn);
+    this.remote.delete(turn);
+    if (local.hash === remoteHash || this.report) return;
+
+    this.report = {
+      turn,
+      localHash: local.hash,
+      remoteHash,
+      localState: local.state,
+      remoteState: null,
+    };
+    this.onDesync(this.report);
+  }
+}
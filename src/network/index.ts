@@ -0,0 +1,56 @@
+/**
+ * network/index.ts
+ *
+ * Online play exports - relay protocol, WebSocket client and match session.
+ */
+
+// Protocol
+export {
+  type JoinMessage,
+  type JoinedMessage,
+  type PeerJoinedMessage,
+  type PeerLeftMessage,
+  type RelayErrorMessage,
+  type RelayMessage,
+  type PeerEnvelope,
+  type LobbyMessage,
+  type LoadoutMessage,
+  type LoadoutRejectedMessage,
+  type StartMessage,
+  type CommandMessage,
+  type ExecuteMessage,
+  type ForfeitMessage,
+  type StateHashMessage,
+  type StateDumpMessage,
+  type ResumeRequestMessage,
+  type ResumeMessage,
+  type PeerMessage,
+  type ServerMessage,
+  parseServerMessage,
+} from "./protocol";
+
+// Client
+export {
+  type ServerMessageListener,
+  RelayClient,
+  getRelayUrl,
+  generateRoomCode,
+  normalizeRoomCode,
+  getInvitedRoomCode,
+  getInviteUrl,
+} from "./client";
+
+// Desync detection
+export {
+  type DesyncReport,
+  type DesyncFn,
+  DesyncDetector,
+} from "./desync";
+
+// Session
+export {
+  type MatchStartFn,
+  type LobbySeat,
+  type SavedOnlineMatch,
+  OnlineSession,
+} from "./session";
@@ -0,0 +1,204 @@
+/**
+ * network/protocol.ts
+ *
+ * Messages exchanged with the relay server (server/relay.mjs).
+ * The relay pairs two clients in a room and forwards peer messages to the
+ * other client inside a PeerEnvelope, so everything except the relay messages
+ * below travels client to client, and a peer can't fake a relay message.
+ */
+
+import type { Loadout, Team, UnitSelection } from "../types";
+import type { BattleCommand, ReplayTurn } from "../battle";
+
+// =============================================================================
+// RELAY MESSAGES
+// =============================================================================
+
+/**
+ * Client -> relay: take a seat in a room.
+ * With `create` the room must not exist yet; without it, it must.
+ * `team` asks for a specific seat (rejoining a match in progress).
+ */
+export interface JoinMessage {
+  type: "join";
+  room: string;
+  create: boolean;
+  team?: Team;
+}
+
+/** Relay -> client: joined a room; the first client in a room is player1 */
+export interface JoinedMessage {
+  type: "joined";
+  room: string;
+  team: Team;
+  /** Whether the other seat is already taken */
+  peerConnected: boolean;
+}
+
+/** Relay -> client: the other seat in the room was filled */
+export interface PeerJoinedMessage {
+  type: "peerJoined";
+}
+
+/** Relay -> client: the other client disconnected */
+export interface PeerLeftMessage {
+  type: "peerLeft";
+}
+
+/** Relay -> client: request refused (room full, unknown or already taken) */
+export interface RelayErrorMessage {
+  type: "error";
+  message: string;
+}
+
+export type RelayMessage = JoinedMessage | PeerJoinedMessage | PeerLeftMessage | RelayErrorMessage;
+
+/** Relay -> client: a frame from the other client, exactly as it was sent */
+export interface PeerEnvelope {
+  type: "peer";
+  data: string;
+}
+
+// =============================================================================
+// PEER MESSAGES
+// =============================================================================
+
+/** The sender's lobby seat: chosen team color and whether they're ready */
+export interface LobbyMessage {
+  type: "lobby";
+  team: Team;
+  teamColor: string;
+  ready: boolean;
+}
+
+/** A player's finished team selection */
+export interface LoadoutMessage {
+  type: "loadout";
+  team: Team;
+  units: UnitSelection[];
+  teamColor?: string;
+}
+
+/** Sent by player1 when a team breaks the match rules; `team` should pick again */
+export interface LoadoutRejectedMessage {
+  type: "loadoutRejected";
+  team: Team;
+  reason: string;
+}
+
+/** Sent by player1 once both loadouts are in: the full match setup */
+export interface StartMessage {
+  type: "start";
+  seed: number;
+  loadout: Loadout;
+}
+
+/** One command from the sender's turn */
+export interface CommandMessage {
+  type: "command";
+  command: BattleCommand;
+}
+
+/** The sender executed its queued commands */
+export interface ExecuteMessage {
+  type: "execute";
+}
+
+/** The sender conceded */
+export interface ForfeitMessage {
+  type: "forfeit";
+  team: Team;
+}
+
+/** The sender's state hash after its `turn`-th executed turn (counted from 1) */
+export interface StateHashMessage {
+  type: "stateHash";
+  turn: number;
+  hash: string;
+}
+
+/** Sent after a hash mismatch: the sender's canonical state for that turn */
+export interface StateDumpMessage {
+  type: "stateDump";
+  turn: number;
+  state: string;
+}
+
+/** A rejoining player asks for the match so far */
+export interface ResumeRequestMessage {
+  type: "resumeRequest";
+}
+
+/** Reply to resumeRequest: the match setup and every executed turn */
+export interface ResumeMessage {
+  type: "resume";
+  loadout: Loadout;
+  turns: ReplayTurn[];
+}
+
+export type PeerMessage =
+  | LobbyMessage
+  | LoadoutMessage
+  | LoadoutRejectedMessage
+  | StartMessage
+  | CommandMessage
+  | ExecuteMessage
+  | ForfeitMessage
+  | StateHashMessage
+  | StateDumpMessage
+  | ResumeRequestMessage
+  | ResumeMessage;
+
+/** Anything a client can receive */
+export type ServerMessage = RelayMessage | PeerMessage;
+
+const RELAY_MESSAGE_TYPES: ReadonlySet<string> = new Set<RelayMessage["type"]>([
+  "joined",
+  "peerJoined",
+  "peerLeft",
+  "error",
+]);
+
+const PEER_MESSAGE_TYPES: ReadonlySet<string> = new Set<PeerMessage["type"]>([
+  "lobby",
+  "loadout",
+  "loadoutRejected",
+  "start",
+  "command",
+  "execute",
+  "forfeit",
+  "stateHash",
+  "stateDump",
+  "resumeRequest",
+  "resume",
+]);
+
+/** Types a frame straight from the relay can have */
+const RELAY_FRAME_TYPES: ReadonlySet<string> = new Set([...RELAY_MESSAGE_TYPES, "peer"]);
+
+function parseMessage(data: string, types: ReadonlySet<string>): { type: string } | null {
+  try {
+    const message = JSON.parse(data) as { type?: unknown };
+    if (message && typeof message.type === "string" && types.has(message.type)) {
+      return message as { type: string };
+    }
+  } catch {
+    // Fall through
+  }
+  return null;
+}
+
+/**
+ * Parse an incoming frame. Returns null for anything that isn't a known
+ * message: relay messages must come from the relay, and peer messages
+ * inside its envelope.
+ */
+export function parseServerMessage(data: string): ServerMessage | null {
+  const message = parseMessage(data, RELAY_FRAME_TYPES);
+  if (!message) return null;
+  if (message.type !== "peer") return message as RelayMessage;
+  const envelope = message as Partial<PeerEnvelope>;
+  return typeof envelope.data === "string"
+    ? parseMessage(envelope.data, PEER_MESSAGE_TYPES) as PeerMessage | null
+    : null;
+}
@@ -0,0 +1,496 @@
+/**
+ * network/session.ts
+ *
+ * One online match between two browser tabs.
+ * In the lobby the session shares each player's team color and ready state.
+ * Before the battle it trades loadouts and player1 picks the seed (and map),
+ * refusing any team that breaks the point budget or size limits;
+ * during it, each executed local turn is sent as its commands plus an execute
+ * message, and the remote player's turns are fed into a NetworkController.
+ * Both clients also send a state hash after every turn to catch desyncs.
+ *
+ * Each client keeps the match log (setup plus executed turns) and remembers
+ * the room in sessionStorage, so a reloaded tab can rejoin its seat, fetch the
+ * log from the opponent and rebuild the battle.
+ */
+
+import type { Loadout, Team, UnitClass, UnitSelection } from "../types";
+import type { BattleCommand, BattleEngine, NetworkController, ReplayTurn } from "../battle";
+import { generateSeed, getUnit } from "../battle";
+import {
+  TEAM_COLORS,
+  DEFAULT_PLAYER1_COLOR_INDEX,
+  DEFAULT_PLAYER2_COLOR_INDEX,
+  DEFAULT_POINT_BUDGET,
+  RESUME_TIMEOUT_MS,
+  ALL_CLASSES,
+} from "../config";
+import { checkTeamPoints } from "../loadouts";
+import { getRequestedMap } from "../maps";
+import { RelayClient } from "./client";
+import { DesyncDetector, type DesyncFn } from "./desync";
+import type { LoadoutMessage, ResumeMessage, ServerMessage } from "./protocol";
+
+/** Called when both players are ready, with the shared match setup */
+export type MatchStartFn = (loadout: Loadout) => void;
+
+/** Called when this player's submitted team was refused, with why */
+export type LoadoutRejectedFn = (reason: string) => void;
+
+/** One player's place in the lobby */
+export interface LobbySeat {
+  connected: boolean;
+  teamColor: string;
+  ready: boolean;
+}
+
+function createLobbySeat(team: Team, connected: boolean): LobbySeat {
+  const colorIndex = team === "player1" ? DEFAULT_PLAYER1_COLOR_INDEX : DEFAULT_PLAYER2_COLOR_INDEX;
+  return { connected, teamColor: TEAM_COLORS[colorIndex].hex, ready: false };
+}
+
+/** What a tab remembers about its match in progress (survives reloads) */
+export interface SavedOnlineMatch {
+  relayUrl: string;
+  room: string;
+  team: Team;
+  /** Commands this player had queued but not yet executed */
+  pending: BattleCommand[];
+}
+
+const SAVED_MATCH_KEY = "crucible-online-match";
+
+/** Why a team can't be played online, or null if it can (teams from the network are untrusted) */
+function getTeamProblem(units: unknown): string | null {
+  if (!Array.isArray(units)) return "The team has no units";
+  const known = units.every(unit =>
+    !!unit && typeof unit === "object" && ALL_CLASSES.includes((unit as UnitSelection).unitClass as UnitClass)
+  );
+  if (!known) return "The team has a unit of an unknown class";
+  try {
+    const check = checkTeamPoints(units, DEFAULT_POINT_BUDGET);
+    return check.ok ? null : check.reason ?? "The team can't be used";
+  } catch {
+    return "The team has a malformed unit";
+  }
+}
+
+export class OnlineSession {
+  /** The seat this client plays */
+  readonly team: Team;
+  readonly room: string;
+
+  private client: RelayClient;
+  private peerConnected = false;
+  private localLoadout: LoadoutMessage | null = null;
+  private remoteLoadout: LoadoutMessage | null = null;
+  private onMatchStart: MatchStartFn | null = null;
+  private onLoadoutRejected: LoadoutRejectedFn | null = null;
+  private matchStarted = false;
+  private lobby: Record<Team, LobbySeat>;
+  private onLobbyChange: (() => void) | null = null;
+
+  // Match log, kept by both players so either can bring the other back
+  private relayUrl: string;
+  private matchLoadout: Loadout | null = null;
+  private turnLog: ReplayTurn[] = [];
+  private inBattle = false;
+  private pendingCommands: BattleCommand[] = [];
+
+  // Handed to the battle scene after a rejoin
+  private resumeTurns: ReplayTurn[] | null = null;
+  private restoredQueue: BattleCommand[] = [];
+  // Opponent messages that arrive while the rejoined battle is still loading
+  private heldMessages: ServerMessage[] | null = null;
+  private stopHolding: (() => void) | null = null;
+
+  private constructor(client: RelayClient, relayUrl: string, team: Team, room: string, peerConnected: boolean) {
+    this.client = client;
+    this.relayUrl = relayUrl;
+    this.team = team;
+    this.room = room;
+    this.peerConnected = peerConnected;
+    this.lobby = {
+      player1: createLobbySeat("player1", team === "player1" || peerConnected),
+      player2: createLobbySeat("player2", team === "player2" || peerConnected),
+    };
+    this.client.subscribe(message => this.handleMessage(message));
+    this.client.setCloseCallback(() => {
+      this.peerConnected = false;
+      this.onLobbyChange?.();
+    });
+  }
+
+  /**
+   * Connect to the relay and take a seat in a room.
+   * `create` opens a new room under that code instead of joining an existing one.
+   */
+  static async connect(url: string, room: string, create: boolean): Promise<OnlineSession> {
+    const client = new RelayClient();
+    const joined = await client.connect(url, room, create);
+    const session = new OnlineSession(client, url, joined.team, joined.room, joined.peerConnected);
+    session.sendLobbySeat();
+    return session;
+  }
+
+  /** The match this tab was playing before it reloaded, if any */
+  static loadSavedMatch(): SavedOnlineMatch | null {
+    try {
+      const saved = sessionStorage.getItem(SAVED_MATCH_KEY);
+      return saved ? JSON.parse(saved) as SavedOnlineMatch : null;
+    } catch {
+      return null;
+    }
+  }
+
+  static clearSavedMatch(): void {
+    try {
+      sessionStorage.removeItem(SAVED_MATCH_KEY);
+    } catch {
+      // Storage unavailable: nothing was saved
+    }
+  }
+
+  /**
+   * Reclaim this tab's seat in a match in progress and fetch the match log
+   * from the opponent. Rejects if the room is gone, the opponent has left
+   * or they don't answer in time.
+   */
+  static async rejoin(saved: SavedOnlineMatch): Promise<OnlineSession> {
+    const client = new RelayClient();
+    const joined = await client.connect(saved.relayUrl, saved.room, false, saved.team);
+    const session = new OnlineSession(client, saved.relayUrl, joined.team, joined.room, joined.peerConnected);
+    if (!joined.peerConnected) {
+      session.close();
+      throw new Error("Your opponent has left the match");
+    }
+
+    const resume = await new Promise<ResumeMessage>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        unsubscribe();
+        reject(new Error("Your opponent did not send the match log"));
+      }, RESUME_TIMEOUT_MS);
+      const unsubscribe = client.subscribe((message) => {
+        if (message.type !== "resume") return;
+        clearTimeout(timer);
+        unsubscribe();
+        // The opponent may play on before attach(); keep their moves for it
+        const held: ServerMessage[] = [];
+        session.heldMessages = held;
+        session.stopHolding = client.subscribe(m => held.push(m));
+        resolve(message);
+      });
+      client.send({ type: "resumeRequest" });
+    }).catch((error) => {
+      session.close();
+      throw error;
+    });
+
+    session.matchStarted = true;
+    session.matchLoadout = { ...resume.loadout, gameMode: "online-pvp", humanTeam: session.team };
+    session.turnLog = resume.turns.map(t => ({ ...t, commands: [...t.commands] }));
+    session.resumeTurns = resume.turns;
+    session.restoredQueue = saved.pending;
+    return session;
+  }
+
+  get opponentTeam(): Team {
+    return this.team === "player1" ? "player2" : "player1";
+  }
+
+  isPeerConnected(): boolean {
+    return this.peerConnected;
+  }
+
+  /** Setup of the current match (this player's view), once it has started */
+  getMatchLoadout(): Loadout | null {
+    return this.matchLoadout;
+  }
+
+  /**
+   * Turns to fast-forward through when rebuilding a rejoined battle, or null
+   * for a fresh match (read once)
+   */
+  takeResumeTurns(): ReplayTurn[] | null {
+    const turns = this.resumeTurns;
+    this.resumeTurns = null;
+    return turns;
+  }
+
+  /** Commands this player had queued before reloading (read once) */
+  takeRestoredQueue(): BattleCommand[] {
+    const commands = this.restoredQueue;
+    this.restoredQueue = [];
+    return commands;
+  }
+
+  /** False once the relay connection has dropped */
+  isConnected(): boolean {
+    return this.client.isConnected();
+  }
+
+  // ---------------------------------------------------------------------------
+  // Lobby
+  // ---------------------------------------------------------------------------
+
+  getLobbySeat(team: Team): LobbySeat {
+    return { ...this.lobby[team] };
+  }
+
+  /** Update this player's color and ready state and share them */
+  setLobbySeat(teamColor: string, ready: boolean): void {
+    this.lobby[this.team] = { connected: true, teamColor, ready };
+    this.sendLobbySeat();
+    this.onLobbyChange?.();
+  }
+
+  /** True once both players are in the room and ready */
+  isLobbyReady(): boolean {
+    return this.lobby.player1.connected && this.lobby.player1.ready
+      && this.lobby.player2.connected && this.lobby.player2.ready;
+  }
+
+  /** Notified when either seat or the connection changes (for UI) */
+  setLobbyCallback(callback: (() => void) | null): void {
+    this.onLobbyChange = callback;
+  }
+
+  /** Notified when the host refuses this player's team (it must be submitted again) */
+  setLoadoutRejectedCallback(callback: LoadoutRejectedFn | null): void {
+    this.onLoadoutRejected = callback;
+  }
+
+  /**
+   * Offer this player's team and wait for the opponent's.
+   * onMatchStart fires on both clients with the same loadout and seed.
+   */
+  submitLoadout(units: UnitSelection[], teamColor: string | undefined, onMatchStart: MatchStartFn): void {
+    this.localLoadout = { type: "loadout", team: this.team, units, teamColor };
+    this.onMatchStart = onMatchStart;
+    this.matchStarted = false;
+    this.client.send(this.localLoadout);
+    this.tryStartMatch();
+  }
+
+  /**
+   * Wire a running battle to the opponent.
+   * Local turns and forfeits are sent out; remote ones are fed to `remote`.
+   * `onDesync` fires if the two clients' states diverge.
+   * Returns a function that detaches both directions.
+   */
+  attach(engine: BattleEngine, remote: NetworkController, onDesync: DesyncFn): () => void {
+    const desync = new DesyncDetector((report) => {
+      // Trade states once so both consoles can show the full picture
+      if (report.remoteState === null) {
+        this.client.send({ type: "stateDump", turn: report.turn, state: report.localState });
+      }
+      onDesync(report);
+    });
+
+    this.inBattle = true;
+    this.saveMatch();
+    const isLocalUnit = (unitId: string) => getUnit(engine.getState(), unitId)?.team === this.team;
+
+    const unsubscribeEngine = engine.subscribe((event) => {
+      switch (event.type) {
+        case "commandsExecuted":
+          this.turnLog.push({ unitId: event.unitId, commands: [...event.commands] });
+          if (!isLocalUnit(event.unitId)) break;
+          for (const command of event.commands) {
+            this.client.send({ type: "command", command });
+          }
+          this.client.send({ type: "execute" });
+          this.setPendingCommands([]);
+          break;
+        case "turnResolved": {
+          const hash = desync.recordLocal(event.turn, event.state);
+          this.client.send({ type: "stateHash", turn: event.turn, hash });
+          break;
+        }
+        // Track this player's unexecuted queue so a reload can restore it
+        case "commandQueued":
+          if (isLocalUnit(event.unitId)) this.setPendingCommands([...this.pendingCommands, event.command]);
+          break;
+        case "commandUndone":
+          if (isLocalUnit(event.unitId)) this.setPendingCommands(this.pendingCommands.slice(0, -1));
+          break;
+        case "queueCleared":
+          if (isLocalUnit(event.unitId)) this.setPendingCommands([]);
+          break;
+        case "gameOver":
+          this.inBattle = false;
+          OnlineSession.clearSavedMatch();
+          if (event.reason === "forfeit" && event.winner === this.opponentTeam) {
+            this.client.send({ type: "forfeit", team: this.team });
+          }
+          break;
+      }
+    });
+
+    const handleMatchMessage = (message: ServerMessage) => {
+      switch (message.type) {
+        case "command":
+          remote.receiveCommand(message.command);
+          break;
+        case "execute":
+          remote.receiveExecute();
+          break;
+        case "forfeit":
+          if (message.team === this.opponentTeam) engine.forfeit(message.team);
+          break;
+        case "stateHash":
+          desync.recordRemote(message.turn, message.hash);
+          break;
+        case "stateDump":
+          desync.receiveDump(message.turn, message.state);
+          break;
+        case "peerLeft":
+          console.warn("Opponent disconnected - waiting for them to rejoin");
+          break;
+      }
+    };
+    const unsubscribeClient = this.client.subscribe(handleMatchMessage);
+
+    const held = this.heldMessages ?? [];
+    this.stopHolding?.();
+    this.stopHolding = null;
+    this.heldMessages = null;
+    held.forEach(handleMatchMessage);
+
+    return () => {
+      this.inBattle = false;
+      unsubscribeEngine();
+      unsubscribeClient();
+    };
+  }
+
+  /** Leave the room (a deliberate exit, so the match is not resumed) */
+  close(): void {
+    this.onLobbyChange = null;
+    this.stopHolding?.();
+    if (this.inBattle || this.matchLoadout) OnlineSession.clearSavedMatch();
+    this.client.close();
+  }
+
+  private handleMessage(message: ServerMessage): void {
+    switch (message.type) {
+      case "peerJoined":
+        this.peerConnected = true;
+        this.lobby[this.opponentTeam].connected = true;
+        // Anything sent while the seat was empty was dropped by the relay
+        this.sendLobbySeat();
+        if (this.localLoadout && !this.matchStarted) this.client.send(this.localLoadout);
+        this.onLobbyChange?.();
+        break;
+      case "peerLeft":
+        this.peerConnected = false;
+        this.remoteLoadout = null;
+        this.lobby[this.opponentTeam] = createLobbySeat(this.opponentTeam, false);
+        this.onLobbyChange?.();
+        break;
+      case "lobby":
+        if (message.team !== this.opponentTeam) return;
+        this.lobby[message.team] = { connected: true, teamColor: message.teamColor, ready: message.ready };
+        // Both picked the same color at once: player2 gives way
+        if (this.team === "player2" && message.teamColor === this.lobby.player2.teamColor) {
+          const free = TEAM_COLORS.find(c => c.hex !== message.teamColor)!;
+          this.setLobbySeat(free.hex, this.lobby.player2.ready);
+          return;
+        }
+        this.onLobbyChange?.();
+        break;
+      case "loadout":
+        if (message.team !== this.opponentTeam) return;
+        this.remoteLoadout = message;
+        this.tryStartMatch();
+        break;
+      case "loadoutRejected":
+        if (message.team !== this.team || this.matchStarted) return;
+        console.warn(`The host refused this team: ${message.reason}`);
+        this.localLoadout = null;
+        this.onLoadoutRejected?.(message.reason);
+        break;
+      case "start":
+        // player1 hosts the setup; guests take it as given
+        if (this.team === "player2") this.startMatch(message.loadout);
+        break;
+      case "resumeRequest":
+        // The opponent reloaded mid-match: send them everything so far
+        if (this.inBattle && this.matchLoadout) {
+          this.client.send({ type: "resume", loadout: this.matchLoadout, turns: this.turnLog });
+        }
+        break;
+    }
+  }
+
+  private setPendingCommands(commands: BattleCommand[]): void {
+    this.pendingCommands = commands;
+    this.saveMatch();
+  }
+
+  private saveMatch(): void {
+    const saved: SavedOnlineMatch = {
+      relayUrl: this.relayUrl,
+      room: this.room,
+      team: this.team,
+      pending: this.pendingCommands,
+    };
+    try {
+      sessionStorage.setItem(SAVED_MATCH_KEY, JSON.stringify(saved));
+    } catch (error) {
+      console.warn("Could not save online match for rejoining:", error);
+    }
+  }
+
+  private sendLobbySeat(): void {
+    const seat = this.lobby[this.team];
+    this.client.send({ type: "lobby", team: this.team, teamColor: seat.teamColor, ready: seat.ready });
+  }
+
+  /** player1 starts the match as soon as both loadouts are in */
+  private tryStartMatch(): void {
+    if (this.team !== "player1" || this.matchStarted) return;
+    if (!this.localLoadout || !this.remoteLoadout) return;
+
+    // The host is the referee: a team over the budget or the size limits is
+    // sent back, and the match waits until both are valid
+    const remoteProblem = getTeamProblem(this.remoteLoadout.units);
+    if (remoteProblem) {
+      console.warn(`${this.remoteLoadout.team} submitted an invalid team: ${remoteProblem}`);
+      this.client.send({ type: "loadoutRejected", team: this.remoteLoadout.team, reason: remoteProblem });
+      this.remoteLoadout = null;
+    }
+    const localProblem = getTeamProblem(this.localLoadout.units);
+    if (localProblem) {
+      this.localLoadout = null;
+      this.onLoadoutRejected?.(localProblem);
+    }
+    if (!this.localLoadout || !this.remoteLoadout) return;
+
+    const seed = generateSeed();
+    const loadout: Loadout = {
+      player1: this.localLoadout.units,
+      player2: this.remoteLoadout.units,
+      player1TeamColor: this.localLoadout.teamColor,
+      player2TeamColor: this.remoteLoadout.teamColor,
+      gameMode: "online-pvp",
+      seed,
+      pointBudget: DEFAULT_POINT_BUDGET,
+      // The host's ?map= picks the map for both players
+      map: getRequestedMap() ?? undefined,
+    };
+    this.client.send({ type: "start", seed, loadout });
+    this.startMatch(loadout);
+  }
+
+  private startMatch(loadout: Loadout): void {
+    if (this.matchStarted || !this.onMatchStart) return;
+    this.matchStarted = true;
+    this.localLoadout = null;
+    this.remoteLoadout = null;
+    this.matchLoadout = { ...loadout, gameMode: "online-pvp", humanTeam: this.team };
+    this.turnLog = [];
+    this.pendingCommands = [];
+    this.onMatchStart(this.matchLoadout);
+  }
+}
@@ -21,12 +21,17 @@ import {
   type Loadout,
   type UnitSelection,
   type UnitCustomization,
+  type UnitEquipment,
   type UnitClass,
   type Team,
   type ActionMode,
   type TurnState,
   type Unit,
-  getClassData,
+  type StatusEffectId,
+  type TerrainType,
+  type MapDecorationKind,
+  getEquipmentModifiers,
+  TERRAIN_DATA,
 } from "../types";
 
 // Import centralized config - colors and palettes
@@ -38,11 +43,20 @@ import {
   TILE_COLOR_LIGHT,
   TILE_COLOR_DARK,
   TERRAIN_COLOR,
+  LOW_WALL_COLOR,
+  ROUGH_GROUND_COLOR,
+  WATER_COLOR,
+  HAZARD_COLOR,
+  ELEVATION_SIDE_COLOR,
   HIGHLIGHT_SELECTED,
   HIGHLIGHT_VALID_MOVE,
   HIGHLIGHT_ATTACKABLE,
   HIGHLIGHT_HEALABLE,
   HIGHLIGHT_BLOCKED,
+  HIGHLIGHT_BUILDABLE,
+  BARRICADE_COLOR,
+  OBJECTIVE_COLOR,
+  DECORATION_COLORS,
   HP_BAR_GREEN,
   HP_BAR_ORANGE,
   HP_BAR_RED,
@@ -64,11 +78,10 @@ import {
 // Import centralized config - constants
 import {
   GRID_SIZE,
+  DEFAULT_UNITS_PER_TEAM,
   TILE_SIZE,
   TILE_GAP,
-  TERRAIN_COUNT,
-  PLAYER1_SPAWN_POSITIONS,
-  PLAYER2_SPAWN_POSITIONS,
+  ELEVATION_LEVEL_HEIGHT,
   BATTLE_CAMERA_ALPHA,
   BATTLE_CAMERA_BETA,
   BATTLE_CAMERA_RADIUS,
@@ -79,9 +92,7 @@ import {
   MOVEMENT_DURATION_PER_TILE,
   ATTACK_IMPACT_DELAY_MS,
   ACTIONS_PER_TURN,
-  ACCUMULATOR_THRESHOLD,
   SPEED_BONUS_PER_UNUSED_ACTION,
-  MELEE_DAMAGE_MULTIPLIER,
   BOOST_MULTIPLIER,
   HP_LOW_THRESHOLD,
   HP_MEDIUM_THRESHOLD,
@@ -89,10 +100,13 @@ import {
   BATTLE_MODEL_Y_POSITION,
   HP_BAR_ANCHOR_HEIGHT,
   HEAD_VARIANT_COUNT,
+  BARRICADE_DURATION_TURNS,
+  AIM_BONUS_DAMAGE,
 } from "../config";
 
 // Import audio config
 import { MUSIC, SFX, AUDIO_VOLUMES, LOOP_BUFFER_TIME } from "../config";
+import { ALL_CLASSES, getClassData } from "../config";
 
 // Import utility functions
 import { hexToColor3, createMusicPlayer, playSfx, rgbToColor3 } from "../utils";
@@ -102,31 +116,73 @@ let battleMusic: HTMLAudioElement | null = null;
 
 // Import command pattern for action queue
 import {
-  type CommandExecutor,
   type ControllerContext,
   type BattleCommand,
-  CommandQueue,
+  type BattleEvent,
+  type BattleState,
+  type UnitState,
+  type CommandValidation,
+  type BarricadeState,
+  type StatusAppliedEvent,
+  type StatusRemovalReason,
+  BattleEngine,
   createMoveCommand,
   createAttackCommand,
   createHealCommand,
   createConcealCommand,
   createCoverCommand,
-  processCommandQueue,
+  createAimCommand,
+  createBarricadeCommand,
+  createAttackBarricadeCommand,
+  predictTurnOrder as predictEngineTurnOrder,
+  getValidMoveTiles as getRuleMoveTiles,
+  getValidAttackTiles as getRuleAttackTiles,
+  getAttackableEnemies as getRuleAttackableEnemies,
+  getAttackableBarricades as getRuleAttackableBarricades,
+  calculateDamage,
+  calculateBarricadeDamage,
+  getCoverTiles,
+  getEffectiveSpeed,
+  createSeededRandom,
+  generateSeed,
+  parseSeed,
+  fromGridKey,
+  hasStatus,
+  STATUS_EFFECTS,
+  getSpawnPositions,
+  DEFAULT_MAP_GEN,
+  MAP_GENERATORS,
+  generateMap,
+  type FairnessReport,
+  analyzeFairness,
+  type Replay,
+  ReplayRecorder,
+  ReplayController,
+  serializeReplay,
+  applyReplayTurns,
   ControllerManager,
   createLocalPvPControllers,
   createPvEControllers,
+  createOnlinePvPControllers,
+  NetworkController,
+  extractUnitState as extractSceneUnitState,
+  extractBattleState as extractSceneBattleState,
+  getHighlightedBuildTiles,
+  getHighlightedHealTargets,
 } from "../battle";
+import type { OnlineSession, DesyncReport } from "../network";
+import { getMapTerrain, getMapHeights, getMapHoles, getRequestedMap } from "../maps";
 
-// Pure game logic is available in /src/battle/ for headless simulations.
-// This file (BattleScene.ts) handles visual rendering and uses inline logic
-// that mirrors the pure versions. Future refactor: delegate to battle module.
+// The turn loop lives in /src/battle/engine.ts (BattleEngine). This file renders
+// the engine's events and turns player input into commands. Targeting helpers
+// below still mirror the pure versions for highlighting.
 // See: /src/battle/state.ts (UnitState, BattleState)
 //      /src/battle/rules.ts (movement, LOS, combat, turns)
-//      /src/battle/commands.ts (Command pattern for actions)
+//      /src/battle/engine.ts (turn loop, action resolution, events)
 //      /src/battle/controllers.ts (Controller abstraction for PvE/PvP)
 
 // Greek letters for unit designations (matches LoadoutScene)
-const UNIT_DESIGNATIONS = ["Δ", "Ψ", "Ω"]; // Delta, Psi, Omega
+const UNIT_DESIGNATIONS = ["Δ", "Ψ", "Ω", "Σ", "Φ", "Λ"]; // Delta, Psi, Omega, Sigma, Phi, Lambda
 
 // Boost info for turn order display
 const BOOST_INFO = [
@@ -135,7 +191,20 @@ const BOOST_INFO = [
   { name: "Quick", stat: "Speed" },
 ];
 
-export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loadout: Loadout | null): Scene {
+/** World position of tile (0, 0)'s center, negated: tiles are laid out around the origin */
+interface GridOffset {
+  x: number;
+  z: number;
+}
+
+export function createBattleScene(
+  engine: Engine,
+  canvas: HTMLCanvasElement,
+  loadout: Loadout | null,
+  replay: Replay | null = null,
+  online: OnlineSession | null = null,
+  playtest: boolean = false
+): Scene {
   const scene = new Scene(engine);
   // Use centralized scene background color
   const bg = SCENE_BACKGROUNDS.battle;
@@ -185,12 +254,24 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
   Object.values(sfx).forEach(sound => sound.volume = AUDIO_VOLUMES.sfx);
   // Note: playSfx is now imported from utils
 
-  // Camera - using centralized constants for isometric tactical view
+  // A hand-authored map comes with the match setup (so replays and the online
+  // opponent get it too); ?map= picks one for local games
+  const battleMap = loadout?.map ?? (replay || online ? null : getRequestedMap());
+  // Replays carry their grid's shape; otherwise it's the map's, or the default square
+  const gridWidth = replay?.width ?? battleMap?.width ?? GRID_SIZE;
+  const gridHeight = replay?.height ?? battleMap?.height ?? GRID_SIZE;
+  const gridHoles: Set<string> = replay
+    ? new Set(replay.holes ?? [])
+    : battleMap ? getMapHoles(battleMap) : new Set();
+
+  // Camera - using centralized constants for isometric tactical view, pulled
+  // back in proportion on maps bigger than the default grid
+  const cameraScale = Math.max(1, Math.max(gridWidth, gridHeight) / GRID_SIZE);
   const camera = new ArcRotateCamera(
     "camera",
     BATTLE_CAMERA_ALPHA,
     BATTLE_CAMERA_BETA,
-    BATTLE_CAMERA_RADIUS,
+    BATTLE_CAMERA_RADIUS * cameraScale,
     new Vector3(0, 0, 0),
     scene
   );
@@ -199,7 +280,7 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
   camera.lowerBetaLimit = BATTLE_CAMERA_LOWER_BETA_LIMIT;
   camera.upperBetaLimit = BATTLE_CAMERA_UPPER_BETA_LIMIT;
   camera.lowerRadiusLimit = BATTLE_CAMERA_LOWER_RADIUS_LIMIT;
-  camera.upperRadiusLimit = BATTLE_CAMERA_UPPER_RADIUS_LIMIT;
+  camera.upperRadiusLimit = BATTLE_CAMERA_UPPER_RADIUS_LIMIT * cameraScale;
 
   new HemisphericLight("ambientLight", new Vector3(0, 1, 0), scene);
   const dirLight = new DirectionalLight("dirLight", new Vector3(-1, -2, -1), scene);
@@ -226,28 +307,35 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
   const healableMaterial = new StandardMaterial("healableMat", scene);
   healableMaterial.diffuseColor = rgbToColor3(HIGHLIGHT_HEALABLE);
 
+  const buildableMaterial = new StandardMaterial("buildableMat", scene);
+  buildableMaterial.diffuseColor = rgbToColor3(HIGHLIGHT_BUILDABLE);
+
   const unitMaterials: Record<UnitClass, StandardMaterial> = {
     soldier: createUnitMaterial("soldier", new Color3(0.3, 0.3, 0.8), scene),
     operator: createUnitMaterial("operator", new Color3(0.8, 0.2, 0.2), scene),
     medic: createUnitMaterial("medic", new Color3(0.2, 0.8, 0.3), scene),
   };
 
-  // Create grid
+  // Create grid (holes get no tile, so tiles[x][z] is missing there)
   const tiles: Mesh[][] = [];
-  const gridOffset = (GRID_SIZE * TILE_SIZE) / 2 - TILE_SIZE / 2;
+  const gridOffset: GridOffset = {
+    x: (gridWidth * TILE_SIZE) / 2 - TILE_SIZE / 2,
+    z: (gridHeight * TILE_SIZE) / 2 - TILE_SIZE / 2,
+  };
 
-  for (let x = 0; x < GRID_SIZE; x++) {
+  for (let x = 0; x < gridWidth; x++) {
     tiles[x] = [];
-    for (let z = 0; z < GRID_SIZE; z++) {
+    for (let z = 0; z < gridHeight; z++) {
+      if (gridHoles.has(`${x},${z}`)) continue;
       const tile = MeshBuilder.CreateBox(
         `tile_${x}_${z}`,
         { width: TILE_SIZE - TILE_GAP, height: 0.1, depth: TILE_SIZE - TILE_GAP },
         scene
       );
       tile.position = new Vector3(
-        x * TILE_SIZE - gridOffset,
+        x * TILE_SIZE - gridOffset.x,
         0,
-        z * TILE_SIZE - gridOffset
+        z * TILE_SIZE - gridOffset.z
       );
       tile.material = (x + z) % 2 === 0 ? tileMaterialLight : tileMaterialDark;
       tile.metadata = { type: "tile", gridX: x, gridZ: z };
@@ -259,301 +347,332 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
   // TERRAIN GENERATION
   // ============================================
 
-  // Store terrain positions for collision checking
-  const terrainTiles: Set<string> = new Set();
+  // Terrain type on each terrain tile (standing barricades are walls)
+  const terrainTiles: Map<string, TerrainType> = new Map();
 
-  // ============================================
-  // TERRAIN GENERATION - Constructive Algorithm
-  // ============================================
-  // Instead of generate-and-validate, we:
-  // 1. Build a guaranteed main corridor along an edge (not middle)
-  // 2. Connect each spawn point to the corridor via cardinal paths
-  // 3. Mark all path tiles as "protected"
-  // 4. Place terrain only in unprotected tiles (middle of map)
-  // This always succeeds and is deterministic with a seed.
+  // Every random roll in the battle (terrain, AI) draws from one seeded generator,
+  // so a reported map can be regenerated. Loadout seed wins, then ?seed= in the URL.
+  const battleSeed = replay?.seed
+    ?? loadout?.seed
+    ?? parseSeed(new URLSearchParams(window.location.search).get("seed"))
+    ?? generateSeed();
+  const random = createSeededRandom(battleSeed);
+  console.log(`Battle seed: ${battleSeed}`);
 
-  // Combine spawn positions for terrain generation (using config constants)
-  const spawnPositions = [...PLAYER1_SPAWN_POSITIONS, ...PLAYER2_SPAWN_POSITIONS];
-
-  /**
-   * Generate an edge-hugging corridor from bottom to top.
-   * Routes along left or right edge with some variance, leaving middle open.
-   */
-  function generateEdgeCorridor(): { x: number; z: number }[] {
-    const path: { x: number; z: number }[] = [];
-
-    // Pick which edge to favor (left or right)
-    const favorLeft = Math.random() < 0.5;
-
-    // Start position: on or near the chosen edge
-    let x = favorLeft
-      ? Math.floor(Math.random() * 2)  // 0 or 1
-      : GRID_SIZE - 1 - Math.floor(Math.random() * 2);  // 6 or 7
-
-    // Walk from z=0 to z=GRID_SIZE-1
-    for (let z = 0; z < GRID_SIZE; z++) {
-      path.push({ x, z });
-
-      // Occasionally drift laterally (but stay near edge)
-      if (z < GRID_SIZE - 1 && Math.random() < 0.3) {
-        // Drift toward or away from edge
-        const driftTowardEdge = Math.random() < 0.6;  // Bias toward edge
-        if (driftTowardEdge) {
-          // Move toward edge
-          if (favorLeft && x > 0) x--;
-          else if (!favorLeft && x < GRID_SIZE - 1) x++;
-        } else {
-          // Move away from edge (but not too far - stay in outer third)
-          const maxDrift = Math.floor(GRID_SIZE / 3);
-          if (favorLeft && x < maxDrift) x++;
-          else if (!favorLeft && x > GRID_SIZE - 1 - maxDrift) x--;
-        }
-      }
-    }
+  // Use loadout if provided, otherwise default setup
+  const defaultUnits: UnitSelection[] = ALL_CLASSES.slice(0, DEFAULT_UNITS_PER_TEAM).map(unitClass => ({ unitClass }));
+  const player1Selections = loadout?.player1 ?? defaultUnits;
+  const player2Selections = loadout?.player2 ?? defaultUnits;
 
-    return path;
+  // Starting positions scale with team size; terrain generation keeps them reachable.
+  // A map's spawn zones are checked for reachability when it loads.
+  const player1Positions = battleMap
+    ? battleMap.spawns.player1.slice(0, player1Selections.length)
+    : getSpawnPositions("player1", player1Selections.length, gridWidth, gridHeight);
+  const player2Positions = battleMap
+    ? battleMap.spawns.player2.slice(0, player2Selections.length)
+    : getSpawnPositions("player2", player2Selections.length, gridWidth, gridHeight);
+  const spawnPositions = { player1: player1Positions, player2: player2Positions };
+
+  // Generated maps are laid out in the style the match setup picked (see battle/mapgen.ts)
+  const mapGen = loadout?.mapGen ?? DEFAULT_MAP_GEN;
+  const generatedMap = replay || battleMap
+    ? null
+    : generateMap(gridWidth, gridHeight, spawnPositions, random, mapGen);
+
+  // Replays carry their terrain so they survive changes to the generator
+  const terrainPositions = replay
+    ? loadReplayTerrain(replay)
+    : loadTerrain(battleMap ? getMapTerrain(battleMap) : generatedMap!.terrain);
+
+  function loadTerrain(terrain: Map<string, TerrainType>): { x: number; z: number }[] {
+    for (const [key, type] of terrain) {
+      terrainTiles.set(key, type);
+    }
+    return [...terrainTiles.keys()].map(key => fromGridKey(key));
   }
 
-  /**
-   * Find shortest cardinal path from start to any tile in the target set using BFS.
-   * Only uses cardinal directions (no diagonals) since units can't move diagonally.
-   */
-  function findCardinalPathToSet(
-    startX: number,
-    startZ: number,
-    targetSet: Set<string>
-  ): { x: number; z: number }[] {
-    const startKey = `${startX},${startZ}`;
-
-    // BFS to find shortest cardinal path to any target tile
-    const visited = new Set<string>();
-    const parent = new Map<string, string | null>();
-    const queue: [number, number][] = [[startX, startZ]];
-    visited.add(startKey);
-    parent.set(startKey, null);
-
-    while (queue.length > 0) {
-      const [cx, cz] = queue.shift()!;
-      const currentKey = `${cx},${cz}`;
-
-      // Check if we reached a target tile (but not the start itself)
-      if (targetSet.has(currentKey) && currentKey !== startKey) {
-        // Reconstruct path from start to this target
-        const path: { x: number; z: number }[] = [];
-        let key: string | null = currentKey;
-        while (key) {
-          const [px, pz] = key.split(",").map(Number);
-          path.unshift({ x: px, z: pz });
-          key = parent.get(key) || null;
-        }
-        return path;
-      }
-
-      // Explore cardinal neighbors only (no diagonals!)
-      const cardinalDirs = [[0, 1], [0, -1], [1, 0], [-1, 0]];
-      for (const [dx, dz] of cardinalDirs) {
-        const nx = cx + dx;
-        const nz = cz + dz;
-        const key = `${nx},${nz}`;
-
-        // Stay in bounds
-        if (nx < 0 || nx >= GRID_SIZE || nz < 0 || nz >= GRID_SIZE) continue;
-        // Don't revisit
-        if (visited.has(key)) continue;
-
-        visited.add(key);
-        parent.set(key, currentKey);
-        queue.push([nx, nz]);
-      }
+  function loadReplayTerrain(recorded: Replay): { x: number; z: number }[] {
+    // Replays from before terrain types only have walls
+    for (const key of recorded.terrain) {
+      terrainTiles.set(key, recorded.terrainTypes?.[key] ?? "wall");
     }
-
-    // No path found (shouldn't happen on open grid) - return just start
-    console.warn(`No cardinal path found from (${startX},${startZ}) to corridor`);
-    return [{ x: startX, z: startZ }];
+    return recorded.terrain.map(key => fromGridKey(key));
   }
 
-  /**
-   * Constructive terrain generation algorithm.
-   * Guarantees valid terrain on first try - no retries needed.
-   */
-  function generateTerrainPositions(): { x: number; z: number }[] {
-    const protectedTiles = new Set<string>();
-
-    // Step 1: Create main corridor along an edge (leaves middle open for terrain)
-    const mainCorridor = generateEdgeCorridor();
-
-    // Add main corridor to protected set
-    for (const tile of mainCorridor) {
-      protectedTiles.add(`${tile.x},${tile.z}`);
-    }
-
-    // Step 2: Connect each spawn to the corridor via cardinal path
-    // IMPORTANT: Don't add spawns to protected BEFORE finding paths,
-    // otherwise findCardinalPathToSet returns immediately
-    for (const spawn of spawnPositions) {
-      // Find cardinal path from spawn to nearest protected tile
-      const pathToCorridor = findCardinalPathToSet(
-        spawn.x, spawn.z,
-        protectedTiles
-      );
-
-      // Add entire path (including spawn) to protected tiles
-      for (const tile of pathToCorridor) {
-        protectedTiles.add(`${tile.x},${tile.z}`);
-      }
-
-      // Also protect the spawn itself (in case path didn't include it)
-      protectedTiles.add(`${spawn.x},${spawn.z}`);
-    }
-
-    // Step 3: Verify each spawn has at least one cardinal exit
-    // (Should always be true now, but safety check)
-    for (const spawn of spawnPositions) {
-      const cardinalNeighbors = [
-        { x: spawn.x - 1, z: spawn.z },
-        { x: spawn.x + 1, z: spawn.z },
-        { x: spawn.x, z: spawn.z - 1 },
-        { x: spawn.x, z: spawn.z + 1 },
-      ].filter(n => n.x >= 0 && n.x < GRID_SIZE && n.z >= 0 && n.z < GRID_SIZE);
-
-      const hasCardinalExit = cardinalNeighbors.some(n =>
-        protectedTiles.has(`${n.x},${n.z}`)
-      );
-
-      if (!hasCardinalExit && cardinalNeighbors.length > 0) {
-        // Protect a random cardinal neighbor
-        const randomNeighbor = cardinalNeighbors[
-          Math.floor(Math.random() * cardinalNeighbors.length)
-        ];
-        protectedTiles.add(`${randomNeighbor.x},${randomNeighbor.z}`);
-      }
-    }
-
-    // Step 4: Collect eligible tiles for terrain (not protected)
-    const eligibleTiles: { x: number; z: number }[] = [];
-    for (let x = 0; x < GRID_SIZE; x++) {
-      for (let z = 0; z < GRID_SIZE; z++) {
-        if (!protectedTiles.has(`${x},${z}`)) {
-          eligibleTiles.push({ x, z });
-        }
-      }
-    }
-
-    // Step 5: Shuffle and select terrain tiles
-    for (let i = eligibleTiles.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [eligibleTiles[i], eligibleTiles[j]] = [eligibleTiles[j], eligibleTiles[i]];
-    }
+  // ============================================
+  // ELEVATION
+  // ============================================
+  // Tile levels (missing = ground).
+  // Replays recorded before elevation have no heights and load flat.
+  const tileHeights: Map<string, number> = replay
+    ? new Map(Object.entries(replay.heights ?? {}))
+    : battleMap ? getMapHeights(battleMap) : generatedMap!.heights;
+
+  /** World-space height of a tile's surface above ground level */
+  function getTileElevation(x: number, z: number): number {
+    return (tileHeights.get(`${x},${z}`) ?? 0) * ELEVATION_LEVEL_HEIGHT;
+  }
 
-    const terrainCount = Math.min(TERRAIN_COUNT, eligibleTiles.length);
-    const positions = eligibleTiles.slice(0, terrainCount);
+  // Lift raised tiles and fill in the column of ground beneath them
+  const elevationSideMaterial = new StandardMaterial("elevationSideMat", scene);
+  elevationSideMaterial.diffuseColor = rgbToColor3(ELEVATION_SIDE_COLOR);
+  elevationSideMaterial.specularColor = new Color3(0.1, 0.1, 0.1);
 
-    // Add to terrain tiles set for collision detection
-    for (const pos of positions) {
-      terrainTiles.add(`${pos.x},${pos.z}`);
-    }
+  for (const [key, level] of tileHeights) {
+    if (level <= 0) continue;
+    const { x, z } = fromGridKey(key);
+    const rise = getTileElevation(x, z);
+    tiles[x][z].position.y = rise;
 
-    return positions;
+    const side = MeshBuilder.CreateBox(`tileSide_${x}_${z}`, {
+      width: TILE_SIZE - TILE_GAP,
+      height: rise,
+      depth: TILE_SIZE - TILE_GAP,
+    }, scene);
+    // From the bottom of a ground-level tile up to the bottom of the raised one
+    side.position = new Vector3(
+      x * TILE_SIZE - gridOffset.x,
+      rise / 2 - 0.05,
+      z * TILE_SIZE - gridOffset.z
+    );
+    side.material = elevationSideMaterial;
+    // Clicking the side of a raised tile picks the tile
+    side.metadata = tiles[x][z].metadata;
   }
 
-  const terrainPositions = generateTerrainPositions();
-
-  // Create terrain cube meshes
-  // Terrain material - using centralized color config
+  // Create terrain meshes
+  // Terrain materials - using centralized color config
   const terrainMaterial = new StandardMaterial("terrainMat", scene);
   terrainMaterial.diffuseColor = rgbToColor3(TERRAIN_COLOR);
   terrainMaterial.specularColor = new Color3(0.1, 0.1, 0.1);
 
+  const lowWallMaterial = new StandardMaterial("lowWallMat", scene);
+  lowWallMaterial.diffuseColor = rgbToColor3(LOW_WALL_COLOR);
+  lowWallMaterial.specularColor = new Color3(0.1, 0.1, 0.1);
+
+  // Ground-level terrain recolors its tile instead of standing on it
+  const groundTerrainMaterials: Partial<Record<TerrainType, StandardMaterial>> = {};
+  for (const [type, color] of [["rough", ROUGH_GROUND_COLOR], ["water", WATER_COLOR], ["hazard", HAZARD_COLOR]] as const) {
+    const material = new StandardMaterial(`${type}TileMat`, scene);
+    material.diffuseColor = rgbToColor3(color);
+    if (type === "hazard") material.emissiveColor = rgbToColor3(color).scale(0.3);
+    groundTerrainMaterials[type] = material;
+  }
+
   const tileTopY = 0.05;  // Top surface of tiles (tiles are height 0.1 centered at Y=0)
   const terrainHeight = TILE_SIZE - TILE_GAP;
+  // About waist height on a unit, so it reads as something to shoot over
+  const lowWallHeight = terrainHeight * 0.45;
 
   for (const { x, z } of terrainPositions) {
+    const type = terrainTiles.get(`${x},${z}`) ?? "wall";
+    if (type !== "wall" && type !== "lowWall") {
+      tiles[x][z].material = getDefaultTileMaterial(x, z);
+      continue;
+    }
+
+    const height = type === "wall" ? terrainHeight : lowWallHeight;
     const cube = MeshBuilder.CreateBox(`terrain_${x}_${z}`, {
       width: TILE_SIZE - TILE_GAP,
-      height: terrainHeight,
+      height,
       depth: TILE_SIZE - TILE_GAP,
     }, scene);
     cube.position = new Vector3(
-      x * TILE_SIZE - gridOffset,
-      tileTopY + terrainHeight / 2,  // Sit on top of tile
-      z * TILE_SIZE - gridOffset
+      x * TILE_SIZE - gridOffset.x,
+      getTileElevation(x, z) + tileTopY + height / 2,  // Sit on top of tile
+      z * TILE_SIZE - gridOffset.z
     );
-    cube.material = terrainMaterial;
+    cube.material = type === "wall" ? terrainMaterial : lowWallMaterial;
     cube.metadata = { type: "terrain", gridX: x, gridZ: z };
   }
 
-  // Helper to check if a tile has terrain
-  function hasTerrain(x: number, z: number): boolean {
-    return terrainTiles.has(`${x},${z}`);
+  // ============================================
+  // BARRICADES (Engineer)
+  // ============================================
+  // Mirrors the engine's barricades as its events arrive. A standing barricade
+  // is in terrainTiles as a wall, so it blocks movement and LOS like any wall.
+
+  interface SceneBarricade {
+    state: BarricadeState;
+    mesh: Mesh;
+    hpLabel: TextBlock;
+  }
+
+  const barricades: Map<string, SceneBarricade> = new Map();
+
+  const barricadeMaterial = new StandardMaterial("barricadeMat", scene);
+  barricadeMaterial.diffuseColor = rgbToColor3(BARRICADE_COLOR);
+  barricadeMaterial.specularColor = new Color3(0.1, 0.1, 0.1);
+
+  // Lower than terrain so a barricade reads as something built, not a rock
+  const barricadeHeight = terrainHeight * 0.6;
+
+  function addSceneBarricade(state: BarricadeState): void {
+    const key = `${state.x},${state.z}`;
+    removeSceneBarricade(state.x, state.z);
+
+    const mesh = MeshBuilder.CreateBox(`barricade_${state.x}_${state.z}`, {
+      width: TILE_SIZE - TILE_GAP,
+      height: barricadeHeight,
+      depth: (TILE_SIZE - TILE_GAP) * 0.5,
+    }, scene);
+    mesh.position = new Vector3(
+      state.x * TILE_SIZE - gridOffset.x,
+      getTileElevation(state.x, state.z) + tileTopY + barricadeHeight / 2,
+      state.z * TILE_SIZE - gridOffset.z
+    );
+    mesh.material = barricadeMaterial;
+    mesh.metadata = { type: "barricade", gridX: state.x, gridZ: state.z };
+
+    const hpLabel = new TextBlock(`barricadeHp_${state.x}_${state.z}`);
+    hpLabel.fontSize = 12;
+    hpLabel.fontWeight = "bold";
+    hpLabel.color = "white";
+    hpLabel.outlineWidth = 2;
+    hpLabel.outlineColor = "black";
+    hpLabel.isHitTestVisible = false;
+    gui.addControl(hpLabel);
+    hpLabel.linkWithMesh(mesh);
+    hpLabel.linkOffsetY = -30;
+
+    barricades.set(key, { state: { ...state }, mesh, hpLabel });
+    terrainTiles.set(key, "wall");
+    updateBarricadeHp(state.x, state.z, state.hp);
+  }
+
+  function updateBarricadeHp(x: number, z: number, hp: number): void {
+    const barricade = barricades.get(`${x},${z}`);
+    if (!barricade) return;
+    barricade.state.hp = hp;
+    barricade.hpLabel.text = `${hp}/${barricade.state.maxHp}`;
+  }
+
+  function removeSceneBarricade(x: number, z: number): void {
+    const key = `${x},${z}`;
+    const barricade = barricades.get(key);
+    if (!barricade) return;
+    barricade.mesh.dispose();
+    barricade.hpLabel.dispose();
+    barricades.delete(key);
+    terrainTiles.delete(key);
   }
 
   // ============================================
   // STATE EXTRACTION (for simulations/AI)
   // ============================================
-  // These functions extract pure game state for use with /src/battle/ rules.
-  // This enables headless simulations without Babylon.js dependencies.
+  // The conversion itself lives in /src/battle/extract.ts, so it can be
+  // checked against the rules without Babylon.js.
 
-  /**
-   * Extract pure UnitState from a visual Unit.
-   * Used for simulations, AI, and state synchronization.
-   */
-  function extractUnitState(unit: Unit, index: number): import("../battle").UnitState {
-    return {
-      id: `${unit.team}-${index}`,
-      unitClass: unit.unitClass,
-      team: unit.team,
-      gridX: unit.gridX,
-      gridZ: unit.gridZ,
-      hp: unit.hp,
-      maxHp: unit.maxHp,
-      attack: unit.attack,
-      healAmount: unit.healAmount,
-      moveRange: unit.moveRange,
-      attackRange: unit.attackRange,
-      combatStyle: unit.customization?.combatStyle ?? "ranged",
-      speed: unit.speed,
-      speedBonus: unit.speedBonus,
-      accumulator: unit.accumulator,
-      loadoutIndex: unit.loadoutIndex,
-      isConcealed: unit.isConcealed,
-      isCovering: unit.isCovering,
-      coveredTiles: [], // TODO: track covered tiles in Unit
-      actionsUsed: turnState?.unit === unit ? (ACTIONS_PER_TURN - turnState.actionsRemaining) : 0,
-    };
+  /** Pure UnitState for a visual Unit */
+  function extractUnitState(unit: Unit): UnitState {
+    return extractSceneUnitState(unit, turnState);
   }
 
   /**
    * Extract complete BattleState from current game.
-   * Used for simulations, AI decision making, and state sync.
+   * Seeds the BattleEngine once all units have spawned.
    */
-  function extractBattleState(): import("../battle").BattleState {
-    const currentUnit = turnState?.unit;
-    return {
-      gridSize: GRID_SIZE,
-      terrain: new Set(terrainTiles),
-      units: units.map((u, i) => extractUnitState(u, i)),
-      currentUnitId: currentUnit ? `${currentUnit.team}-${units.indexOf(currentUnit)}` : null,
-      actionsRemaining: turnState?.actionsRemaining ?? 0,
-      pendingActions: turnState?.pendingActions.map(a => ({
-        type: a.type,
-        targetX: a.targetX,
-        targetZ: a.targetZ,
-        targetUnitId: a.targetUnit ? `${a.targetUnit.team}-${units.indexOf(a.targetUnit)}` : undefined,
-        abilityName: a.abilityName,
-      })) ?? [],
-      originalPosition: turnState?.originalPosition ?? null,
-      isGameOver: false, // TODO: track game over state
-      winner: null,
-    };
+  function extractBattleState(): BattleState {
+    return extractSceneBattleState({
+      width: gridWidth,
+      height: gridHeight,
+      holes: gridHoles,
+      terrain: terrainTiles,
+      heights: tileHeights,
+      units,
+      barricades: [...barricades.values()].map(b => b.state),
+      turnState,
+      isGameOver: gameOver,
+    });
   }
 
-  // Export state extraction for external use (AI, simulations)
-  void extractBattleState; // Prevent unused warning
-
   // GUI - ensure it captures pointer events before the scene
   const gui = AdvancedDynamicTexture.CreateFullscreenUI("UI");
   gui.isForeground = true;
 
+  // ============================================
+  // MAP OBJECTIVES AND DECORATIONS
+  // ============================================
+  // Only hand-authored maps have these. Neither is pickable, so clicks reach
+  // the tiles and units underneath.
+
+  const objectiveMaterial = new StandardMaterial("objectiveMat", scene);
+  objectiveMaterial.diffuseColor = rgbToColor3(OBJECTIVE_COLOR);
+  objectiveMaterial.emissiveColor = rgbToColor3(OBJECTIVE_COLOR).scale(0.4);
+
+  for (const [i, objective] of (battleMap?.objectives ?? []).entries()) {
+    const ring = MeshBuilder.CreateTorus(`objective_${i}`, {
+      diameter: (TILE_SIZE - TILE_GAP) * 0.75,
+      thickness: 0.05,
+      tessellation: 32,
+    }, scene);
+    ring.position = new Vector3(
+      objective.x * TILE_SIZE - gridOffset.x,
+      getTileElevation(objective.x, objective.z) + tileTopY + 0.02,
+      objective.z * TILE_SIZE - gridOffset.z
+    );
+    ring.material = objectiveMaterial;
+    ring.isPickable = false;
+
+    if (objective.label) {
+      const label = new TextBlock(`objectiveLabel_${i}`, objective.label);
+      label.fontSize = 13;
+      label.fontWeight = "bold";
+      label.color = "#f2bf33";
+      label.outlineWidth = 2;
+      label.outlineColor = "black";
+      label.isHitTestVisible = false;
+      gui.addControl(label);
+      label.linkWithMesh(ring);
+      label.linkOffsetY = -14;
+    }
+  }
+
+  const decorationMaterials = Object.fromEntries(
+    Object.entries(DECORATION_COLORS).map(([kind, color]) => {
+      const material = new StandardMaterial(`decoration_${kind}_mat`, scene);
+      material.diffuseColor = rgbToColor3(color);
+      material.specularColor = new Color3(0.05, 0.05, 0.05);
+      return [kind, material];
+    })
+  ) as Record<MapDecorationKind, StandardMaterial>;
+
+  for (const [i, decoration] of (battleMap?.decorations ?? []).entries()) {
+    const name = `decoration_${i}`;
+    let mesh: Mesh;
+    switch (decoration.kind) {
+      case "rock":
+        mesh = MeshBuilder.CreateIcoSphere(name, { radius: 0.22, subdivisions: 1 }, scene);
+        mesh.scaling.y = 0.6;
+        break;
+      case "crate":
+        mesh = MeshBuilder.CreateBox(name, { size: 0.35 }, scene);
+        break;
+      case "barrel":
+        mesh = MeshBuilder.CreateCylinder(name, { height: 0.4, diameter: 0.28 }, scene);
+        break;
+      case "bush":
+        mesh = MeshBuilder.CreateSphere(name, { diameter: 0.4, segments: 6 }, scene);
+        mesh.scaling.y = 0.7;
+        break;
+    }
+    // Props on the board sit on their tile; props off it sit on the ground
+    const tileX = Math.round(decoration.x);
+    const tileZ = Math.round(decoration.z);
+    const onBoard = tileX >= 0 && tileX < gridWidth && tileZ >= 0 && tileZ < gridHeight
+      && !gridHoles.has(`${tileX},${tileZ}`);
+    const halfHeight = mesh.getBoundingInfo().boundingBox.extendSize.y * mesh.scaling.y;
+    mesh.position = new Vector3(
+      decoration.x * TILE_SIZE - gridOffset.x,
+      (onBoard ? getTileElevation(tileX, tileZ) : 0) + tileTopY + halfHeight,
+      decoration.z * TILE_SIZE - gridOffset.z
+    );
+    mesh.rotation.y = ((decoration.rotation ?? 0) * Math.PI) / 180;
+    mesh.material = decorationMaterials[decoration.kind];
+    mesh.isPickable = false;
+  }
+
   // Units
   const units: Unit[] = [];
 
@@ -561,19 +680,20 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
   let turnState: TurnState | null = null;
   let currentActionMode: ActionMode = "none";
 
-  // Command queue for pending actions
-  const commandQueue = new CommandQueue();
+  // Authoritative turn loop - created once all units have spawned
+  let battleEngine: BattleEngine | null = null;
 
-  // Helper to get unit ID (for command serialization)
-  function getUnitId(unit: Unit): string {
-    return `${unit.team}-${units.indexOf(unit)}`;
-  }
+  // Records the match for saving (not used when watching a replay)
+  let replayRecorder: ReplayRecorder | null = null;
+
+  // Online PvP: the opponent's turns arrive through this controller
+  const networkController = online ? new NetworkController() : null;
+  let detachOnline: (() => void) | null = null;
+  scene.onDisposeObservable.add(() => detachOnline?.());
 
-  // Helper to find unit by ID
+  // Helper to find a living unit by ID
   function findUnitById(id: string): Unit | undefined {
-    const [team, indexStr] = id.split("-");
-    const index = parseInt(indexStr, 10);
-    return units.find((u, i) => u.team === team && i === index);
+    return units.find(u => u.id === id);
   }
 
   // ============================================
@@ -584,97 +704,97 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
 
   // Create controller manager based on game mode from loadout
   let controllerManager: ControllerManager;
-  if (loadout?.gameMode === "local-pve") {
+  const replayController = replay
+    ? new ReplayController(replay, team => battleEngine?.forfeit(team))
+    : null;
+  if (replayController) {
+    // Replay mode: one controller plays back both teams
+    controllerManager = new ControllerManager(replayController, replayController);
+  } else if (loadout?.gameMode === "local-pve") {
     // PvE mode: human controls one team, AI controls the other
     const humanTeam = loadout.humanTeam || "player1";
-    controllerManager = createPvEControllers(humanTeam, "medium");
+    controllerManager = createPvEControllers(humanTeam, "medium", random);
+  } else if (loadout?.gameMode === "online-pvp" && online && networkController) {
+    // Online PvP: this tab controls one team, the remote player the other
+    controllerManager = createOnlinePvPControllers(online.team, networkController);
   } else {
     // Default: local PvP (both teams controlled by humans)
     controllerManager = createLocalPvPControllers();
   }
 
-  /** Get display name for a team (accounts for PvE) */
+  /** Get display name for a team (accounts for PvE and online play) */
   function getTeamDisplayName(team: Team): string {
     if (loadout?.gameMode === "local-pve") {
       const humanTeam = loadout.humanTeam || "player1";
       return team === humanTeam ? "Player" : "Computer";
     }
+    if (loadout?.gameMode === "online-pvp" && !replay) {
+      const localTeam = loadout.humanTeam || "player1";
+      return team === localTeam ? "You" : "Opponent";
+    }
     return team === "player1" ? "Player 1" : "Player 2";
   }
 
   /** Create controller context for the current turn */
-  function createControllerContext(unit: Unit): ControllerContext {
+  function createControllerContext(battle: BattleEngine, unit: Unit): ControllerContext {
+    const state = battle.getState();
     return {
-      state: extractBattleState(),
-      unit: extractUnitState(unit, units.indexOf(unit)),
-      actionsRemaining: turnState?.actionsRemaining ?? 0,
+      state,
+      unit: state.units.find(u => u.id === unit.id) ?? extractUnitState(unit),
+      actionsRemaining: battle.getActionsRemaining(),
 
       issueCommand(command: BattleCommand): boolean {
-        if (!turnState || turnState.actionsRemaining <= 0) return false;
-
-        // Get pending move position (if unit has a queued move, use that position)
-        let fromX = unit.gridX;
-        let fromZ = unit.gridZ;
-        for (const action of turnState.pendingActions) {
-          if (action.type === "move" && action.targetX !== undefined && action.targetZ !== undefined) {
-            fromX = action.targetX;
-            fromZ = action.targetZ;
-          }
-        }
+        if (!turnState) return false;
+
+        // Validate against the engine (accounts for queued moves, works for human UI and AI)
+        if (!battle.validateCommand(command).ok) return false;
 
         // Route command to appropriate queue function
         switch (command.type) {
-          case "move": {
-            // Validate from pending position (works for both human UI and AI)
-            const validMoves = getValidMoveTiles(unit, fromX, fromZ);
-            const isValid = validMoves.some(t => t.x === command.targetX && t.z === command.targetZ);
-            if (isValid) {
-              queueMoveAction(unit, command.targetX, command.targetZ);
-              return true;
-            }
-            return false;
-          }
+          case "move":
+            queueMoveAction(unit, command.targetX, command.targetZ);
+            return true;
 
           case "attack": {
             const target = findUnitById(command.targetUnitId);
             if (!target) return false;
-            // Validate from pending position (works for both human UI and AI)
-            const validTargets = getAttackableEnemiesWithLOS(unit, fromX, fromZ);
-            if (validTargets.includes(target)) {
-              queueAttackAction(unit, target);
-              return true;
-            }
-            return false;
+            queueAttackAction(unit, target);
+            return true;
           }
 
           case "heal": {
             const target = findUnitById(command.targetUnitId);
             if (!target) return false;
-            // Validate from pending position (works for both human UI and AI)
-            const validTargets = getHealableAllies(unit, fromX, fromZ);
-            if (validTargets.includes(target)) {
-              queueHealAction(unit, target);
-              return true;
-            }
-            return false;
+            queueHealAction(unit, target);
+            return true;
           }
 
           case "conceal":
-            if (unit.unitClass === "operator" && !unit.isConcealed) {
-              queueConcealAction(unit);
-              return true;
-            }
-            return false;
+            queueConcealAction(unit);
+            return true;
 
           case "cover":
-            if (unit.unitClass === "soldier") {
-              queueCoverAction(unit);
-              return true;
-            }
-            return false;
+            queueCoverAction(unit);
+            return true;
+
+          case "aim":
+            queueAimAction(unit);
+            return true;
+
+          case "barricade":
+            queueBarricadeAction(unit, command.targetX, command.targetZ);
+            return true;
+
+          case "attackBarricade":
+            queueAttackBarricadeAction(unit, command.targetX, command.targetZ);
+            return true;
         }
       },
 
+      validateCommand(command: BattleCommand): CommandValidation {
+        return battle.validateCommand(command);
+      },
+
       executeTurn(): void {
         executeQueuedActions();
       },
@@ -804,259 +924,59 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
   }
 
   // ============================================
-  // LINE OF SIGHT SYSTEM
+  // RULES
   // ============================================
-  // Mathematical line-rectangle intersection approach:
-  // - Line from center of fromTile to center of toTile
-  // - If line passes through interior of any blocking tile → blocked
-  // - If line only grazes corners, track which side of the line blockers are on
-  // - If corners are touched on BOTH sides (left and right) → blocked
-
-  // Epsilon for floating point comparisons
-  const LOS_EPSILON = 0.0001;
-
-  // Check if a line segment intersects a tile's interior (not just corner)
-  // Returns: "none" | "interior" | "corner"
-  function lineRectIntersection(
-    ax: number, az: number,  // Line start (tile centers)
-    bx: number, bz: number,  // Line end (tile centers)
-    tileX: number, tileZ: number  // Tile grid coordinates
-  ): "none" | "interior" | "corner" {
-    // Tile bounds (each tile is 1x1, from [tileX, tileX+1] x [tileZ, tileZ+1])
-    const minX = tileX;
-    const maxX = tileX + 1;
-    const minZ = tileZ;
-    const maxZ = tileZ + 1;
-
-    // Line direction
-    const dx = bx - ax;
-    const dz = bz - az;
-
-    // Parametric line clipping (Liang-Barsky algorithm)
-    let tMin = 0;
-    let tMax = 1;
-
-    // Check each edge
-    const edges = [
-      { p: -dx, q: ax - minX },  // Left edge
-      { p: dx, q: maxX - ax },   // Right edge
-      { p: -dz, q: az - minZ },  // Bottom edge
-      { p: dz, q: maxZ - az },   // Top edge
-    ];
-
-    for (const { p, q } of edges) {
-      if (Math.abs(p) < LOS_EPSILON) {
-        // Line is parallel to this edge
-        if (q < 0) return "none";  // Line is outside
-      } else {
-        const t = q / p;
-        if (p < 0) {
-          tMin = Math.max(tMin, t);
-        } else {
-          tMax = Math.min(tMax, t);
-        }
-      }
-    }
-
-    if (tMin > tMax + LOS_EPSILON) {
-      return "none";  // No intersection
-    }
-
-    // Calculate intersection points
-    const entryX = ax + tMin * dx;
-    const entryZ = az + tMin * dz;
-    const exitX = ax + tMax * dx;
-    const exitZ = az + tMax * dz;
-
-    // Check if entry and exit are essentially the same point (corner touch)
-    const intersectionLength = Math.sqrt((exitX - entryX) ** 2 + (exitZ - entryZ) ** 2);
-    if (intersectionLength < LOS_EPSILON) {
-      // Single point intersection - check if it's a corner
-      const corners = [
-        { x: minX, z: minZ },
-        { x: minX, z: maxZ },
-        { x: maxX, z: minZ },
-        { x: maxX, z: maxZ },
-      ];
-      for (const corner of corners) {
-        if (Math.abs(entryX - corner.x) < LOS_EPSILON && Math.abs(entryZ - corner.z) < LOS_EPSILON) {
-          return "corner";
-        }
-      }
-      // Edge touch (not corner) - treat as interior for blocking purposes
-      return "interior";
-    }
-
-    return "interior";
-  }
-
-  // Determine which side of the line a point is on
-  // Returns positive for left, negative for right, 0 for on line
-  function sideOfLine(
-    ax: number, az: number,  // Line start
-    bx: number, bz: number,  // Line end
-    px: number, pz: number   // Point to test
-  ): number {
-    // 2D cross product: (B-A) × (P-A)
-    return (bx - ax) * (pz - az) - (bz - az) * (px - ax);
-  }
-
-  function hasLineOfSight(fromX: number, fromZ: number, toX: number, toZ: number, excludeUnit?: Unit): boolean {
-    // Line from center of fromTile to center of toTile
-    const ax = fromX + 0.5;
-    const az = fromZ + 0.5;
-    const bx = toX + 0.5;
-    const bz = toZ + 0.5;
-
-    // Track TERRAIN corner touches on each side of the line
-    // Only terrain blocks diagonals - units on corners don't block
-    let leftTerrainCorner = false;
-    let rightTerrainCorner = false;
-
-    // Get bounding box of tiles to check (expanded by 1 to catch edge cases)
-    const minTileX = Math.max(0, Math.min(fromX, toX) - 1);
-    const maxTileX = Math.min(GRID_SIZE - 1, Math.max(fromX, toX) + 1);
-    const minTileZ = Math.max(0, Math.min(fromZ, toZ) - 1);
-    const maxTileZ = Math.min(GRID_SIZE - 1, Math.max(fromZ, toZ) + 1);
-
-    // Check all potentially blocking tiles in the bounding box
-    for (let tileX = minTileX; tileX <= maxTileX; tileX++) {
-      for (let tileZ = minTileZ; tileZ <= maxTileZ; tileZ++) {
-        // Skip start and end tiles
-        if ((tileX === fromX && tileZ === fromZ) || (tileX === toX && tileZ === toZ)) {
-          continue;
-        }
-
-        const isTerrain = hasTerrain(tileX, tileZ);
-        const hasUnit = units.some(u => u.gridX === tileX && u.gridZ === tileZ && u.hp > 0 && u !== excludeUnit);
-
-        if (!isTerrain && !hasUnit) continue;
-
-        // Check intersection type
-        const intersection = lineRectIntersection(ax, az, bx, bz, tileX, tileZ);
-
-        if (intersection === "interior") {
-          return false;  // Blocked by interior intersection (terrain or unit)
-        }
-
-        if (intersection === "corner" && isTerrain) {
-          // Only terrain matters for corner blocking
-          const tileCenterX = tileX + 0.5;
-          const tileCenterZ = tileZ + 0.5;
-          const side = sideOfLine(ax, az, bx, bz, tileCenterX, tileCenterZ);
-
-          if (side > LOS_EPSILON) {
-            leftTerrainCorner = true;
-          } else if (side < -LOS_EPSILON) {
-            rightTerrainCorner = true;
-          }
-          // If side ≈ 0, terrain center is on the line (rare edge case, treat as blocking)
-          else {
-            return false;
-          }
-
-          // If terrain on both sides touches corners, LOS is blocked
-          if (leftTerrainCorner && rightTerrainCorner) {
-            return false;
-          }
-        }
-      }
-    }
-
-    return true;
+  // Targeting, movement and LOS come from /src/battle/rules.ts, evaluated
+  // against extractBattleState() so highlights match what the engine and AI see.
+
+  // Map rule results back to the scene's units
+  function toSceneUnits(states: UnitState[]): Unit[] {
+    return states
+      .map(s => findUnitById(s.id))
+      .filter((u): u is Unit => u !== undefined);
   }
 
-  function getTilesInLOS(fromX: number, fromZ: number, excludeAdjacent: boolean, excludeUnit?: Unit): { x: number; z: number }[] {
-    const result: { x: number; z: number }[] = [];
-
-    for (let x = 0; x < GRID_SIZE; x++) {
-      for (let z = 0; z < GRID_SIZE; z++) {
-        if (x === fromX && z === fromZ) continue;
-
-        // Skip terrain tiles (no unit can stand there)
-        if (hasTerrain(x, z)) continue;
-
-        // If excluding adjacent (for guns), skip all 8 adjacent tiles including diagonals
-        if (excludeAdjacent && isAdjacent(fromX, fromZ, x, z)) continue;
-
-        if (hasLineOfSight(fromX, fromZ, x, z, excludeUnit)) {
-          result.push({ x, z });
-        }
-      }
-    }
-
-    return result;
+  function getValidMoveTiles(unit: Unit, fromX?: number, fromZ?: number): { x: number; z: number }[] {
+    if (!hasActionsRemaining()) return []; // No actions remaining
+    return getRuleMoveTiles(extractBattleState(), extractUnitState(unit), fromX, fromZ);
   }
 
-  // ============================================
-  // WEAPON RANGE HELPERS
-  // ============================================
-
-  // Get all 8 adjacent tiles (including diagonals)
-  function getAdjacentTiles(x: number, z: number): { x: number; z: number }[] {
-    const adjacent: { x: number; z: number }[] = [];
-    const directions = [
-      { dx: 0, dz: 1 },   // North
-      { dx: 0, dz: -1 },  // South
-      { dx: 1, dz: 0 },   // East
-      { dx: -1, dz: 0 },  // West
-      { dx: 1, dz: 1 },   // NE
-      { dx: -1, dz: 1 },  // NW
-      { dx: 1, dz: -1 },  // SE
-      { dx: -1, dz: -1 }, // SW
-    ];
-
-    for (const dir of directions) {
-      const nx = x + dir.dx;
-      const nz = z + dir.dz;
-      // Check bounds and exclude terrain tiles
-      if (nx >= 0 && nx < GRID_SIZE && nz >= 0 && nz < GRID_SIZE && !hasTerrain(nx, nz)) {
-        adjacent.push({ x: nx, z: nz });
-      }
-    }
-
-    return adjacent;
+  function getValidAttackTiles(unit: Unit, fromX?: number, fromZ?: number): { x: number; z: number; hasLOS: boolean }[] {
+    return getRuleAttackTiles(extractBattleState(), extractUnitState(unit), fromX, fromZ);
   }
 
-  // Check if a tile is adjacent (including diagonals)
-  function isAdjacent(x1: number, z1: number, x2: number, z2: number): boolean {
-    const dx = Math.abs(x2 - x1);
-    const dz = Math.abs(z2 - z1);
-    return dx <= 1 && dz <= 1 && !(dx === 0 && dz === 0);
+  // Get attackable enemies with LOS check
+  function getAttackableEnemiesWithLOS(unit: Unit, fromX?: number, fromZ?: number): Unit[] {
+    if (!hasActionsRemaining()) return [];
+    return toSceneUnits(getRuleAttackableEnemies(extractBattleState(), extractUnitState(unit), fromX, fromZ));
   }
 
-  function getValidAttackTiles(unit: Unit, fromX?: number, fromZ?: number): { x: number; z: number; hasLOS: boolean }[] {
-    const x = fromX ?? unit.gridX;
-    const z = fromZ ?? unit.gridZ;
-    const isMelee = unit.customization?.combatStyle === "melee";
-
-    if (isMelee) {
-      // Sword: all 8 adjacent tiles, with LOS check for diagonals
-      return getAdjacentTiles(x, z).map(tile => {
-        const isDiagonal = tile.x !== x && tile.z !== z;
-        // Diagonals need LOS check, ordinals always have LOS
-        const hasLOS = isDiagonal ? hasLineOfSight(x, z, tile.x, tile.z, unit) : true;
-        return { ...tile, hasLOS };
-      });
-    } else {
-      // Gun: LOS but not adjacent (all 8 surrounding tiles excluded)
-      const losResult: { x: number; z: number; hasLOS: boolean }[] = [];
+  function getAttackableBarricades(unit: Unit, fromX?: number, fromZ?: number): BarricadeState[] {
+    if (!hasActionsRemaining()) return [];
+    return getRuleAttackableBarricades(extractBattleState(), extractUnitState(unit), fromX, fromZ);
+  }
 
-      for (let tx = 0; tx < GRID_SIZE; tx++) {
-        for (let tz = 0; tz < GRID_SIZE; tz++) {
-          if (tx === x && tz === z) continue;
+  // Empty cardinal tiles to build on, while the builder is under its barricade limit
+  function getBuildableTiles(unit: Unit, fromX?: number, fromZ?: number): { x: number; z: number }[] {
+    if (!hasActionsRemaining()) return [];
+    return getHighlightedBuildTiles(extractBattleState(), extractUnitState(unit), fromX, fromZ);
+  }
 
-          // Skip all 8 adjacent tiles
-          if (isAdjacent(x, z, tx, tz)) continue;
+  function getHealableAllies(unit: Unit, fromX?: number, fromZ?: number): Unit[] {
+    // Only medic can heal, needs actions remaining
+    if (unit.healAmount <= 0 || !hasActionsRemaining()) return [];
 
-          // Exclude the shooter from blocking their own LOS
-          const hasLOS = hasLineOfSight(x, z, tx, tz, unit);
-          losResult.push({ x: tx, z: tz, hasLOS });
-        }
-      }
+    // Use shadow position if pending move, otherwise use provided or current position
+    const effectiveX = fromX ?? shadowPosition?.x ?? unit.gridX;
+    const effectiveZ = fromZ ?? shadowPosition?.z ?? unit.gridZ;
 
-      return losResult;
-    }
+    return toSceneUnits(getHighlightedHealTargets(
+      extractBattleState(),
+      extractUnitState(unit),
+      effectiveX,
+      effectiveZ,
+      shadowPosition !== null
+    ));
   }
 
   // LOS-blocked material (gray for blocked targets)
@@ -1065,7 +985,7 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
   blockedMaterial.diffuseColor = rgbToColor3(HIGHLIGHT_BLOCKED);
 
   // Export references for future use (prevents unused warnings)
-  const _helpers = { getTilesInLOS, getValidAttackTiles, createShadowPreview, clearShadowPreview, shadowPosition: () => shadowPosition, highlightAttackTargets, getAttackableEnemiesWithLOS, showAttackPreview, clearAttackPreview, highlightHealTargets, toggleConceal, toggleCover, clearCoverVisualization };
+  const _helpers = { getValidAttackTiles, createShadowPreview, clearShadowPreview, shadowPosition: () => shadowPosition, highlightAttackTargets, getAttackableEnemiesWithLOS, showAttackPreview, clearAttackPreview, highlightHealTargets, clearCoverVisualization };
   void _helpers;
 
   // ============================================
@@ -1074,30 +994,24 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
 
   let isAnimatingMovement = false;
 
-  function animateMovement(unit: Unit, targetX: number, targetZ: number, onComplete?: () => void): void {
-    if (!unit.modelRoot) {
-      moveUnit(unit, targetX, targetZ, gridOffset);
+  // Animate a unit along the path resolved by the engine
+  function animateMovement(unit: Unit, path: { x: number; z: number }[], onComplete?: () => void): void {
+    const destination = path[path.length - 1];
+    if (!destination) {
       onComplete?.();
       return;
     }
 
-    // Get the actual path to follow (avoiding terrain)
-    const path = getPathToTarget(unit, unit.gridX, unit.gridZ, targetX, targetZ);
-
-    // Update logical position immediately
-    unit.gridX = targetX;
-    unit.gridZ = targetZ;
-
-    // Recalculate cover tiles for all covering units (LOS may have changed)
-    recalculateAllCoverTiles();
-
-    // If path is just start and end (adjacent move), do simple animation
-    if (path.length <= 2) {
-      animateAlongPath(unit, path, onComplete);
+    if (!unit.modelRoot) {
+      moveUnit(unit, destination.x, destination.z, gridOffset, getTileElevation(destination.x, destination.z));
+      onComplete?.();
       return;
     }
 
-    // Animate along the path waypoints
+    // Update logical position immediately
+    unit.gridX = destination.x;
+    unit.gridZ = destination.z;
+
     animateAlongPath(unit, path, onComplete);
   }
 
@@ -1126,20 +1040,24 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
       const fromWaypoint = path[currentWaypointIndex];
       const toWaypoint = path[currentWaypointIndex + 1];
 
-      const fromWorldX = fromWaypoint.x * TILE_SIZE - gridOffset;
-      const fromWorldZ = fromWaypoint.z * TILE_SIZE - gridOffset;
-      const toWorldX = toWaypoint.x * TILE_SIZE - gridOffset;
-      const toWorldZ = toWaypoint.z * TILE_SIZE - gridOffset;
+      const fromWorldX = fromWaypoint.x * TILE_SIZE - gridOffset.x;
+      const fromWorldZ = fromWaypoint.z * TILE_SIZE - gridOffset.z;
+      const toWorldX = toWaypoint.x * TILE_SIZE - gridOffset.x;
+      const toWorldZ = toWaypoint.z * TILE_SIZE - gridOffset.z;
 
       const t = Math.min(segmentElapsed / durationPerTile, 1);
       const easeT = t; // Linear for smooth path following
 
       const currentX = fromWorldX + (toWorldX - fromWorldX) * easeT;
       const currentZ = fromWorldZ + (toWorldZ - fromWorldZ) * easeT;
+      const fromElevation = getTileElevation(fromWaypoint.x, fromWaypoint.z);
+      const currentElevation = fromElevation + (getTileElevation(toWaypoint.x, toWaypoint.z) - fromElevation) * easeT;
 
       unit.modelRoot!.position.x = currentX;
+      unit.modelRoot!.position.y = BATTLE_MODEL_Y_POSITION + currentElevation;
       unit.modelRoot!.position.z = currentZ;
       unit.mesh.position.x = currentX;
+      unit.mesh.position.y = HP_BAR_ANCHOR_HEIGHT + currentElevation;
       unit.mesh.position.z = currentZ;
 
       // Move to next waypoint
@@ -1161,11 +1079,14 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
 
           // Snap to final position
           const finalWaypoint = path[path.length - 1];
-          const finalX = finalWaypoint.x * TILE_SIZE - gridOffset;
-          const finalZ = finalWaypoint.z * TILE_SIZE - gridOffset;
+          const finalX = finalWaypoint.x * TILE_SIZE - gridOffset.x;
+          const finalZ = finalWaypoint.z * TILE_SIZE - gridOffset.z;
+          const finalElevation = getTileElevation(finalWaypoint.x, finalWaypoint.z);
           unit.modelRoot!.position.x = finalX;
+          unit.modelRoot!.position.y = BATTLE_MODEL_Y_POSITION + finalElevation;
           unit.modelRoot!.position.z = finalZ;
           unit.mesh.position.x = finalX;
+          unit.mesh.position.y = HP_BAR_ANCHOR_HEIGHT + finalElevation;
           unit.mesh.position.z = finalZ;
 
           playIdleAnimation(unit);
@@ -1196,9 +1117,9 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
     shadowBaseMat.alpha = SHADOW_BASE_ALPHA;
     shadowBaseMesh.material = shadowBaseMat;
     shadowBaseMesh.position = new Vector3(
-      targetX * TILE_SIZE - gridOffset,
-      0.1,
-      targetZ * TILE_SIZE - gridOffset
+      targetX * TILE_SIZE - gridOffset.x,
+      getTileElevation(targetX, targetZ) + 0.1,
+      targetZ * TILE_SIZE - gridOffset.z
     );
     shadowBaseMesh.isPickable = false; // Allow clicks to pass through
 
@@ -1213,9 +1134,9 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
     shadowMat.alpha = SHADOW_UNIT_ALPHA;
     shadowMesh.material = shadowMat;
     shadowMesh.position = new Vector3(
-      targetX * TILE_SIZE - gridOffset,
-      0.6,
-      targetZ * TILE_SIZE - gridOffset
+      targetX * TILE_SIZE - gridOffset.x,
+      getTileElevation(targetX, targetZ) + 0.6,
+      targetZ * TILE_SIZE - gridOffset.z
     );
     shadowMesh.isPickable = false; // Allow clicks to pass through
   }
@@ -1251,9 +1172,9 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
     indicatorMat.alpha = INTENT_INDICATOR_ALPHA;
     indicator.material = indicatorMat;
     indicator.position = new Vector3(
-      targetX * TILE_SIZE - gridOffset,
-      0.12 + (stackIndex * 0.08),  // Stack vertically for multiple indicators
-      targetZ * TILE_SIZE - gridOffset
+      targetX * TILE_SIZE - gridOffset.x,
+      getTileElevation(targetX, targetZ) + 0.12 + (stackIndex * 0.08),  // Stack vertically for multiple indicators
+      targetZ * TILE_SIZE - gridOffset.z
     );
     indicator.isPickable = false;  // Don't block clicks
     return indicator;
@@ -1294,6 +1215,26 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
           stackIndex
         );
         intentIndicators.push(indicator);
+      } else if (action.type === "attack" && action.targetX !== undefined && action.targetZ !== undefined) {
+        // Barricade attack indicator
+        const stackIndex = getStackIndex(action.targetX, action.targetZ);
+        const indicator = createIntentIndicator(
+          action.targetX,
+          action.targetZ,
+          rgbToColor3(INTENT_COLOR_ATTACK),
+          stackIndex
+        );
+        intentIndicators.push(indicator);
+      } else if (action.type === "ability" && action.abilityName === "barricade" && action.targetX !== undefined && action.targetZ !== undefined) {
+        // Planned barricade indicator
+        const stackIndex = getStackIndex(action.targetX, action.targetZ);
+        const indicator = createIntentIndicator(
+          action.targetX,
+          action.targetZ,
+          rgbToColor3(BARRICADE_COLOR),
+          stackIndex
+        );
+        intentIndicators.push(indicator);
       } else if (action.type === "ability" && action.abilityName === "heal" && action.targetUnit) {
         // Heal indicator - using centralized color
         const stackIndex = getStackIndex(action.targetUnit.gridX, action.targetUnit.gridZ);
@@ -1304,7 +1245,7 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
           stackIndex
         );
         intentIndicators.push(indicator);
-      } else if (action.type === "ability" && (action.abilityName === "conceal" || action.abilityName === "cover") && action.targetUnit) {
+      } else if (action.type === "ability" && (action.abilityName === "conceal" || action.abilityName === "cover" || action.abilityName === "aim") && action.targetUnit) {
         // Self-buff indicator - using centralized color
         const stackIndex = getStackIndex(action.targetUnit.gridX, action.targetUnit.gridZ);
         const indicator = createIntentIndicator(
@@ -1318,15 +1259,6 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
     }
   }
 
-  // Starting positions for each team - using centralized constants
-  const player1Positions = [...PLAYER1_SPAWN_POSITIONS];
-  const player2Positions = [...PLAYER2_SPAWN_POSITIONS];
-
-  // Use loadout if provided, otherwise default setup
-  const defaultUnits: UnitSelection[] = [{ unitClass: "soldier" }, { unitClass: "operator" }, { unitClass: "medic" }];
-  const player1Selections = loadout?.player1 ?? defaultUnits;
-  const player2Selections = loadout?.player2 ?? defaultUnits;
-
   // Get team colors from loadout or use centralized defaults
   const player1TeamColor = loadout?.player1TeamColor
     ? hexToColor3(loadout.player1TeamColor)
@@ -1353,8 +1285,10 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
         i,
         player1TeamColor,
         selection.customization,
-        selection.boost
+        selection.boost,
+        selection.equipment
       );
+      moveUnit(unit, pos.x, pos.z, gridOffset, getTileElevation(pos.x, pos.z));
       units.push(unit);
     }
 
@@ -1374,8 +1308,10 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
         i,
         player2TeamColor,
         selection.customization,
-        selection.boost
+        selection.boost,
+        selection.equipment
       );
+      moveUnit(unit, pos.x, pos.z, gridOffset, getTileElevation(pos.x, pos.z));
       units.push(unit);
     }
 
@@ -1407,23 +1343,18 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
   let highlightedTiles: Mesh[] = [];
   let attackableUnits: Unit[] = [];
   let healableUnits: Unit[] = [];
+  let attackableBarricades: BarricadeState[] = [];
+  let buildableTiles: { x: number; z: number }[] = [];
   let gameOver = false;
 
-  // Initiative system - ACCUMULATOR_THRESHOLD imported from config
+  // Unit whose turn is currently shown (initiative itself is tracked by the engine)
   let currentUnit: Unit | null = null;
-  let lastActingTeam: Team | null = null;
-  let isFirstRound = true;
-  let firstRoundQueue: Unit[] = [];
 
   // Active unit corner indicators
   let cornerMeshes: Mesh[] = [];
   let cornerMaterial: StandardMaterial | null = null;
   let pulseTime = 0;
 
-  function getEffectiveSpeed(unit: Unit): number {
-    return unit.speed + unit.speedBonus;
-  }
-
   function createCornerIndicators(unit: Unit): void {
     clearCornerIndicators();
 
@@ -1447,8 +1378,9 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
       { x: -tileHalf, z: tileHalf, armDirX: 1, armDirZ: -1 },   // Top-left: arms go +X, -Z
     ];
 
-    const baseX = unit.gridX * TILE_SIZE - gridOffset;
-    const baseZ = unit.gridZ * TILE_SIZE - gridOffset;
+    const baseX = unit.gridX * TILE_SIZE - gridOffset.x;
+    const baseZ = unit.gridZ * TILE_SIZE - gridOffset.z;
+    const baseY = getTileElevation(unit.gridX, unit.gridZ);
 
     for (const corner of corners) {
       // Horizontal arm (along X)
@@ -1460,7 +1392,7 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
       armX.material = cornerMaterial;
       armX.position = new Vector3(
         baseX + corner.x + (corner.armDirX * cornerLength / 2),
-        0.06,
+        baseY + 0.06,
         baseZ + corner.z + (corner.armDirZ * cornerWidth / 2)
       );
       cornerMeshes.push(armX);
@@ -1474,7 +1406,7 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
       armZ.material = cornerMaterial;
       armZ.position = new Vector3(
         baseX + corner.x + (corner.armDirX * cornerWidth / 2),
-        0.06,
+        baseY + 0.06,
         baseZ + corner.z + (corner.armDirZ * cornerLength / 2)
       );
       cornerMeshes.push(armZ);
@@ -1512,80 +1444,21 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
     }
   });
 
-  function buildFirstRoundQueue(): void {
-    // Alternate teams: P1, P2, P1, P2, P1, P2
-    // Within team, use loadout order
-    const player1Units = units.filter(u => u.team === "player1").sort((a, b) => a.loadoutIndex - b.loadoutIndex);
-    const player2Units = units.filter(u => u.team === "player2").sort((a, b) => a.loadoutIndex - b.loadoutIndex);
-
-    firstRoundQueue = [];
-    const maxLen = Math.max(player1Units.length, player2Units.length);
-    for (let i = 0; i < maxLen; i++) {
-      if (player1Units[i]) firstRoundQueue.push(player1Units[i]);
-      if (player2Units[i]) firstRoundQueue.push(player2Units[i]);
-    }
-  }
-
-  function getNextUnitByAccumulator(): Unit | null {
-    // Add speed to all accumulators until someone hits threshold
-    let readyUnits: Unit[] = [];
-
-    // Keep ticking until at least one unit is ready
-    while (readyUnits.length === 0 && units.length > 0) {
-      for (const unit of units) {
-        unit.accumulator += getEffectiveSpeed(unit);
-        if (unit.accumulator >= ACCUMULATOR_THRESHOLD) {
-          readyUnits.push(unit);
-        }
-      }
-    }
-
-    if (readyUnits.length === 0) return null;
-
-    // Sort ready units by tie-breakers
-    readyUnits.sort((a, b) => {
-      // Primary: team that didn't just go
-      if (lastActingTeam !== null) {
-        if (a.team !== lastActingTeam && b.team === lastActingTeam) return -1;
-        if (b.team !== lastActingTeam && a.team === lastActingTeam) return 1;
-      }
-      // Secondary: loadout index
-      return a.loadoutIndex - b.loadoutIndex;
-    });
-
-    return readyUnits[0];
-  }
-
-  function getNextUnit(): Unit | null {
-    if (isFirstRound && firstRoundQueue.length > 0) {
-      return firstRoundQueue.shift() ?? null;
-    }
-
-    // After first round, use accumulator system
-    if (isFirstRound) {
-      isFirstRound = false;
-      // Reset all accumulators for the new system
-      for (const unit of units) {
-        unit.accumulator = 0;
-      }
+  // Copy initiative values from the engine so turn order displays stay accurate
+  function syncInitiative(battle: BattleEngine): void {
+    for (const state of battle.getState().units) {
+      const unit = findUnitById(state.id);
+      if (!unit) continue;
+      unit.accumulator = state.accumulator;
+      unit.speedBonus = state.speedBonus;
     }
-
-    return getNextUnitByAccumulator();
   }
 
-  function startUnitTurn(unit: Unit): void {
+  function startUnitTurn(battle: BattleEngine, unit: Unit): void {
     currentUnit = unit;
     unit.hasMoved = false;
     unit.hasAttacked = false;
-
-    // Cancel Cover at the start of this unit's turn
-    if (unit.isCovering) {
-      console.log(`${unit.team} ${unit.unitClass}'s Cover ends at start of turn.`);
-      endCover(unit);
-    }
-
-    // Reset accumulator after acting
-    unit.accumulator = 0;
+    syncInitiative(battle);
 
     // Reset all unit appearances
     for (const u of units) {
@@ -1599,9 +1472,6 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
     // Create pulsing corner indicators for active unit
     createCornerIndicators(unit);
 
-    // Clear command queue for new turn
-    commandQueue.clear();
-
     // Initialize turn state for preview/undo system (using centralized constant)
     turnState = {
       unit,
@@ -1621,17 +1491,16 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
 
     // Notify controller that turn has started
     // This allows AI/network controllers to take over
-    const context = createControllerContext(unit);
+    const context = createControllerContext(battle, unit);
     controllerManager.notifyTurnStart(unit.team, context);
   }
 
-  function endCurrentUnitTurn(): void {
+  function endCurrentUnitTurn(speedBonus: number): void {
     const unit = currentUnit;
     if (!unit) return;
 
-    // Calculate speed bonus based on unused actions (using centralized constant)
-    const unusedActions = turnState?.actionsRemaining ?? 0;
-    unit.speedBonus = unusedActions * SPEED_BONUS_PER_UNUSED_ACTION;
+    // Speed bonus earned from unused actions (computed by the engine)
+    unit.speedBonus = speedBonus;
 
     // Clear turn state
     turnState = null;
@@ -1649,28 +1518,106 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
     // Notify controller that turn ended
     controllerManager.notifyTurnEnd(unit.team);
 
-    lastActingTeam = unit.team;
     selectedUnit = null;
     currentUnit = null;
     clearHighlights();
+  }
+
+  function startGame(): void {
+    const battle = new BattleEngine(extractBattleState());
+    battleEngine = battle;
+    if (!replay && loadout) {
+      replayRecorder = new ReplayRecorder({
+        seed: battleSeed,
+        width: gridWidth,
+        height: gridHeight,
+        holes: gridHoles,
+        terrain: terrainTiles,
+        heights: tileHeights,
+        loadout: { ...loadout, seed: battleSeed, map: battleMap ?? undefined },
+      });
+      replayRecorder.attach(battle);
+    }
 
-    const nextUnit = getNextUnit();
-    if (nextUnit) {
-      startUnitTurn(nextUnit);
-      nextUnit.speedBonus = 0;
+    // Rejoining an online match: silently fast-forward through the turns
+    // already played, then jump the scene to the result
+    const resumeTurns = online?.takeResumeTurns() ?? null;
+    if (resumeTurns) {
+      battle.start();
+      applyReplayTurns(battle, resumeTurns);
+      syncUnitsToState(battle.getState());
+    }
+
+    battle.subscribe(onBattleEvent);
+    if (online && networkController) {
+      detachOnline = online.attach(battle, networkController, showDesyncBanner);
+    }
+    if (resumeTurns) {
+      resumeCurrentTurn(battle);
+    } else {
+      battle.start();
     }
   }
 
-  function startGame(): void {
-    buildFirstRoundQueue();
-    const firstUnit = getNextUnit();
-    if (firstUnit) {
-      startUnitTurn(firstUnit);
-      firstUnit.speedBonus = 0; // Clear any initial bonus
+  // Place units, HP, status effects and barricades as the engine has them (no animation)
+  function syncUnitsToState(state: BattleState): void {
+    for (const barricade of [...barricades.values()]) {
+      removeSceneBarricade(barricade.state.x, barricade.state.z);
+    }
+    for (const barricade of state.barricades) {
+      addSceneBarricade(barricade);
+    }
+
+    for (const unit of [...units]) {
+      const unitState = state.units.find(u => u.id === unit.id);
+      if (!unitState || unitState.hp <= 0) {
+        const index = units.indexOf(unit);
+        if (index > -1) units.splice(index, 1);
+        disposeUnit(unit);
+        continue;
+      }
+
+      if (unit.gridX !== unitState.gridX || unit.gridZ !== unitState.gridZ) {
+        moveUnit(unit, unitState.gridX, unitState.gridZ, gridOffset, getTileElevation(unitState.gridX, unitState.gridZ));
+      }
+      unit.hp = unitState.hp;
+      updateHpBar(unit);
+
+      unit.statusEffects = unitState.statusEffects.map(e => ({ ...e }));
+      if (hasStatus(unit, "conceal")) applyConcealVisual(unit);
+      if (hasStatus(unit, "cover")) showCoverTiles(unit, unitState.coveredTiles.map(fromGridKey));
+    }
+    for (const unit of units) {
+      faceClosestEnemy(unit);
+    }
+  }
+
+  // Pick the match up at the current unit's turn, restoring this player's queue
+  function resumeCurrentTurn(battle: BattleEngine): void {
+    if (battle.isGameOver()) {
+      renderGameOver(battle.getState().winner);
+      return;
+    }
+
+    const unitState = battle.getCurrentUnit();
+    const unit = unitState && findUnitById(unitState.id);
+    if (!unit) return;
+    startUnitTurn(battle, unit);
+
+    const restored = online?.takeRestoredQueue() ?? [];
+    if (unit.team !== online?.team || restored.length === 0) return;
+    const context = createControllerContext(battle, unit);
+    for (const command of restored) {
+      if (!context.issueCommand(command)) {
+        console.warn("Could not restore queued command:", command);
+      }
     }
   }
 
   function getDefaultTileMaterial(x: number, z: number): StandardMaterial {
+    const terrain = terrainTiles.get(`${x},${z}`);
+    const terrainMaterial = terrain ? groundTerrainMaterials[terrain] : undefined;
+    if (terrainMaterial) return terrainMaterial;
     return (x + z) % 2 === 0 ? tileMaterialLight : tileMaterialDark;
   }
 
@@ -1682,6 +1629,8 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
     highlightedTiles = [];
     attackableUnits = [];
     healableUnits = [];
+    attackableBarricades = [];
+    buildableTiles = [];
 
     // Always keep the active unit's tile highlighted yellow
     highlightActiveUnitTile();
@@ -1708,187 +1657,6 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
     return turnState !== null && turnState.actionsRemaining > 0;
   }
 
-  function consumeAction(): void {
-    if (turnState) {
-      turnState.actionsRemaining--;
-      updateCommandMenu();
-
-      // Auto-end turn when no actions remaining
-      if (turnState.actionsRemaining <= 0) {
-        setTimeout(() => endTurn(), 100);  // Small delay for visual feedback
-      }
-    }
-  }
-
-  function getValidMoveTiles(unit: Unit, fromX?: number, fromZ?: number): { x: number; z: number }[] {
-    if (!hasActionsRemaining()) return []; // No actions remaining
-    const startX = fromX ?? unit.gridX;
-    const startZ = fromZ ?? unit.gridZ;
-
-    // BFS pathfinding - find all tiles reachable within move range
-    // Cannot pass through enemy units, but can pass through friendly units
-    const visited = new Set<string>();
-    const reachable: { x: number; z: number }[] = [];
-
-    // Queue: [x, z, distance]
-    const queue: [number, number, number][] = [[startX, startZ, 0]];
-    visited.add(`${startX},${startZ}`);
-
-    while (queue.length > 0) {
-      const [cx, cz, dist] = queue.shift()!;
-
-      // If within move range and not the starting tile, it's a valid destination
-      if (dist > 0 && dist <= unit.moveRange) {
-        // Check if target tile is unoccupied (can't end on another unit or terrain)
-        const occupied = units.some(u => u.gridX === cx && u.gridZ === cz);
-        if (!occupied && !hasTerrain(cx, cz)) {
-          reachable.push({ x: cx, z: cz });
-        }
-      }
-
-      // Stop expanding if at max range
-      if (dist >= unit.moveRange) continue;
-
-      // Check all 4 cardinal directions (manhattan movement)
-      const directions = [[0, 1], [0, -1], [1, 0], [-1, 0]];
-      for (const [dx, dz] of directions) {
-        const nx = cx + dx;
-        const nz = cz + dz;
-        const key = `${nx},${nz}`;
-
-        // Skip if out of bounds or already visited
-        if (nx < 0 || nx >= GRID_SIZE || nz < 0 || nz >= GRID_SIZE) continue;
-        if (visited.has(key)) continue;
-
-        // Check if tile is blocked by terrain (can't pass through)
-        if (hasTerrain(nx, nz)) {
-          visited.add(key);
-          continue;
-        }
-
-        // Check if tile is blocked by enemy unit (can't pass through)
-        const enemyBlocking = units.some(u => u.gridX === nx && u.gridZ === nz && u.team !== unit.team);
-        if (enemyBlocking) {
-          visited.add(key); // Mark as visited so we don't check again
-          continue;
-        }
-
-        visited.add(key);
-        queue.push([nx, nz, dist + 1]);
-      }
-    }
-
-    return reachable;
-  }
-
-  // Compute the actual path from start to target using BFS
-  function getPathToTarget(unit: Unit, fromX: number, fromZ: number, toX: number, toZ: number): { x: number; z: number }[] {
-    // BFS to find shortest path
-    const visited = new Set<string>();
-    const parent = new Map<string, string | null>();
-
-    const queue: [number, number][] = [[fromX, fromZ]];
-    const startKey = `${fromX},${fromZ}`;
-    visited.add(startKey);
-    parent.set(startKey, null);
-
-    while (queue.length > 0) {
-      const [cx, cz] = queue.shift()!;
-      const currentKey = `${cx},${cz}`;
-
-      // Found target
-      if (cx === toX && cz === toZ) {
-        // Reconstruct path
-        const path: { x: number; z: number }[] = [];
-        let key: string | null = currentKey;
-        while (key) {
-          const [x, z] = key.split(",").map(Number);
-          path.unshift({ x, z });
-          key = parent.get(key) || null;
-        }
-        return path;
-      }
-
-      // Check cardinal directions
-      const directions = [[0, 1], [0, -1], [1, 0], [-1, 0]];
-      for (const [dx, dz] of directions) {
-        const nx = cx + dx;
-        const nz = cz + dz;
-        const key = `${nx},${nz}`;
-
-        if (nx < 0 || nx >= GRID_SIZE || nz < 0 || nz >= GRID_SIZE) continue;
-        if (visited.has(key)) continue;
-
-        // Check terrain blocking
-        if (hasTerrain(nx, nz)) continue;
-
-        // Check enemy blocking
-        const enemyBlocking = units.some(u => u.gridX === nx && u.gridZ === nz && u.team !== unit.team && u.hp > 0);
-        if (enemyBlocking) continue;
-
-        visited.add(key);
-        parent.set(key, currentKey);
-        queue.push([nx, nz]);
-      }
-    }
-
-    // No path found, return direct path (shouldn't happen if target is valid)
-    return [{ x: fromX, z: fromZ }, { x: toX, z: toZ }];
-  }
-
-  // Legacy function - kept for potential AI/simulation use (simpler than LOS version)
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  function getAttackableEnemiesSimple(unit: Unit, fromX?: number, fromZ?: number): Unit[] {
-    if (!hasActionsRemaining()) return []; // No actions remaining
-    // Use shadow position if pending move, otherwise use provided or current position
-    const effectiveX = fromX ?? shadowPosition?.x ?? unit.gridX;
-    const effectiveZ = fromZ ?? shadowPosition?.z ?? unit.gridZ;
-    return units.filter(u => {
-      if (u.team === unit.team) return false;
-      const distance = Math.abs(u.gridX - effectiveX) + Math.abs(u.gridZ - effectiveZ);
-      return distance <= unit.attackRange;
-    });
-  }
-  // Export for future AI/simulation use
-  void getAttackableEnemiesSimple;
-
-  function getHealableAllies(unit: Unit, fromX?: number, fromZ?: number): Unit[] {
-    // Only medic can heal, needs actions remaining
-    // Heal works on self or all 8 adjacent tiles with LOS (diagonals require LOS check)
-    if (unit.healAmount <= 0 || !hasActionsRemaining()) return [];
-
-    // Use shadow position if pending move, otherwise use provided or current position
-    const hasPendingMove = shadowPosition !== null;
-    const effectiveX = fromX ?? shadowPosition?.x ?? unit.gridX;
-    const effectiveZ = fromZ ?? shadowPosition?.z ?? unit.gridZ;
-
-    return units.filter(u => {
-      if (u.team !== unit.team) return false; // Must be same team
-      if (u.hp >= u.maxHp) return false; // Already at full health
-
-      // For the healer themselves with a pending move:
-      // They can self-heal but only by clicking the shadow position (distance 0 from effective)
-      if (u === unit && hasPendingMove) {
-        return true;
-      }
-
-      // Self-heal (distance 0) is always allowed
-      if (u.gridX === effectiveX && u.gridZ === effectiveZ) {
-        return true;
-      }
-
-      // Check if ally is adjacent (including diagonals)
-      if (!isAdjacent(effectiveX, effectiveZ, u.gridX, u.gridZ)) {
-        return false;
-      }
-
-      // Diagonals require LOS check, ordinals always have LOS
-      const isDiagonal = u.gridX !== effectiveX && u.gridZ !== effectiveZ;
-      const hasLOS = isDiagonal ? hasLineOfSight(effectiveX, effectiveZ, u.gridX, u.gridZ, unit) : true;
-      return hasLOS;
-    });
-  }
-
   function highlightValidActions(unit: Unit): void {
     clearHighlights();
 
@@ -1950,30 +1718,20 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
       }
     }
 
+    // Barricades in reach
+    attackableBarricades = getAttackableBarricades(unit, x, z);
+    for (const barricade of attackableBarricades) {
+      const tile = tiles[barricade.x][barricade.z];
+      tile.material = attackableMaterial;
+      highlightedTiles.push(tile);
+    }
+
     // Highlight current position (or shadow position)
     const positionTile = tiles[x][z];
     positionTile.material = selectedMaterial;
     highlightedTiles.push(positionTile);
   }
 
-  // Get attackable enemies with LOS check
-  function getAttackableEnemiesWithLOS(unit: Unit, fromX?: number, fromZ?: number): Unit[] {
-    if (!hasActionsRemaining()) return [];
-
-    const x = fromX ?? unit.gridX;
-    const z = fromZ ?? unit.gridZ;
-
-    const attackTiles = getValidAttackTiles(unit, x, z);
-
-    return units.filter(player2 => {
-      if (player2.team === unit.team) return false;
-      if (player2.hp <= 0) return false;
-
-      const tileInfo = attackTiles.find(t => t.x === player2.gridX && t.z === player2.gridZ);
-      return tileInfo?.hasLOS ?? false;
-    });
-  }
-
   // ============================================
   // ABILITY FUNCTIONS
   // ============================================
@@ -1987,53 +1745,40 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
     if (!hasActionsRemaining() || unit.healAmount <= 0) return;
 
     // Use shadow position if pending move, otherwise current position
-    const hasPendingMove = shadowPosition !== null;
     const effectiveX = fromX ?? shadowPosition?.x ?? unit.gridX;
     const effectiveZ = fromZ ?? shadowPosition?.z ?? unit.gridZ;
 
     // Can heal self or adjacent allies (all 8 directions with LOS)
-    for (const ally of units) {
-      if (ally.team !== unit.team) continue;
-      if (ally.hp >= ally.maxHp) continue;  // Already at full health
-
-      // For the healer themselves with a pending move:
-      // They can self-heal by clicking the shadow position, not their original position
-      if (ally === unit && hasPendingMove) {
-        // Highlight the shadow position for self-heal (effective position)
-        const tile = tiles[effectiveX][effectiveZ];
-        tile.material = healableMaterial;
-        highlightedTiles.push(tile);
-        healableUnits.push(ally);
-        continue;
-      }
+    for (const ally of getHealableAllies(unit, effectiveX, effectiveZ)) {
+      // The healer's own target tile is wherever it will be standing
+      const tile = ally === unit ? tiles[effectiveX][effectiveZ] : tiles[ally.gridX][ally.gridZ];
+      tile.material = healableMaterial;
+      highlightedTiles.push(tile);
+      healableUnits.push(ally);
+    }
 
-      // Self-heal (distance 0) is always allowed
-      if (ally.gridX === effectiveX && ally.gridZ === effectiveZ) {
-        const tile = tiles[ally.gridX][ally.gridZ];
-        tile.material = healableMaterial;
-        highlightedTiles.push(tile);
-        healableUnits.push(ally);
-        continue;
-      }
+    // Highlight effective position if not already highlighted
+    const currentTile = tiles[effectiveX][effectiveZ];
+    if (!highlightedTiles.includes(currentTile)) {
+      currentTile.material = selectedMaterial;
+      highlightedTiles.push(currentTile);
+    }
+  }
 
-      // Check if ally is adjacent (including diagonals)
-      if (!isAdjacent(effectiveX, effectiveZ, ally.gridX, ally.gridZ)) {
-        continue;
-      }
+  // Highlight tiles the Engineer can build a barricade on
+  function highlightBarricadeTiles(unit: Unit, fromX?: number, fromZ?: number): void {
+    clearHighlights();
 
-      // Diagonals require LOS check, ordinals always have LOS
-      const isDiagonal = ally.gridX !== effectiveX && ally.gridZ !== effectiveZ;
-      const hasLOS = isDiagonal ? hasLineOfSight(effectiveX, effectiveZ, ally.gridX, ally.gridZ, unit) : true;
+    const effectiveX = fromX ?? shadowPosition?.x ?? unit.gridX;
+    const effectiveZ = fromZ ?? shadowPosition?.z ?? unit.gridZ;
 
-      if (hasLOS) {
-        const tile = tiles[ally.gridX][ally.gridZ];
-        tile.material = healableMaterial;
-        highlightedTiles.push(tile);
-        healableUnits.push(ally);
-      }
+    buildableTiles = getBuildableTiles(unit, effectiveX, effectiveZ);
+    for (const { x, z } of buildableTiles) {
+      const tile = tiles[x][z];
+      tile.material = buildableMaterial;
+      highlightedTiles.push(tile);
     }
 
-    // Highlight effective position if not already highlighted
     const currentTile = tiles[effectiveX][effectiveZ];
     if (!highlightedTiles.includes(currentTile)) {
       currentTile.material = selectedMaterial;
@@ -2071,33 +1816,36 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
     }
 
     // 2. Highlight attackable enemies (red)
-    const attackTiles = getValidAttackTiles(unit, effectiveX, effectiveZ);
-
-    for (const enemy of units) {
-      if (enemy.team === unit.team) continue;
-      if (enemy.hp <= 0) continue;
+    for (const enemy of getAttackableEnemiesWithLOS(unit, effectiveX, effectiveZ)) {
+      const tile = tiles[enemy.gridX][enemy.gridZ];
+      tile.material = attackableMaterial;
+      highlightedTiles.push(tile);
+      attackableUnits.push(enemy);
+    }
 
-      const tileInfo = attackTiles.find(t => t.x === enemy.gridX && t.z === enemy.gridZ);
-      if (tileInfo?.hasLOS) {
-        const tile = tiles[enemy.gridX][enemy.gridZ];
-        tile.material = attackableMaterial;
-        highlightedTiles.push(tile);
-        attackableUnits.push(enemy);
-      }
+    // 2b. Highlight attackable barricades (red)
+    attackableBarricades = getAttackableBarricades(unit, effectiveX, effectiveZ);
+    for (const barricade of attackableBarricades) {
+      const tile = tiles[barricade.x][barricade.z];
+      tile.material = attackableMaterial;
+      highlightedTiles.push(tile);
     }
 
     // 3. Highlight self for ability (based on class)
     const currentTile = tiles[effectiveX][effectiveZ];
     const classData = getClassData(unit.unitClass);
 
-    if (classData.ability === "Heal" && unit.hp < unit.maxHp) {
-      // Medic can self-heal - green highlight
+    if (classData.ability === "heal" && unit.hp < unit.maxHp) {
+      // Healer can self-heal - green highlight
       currentTile.material = healableMaterial;
-    } else if (classData.ability === "Conceal" && !unit.isConcealed) {
-      // Operator can conceal - yellow highlight
+    } else if (classData.ability === "conceal" && !hasStatus(unit, "conceal")) {
+      // Conceal - yellow highlight
+      currentTile.material = selectedMaterial;
+    } else if (classData.ability === "cover" && !hasStatus(unit, "cover")) {
+      // Cover - yellow highlight
       currentTile.material = selectedMaterial;
-    } else if (classData.ability === "Cover" && !unit.isCovering) {
-      // Soldier can cover - yellow highlight
+    } else if (classData.ability === "aim" && !hasStatus(unit, "aim")) {
+      // Aim - yellow highlight
       currentTile.material = selectedMaterial;
     } else {
       // Default: yellow selected highlight
@@ -2105,8 +1853,8 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
     }
     highlightedTiles.push(currentTile);
 
-    // 4. Also highlight healable allies for Medic
-    if (classData.ability === "Heal") {
+    // 4. Also highlight healable allies for healers
+    if (classData.ability === "heal") {
       const allies = getHealableAllies(unit, effectiveX, effectiveZ);
       for (const ally of allies) {
         if (ally !== unit) { // Skip self, already handled above
@@ -2154,41 +1902,6 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
     }
   }
 
-  // Toggle Conceal for Operator (damage type)
-  function toggleConceal(unit: Unit): void {
-    // Always turn conceal ON (never toggle off)
-    if (unit.isConcealed) {
-      console.log(`${unit.team} ${unit.unitClass} is already Concealed.`);
-      return;
-    }
-
-    unit.isConcealed = true;
-    applyConcealVisual(unit);
-    console.log(`${unit.team} ${unit.unitClass} activates Conceal!`);
-
-    // Play interact animation
-    if (unit.modelMeshes) {
-      const weaponMeshes = unit.modelMeshes.filter(m =>
-        m.name.toLowerCase().includes("sword") || m.name.toLowerCase().includes("pistol")
-      );
-      weaponMeshes.forEach(m => m.setEnabled(false));
-
-      playAnimation(unit, "Interact", false, () => {
-        const isMelee = unit.customization?.combatStyle === "melee";
-        unit.modelMeshes?.forEach(m => {
-          if (m.name.toLowerCase().includes("sword")) {
-            m.setEnabled(isMelee);
-          } else if (m.name.toLowerCase().includes("pistol")) {
-            m.setEnabled(!isMelee);
-          }
-        });
-        playIdleAnimation(unit);
-      });
-    }
-
-    consumeAction();
-  }
-
   // Cover tiles tracking for visual display - per unit
   const coverMeshesByUnit: Map<Unit, Mesh[]> = new Map();
   // Preview meshes for pending cover actions
@@ -2224,18 +1937,6 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
     }
   }
 
-  // Get the enemy unit covering a tile (returns first enemy found, null if no enemy is covering)
-  function getEnemyCoveringTile(x: number, z: number, forUnit: Unit): Unit | null {
-    const coveringUnits = coverTileMap.get(`${x},${z}`);
-    if (!coveringUnits) return null;
-    for (const coveringUnit of coveringUnits) {
-      if (coveringUnit.team !== forUnit.team && coveringUnit.hp > 0) {
-        return coveringUnit;
-      }
-    }
-    return null;
-  }
-
   // Check if a tile is covered by both teams
   function isTileDualCovered(x: number, z: number): { player1Color?: Color3; player2Color?: Color3 } | null {
     const coveringUnits = coverTileMap.get(`${x},${z}`);
@@ -2285,8 +1986,9 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
     const cornerHeight = 0.08;
     const tileHalf = (TILE_SIZE - TILE_GAP) / 2;
 
-    const worldX = tileX * TILE_SIZE - gridOffset;
-    const worldZ = tileZ * TILE_SIZE - gridOffset;
+    const worldX = tileX * TILE_SIZE - gridOffset.x;
+    const worldY = getTileElevation(tileX, tileZ);
+    const worldZ = tileZ * TILE_SIZE - gridOffset.z;
 
     // Create materials for both colors
     const mat1 = new StandardMaterial(`dualMat1_${tileX}_${tileZ}`, scene);
@@ -2318,7 +2020,7 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
       hBox.material = corner.mat;
       hBox.position = new Vector3(
         worldX + corner.x - Math.sign(corner.x) * cornerSize / 2,
-        0.09,  // Just above single-team corners (0.08)
+        worldY + 0.09,  // Just above single-team corners (0.08)
         worldZ + corner.z
       );
       hBox.isPickable = false;
@@ -2333,7 +2035,7 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
       vBox.material = corner.mat;
       vBox.position = new Vector3(
         worldX + corner.x,
-        0.09,
+        worldY + 0.09,
         worldZ + corner.z - Math.sign(corner.z) * cornerSize / 2
       );
       vBox.isPickable = false;
@@ -2343,41 +2045,19 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
 
   // End cover for a unit (clears state, visualization, and map)
   function endCover(unit: Unit): void {
-    unit.isCovering = false;
     clearCoverTilesForUnit(unit);
     clearCoverVisualizationForUnit(unit);
     updateHazardStripes();  // Recalculate dual-covered tiles
   }
 
-  // Recalculate cover tiles for all covering units (called after any movement)
-  function recalculateAllCoverTiles(): void {
-    for (const unit of units) {
-      if (!unit.isCovering || unit.hp <= 0) continue;
-
-      // Clear existing cover for this unit
-      clearCoverTilesForUnit(unit);
-      clearCoverVisualizationForUnit(unit);
-
-      // Recalculate covered tiles based on current positions
-      const isMelee = unit.customization?.combatStyle === "melee";
-      let coveredTiles: { x: number; z: number }[];
-
-      if (isMelee) {
-        // Sword: Cover all 8 adjacent tiles with LOS check for diagonals
-        coveredTiles = getAdjacentTiles(unit.gridX, unit.gridZ).filter(tile => {
-          const isDiagonal = tile.x !== unit.gridX && tile.z !== unit.gridZ;
-          return !isDiagonal || hasLineOfSight(unit.gridX, unit.gridZ, tile.x, tile.z, unit);
-        });
-      } else {
-        // Gun: recalculate LOS with current unit positions
-        coveredTiles = getTilesInLOS(unit.gridX, unit.gridZ, true, unit);
-      }
+  // Replace a covering unit's tiles and borders (tiles come from the engine)
+  function showCoverTiles(unit: Unit, coveredTiles: { x: number; z: number }[]): void {
+    clearCoverTilesForUnit(unit);
+    clearCoverVisualizationForUnit(unit);
 
-      // Re-add to cover map and recreate visualization
-      setCoverTiles(unit, coveredTiles);
-      for (const { x, z } of coveredTiles) {
-        createCoverBorder(unit, x, z, unit.teamColor);
-      }
+    setCoverTiles(unit, coveredTiles);
+    for (const { x, z } of coveredTiles) {
+      createCoverBorder(unit, x, z, unit.teamColor);
     }
 
     // Update dual-covered tile indicators
@@ -2407,18 +2087,8 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
   function showCoverPreview(unit: Unit, fromX: number, fromZ: number): void {
     clearCoverPreview();
 
-    const isMelee = unit.customization?.combatStyle === "melee";
-    let tiles: { x: number; z: number }[];
-
-    if (isMelee) {
-      // Sword: Cover all 8 adjacent tiles with LOS check for diagonals
-      tiles = getAdjacentTiles(fromX, fromZ).filter(tile => {
-        const isDiagonal = tile.x !== fromX && tile.z !== fromZ;
-        return !isDiagonal || hasLineOfSight(fromX, fromZ, tile.x, tile.z, unit);
-      });
-    } else {
-      tiles = getTilesInLOS(fromX, fromZ, true, unit);
-    }
+    // Sword covers adjacent tiles, gun covers LOS tiles (same rules as the engine)
+    const tiles = getCoverTiles(extractBattleState(), extractUnitState(unit), fromX, fromZ);
 
     // Create preview borders (more transparent than active cover)
     for (const { x, z } of tiles) {
@@ -2433,8 +2103,9 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
     const cornerHeight = 0.08;
     const tileHalf = (TILE_SIZE - TILE_GAP) / 2;
 
-    const worldX = tileX * TILE_SIZE - gridOffset;
-    const worldZ = tileZ * TILE_SIZE - gridOffset;
+    const worldX = tileX * TILE_SIZE - gridOffset.x;
+    const worldY = getTileElevation(tileX, tileZ);
+    const worldZ = tileZ * TILE_SIZE - gridOffset.z;
 
     const cornerMat = new StandardMaterial(`coverPreviewMat_${tileX}_${tileZ}`, scene);
     cornerMat.diffuseColor = color;
@@ -2458,7 +2129,7 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
       hBox.material = cornerMat;
       hBox.position = new Vector3(
         worldX + corner.x - Math.sign(corner.x) * cornerSize / 2,
-        0.08,
+        worldY + 0.08,
         worldZ + corner.z
       );
       hBox.isPickable = false;
@@ -2472,7 +2143,7 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
       vBox.material = cornerMat;
       vBox.position = new Vector3(
         worldX + corner.x,
-        0.08,
+        worldY + 0.08,
         worldZ + corner.z - Math.sign(corner.z) * cornerSize / 2
       );
       vBox.isPickable = false;
@@ -2480,100 +2151,15 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
     }
   }
 
-  // Check if a unit triggers cover reaction and execute it
-  // Returns true if cover was triggered (caller should end turn)
-  // Concealed units do not trigger cover at all
-  function checkAndTriggerCoverReaction(targetUnit: Unit, onComplete: () => void): boolean {
-    // Concealed units don't trigger cover
-    if (targetUnit.isConcealed) {
-      return false;
-    }
-
-    const coveringUnit = getEnemyCoveringTile(targetUnit.gridX, targetUnit.gridZ, targetUnit);
-    if (!coveringUnit) {
-      return false;
-    }
-
-    console.log(`${coveringUnit.team} ${coveringUnit.unitClass} triggers Cover reaction on ${targetUnit.team} ${targetUnit.unitClass}!`);
-
-    // Execute the cover reaction attack
-    executeAttack(coveringUnit, targetUnit, () => {
-      // End cover after reaction
-      endCover(coveringUnit);
-      onComplete();
-    });
-
-    return true;
-  }
-
-  // Toggle Cover for Soldier (tank type)
-  function toggleCover(unit: Unit): void {
-    unit.isCovering = !unit.isCovering;
-
-    // Clear existing cover for this unit only
-    clearCoverTilesForUnit(unit);
-    clearCoverVisualizationForUnit(unit);
-
-    if (unit.isCovering) {
-      // Get covered tiles based on weapon type
-      const isMelee = unit.customization?.combatStyle === "melee";
-      let coveredTiles: { x: number; z: number }[];
-
-      if (isMelee) {
-        // Sword: Cover all 8 adjacent tiles with LOS check for diagonals
-        coveredTiles = getAdjacentTiles(unit.gridX, unit.gridZ).filter(tile => {
-          const isDiagonal = tile.x !== unit.gridX && tile.z !== unit.gridZ;
-          return !isDiagonal || hasLineOfSight(unit.gridX, unit.gridZ, tile.x, tile.z, unit);
-        });
-      } else {
-        // Gun: Cover all tiles in LOS that they could shoot (not adjacent)
-        coveredTiles = getTilesInLOS(unit.gridX, unit.gridZ, true, unit);
-      }
-
-      // Add to cover map and create visualization
-      setCoverTiles(unit, coveredTiles);
-      for (const { x, z } of coveredTiles) {
-        createCoverBorder(unit, x, z, unit.teamColor);
-      }
-      updateHazardStripes();  // Check for dual-covered tiles
-
-      console.log(`${unit.team} ${unit.unitClass} activates Cover! (${coveredTiles.length} tiles)`);
-    } else {
-      updateHazardStripes();  // Update after deactivation
-      console.log(`${unit.team} ${unit.unitClass} deactivates Cover.`);
-    }
-
-    // Play interact animation
-    if (unit.modelMeshes) {
-      const weaponMeshes = unit.modelMeshes.filter(m =>
-        m.name.toLowerCase().includes("sword") || m.name.toLowerCase().includes("pistol")
-      );
-      weaponMeshes.forEach(m => m.setEnabled(false));
-
-      playAnimation(unit, "Interact", false, () => {
-        const isMelee = unit.customization?.combatStyle === "melee";
-        unit.modelMeshes?.forEach(m => {
-          if (m.name.toLowerCase().includes("sword")) {
-            m.setEnabled(isMelee);
-          } else if (m.name.toLowerCase().includes("pistol")) {
-            m.setEnabled(!isMelee);
-          }
-        });
-        playIdleAnimation(unit);
-      });
-    }
-
-    consumeAction();
-  }
-
   function createCoverBorder(unit: Unit, tileX: number, tileZ: number, color: Color3): void {
     const cornerSize = 0.12;
     const cornerThickness = 0.05;
     const cornerHeight = 0.08;
     const tileHalf = (TILE_SIZE - TILE_GAP) / 2;
 
-    const worldX = tileX * TILE_SIZE - gridOffset;
-    const worldZ = tileZ * TILE_SIZE - gridOffset;
+    const worldX = tileX * TILE_SIZE - gridOffset.x;
+    const worldY = getTileElevation(tileX, tileZ);
+    const worldZ = tileZ * TILE_SIZE - gridOffset.z;
 
     const cornerMat = new StandardMaterial(`coverCornerMat_${unit.team}_${tileX}_${tileZ}`, scene);
     cornerMat.diffuseColor = color;
@@ -2604,7 +2190,7 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
       hBox.material = cornerMat;
       hBox.position = new Vector3(
         worldX + corner.x - Math.sign(corner.x) * cornerSize / 2,
-        0.08,
+        worldY + 0.08,
         worldZ + corner.z
       );
       hBox.isPickable = false;
@@ -2619,7 +2205,7 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
       vBox.material = cornerMat;
       vBox.position = new Vector3(
         worldX + corner.x,
-        0.08,
+        worldY + 0.08,
         worldZ + corner.z - Math.sign(corner.z) * cornerSize / 2
       );
       vBox.isPickable = false;
@@ -2693,21 +2279,6 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
     }
   }
 
-  function checkWinCondition(): void {
-    const player1Units = units.filter(u => u.team === "player1");
-    const player2Units = units.filter(u => u.team === "player2");
-
-    if (player2Units.length === 0) {
-      gameOver = true;
-      controllerManager.notifyGameEnd("player1");
-      showGameOver(player1TeamColor, getTeamDisplayName("player1"));
-    } else if (player1Units.length === 0) {
-      gameOver = true;
-      controllerManager.notifyGameEnd("player2");
-      showGameOver(player2TeamColor, getTeamDisplayName("player2"));
-    }
-  }
-
   function showGameOver(winningColor: Color3, winnerName: string): void {
     const overlay = new Rectangle();
     overlay.width = "100%";
@@ -2717,7 +2288,7 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
 
     const container = new StackPanel();
     container.width = screenWidth < 500 ? "95%" : "600px";
-    container.height = "200px";
+    container.height = replayRecorder ? "240px" : "200px";
     overlay.addControl(container);
 
     // Convert Color3 to hex
@@ -2735,8 +2306,19 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
     text.fontWeight = "bold";
     container.addControl(text);
 
-    // Back to loadout button
-    const backBtn = Button.CreateSimpleButton("backBtn", "Back to Loadout");
+    const seedLine = new TextBlock();
+    seedLine.text = `Seed ${battleSeed}`;
+    seedLine.color = "#888888";
+    seedLine.fontSize = 14;
+    seedLine.height = "30px";
+    container.addControl(seedLine);
+
+    // Back to loadout button (online matches return to the lobby to ready up
+    // again, editor playtests to the editor)
+    const backBtn = Button.CreateSimpleButton(
+      "backBtn",
+      online ? "Back to Lobby" : playtest ? "Back to Editor" : "Back to Loadout"
+    );
     backBtn.width = "200px";
     backBtn.height = "50px";
     backBtn.color = "white";
@@ -2746,10 +2328,43 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
     backBtn.onPointerClickObservable.add(() => {
       // Import dynamically to avoid circular dependency
       import("../main").then(main => {
-        main.switchToLoadout();
+        if (online) {
+          main.navigateTo("lobby");
+        } else if (playtest) {
+          main.navigateTo("editor");
+        } else {
+          main.switchToLoadout();
+        }
       });
     });
     container.addControl(backBtn);
+
+    if (replayRecorder) {
+      const recorder = replayRecorder;
+      const saveBtn = Button.CreateSimpleButton("saveReplayBtn", "Save Replay");
+      saveBtn.width = "200px";
+      saveBtn.height = "40px";
+      saveBtn.paddingTop = "8px";
+      saveBtn.color = "white";
+      saveBtn.background = "#333333";
+      saveBtn.cornerRadius = 10;
+      saveBtn.fontSize = 16;
+      saveBtn.onPointerClickObservable.add(() => {
+        downloadReplay(recorder.getReplay());
+      });
+      container.addControl(saveBtn);
+    }
+  }
+
+  // Save a replay as a JSON file
+  function downloadReplay(recorded: Replay): void {
+    const blob = new Blob([serializeReplay(recorded)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `crucible-replay-${recorded.seed}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
   }
 
   function updateHpBar(unit: Unit): void {
@@ -2767,10 +2382,6 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
     }
   }
 
-  function endTurn(): void {
-    endCurrentUnitTurn();
-  }
-
   // updateTurnIndicator removed - info now shown in command menu popup
 
   function canSelectUnit(unit: Unit): boolean {
@@ -2830,8 +2441,8 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
   function queueMoveAction(unit: Unit, targetX: number, targetZ: number): void {
     if (!turnState || !hasActionsRemaining()) return;
 
-    // Add command to queue
-    commandQueue.enqueue(createMoveCommand(targetX, targetZ));
+    // Add command to the engine's queue
+    if (!battleEngine?.issueCommand(createMoveCommand(targetX, targetZ))) return;
 
     // Also add to pending actions (for UI preview compatibility)
     turnState.pendingActions.push({
@@ -2861,8 +2472,8 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
   function queueAttackAction(_attacker: Unit, defender: Unit): void {
     if (!turnState || !hasActionsRemaining()) return;
 
-    // Add command to queue
-    commandQueue.enqueue(createAttackCommand(getUnitId(defender)));
+    // Add command to the engine's queue
+    if (!battleEngine?.issueCommand(createAttackCommand(defender.id))) return;
 
     // Also add to pending actions (for UI preview compatibility)
     turnState.pendingActions.push({
@@ -2887,8 +2498,8 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
   function queueHealAction(_healer: Unit, target: Unit): void {
     if (!turnState || !hasActionsRemaining()) return;
 
-    // Add command to queue
-    commandQueue.enqueue(createHealCommand(getUnitId(target)));
+    // Add command to the engine's queue
+    if (!battleEngine?.issueCommand(createHealCommand(target.id))) return;
 
     // Also add to pending actions (for UI preview compatibility)
     turnState.pendingActions.push({
@@ -2915,13 +2526,13 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
     if (!turnState || !hasActionsRemaining()) return;
 
     // Don't allow queuing if already concealed
-    if (unit.isConcealed) {
+    if (hasStatus(unit, "conceal")) {
       console.log(`${unit.team} ${unit.unitClass} is already Concealed.`);
       return;
     }
 
-    // Add command to queue
-    commandQueue.enqueue(createConcealCommand());
+    // Add command to the engine's queue
+    if (!battleEngine?.issueCommand(createConcealCommand())) return;
 
     // Also add to pending actions (for UI preview compatibility)
     turnState.pendingActions.push({
@@ -2944,11 +2555,36 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
   }
 
   // Queue a cover action instead of executing immediately
+  // Queue an aim action (bonus damage on the unit's next attack)
+  function queueAimAction(unit: Unit): void {
+    if (!turnState || !hasActionsRemaining()) return;
+
+    // Don't allow queuing if already aiming
+    if (hasStatus(unit, "aim")) {
+      console.log(`${unit.team} ${unit.unitClass} is already Aiming.`);
+      return;
+    }
+
+    if (!battleEngine?.issueCommand(createAimCommand())) return;
+
+    turnState.pendingActions.push({
+      type: "ability",
+      abilityName: "aim",
+      targetUnit: unit,  // Self-targeting
+    });
+
+    turnState.actionsRemaining--;
+
+    updateIntentIndicators();
+    highlightAllAvailableActions(currentUnit!);
+    updateCommandMenu();
+  }
+
   function queueCoverAction(unit: Unit): void {
     if (!turnState || !hasActionsRemaining()) return;
 
-    // Add command to queue
-    commandQueue.enqueue(createCoverCommand());
+    // Add command to the engine's queue
+    if (!battleEngine?.issueCommand(createCoverCommand())) return;
 
     // Also add to pending actions (for UI preview compatibility)
     turnState.pendingActions.push({
@@ -2973,6 +2609,61 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
     updateCommandMenu();
   }
 
+  // Queue a barricade build instead of executing immediately
+  function queueBarricadeAction(_builder: Unit, targetX: number, targetZ: number): void {
+    if (!turnState || !hasActionsRemaining()) return;
+
+    // Add command to the engine's queue
+    if (!battleEngine?.issueCommand(createBarricadeCommand(targetX, targetZ))) return;
+
+    // Also add to pending actions (for UI preview compatibility)
+    turnState.pendingActions.push({
+      type: "ability",
+      abilityName: "barricade",
+      targetX,
+      targetZ,
+    });
+
+    // Consume an action
+    turnState.actionsRemaining--;
+
+    // Update intent indicators (marks the planned barricade)
+    updateIntentIndicators();
+
+    // Re-highlight remaining available actions (no popup mode)
+    highlightAllAvailableActions(currentUnit!);
+
+    // Update menu to show queued action
+    updateCommandMenu();
+  }
+
+  // Queue an attack on a barricade instead of executing immediately
+  function queueAttackBarricadeAction(_attacker: Unit, targetX: number, targetZ: number): void {
+    if (!turnState || !hasActionsRemaining()) return;
+
+    // Add command to the engine's queue
+    if (!battleEngine?.issueCommand(createAttackBarricadeCommand(targetX, targetZ))) return;
+
+    // Also add to pending actions (for UI preview compatibility)
+    turnState.pendingActions.push({
+      type: "attack",
+      targetX,
+      targetZ,
+    });
+
+    // Consume an action (for UI display)
+    turnState.actionsRemaining--;
+
+    // Update intent indicators (red for attack)
+    updateIntentIndicators();
+
+    // Re-highlight remaining available actions (no popup mode)
+    highlightAllAvailableActions(currentUnit!);
+
+    // Update menu to show queued action
+    updateCommandMenu();
+  }
+
   // Update cover preview based on pending actions
   function updateCoverPreview(): void {
     clearCoverPreview();
@@ -2982,235 +2673,323 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
     const coverAction = turnState.pendingActions.find(a => a.type === "ability" && a.abilityName === "cover");
     if (!coverAction) return;
 
-    const unit = turnState.unit;
+    const unit = turnState.unit;
+
+    // Find the final position (last move in queue, or current position)
+    let finalX = unit.gridX;
+    let finalZ = unit.gridZ;
+    for (const action of turnState.pendingActions) {
+      if (action.type === "move" && action.targetX !== undefined && action.targetZ !== undefined) {
+        finalX = action.targetX;
+        finalZ = action.targetZ;
+      }
+    }
+
+    // Show preview at final position
+    showCoverPreview(unit, finalX, finalZ);
+  }
+
+  // Hand the queued commands to the engine; results arrive as events
+  function executeQueuedActions(): void {
+    if (!battleEngine || !turnState || isExecutingActions) return;
+
+    isExecutingActions = true;
+
+    clearShadowPreview();
+    clearAttackPreview();
+    clearIntentIndicators();
+    clearCoverPreview();
+    shadowPosition = null;
+
+    battleEngine.executeTurn();
+  }
+
+  // ============================================
+  // ENGINE EVENT PLAYBACK
+  // ============================================
+  // The engine resolves a whole turn instantly. Events are queued here and
+  // animated one after another; input stays blocked until the queue drains.
+
+  const pendingEvents: BattleEvent[] = [];
+  let isPlayingEvents = false;
+
+  function onBattleEvent(event: BattleEvent): void {
+    pendingEvents.push(event);
+    if (!isPlayingEvents) {
+      playNextEvent();
+    }
+  }
+
+  function playNextEvent(): void {
+    const event = pendingEvents.shift();
+    if (!event) {
+      isPlayingEvents = false;
+      return;
+    }
+    isPlayingEvents = true;
+    renderEvent(event, playNextEvent);
+  }
+
+  function renderEvent(event: BattleEvent, done: () => void): void {
+    switch (event.type) {
+      case "turnStarted": {
+        const unit = findUnitById(event.unitId);
+        isExecutingActions = false;
+        if (unit && battleEngine) startUnitTurn(battleEngine, unit);
+        done();
+        return;
+      }
+
+      case "turnEnded":
+        if (currentUnit) faceClosestEnemy(currentUnit);
+        endCurrentUnitTurn(event.speedBonus);
+        done();
+        return;
+
+      case "unitMoved": {
+        const unit = findUnitById(event.unitId);
+        if (!unit) { done(); return; }
+        animateMovement(unit, event.path, () => {
+          updateCornerIndicators(unit);
+          done();
+        });
+        return;
+      }
+
+      case "attackPerformed": {
+        const attacker = findUnitById(event.attackerId);
+        const defender = findUnitById(event.targetId);
+        if (!attacker || !defender) { done(); return; }
+        if (event.isReaction) {
+          console.log(`${attacker.team} ${attacker.unitClass} triggers Cover reaction on ${defender.team} ${defender.unitClass}!`);
+        }
+        renderAttack(attacker, defender, done);
+        return;
+      }
+
+      case "damageDealt": {
+        const attacker = findUnitById(event.attackerId);
+        const defender = findUnitById(event.targetId);
+        if (!attacker || !defender) { done(); return; }
+        renderDamage(attacker, defender, event.amount, event.hp, done);
+        return;
+      }
 
-    // Find the final position (last move in queue, or current position)
-    let finalX = unit.gridX;
-    let finalZ = unit.gridZ;
-    for (const action of turnState.pendingActions) {
-      if (action.type === "move" && action.targetX !== undefined && action.targetZ !== undefined) {
-        finalX = action.targetX;
-        finalZ = action.targetZ;
+      case "terrainDamage": {
+        const unit = findUnitById(event.unitId);
+        if (!unit) { done(); return; }
+        renderTerrainDamage(unit, event.terrain, event.amount, event.hp, done);
+        return;
       }
-    }
 
-    // Show preview at final position
-    showCoverPreview(unit, finalX, finalZ);
-  }
+      case "unitDied": {
+        const unit = findUnitById(event.unitId);
+        if (!unit) { done(); return; }
+        renderDeath(unit, done);
+        return;
+      }
 
-  // Execute all queued actions sequentially
-  // Alternative: Use processCommandQueue(commandQueue, commandExecutor) for command-based execution
-  function executeQueuedActions(): void {
-    if (!turnState || turnState.pendingActions.length === 0) {
-      endCurrentUnitTurn();
-      return;
-    }
+      case "unitHealed": {
+        const healer = findUnitById(event.healerId);
+        const target = findUnitById(event.targetId);
+        if (!healer || !target) { done(); return; }
+        renderHeal(healer, target, event.amount, event.hp, done);
+        return;
+      }
 
-    isExecutingActions = true;
-    const unit = turnState.unit;
-    const actions = [...turnState.pendingActions];
+      case "statusApplied": {
+        const unit = findUnitById(event.unitId);
+        if (!unit) { done(); return; }
+        renderStatusApplied(unit, event, done);
+        return;
+      }
 
-    // Note: commandQueue contains the same actions as pendingActions
-    // To use the command pattern instead, replace the code below with:
-    // processCommandQueue(commandQueue, commandExecutor);
-    // return;
-    void processCommandQueue; // Mark as available for future use
+      case "statusRemoved": {
+        const unit = findUnitById(event.unitId);
+        if (!unit) { done(); return; }
+        renderStatusRemoved(unit, event.effectId, event.reason, done);
+        return;
+      }
 
-    clearShadowPreview();
-    clearAttackPreview();
-    clearIntentIndicators();
-    clearCoverPreview();
-    shadowPosition = null;
+      case "coverUpdated": {
+        const unit = findUnitById(event.unitId);
+        if (unit) showCoverTiles(unit, event.tiles);
+        done();
+        return;
+      }
 
-    // Helper to check cover reaction after an action completes
-    // If cover is triggered, ends turn immediately; otherwise continues to next action
-    // Concealed units do not trigger cover
-    function afterActionWithCoverCheck(nextIndex: number): void {
-      // Check if the acting unit is in a covered tile
-      if (unit.hp > 0) {  // Only check if unit is still alive
-        const coverTriggered = checkAndTriggerCoverReaction(unit, () => {
-          // Cover reaction complete - end turn immediately (skip remaining actions)
-          faceClosestEnemy(unit);
-          isExecutingActions = false;
-          endCurrentUnitTurn();
-        });
-        if (coverTriggered) {
-          return; // Cover reaction is handling the turn end
-        }
+      case "barricadeBuilt": {
+        const builder = findUnitById(event.unitId);
+        if (!builder) { done(); return; }
+        renderBarricadeBuilt(builder, event.x, event.z, event.hp, done);
+        return;
       }
-      // No cover triggered, continue to next action
-      processNextAction(nextIndex);
-    }
 
-    function processNextAction(index: number): void {
-      if (index >= actions.length) {
-        faceClosestEnemy(unit);
-        isExecutingActions = false;
-        endCurrentUnitTurn();
+      case "barricadeDamaged": {
+        const attacker = findUnitById(event.attackerId);
+        if (!attacker) { done(); return; }
+        renderBarricadeDamage(attacker, event.x, event.z, event.amount, event.hp, done);
         return;
       }
 
-      const action = actions[index];
+      case "barricadeRemoved":
+        console.log(`Barricade at (${event.x},${event.z}) ${event.reason === "destroyed" ? "is destroyed" : "crumbles"}.`);
+        removeSceneBarricade(event.x, event.z);
+        done();
+        return;
 
-      if (action.type === "move" && action.targetX !== undefined && action.targetZ !== undefined) {
-        // Execute move with animation
-        animateMovement(unit, action.targetX, action.targetZ, () => {
-          updateCornerIndicators(unit);
-          afterActionWithCoverCheck(index + 1);
-        });
-      } else if (action.type === "attack" && action.targetUnit) {
-        // Check if target is still alive (may have been killed by previous action)
-        if (action.targetUnit.hp <= 0) {
-          processNextAction(index + 1);
-          return;
-        }
-        // Execute attack
-        executeAttack(unit, action.targetUnit, () => {
-          afterActionWithCoverCheck(index + 1);
-        });
-      } else if (action.type === "ability" && action.abilityName === "heal" && action.targetUnit) {
-        // Execute heal
-        executeHeal(unit, action.targetUnit, () => {
-          afterActionWithCoverCheck(index + 1);
-        });
-      } else if (action.type === "ability" && action.abilityName === "conceal") {
-        // Execute conceal
-        executeConceal(unit, () => {
-          afterActionWithCoverCheck(index + 1);
-        });
-      } else if (action.type === "ability" && action.abilityName === "cover") {
-        // Execute cover - find final position from any remaining move actions
-        let finalX = unit.gridX;
-        let finalZ = unit.gridZ;
-        for (let i = index + 1; i < actions.length; i++) {
-          const futureAction = actions[i];
-          if (futureAction.type === "move" && futureAction.targetX !== undefined && futureAction.targetZ !== undefined) {
-            finalX = futureAction.targetX;
-            finalZ = futureAction.targetZ;
-          }
-        }
-        executeCover(unit, () => {
-          afterActionWithCoverCheck(index + 1);
-        }, finalX, finalZ);
-      } else {
-        // Unknown action, skip
-        processNextAction(index + 1);
-      }
+      case "gameOver":
+        renderGameOver(event.winner);
+        done();
+        return;
+
+      // Queue bookkeeping events are already reflected by the input handlers
+      case "commandQueued":
+      case "commandsExecuted":
+      case "commandRejected":
+      case "commandUndone":
+      case "queueCleared":
+      case "coverTriggered":
+      case "turnResolved":
+        done();
+        return;
+    }
+  }
+
+  // Play the interact animation with weapons hidden, then restore them
+  function playInteractAnimation(unit: Unit, onComplete: () => void): void {
+    if (!unit.modelMeshes) {
+      onComplete();
+      return;
     }
 
-    // Start processing
-    processNextAction(0);
+    const weaponMeshes = unit.modelMeshes.filter(m =>
+      m.name.toLowerCase().includes("sword") || m.name.toLowerCase().includes("pistol")
+    );
+    weaponMeshes.forEach(m => m.setEnabled(false));
+
+    playAnimation(unit, "Interact", false, () => {
+      const isMelee = unit.customization?.combatStyle === "melee";
+      unit.modelMeshes?.forEach(m => {
+        if (m.name.toLowerCase().includes("sword")) {
+          m.setEnabled(isMelee);
+        } else if (m.name.toLowerCase().includes("pistol")) {
+          m.setEnabled(!isMelee);
+        }
+      });
+      playIdleAnimation(unit);
+      onComplete();
+    });
   }
 
-  // Execute attack (called during execution phase)
-  function executeAttack(attacker: Unit, defender: Unit, onComplete: () => void): void {
+  // Attack animation; completes at the impact moment
+  function renderAttack(attacker: Unit, defender: Unit, onImpact: () => void): void {
     setUnitFacing(attacker, defender.gridX, defender.gridZ);
 
     // Play attack animation based on combat style
     const isMelee = attacker.customization?.combatStyle === "melee";
     const attackAnim = isMelee ? "Sword_Slash" : "Gun_Shoot";
 
-    // Play attacker animation, then apply damage after a delay for impact
     playAnimation(attacker, attackAnim, false, () => {
       playIdleAnimation(attacker);
     });
 
-    // Delay the impact to sync with attack animation (300ms for impact moment)
-    setTimeout(() => {
-      // Check if defender is concealed
-      if (defender.isConcealed) {
-        defender.isConcealed = false;
-        removeConcealVisual(defender);
-        console.log(`${defender.team} ${defender.unitClass}'s Conceal was broken! Damage negated!`);
-        // Light hit sound for conceal break
-        playSfx(sfx.hitLight);
-
-        playAnimation(defender, "HitRecieve", false, () => {
-          playIdleAnimation(defender);
-          onComplete();
-        });
-        return;
-      }
+    // Delay the impact to sync with attack animation
+    setTimeout(onImpact, ATTACK_IMPACT_DELAY_MS);
+  }
 
-      // Apply damage (melee does more damage - using centralized multiplier)
-      const isMeleeAttack = attacker.customization?.combatStyle === "melee";
-      const damage = isMeleeAttack ? attacker.attack * MELEE_DAMAGE_MULTIPLIER : attacker.attack;
-      defender.hp = Math.max(0, defender.hp - damage);
-      console.log(`${attacker.team} ${attacker.unitClass} attacks ${defender.team} ${defender.unitClass} for ${damage} damage! (${defender.hp}/${defender.maxHp} HP)`);
+  function renderConcealBroken(defender: Unit, onComplete: () => void): void {
+    removeConcealVisual(defender);
+    console.log(`${defender.team} ${defender.unitClass}'s Conceal was broken! Damage negated!`);
+    // Light hit sound for conceal break
+    playSfx(sfx.hitLight);
 
-      // Hit sounds based on weapon type
-      if (isMeleeAttack) playSfx(sfx.hitHeavy);
-      else playSfx(sfx.hitMedium);
+    playAnimation(defender, "HitRecieve", false, () => {
+      playIdleAnimation(defender);
+      onComplete();
+    });
+  }
 
-      updateHpBar(defender);
+  function renderDamage(attacker: Unit, defender: Unit, damage: number, hp: number, onComplete: () => void): void {
+    defender.hp = hp;
+    console.log(`${attacker.team} ${attacker.unitClass} attacks ${defender.team} ${defender.unitClass} for ${damage} damage! (${defender.hp}/${defender.maxHp} HP)`);
 
-      // Update status bar if current unit's HP changed
-      if (defender === currentUnit) {
-        updateCurrentUnitStatusBar();
-      }
+    // Hit sounds based on weapon type
+    if (attacker.customization?.combatStyle === "melee") playSfx(sfx.hitHeavy);
+    else playSfx(sfx.hitMedium);
 
-      // Cancel cover when hit (even if surviving)
-      if (defender.isCovering) {
-        console.log(`${defender.team} ${defender.unitClass}'s Cover is broken by being hit!`);
-        endCover(defender);
-      }
+    updateHpBar(defender);
 
-      if (defender.hp <= 0) {
-        console.log(`${defender.team} ${defender.unitClass} was defeated!`);
-
-        playAnimation(defender, "Death", false, () => {
-          defender.mesh.dispose();
-          if (defender.hpBar) defender.hpBar.dispose();
-          if (defender.hpBarBg) defender.hpBarBg.dispose();
-          if (defender.designationLabel) defender.designationLabel.dispose();
-          if (defender.modelRoot) defender.modelRoot.dispose();
-          if (defender.animationGroups) defender.animationGroups.forEach(ag => ag.dispose());
-          onComplete();
-        });
+    // Update status bar if current unit's HP changed
+    if (defender === currentUnit) {
+      updateCurrentUnitStatusBar();
+    }
 
-        const index = units.indexOf(defender);
-        if (index > -1) units.splice(index, 1);
-        const queueIndex = firstRoundQueue.indexOf(defender);
-        if (queueIndex > -1) firstRoundQueue.splice(queueIndex, 1);
+    // Lethal hits play the death animation instead (unitDied follows)
+    if (defender.hp <= 0) {
+      onComplete();
+      return;
+    }
 
-        checkWinCondition();
-      } else {
-        playAnimation(defender, "HitRecieve", false, () => {
-          playIdleAnimation(defender);
-          onComplete();
-        });
-      }
-    }, ATTACK_IMPACT_DELAY_MS); // Delay for attack animation to reach impact
+    playAnimation(defender, "HitRecieve", false, () => {
+      playIdleAnimation(defender);
+      onComplete();
+    });
   }
 
-  // Execute heal (called during execution phase)
-  function executeHeal(healer: Unit, target: Unit, onComplete: () => void): void {
-    if (healer !== target) {
-      setUnitFacing(healer, target.gridX, target.gridZ);
+  function renderTerrainDamage(unit: Unit, terrain: TerrainType, damage: number, hp: number, onComplete: () => void): void {
+    unit.hp = hp;
+    console.log(`${unit.team} ${unit.unitClass} takes ${damage} damage from ${TERRAIN_DATA[terrain].name}! (${unit.hp}/${unit.maxHp} HP)`);
+    playSfx(sfx.hitMedium);
+    updateHpBar(unit);
+
+    if (unit === currentUnit) {
+      updateCurrentUnitStatusBar();
     }
 
-    if (healer.modelMeshes) {
-      const weaponMeshes = healer.modelMeshes.filter(m =>
-        m.name.toLowerCase().includes("sword") || m.name.toLowerCase().includes("pistol")
-      );
-      weaponMeshes.forEach(m => m.setEnabled(false));
+    // Lethal damage plays the death animation instead (unitDied follows)
+    if (unit.hp <= 0) {
+      onComplete();
+      return;
+    }
 
-      playAnimation(healer, "Interact", false, () => {
-        const isMelee = healer.customization?.combatStyle === "melee";
-        healer.modelMeshes?.forEach(m => {
-          if (m.name.toLowerCase().includes("sword")) m.setEnabled(isMelee);
-          else if (m.name.toLowerCase().includes("pistol")) m.setEnabled(!isMelee);
-        });
-        playIdleAnimation(healer);
-        onComplete();
-      });
-    } else {
+    playAnimation(unit, "HitRecieve", false, () => {
+      playIdleAnimation(unit);
+      onComplete();
+    });
+  }
+
+  function renderDeath(unit: Unit, onComplete: () => void): void {
+    console.log(`${unit.team} ${unit.unitClass} was defeated!`);
+
+    const index = units.indexOf(unit);
+    if (index > -1) units.splice(index, 1);
+
+    playAnimation(unit, "Death", false, () => {
+      disposeUnit(unit);
       onComplete();
+    });
+  }
+
+  // Remove a unit's meshes and GUI from the scene
+  function disposeUnit(unit: Unit): void {
+    unit.mesh.dispose();
+    if (unit.hpBar) unit.hpBar.dispose();
+    if (unit.hpBarBg) unit.hpBarBg.dispose();
+    if (unit.designationLabel) unit.designationLabel.dispose();
+    if (unit.modelRoot) unit.modelRoot.dispose();
+    if (unit.animationGroups) unit.animationGroups.forEach(ag => ag.dispose());
+  }
+
+  function renderHeal(healer: Unit, target: Unit, amount: number, hp: number, onComplete: () => void): void {
+    if (healer !== target) {
+      setUnitFacing(healer, target.gridX, target.gridZ);
     }
 
-    const healedAmount = Math.min(healer.healAmount, target.maxHp - target.hp);
-    target.hp += healedAmount;
-    console.log(`${healer.team} ${healer.unitClass} heals ${target.team} ${target.unitClass} for ${healedAmount} HP! (${target.hp}/${target.maxHp} HP)`);
+    playInteractAnimation(healer, onComplete);
+
+    target.hp = hp;
+    console.log(`${healer.team} ${healer.unitClass} heals ${target.team} ${target.unitClass} for ${amount} HP! (${target.hp}/${target.maxHp} HP)`);
 
     playSfx(sfx.heal);
     updateHpBar(target);
@@ -3221,182 +3000,110 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
     }
   }
 
-  // Execute conceal ability (called during execution phase)
-  function executeConceal(unit: Unit, onComplete: () => void): void {
-    // Always turn conceal ON (never toggle off)
-    if (unit.isConcealed) {
-      console.log(`${unit.team} ${unit.unitClass} is already Concealed.`);
-      onComplete();
-      return;
+  /** Mirror an applied effect onto the unit, then show it */
+  function renderStatusApplied(unit: Unit, event: StatusAppliedEvent, onComplete: () => void): void {
+    const effect = { id: event.effectId, sourceId: event.sourceId, turnsRemaining: event.turnsRemaining, stacks: event.stacks };
+    const index = unit.statusEffects.findIndex(e => e.id === effect.id);
+    if (index > -1) {
+      unit.statusEffects[index] = effect;
+    } else {
+      unit.statusEffects.push(effect);
     }
 
-    unit.isConcealed = true;
-    applyConcealVisual(unit);
-    console.log(`${unit.team} ${unit.unitClass} activates Conceal!`);
-
-    // Play interact animation
-    if (unit.modelMeshes) {
-      const weaponMeshes = unit.modelMeshes.filter(m =>
-        m.name.toLowerCase().includes("sword") || m.name.toLowerCase().includes("pistol")
-      );
-      weaponMeshes.forEach(m => m.setEnabled(false));
-
-      playAnimation(unit, "Interact", false, () => {
-        const isMelee = unit.customization?.combatStyle === "melee";
-        unit.modelMeshes?.forEach(m => {
-          if (m.name.toLowerCase().includes("sword")) {
-            m.setEnabled(isMelee);
-          } else if (m.name.toLowerCase().includes("pistol")) {
-            m.setEnabled(!isMelee);
-          }
-        });
-        playIdleAnimation(unit);
-        onComplete();
-      });
-    } else {
-      onComplete();
+    switch (effect.id) {
+      case "conceal":
+        renderConceal(unit, onComplete);
+        return;
+      case "cover":
+        renderCover(unit, onComplete);
+        return;
+      case "aim":
+        renderAim(unit, onComplete);
+        return;
     }
   }
 
-  // Execute cover ability (called during execution phase)
-  // fromX/fromZ allow specifying a different position (e.g., if there's a pending move after cover)
-  function executeCover(unit: Unit, onComplete: () => void, fromX?: number, fromZ?: number): void {
-    unit.isCovering = !unit.isCovering;
-
-    // Clear existing cover for this unit only
-    clearCoverTilesForUnit(unit);
-    clearCoverVisualizationForUnit(unit);
-    clearCoverPreview();  // Clear any pending preview
-
-    // Use provided position or current position
-    const coverX = fromX ?? unit.gridX;
-    const coverZ = fromZ ?? unit.gridZ;
+  /** Drop an ended effect from the unit and clear its visuals */
+  function renderStatusRemoved(unit: Unit, id: StatusEffectId, reason: StatusRemovalReason, onComplete: () => void): void {
+    unit.statusEffects = unit.statusEffects.filter(e => e.id !== id);
 
-    if (unit.isCovering) {
-      // Get covered tiles based on weapon type
-      const isMelee = unit.customization?.combatStyle === "melee";
-      let coveredTiles: { x: number; z: number }[];
+    switch (id) {
+      case "conceal":
+        if (reason === "consumed") {
+          renderConcealBroken(unit, onComplete);
+          return;
+        }
+        removeConcealVisual(unit);
+        break;
+      case "cover":
+        if (reason === "expired") {
+          console.log(`${unit.team} ${unit.unitClass}'s Cover ends at start of turn.`);
+        } else if (reason === "hit") {
+          console.log(`${unit.team} ${unit.unitClass}'s Cover is broken by being hit!`);
+        }
+        endCover(unit);
+        break;
+      case "aim":
+        break;
+    }
+    onComplete();
+  }
 
-      if (isMelee) {
-        // Sword: Cover all 8 adjacent tiles with LOS check for diagonals
-        coveredTiles = getAdjacentTiles(coverX, coverZ).filter(tile => {
-          const isDiagonal = tile.x !== coverX && tile.z !== coverZ;
-          return !isDiagonal || hasLineOfSight(coverX, coverZ, tile.x, tile.z, unit);
-        });
-      } else {
-        // Gun: Cover all tiles in LOS that they could shoot (not adjacent)
-        coveredTiles = getTilesInLOS(coverX, coverZ, true, unit);
-      }
+  function renderConceal(unit: Unit, onComplete: () => void): void {
+    applyConcealVisual(unit);
+    console.log(`${unit.team} ${unit.unitClass} activates Conceal!`);
 
-      // Add to cover map and create visualization
-      setCoverTiles(unit, coveredTiles);
-      for (const { x, z } of coveredTiles) {
-        createCoverBorder(unit, x, z, unit.teamColor);
-      }
-      updateHazardStripes();  // Check for dual-covered tiles
+    playInteractAnimation(unit, onComplete);
+  }
 
-      console.log(`${unit.team} ${unit.unitClass} activates Cover! (${coveredTiles.length} tiles)`);
-    } else {
-      updateHazardStripes();  // Update after deactivation
-      console.log(`${unit.team} ${unit.unitClass} deactivates Cover.`);
-    }
+  function renderAim(unit: Unit, onComplete: () => void): void {
+    console.log(`${unit.team} ${unit.unitClass} takes Aim!`);
 
-    // Play interact animation
-    if (unit.modelMeshes) {
-      const weaponMeshes = unit.modelMeshes.filter(m =>
-        m.name.toLowerCase().includes("sword") || m.name.toLowerCase().includes("pistol")
-      );
-      weaponMeshes.forEach(m => m.setEnabled(false));
-
-      playAnimation(unit, "Interact", false, () => {
-        const isMelee = unit.customization?.combatStyle === "melee";
-        unit.modelMeshes?.forEach(m => {
-          if (m.name.toLowerCase().includes("sword")) {
-            m.setEnabled(isMelee);
-          } else if (m.name.toLowerCase().includes("pistol")) {
-            m.setEnabled(!isMelee);
-          }
-        });
-        playIdleAnimation(unit);
-        onComplete();
-      });
-    } else {
-      onComplete();
-    }
+    playInteractAnimation(unit, onComplete);
   }
 
-  // ============================================
-  // COMMAND EXECUTOR
-  // ============================================
-  // Implements the CommandExecutor interface from /src/battle/commands.ts
-  // This allows actions to be executed via the command pattern.
-
-  /**
-   * Command executor implementation for the battle scene.
-   * Bridges between pure commands and visual execution.
-   */
-  const commandExecutor: CommandExecutor = {
-    executeMove(command, onComplete) {
-      if (!turnState) { onComplete(); return; }
-      const unit = turnState.unit;
-      animateMovement(unit, command.targetX, command.targetZ, () => {
-        updateCornerIndicators(unit);
-        onComplete();
-      });
-    },
+  // The covered tiles follow in a coverUpdated event
+  function renderCover(unit: Unit, onComplete: () => void): void {
+    clearCoverPreview();  // Clear any pending preview
+    console.log(`${unit.team} ${unit.unitClass} activates Cover!`);
 
-    executeAttack(command, onComplete) {
-      if (!turnState) { onComplete(); return; }
-      const unit = turnState.unit;
-      const target = findUnitById(command.targetUnitId);
-      if (!target || target.hp <= 0) { onComplete(); return; }
-      executeAttack(unit, target, onComplete);
-    },
+    playInteractAnimation(unit, onComplete);
+  }
 
-    executeHeal(command, onComplete) {
-      if (!turnState) { onComplete(); return; }
-      const unit = turnState.unit;
-      const target = findUnitById(command.targetUnitId);
-      if (!target) { onComplete(); return; }
-      executeHeal(unit, target, onComplete);
-    },
+  function renderBarricadeBuilt(builder: Unit, x: number, z: number, hp: number, onComplete: () => void): void {
+    setUnitFacing(builder, x, z);
+    addSceneBarricade({ x, z, hp, maxHp: hp, ownerId: builder.id, turnsRemaining: BARRICADE_DURATION_TURNS });
+    console.log(`${builder.team} ${builder.unitClass} builds a barricade at (${x},${z})!`);
 
-    executeConceal(_command, onComplete) {
-      if (!turnState) { onComplete(); return; }
-      executeConceal(turnState.unit, onComplete);
-    },
+    playInteractAnimation(builder, onComplete);
+  }
 
-    executeCover(_command, onComplete) {
-      if (!turnState) { onComplete(); return; }
-      const unit = turnState.unit;
-      // Find final position from remaining commands
-      const lastMove = commandQueue.getLastMoveCommand();
-      const finalX = lastMove?.targetX ?? unit.gridX;
-      const finalZ = lastMove?.targetZ ?? unit.gridZ;
-      executeCover(unit, onComplete, finalX, finalZ);
-    },
+  function renderBarricadeDamage(attacker: Unit, x: number, z: number, damage: number, hp: number, onComplete: () => void): void {
+    setUnitFacing(attacker, x, z);
 
-    onQueueComplete() {
-      if (turnState) {
-        faceClosestEnemy(turnState.unit);
-      }
-      isExecutingActions = false;
-      endCurrentUnitTurn();
-    },
+    const isMelee = attacker.customization?.combatStyle === "melee";
+    playAnimation(attacker, isMelee ? "Sword_Slash" : "Gun_Shoot", false, () => {
+      playIdleAnimation(attacker);
+    });
 
-    checkReactions(onReactionComplete) {
-      if (!turnState || turnState.unit.hp <= 0) return false;
-      return checkAndTriggerCoverReaction(turnState.unit, () => {
-        faceClosestEnemy(turnState!.unit);
-        isExecutingActions = false;
-        endCurrentUnitTurn();
-        onReactionComplete();
-      });
-    },
-  };
+    // Land the hit in sync with the attack animation
+    setTimeout(() => {
+      updateBarricadeHp(x, z, hp);
+      console.log(`${attacker.team} ${attacker.unitClass} hits the barricade at (${x},${z}) for ${damage} damage! (${hp} HP left)`);
+      playSfx(isMelee ? sfx.hitHeavy : sfx.hitMedium);
+      onComplete();
+    }, ATTACK_IMPACT_DELAY_MS);
+  }
 
-  // Export command executor for external use (AI, network play)
-  void commandExecutor;
+  function renderGameOver(winner: Team | null): void {
+    gameOver = true;
+    controllerManager.notifyGameEnd(winner);
+    if (winner === "player1") {
+      showGameOver(player1TeamColor, getTeamDisplayName("player1"));
+    } else if (winner === "player2") {
+      showGameOver(player2TeamColor, getTeamDisplayName("player2"));
+    }
+  }
 
   // ============================================
   // UNDO SYSTEM
@@ -3407,7 +3114,7 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
     if (!turnState || turnState.pendingActions.length === 0) return;
 
     // Pop from both queues
-    const lastCommand = commandQueue.pop();
+    const lastCommand = battleEngine?.undoLastCommand();
     const lastAction = turnState.pendingActions.pop();
     turnState.actionsRemaining++;
 
@@ -3444,7 +3151,11 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
           highlightAttackTargets(selectedUnit, effectiveX, effectiveZ);
           break;
         case "ability":
-          highlightHealTargets(selectedUnit, effectiveX, effectiveZ);
+          if (getClassData(selectedUnit.unitClass).ability === "barricade") {
+            highlightBarricadeTiles(selectedUnit, effectiveX, effectiveZ);
+          } else {
+            highlightHealTargets(selectedUnit, effectiveX, effectiveZ);
+          }
           break;
         default:
           // No specific mode, just ensure active tile is highlighted
@@ -3465,13 +3176,20 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
 
     const metadata = pickedMesh.metadata;
 
-    if (metadata?.type === "tile") {
+    // Barricades are picked like the tile they stand on
+    if (metadata?.type === "tile" || metadata?.type === "barricade") {
       const { gridX, gridZ } = metadata;
 
       // Must have a selected unit with actions remaining to take actions
       if (!selectedUnit || !currentUnit || selectedUnit !== currentUnit) return;
       if (!hasActionsRemaining()) return;
 
+      // Priority 0: In build mode, build on the chosen tile
+      if (buildableTiles.some(t => t.x === gridX && t.z === gridZ)) {
+        queueBarricadeAction(selectedUnit, gridX, gridZ);
+        return;
+      }
+
       // Priority 1: Check if there's an attackable enemy on this tile
       const attackTarget = attackableUnits.find(u => u.gridX === gridX && u.gridZ === gridZ);
       if (attackTarget) {
@@ -3479,6 +3197,12 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
         return;
       }
 
+      // Priority 1b: Check if there's an attackable barricade on this tile
+      if (attackableBarricades.some(b => b.x === gridX && b.z === gridZ)) {
+        queueAttackBarricadeAction(selectedUnit, gridX, gridZ);
+        return;
+      }
+
       // Priority 2: Check if there's a healable ally on this tile
       const healTarget = healableUnits.find(u => u.gridX === gridX && u.gridZ === gridZ);
       if (healTarget && healTarget !== selectedUnit) {
@@ -3493,12 +3217,17 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
         // Clicking on self/shadow position - queue ability
         const classData = getClassData(selectedUnit.unitClass);
         // Only if ability is available (not already active)
-        if (classData.ability === "Heal" && selectedUnit.hp < selectedUnit.maxHp) {
+        if (classData.ability === "heal" && selectedUnit.hp < selectedUnit.maxHp) {
           queueHealAction(selectedUnit, selectedUnit);
-        } else if (classData.ability === "Conceal" && !selectedUnit.isConcealed) {
+        } else if (classData.ability === "conceal" && !hasStatus(selectedUnit, "conceal")) {
           queueConcealAction(selectedUnit);
-        } else if (classData.ability === "Cover" && !selectedUnit.isCovering) {
+        } else if (classData.ability === "cover" && !hasStatus(selectedUnit, "cover")) {
           queueCoverAction(selectedUnit);
+        } else if (classData.ability === "aim" && !hasStatus(selectedUnit, "aim")) {
+          queueAimAction(selectedUnit);
+        } else if (classData.ability === "barricade") {
+          currentActionMode = "ability";
+          highlightBarricadeTiles(selectedUnit, effectiveX, effectiveZ);
         }
         return;
       }
@@ -3533,12 +3262,17 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
       if (selectedUnit && clickedUnit === selectedUnit) {
         const classData = getClassData(selectedUnit.unitClass);
         // Only if ability is available
-        if (classData.ability === "Heal" && selectedUnit.hp < selectedUnit.maxHp) {
+        if (classData.ability === "heal" && selectedUnit.hp < selectedUnit.maxHp) {
           queueHealAction(selectedUnit, selectedUnit);
-        } else if (classData.ability === "Conceal" && !selectedUnit.isConcealed) {
+        } else if (classData.ability === "conceal" && !hasStatus(selectedUnit, "conceal")) {
           queueConcealAction(selectedUnit);
-        } else if (classData.ability === "Cover" && !selectedUnit.isCovering) {
+        } else if (classData.ability === "cover" && !hasStatus(selectedUnit, "cover")) {
           queueCoverAction(selectedUnit);
+        } else if (classData.ability === "aim" && !hasStatus(selectedUnit, "aim")) {
+          queueAimAction(selectedUnit);
+        } else if (classData.ability === "barricade") {
+          currentActionMode = "ability";
+          highlightBarricadeTiles(selectedUnit);
         }
         return;
       }
@@ -3584,6 +3318,69 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
   compassIcon.isHitTestVisible = false;
   compassBtn.addControl(compassIcon);
 
+  // Seed readout (so a map can be reported and regenerated), with the map's
+  // name when it was hand-authored, or the style it was generated in
+  const mapLabel = battleMap?.name ?? (mapGen.style !== "classic" ? MAP_GENERATORS[mapGen.style].name : null);
+  const seedText = new TextBlock("seedText", mapLabel ? `${mapLabel} · Seed ${battleSeed}` : `Seed ${battleSeed}`);
+  seedText.fontSize = 11;
+  seedText.color = "#888888";
+  seedText.width = "220px";
+  seedText.height = "16px";
+  seedText.textHorizontalAlignment = Control.HORIZONTAL_ALIGNMENT_RIGHT;
+  seedText.horizontalAlignment = Control.HORIZONTAL_ALIGNMENT_RIGHT;
+  seedText.verticalAlignment = Control.VERTICAL_ALIGNMENT_TOP;
+  seedText.left = "-15px";
+  seedText.top = "63px";
+  seedText.isHitTestVisible = false;
+  gui.addControl(seedText);
+
+  // Debug overlay: how evenly the battlefield treats the two sides (see
+  // battle/fairness.ts). "F" toggles it; scores are worked out when first shown.
+  const fairnessPanel = new Rectangle("fairnessPanel");
+  fairnessPanel.width = "220px";
+  fairnessPanel.height = "104px";
+  fairnessPanel.background = "rgba(20, 20, 30, 0.85)";
+  fairnessPanel.thickness = 1;
+  fairnessPanel.color = "#444444";
+  fairnessPanel.cornerRadius = 4;
+  fairnessPanel.horizontalAlignment = Control.HORIZONTAL_ALIGNMENT_RIGHT;
+  fairnessPanel.verticalAlignment = Control.VERTICAL_ALIGNMENT_TOP;
+  fairnessPanel.left = "-15px";
+  fairnessPanel.top = "82px";
+  fairnessPanel.isHitTestVisible = false;
+  fairnessPanel.isVisible = false;
+  gui.addControl(fairnessPanel);
+
+  const fairnessText = new TextBlock("fairnessText");
+  fairnessText.fontSize = 11;
+  fairnessText.fontFamily = "monospace";
+  fairnessText.color = "#cccccc";
+  fairnessText.textHorizontalAlignment = Control.HORIZONTAL_ALIGNMENT_LEFT;
+  fairnessText.paddingLeft = "8px";
+  fairnessPanel.addControl(fairnessText);
+
+  let fairnessReport: FairnessReport | null = null;
+  const fairnessHandler = (e: KeyboardEvent) => {
+    if (e.key !== "f" && e.key !== "F") return;
+    if (!fairnessReport) {
+      fairnessReport = analyzeFairness(extractBattleState(), spawnPositions);
+      const { player1, player2 } = fairnessReport.teams;
+      const row = (label: string, a: string, b: string) => `${label.padEnd(12)}${a.padStart(6)} /${b.padStart(6)}`;
+      const percent = (value: number) => `${Math.round(value * 100)}%`;
+      fairnessText.text = [
+        row("FAIRNESS", "P1", "P2"),
+        row("Area", String(player1.reachableArea), String(player2.reachableArea)),
+        row("Enemy dist", player1.enemyDistance.toFixed(1), player2.enemyDistance.toFixed(1)),
+        row("LOS lanes", String(player1.losLanes), String(player2.losLanes)),
+        row("Cover", percent(player1.coverDensity), percent(player2.coverDensity)),
+        `Imbalance ${fairnessReport.imbalance.toFixed(2)}`,
+      ].join("\n");
+    }
+    fairnessPanel.isVisible = !fairnessPanel.isVisible;
+  };
+  window.addEventListener("keydown", fairnessHandler);
+  scene.onDisposeObservable.add(() => window.removeEventListener("keydown", fairnessHandler));
+
   function updateCameraModeButton(): void {
     if (cameraMode === "rotate") {
       // Gray when inactive (rotate mode)
@@ -3636,6 +3433,12 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
           // Move camera target (panning) - drag direction matches movement
           camera.target.x += (deltaX * cosAlpha + deltaY * sinAlpha) * panSpeed;
           camera.target.z += (-deltaX * sinAlpha + deltaY * cosAlpha) * panSpeed;
+
+          // Keep the view centered somewhere over the board
+          const limitX = gridOffset.x + TILE_SIZE / 2;
+          const limitZ = gridOffset.z + TILE_SIZE / 2;
+          camera.target.x = Math.max(-limitX, Math.min(limitX, camera.target.x));
+          camera.target.z = Math.max(-limitZ, Math.min(limitZ, camera.target.z));
         }
         break;
     }
@@ -3706,67 +3509,12 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
   }
 
   function predictTurnOrder(count: number): PredictedTurn[] {
+    if (!battleEngine) return [];
     const result: PredictedTurn[] = [];
-    const aliveUnits = units.filter(u => u.hp > 0);
-    if (aliveUnits.length === 0) return result;
-
-    // During first round, start with remaining queue entries
-    if (isFirstRound && firstRoundQueue.length > 0) {
-      for (let i = 0; i < firstRoundQueue.length; i++) {
-        if (firstRoundQueue[i].hp > 0) {
-          result.push({ unit: firstRoundQueue[i], speedBonus: firstRoundQueue[i].speedBonus });
-          if (result.length >= count) return result;
-        }
-      }
-      // Fall through to accumulator prediction for remaining slots
-    }
-
-    // Clone accumulators and speed bonuses for simulation
-    const simAccumulators = new Map<Unit, number>();
-    const simSpeedBonuses = new Map<Unit, number>();
-    for (const unit of aliveUnits) {
-      // If we consumed the first round queue above, all units start at 0
-      simAccumulators.set(unit, isFirstRound ? 0 : unit.accumulator);
-      simSpeedBonuses.set(unit, isFirstRound ? 0 : unit.speedBonus);
-    }
-
-    // Track simulated "last acting team" for tie-breaking
-    let simLastTeam: Team | null = isFirstRound
-      ? (firstRoundQueue.length > 0 ? firstRoundQueue[firstRoundQueue.length - 1].team : lastActingTeam)
-      : lastActingTeam;
-
-    const remaining = count - result.length;
-    for (let i = 0; i < remaining && aliveUnits.length > 0; i++) {
-      const readyUnits: Unit[] = [];
-
-      // Tick until someone is ready
-      while (readyUnits.length === 0) {
-        for (const unit of aliveUnits) {
-          const simBonus = simSpeedBonuses.get(unit) || 0;
-          const acc = (simAccumulators.get(unit) || 0) + unit.speed + simBonus;
-          simAccumulators.set(unit, acc);
-          if (acc >= ACCUMULATOR_THRESHOLD) {
-            readyUnits.push(unit);
-          }
-        }
-      }
-
-      // Sort by tie-breakers
-      readyUnits.sort((a, b) => {
-        if (simLastTeam !== null) {
-          if (a.team !== simLastTeam && b.team === simLastTeam) return -1;
-          if (b.team !== simLastTeam && a.team === simLastTeam) return 1;
-        }
-        return a.loadoutIndex - b.loadoutIndex;
-      });
-
-      const nextUnit = readyUnits[0];
-      result.push({ unit: nextUnit, speedBonus: simSpeedBonuses.get(nextUnit) || 0 });
-      simAccumulators.set(nextUnit, 0); // Reset after acting
-      simSpeedBonuses.set(nextUnit, 0); // Consume speed bonus after acting
-      simLastTeam = nextUnit.team;
+    for (const predicted of predictEngineTurnOrder(battleEngine.getState(), count)) {
+      const unit = findUnitById(predicted.unitId);
+      if (unit) result.push({ unit, speedBonus: predicted.speedBonus });
     }
-
     return result;
   }
 
@@ -4059,15 +3807,8 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
   forfeitConfirmBtn.onPointerUpObservable.add(() => {
     forfeitConfirmBackdrop.isVisible = false;
     forfeitConfirmPanel.isVisible = false;
-    gameOver = true;
-    // The forfeiting team is the current unit's team; the other team wins
-    if (currentUnit && currentUnit.team === "player1") {
-      controllerManager.notifyGameEnd("player2");
-      showGameOver(player2TeamColor, getTeamDisplayName("player2"));
-    } else {
-      controllerManager.notifyGameEnd("player1");
-      showGameOver(player1TeamColor, getTeamDisplayName("player1"));
-    }
+    // Online, only this tab's team can concede; locally it's the current unit's team
+    battleEngine?.forfeit(online ? online.team : currentUnit?.team ?? "player2");
   });
 
   // Custom drag-to-scroll for turn order modal using window events
@@ -4316,7 +4057,7 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
     if (!currentUnit || !turnState) return;
 
     // Clear the command queue
-    commandQueue.clear();
+    battleEngine?.clearQueue();
     turnState.pendingActions = [];
     turnState.actionsRemaining = ACTIONS_PER_TURN;
 
@@ -4475,7 +4216,7 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
   // Update action button visibility and style
   function updateActionButtons(): void {
     const hasQueuedActions = !!(turnState && turnState.pendingActions.length > 0);
-    const isHumanTurn = !!(currentUnit && !controllerManager.isAI(currentUnit.team));
+    const isHumanTurn = !!(currentUnit && controllerManager.isHuman(currentUnit.team));
     const allActionsUsed = turnState && turnState.actionsRemaining === 0;
 
     cancelBtn.isVisible = isHumanTurn && hasQueuedActions;
@@ -4521,7 +4262,7 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
   gui.addControl(actionCounterText);
 
   function updateActionCounter(): void {
-    if (!currentUnit || !turnState || controllerManager.isAI(currentUnit.team)) {
+    if (!currentUnit || !turnState || !controllerManager.isHuman(currentUnit.team)) {
       actionCounterText.isVisible = false;
       return;
     }
@@ -4541,13 +4282,12 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
     // Position next to designation symbol (to the right of it)
     const effectiveX = shadowPosition?.x ?? currentUnit.gridX;
     const effectiveZ = shadowPosition?.z ?? currentUnit.gridZ;
-    const gridOffset = (GRID_SIZE * TILE_SIZE) / 2 - TILE_SIZE / 2;
 
     // Convert world position to screen coordinates
     const worldPos = new Vector3(
-      effectiveX * TILE_SIZE - gridOffset,
-      HP_BAR_ANCHOR_HEIGHT,
-      effectiveZ * TILE_SIZE - gridOffset
+      effectiveX * TILE_SIZE - gridOffset.x,
+      HP_BAR_ANCHOR_HEIGHT + getTileElevation(effectiveX, effectiveZ),
+      effectiveZ * TILE_SIZE - gridOffset.z
     );
     const screenPos = Vector3.Project(
       worldPos,
@@ -4610,6 +4350,13 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
 
     // Track cumulative HP changes across queued actions
     const hpDeltas = new Map<Unit, number>();
+    const barricadeHpDeltas = new Map<string, number>();
+    // Aim adds to the first attack after it
+    let aiming = hasStatus(currentUnit, "aim");
+    // Attacks land from wherever the queued moves leave the unit (elevation counts)
+    const previewState = extractBattleState();
+    let attackerX = currentUnit.gridX;
+    let attackerZ = currentUnit.gridZ;
 
     for (let i = 0; i < turnState.pendingActions.length; i++) {
       const action = turnState.pendingActions[i];
@@ -4620,6 +4367,8 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
       actionLine.resizeToFit = true;
 
       if (action.type === "move") {
+        attackerX = action.targetX ?? attackerX;
+        attackerZ = action.targetZ ?? attackerZ;
         actionLine.text = `Action ${n} of ${total}: ${unitDesignation} ${unitClassName} Move`;
         actionLine.color = "#88ccff";
       } else if (action.type === "attack" && action.targetUnit) {
@@ -4627,13 +4376,32 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
         const targetDesignation = UNIT_DESIGNATIONS[target.loadoutIndex] || "?";
         const targetClass = getClassData(target.unitClass).name;
         const isMelee = currentUnit.customization?.combatStyle === "melee";
-        const damage = isMelee ? currentUnit.attack * MELEE_DAMAGE_MULTIPLIER : currentUnit.attack;
+        const attacker: UnitState = {
+          ...extractUnitState(currentUnit),
+          gridX: attackerX,
+          gridZ: attackerZ,
+          statusEffects: aiming ? [{ id: "aim", sourceId: currentUnit.id, turnsRemaining: null, stacks: 1 }] : [],
+        };
+        const damage = calculateDamage(previewState, attacker, extractUnitState(target));
+        aiming = false;
         const pendingHp = Math.max(0, Math.min(target.maxHp, target.hp + (hpDeltas.get(target) || 0)));
         const newHp = Math.max(0, pendingHp - damage);
         hpDeltas.set(target, (hpDeltas.get(target) || 0) + (newHp - pendingHp));
         const verb = isMelee ? "Strike" : "Shoot";
         actionLine.text = `Action ${n} of ${total}: ${unitDesignation} ${unitClassName} ${verb} ${targetDesignation} ${targetClass} ${pendingHp}→${newHp}`;
         actionLine.color = "#ff6666";
+      } else if (action.type === "attack" && action.targetX !== undefined && action.targetZ !== undefined) {
+        const key = `${action.targetX},${action.targetZ}`;
+        const barricadeHp = barricades.get(key)?.state.hp ?? 0;
+        const isMelee = currentUnit.customization?.combatStyle === "melee";
+        const damage = calculateBarricadeDamage({ ...extractUnitState(currentUnit), statusEffects: [] }) + (aiming ? AIM_BONUS_DAMAGE : 0);
+        aiming = false;
+        const pendingHp = Math.max(0, barricadeHp + (barricadeHpDeltas.get(key) || 0));
+        const newHp = Math.max(0, pendingHp - damage);
+        barricadeHpDeltas.set(key, (barricadeHpDeltas.get(key) || 0) + (newHp - pendingHp));
+        const verb = isMelee ? "Strike" : "Shoot";
+        actionLine.text = `Action ${n} of ${total}: ${unitDesignation} ${unitClassName} ${verb} Barricade ${pendingHp}→${newHp}`;
+        actionLine.color = "#ff6666";
       } else if (action.type === "ability" && action.abilityName === "heal" && action.targetUnit) {
         const target = action.targetUnit;
         const healAmt = currentUnit.healAmount;
@@ -4654,6 +4422,13 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
       } else if (action.type === "ability" && action.abilityName === "cover") {
         actionLine.text = `Action ${n} of ${total}: ${unitDesignation} ${unitClassName} Cover`;
         actionLine.color = "#ffff66";
+      } else if (action.type === "ability" && action.abilityName === "aim") {
+        aiming = true;
+        actionLine.text = `Action ${n} of ${total}: ${unitDesignation} ${unitClassName} Aim (+${AIM_BONUS_DAMAGE} dmg)`;
+        actionLine.color = "#ffff66";
+      } else if (action.type === "ability" && action.abilityName === "barricade") {
+        actionLine.text = `Action ${n} of ${total}: ${unitDesignation} ${unitClassName} Barricade (${action.targetX},${action.targetZ})`;
+        actionLine.color = "#ffaa44";
       }
 
       queuedActionsStack.addControl(actionLine);
@@ -4770,17 +4545,26 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
   abilityBtn.fontSize = 14;
   abilityBtn.onPointerClickObservable.add(() => {
     if (currentUnit && !isAnimatingMovement && hasActionsRemaining()) {
-      if (currentUnit.unitClass === "medic") {
+      const ability = getClassData(currentUnit.unitClass).ability;
+      if (ability === "heal") {
         // Heal mode - highlight healable allies
         currentActionMode = "ability";
         selectedUnit = currentUnit;
         highlightHealTargets(currentUnit);
-      } else if (currentUnit.unitClass === "operator") {
+      } else if (ability === "conceal") {
         // Conceal - queue as action
         queueConcealAction(currentUnit);
-      } else if (currentUnit.unitClass === "soldier") {
+      } else if (ability === "cover") {
         // Cover - queue as action
         queueCoverAction(currentUnit);
+      } else if (ability === "aim") {
+        // Aim - queue as action
+        queueAimAction(currentUnit);
+      } else if (ability === "barricade") {
+        // Barricade mode - highlight buildable tiles
+        currentActionMode = "ability";
+        selectedUnit = currentUnit;
+        highlightBarricadeTiles(currentUnit);
       }
     }
   });
@@ -4875,8 +4659,8 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
       return;
     }
 
-    // Hide menu for AI-controlled units
-    if (controllerManager.isAI(currentUnit.team)) {
+    // Hide menu for AI, network and replay-controlled units
+    if (!controllerManager.isHuman(currentUnit.team)) {
       return;
     }
 
@@ -4902,12 +4686,12 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
     // Update unit header: designation + class + speed
     const classData = getClassData(currentUnit.unitClass);
     const designation = UNIT_DESIGNATIONS[currentUnit.loadoutIndex] || "?";
-    const speed = getEffectiveSpeed(currentUnit).toFixed(2);
+    const speed = getEffectiveSpeed(extractUnitState(currentUnit)).toFixed(2);
     menuUnitName.text = `${designation} ${classData.name}, Speed ${speed}`;
 
     // Update ability button from class data
     if (abilityBtn.textBlock) {
-      abilityBtn.textBlock.text = classData.ability;
+      abilityBtn.textBlock.text = classData.abilityName;
     }
 
     // Update attack button based on combat style
@@ -4943,6 +4727,10 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
           const isMelee = currentUnit.customization?.combatStyle === "melee";
           const attackVerb = isMelee ? "Strike" : "Shoot";
           lines.push(`  ${attackVerb} ${targetName}`);
+        } else if (action.type === "attack") {
+          const isMelee = currentUnit.customization?.combatStyle === "melee";
+          const attackVerb = isMelee ? "Strike" : "Shoot";
+          lines.push(`  ${attackVerb} barricade at (${action.targetX},${action.targetZ})`);
         } else if (action.type === "ability" && action.abilityName === "heal" && action.targetUnit) {
           const targetName = action.targetUnit === currentUnit ? "self" : getClassData(action.targetUnit.unitClass).name;
           lines.push(`  Heal ${targetName}`);
@@ -4950,16 +4738,20 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
           lines.push(`  Conceal`);
         } else if (action.type === "ability" && action.abilityName === "cover") {
           lines.push(`  Cover`);
+        } else if (action.type === "ability" && action.abilityName === "aim") {
+          lines.push(`  Aim`);
+        } else if (action.type === "ability" && action.abilityName === "barricade") {
+          lines.push(`  Barricade at (${action.targetX},${action.targetZ})`);
         }
       }
     }
 
     // Show unit status effects
-    if (currentUnit.isConcealed) {
-      lines.push("* CONCEALED");
-    }
-    if (currentUnit.isCovering) {
-      lines.push("* COVERING");
+    for (const effect of currentUnit.statusEffects) {
+      const name = STATUS_EFFECTS[effect.id].name.toUpperCase();
+      const stacks = effect.stacks > 1 ? ` x${effect.stacks}` : "";
+      const turns = effect.turnsRemaining !== null ? ` (${effect.turnsRemaining})` : "";
+      lines.push(`* ${name}${stacks}${turns}`);
     }
 
     // Show action status
@@ -4978,7 +4770,7 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
     updateCurrentUnitStatusBar();
 
     // Auto-select the current unit and show all available actions
-    if (currentUnit && !controllerManager.isAI(currentUnit.team)) {
+    if (currentUnit && controllerManager.isHuman(currentUnit.team)) {
       selectedUnit = currentUnit;
       highlightAllAvailableActions(currentUnit);
     }
@@ -4987,6 +4779,112 @@ export function createBattleScene(engine: Engine, canvas: HTMLCanvasElement, loa
     commandMenu.isVisible = false;
   };
 
+  // ============================================
+  // REPLAY CONTROLS
+  // ============================================
+
+  if (replayController) {
+    forfeitBtn.isVisible = false;
+    createReplayControls(replayController);
+  }
+
+  function createReplayControls(player: ReplayController): void {
+    const bar = new StackPanel("replayBar");
+    bar.isVertical = false;
+    bar.height = "50px";
+    bar.width = "330px";
+    bar.horizontalAlignment = Control.HORIZONTAL_ALIGNMENT_CENTER;
+    bar.verticalAlignment = Control.VERTICAL_ALIGNMENT_BOTTOM;
+    bar.top = "-15px";
+    bar.zIndex = 50;
+    gui.addControl(bar);
+
+    function createReplayButton(name: string, text: string, onClick: () => void): Button {
+      const button = Button.CreateSimpleButton(name, text);
+      button.width = "70px";
+      button.height = "40px";
+      button.paddingLeft = "4px";
+      button.paddingRight = "4px";
+      button.color = "#cccccc";
+      button.background = "rgba(40, 40, 50, 0.9)";
+      button.cornerRadius = 8;
+      button.fontSize = 14;
+      button.fontWeight = "bold";
+      button.isPointerBlocker = true;
+      button.onPointerClickObservable.add(onClick);
+      bar.addControl(button);
+      return button;
+    }
+
+    const playBtn = createReplayButton("replayPlayBtn", "Play", () => {
+      if (player.isPlaying()) player.pause();
+      else player.play();
+    });
+    createReplayButton("replayStepBtn", "Step", () => {
+      player.pause();
+      player.step();
+    });
+    const speeds = [1, 2, 4];
+    const speedBtn = createReplayButton("replaySpeedBtn", "1x", () => {
+      const next = speeds[(speeds.indexOf(player.getSpeed()) + 1) % speeds.length];
+      player.setSpeed(next);
+    });
+
+    const progressText = new TextBlock("replayProgress");
+    progressText.width = "120px";
+    progressText.color = "#cccccc";
+    progressText.fontSize = 14;
+    bar.addControl(progressText);
+
+    function updateReplayControls(): void {
+      if (playBtn.textBlock) playBtn.textBlock.text = player.isPlaying() ? "Pause" : "Play";
+      if (speedBtn.textBlock) speedBtn.textBlock.text = `${player.getSpeed()}x`;
+      progressText.text = `Turn ${player.getPosition()} / ${player.getTurnCount()}`;
+    }
+
+    player.setProgressCallback(updateReplayControls);
+    updateReplayControls();
+  }
+
+  // ============================================
+  // ONLINE DESYNC BANNER
+  // ============================================
+
+  let desyncBanner: TextBlock | null = null;
+
+  /** Flag a state mismatch with the opponent and dump both states to the console */
+  function showDesyncBanner(report: DesyncReport): void {
+    if (!desyncBanner) {
+      const banner = new Rectangle("desyncBanner");
+      banner.width = "420px";
+      banner.height = "56px";
+      banner.top = "12px";
+      banner.verticalAlignment = Control.VERTICAL_ALIGNMENT_TOP;
+      banner.background = "rgba(120, 20, 20, 0.92)";
+      banner.color = "#ff6666";
+      banner.thickness = 2;
+      banner.cornerRadius = 8;
+      banner.zIndex = 150;
+      banner.isHitTestVisible = false;
+      gui.addControl(banner);
+
+      desyncBanner = new TextBlock("desyncText");
+      desyncBanner.color = "white";
+      desyncBanner.fontSize = 14;
+      desyncBanner.textWrapping = true;
+      banner.addControl(desyncBanner);
+    }
+
+    desyncBanner.text = `DESYNC on turn ${report.turn} (${report.localHash} vs ${report.remoteHash})\n`
+      + (report.remoteState ? "Both states dumped to the console" : "Waiting for the opponent's state...");
+
+    console.error(`Online desync on turn ${report.turn}: local ${report.localHash}, remote ${report.remoteHash}`);
+    console.log("Local state:", JSON.parse(report.localState));
+    if (report.remoteState) {
+      console.log("Remote state:", JSON.parse(report.remoteState));
+    }
+  }
+
   // Game is initialized when spawnAllUnits completes (calls startGame)
 
   return scene;
@@ -5012,12 +4910,13 @@ async function createUnit(
   gridZ: number,
   scene: Scene,
   _materials: Record<UnitClass, StandardMaterial>,  // Kept for API compatibility
-  gridOffset: number,
+  gridOffset: GridOffset,
   gui: AdvancedDynamicTexture,
   loadoutIndex: number,
   teamColor: Color3,
   customization?: UnitCustomization,
-  boost?: number
+  boost?: number,
+  equipment?: UnitEquipment
 ): Promise<Unit> {
   const classData = getClassData(unitClass);
 
@@ -5046,9 +4945,9 @@ async function createUnit(
 
   // Position and scale the model - using centralized constants
   modelRoot.position = new Vector3(
-    gridX * TILE_SIZE - gridOffset,
+    gridX * TILE_SIZE - gridOffset.x,
     BATTLE_MODEL_Y_POSITION,
-    gridZ * TILE_SIZE - gridOffset
+    gridZ * TILE_SIZE - gridOffset.z
   );
   modelRoot.scaling = new Vector3(
     c.handedness === "right" ? -BATTLE_MODEL_SCALE : BATTLE_MODEL_SCALE,
@@ -5103,9 +5002,9 @@ async function createUnit(
   // Create an invisible mesh for HP bar linkage (positioned at model's head height)
   const hpBarAnchor = MeshBuilder.CreateBox(`${team}_${unitClass}_anchor_${gridX}_${gridZ}`, { size: 0.01 }, scene);
   hpBarAnchor.position = new Vector3(
-    gridX * TILE_SIZE - gridOffset,
+    gridX * TILE_SIZE - gridOffset.x,
     HP_BAR_ANCHOR_HEIGHT,
-    gridZ * TILE_SIZE - gridOffset
+    gridZ * TILE_SIZE - gridOffset.z
   );
   hpBarAnchor.isVisible = false;
   hpBarAnchor.metadata = { type: "unit", unitClass, team };
@@ -5162,18 +5061,29 @@ async function createUnit(
   const boostedAttack = Math.round(classData.attack * attackMultiplier);
   const boostedSpeed = 1 * speedMultiplier;
 
+  // Equipment adds flat changes on top (stats never drop below a usable minimum)
+  const gear = getEquipmentModifiers({ unitClass, customization: c, equipment });
+  const hp = Math.max(1, boostedHp + gear.hp);
+  const attack = Math.max(0, boostedAttack + gear.attack);
+  const moveRange = Math.max(1, classData.moveRange + gear.moveRange);
+  // Ranged units always keep at least one tile beyond their dead zone
+  const attackRange = Math.max(classData.minRange + 1, classData.attackRange + gear.attackRange);
+  const healAmount = classData.healAmount > 0 ? Math.max(0, classData.healAmount + gear.healAmount) : 0;
+
   return {
+    id: `${team}-${loadoutIndex}`,
     mesh: hpBarAnchor,  // Use anchor as the main "mesh" for positioning
     unitClass,
     team,
     gridX,
     gridZ,
-    moveRange: classData.moveRange,
-    attackRange: classData.attackRange,
-    hp: boostedHp,
-    maxHp: boostedHp,
-    attack: boostedAttack,
-    healAmount: classData.healAmount,
+    moveRange,
+    attackRange,
+    minRange: classData.minRange,
+    hp,
+    maxHp: hp,
+    attack,
+    healAmount,
     hpBar,
     hpBarBg,
     designationLabel: designationText,
@@ -5195,23 +5105,23 @@ async function createUnit(
       baseOffset: 0,
       isFlipped: false
     },
-    isConcealed: false,
-    isCovering: false,
+    statusEffects: [],
   };
 }
 
-function moveUnit(unit: Unit, newX: number, newZ: number, gridOffset: number): void {
+/** Place a unit on a tile; elevation is the tile surface's world height above ground */
+function moveUnit(unit: Unit, newX: number, newZ: number, gridOffset: GridOffset, elevation: number): void {
   unit.gridX = newX;
   unit.gridZ = newZ;
 
-  const newPosX = newX * TILE_SIZE - gridOffset;
-  const newPosZ = newZ * TILE_SIZE - gridOffset;
+  const newPosX = newX * TILE_SIZE - gridOffset.x;
+  const newPosZ = newZ * TILE_SIZE - gridOffset.z;
 
   // Move HP bar anchor (using centralized height constant)
-  unit.mesh.position = new Vector3(newPosX, HP_BAR_ANCHOR_HEIGHT, newPosZ);
+  unit.mesh.position = new Vector3(newPosX, HP_BAR_ANCHOR_HEIGHT + elevation, newPosZ);
 
   // Move 3D model (using centralized Y position constant)
   if (unit.modelRoot) {
-    unit.modelRoot.position = new Vector3(newPosX, BATTLE_MODEL_Y_POSITION, newPosZ);
+    unit.modelRoot.position = new Vector3(newPosX, BATTLE_MODEL_Y_POSITION + elevation, newPosZ);
   }
 }
@@ -0,0 +1,816 @@
+/**
+ * EditorScene.ts
+ *
+ * Map editor: paint terrain, heights, spawn slots and objectives onto the
+ * grid, then save the result as a map file (see maps/format.ts) or playtest
+ * it straight away.
+ * The map is checked after every edit with the validation the game runs when
+ * it loads a map, so anything the editor lets you save can be played.
+ *
+ * Maps can be any size from MAP_MIN_SIZE to MAP_MAX_SIZE along each side,
+ * and the hole tool cuts tiles out of the battlefield for irregular shapes.
+ *
+ * Left click paints (terrain and height tools paint while dragging); the
+ * right mouse button turns the camera and the wheel zooms.
+ */
+
+import {
+  Engine,
+  Scene,
+  ArcRotateCamera,
+  ArcRotateCameraPointersInput,
+  Vector3,
+  HemisphericLight,
+  DirectionalLight,
+  MeshBuilder,
+  StandardMaterial,
+  Color3,
+  Color4,
+  Mesh,
+  PointerEventTypes,
+} from "@babylonjs/core";
+import { AdvancedDynamicTexture, TextBlock, StackPanel, Rectangle, Control, Button, InputText, Grid } from "@babylonjs/gui";
+import {
+  type SceneName,
+  type MapDefinition,
+  type Team,
+  type TerrainType,
+  TERRAIN_DATA,
+} from "../types";
+import {
+  SCENE_BACKGROUNDS,
+  TILE_COLOR_LIGHT,
+  TILE_COLOR_DARK,
+  TERRAIN_COLOR,
+  LOW_WALL_COLOR,
+  ROUGH_GROUND_COLOR,
+  WATER_COLOR,
+  HAZARD_COLOR,
+  OBJECTIVE_COLOR,
+  DEFAULT_TEAM_COLORS,
+  GRID_SIZE,
+  TILE_SIZE,
+  TILE_GAP,
+  MAX_ELEVATION,
+  MAX_UNITS_PER_TEAM,
+  MAP_MIN_SIZE,
+  MAP_MAX_SIZE,
+  ELEVATION_LEVEL_HEIGHT,
+  EDITOR_UNDO_LIMIT,
+  BATTLE_CAMERA_ALPHA,
+  BATTLE_CAMERA_BETA,
+  BATTLE_CAMERA_RADIUS,
+  BATTLE_CAMERA_LOWER_BETA_LIMIT,
+  BATTLE_CAMERA_UPPER_BETA_LIMIT,
+  BATTLE_CAMERA_LOWER_RADIUS_LIMIT,
+  BATTLE_CAMERA_UPPER_RADIUS_LIMIT,
+} from "../config";
+import { getSpawnPositions } from "../battle";
+import {
+  MAP_FORMAT_VERSION,
+  MAP_TILE_LEGEND,
+  MAP_HOLE_CHAR,
+  getMapProblems,
+  parseMapDefinition,
+  serializeMap,
+} from "../maps";
+import { startPlaytest } from "../main";
+import { rgbToColor3 } from "../utils";
+
+// ============================================
+// COLOR PALETTE (matches the lobby)
+// ============================================
+const COLORS = {
+  bgPanel: "rgba(20, 17, 15, 0.92)",
+  bgButton: "rgba(40, 20, 15, 0.6)",
+  bgButtonHover: "rgba(100, 50, 25, 0.8)",
+  bgSelected: "rgba(140, 70, 30, 0.9)",
+  border: "#3a2a1a",
+  textPrimary: "#e8c8a0",
+  textSecondary: "#a08060",
+  textMuted: "#706050",
+  accent: "#ff9650",
+  successText: "#90d070",
+  error: "#ff6666",
+};
+
+/** What clicking a tile does */
+type EditorTool = "ground" | TerrainType | "hole" | "raise" | "lower" | Team | "objective";
+
+const TOOLS: { tool: EditorTool; label: string }[] = [
+  { tool: "ground", label: "Ground" },
+  ...(Object.keys(TERRAIN_DATA) as TerrainType[]).map(type => ({ tool: type, label: TERRAIN_DATA[type].name })),
+  { tool: "hole", label: "Hole" },
+  { tool: "raise", label: "Raise" },
+  { tool: "lower", label: "Lower" },
+  { tool: "player1", label: "P1 Spawn" },
+  { tool: "player2", label: "P2 Spawn" },
+  { tool: "objective", label: "Objective" },
+];
+
+/** Tools that only act on the tile first clicked, not while dragging */
+const CLICK_TOOLS = new Set<EditorTool>(["player1", "player2", "objective"]);
+
+/** Tile character for each terrain type (open ground is ".") */
+const TERRAIN_CHARS = Object.fromEntries(
+  Object.entries(MAP_TILE_LEGEND).map(([char, type]) => [type ?? "ground", char])
+) as Record<TerrainType | "ground", string>;
+
+// The map being edited outlives the scene, so it's still here after a playtest
+let draft: MapDefinition | null = null;
+
+/** An empty map with the usual spawn layout */
+function createBlankMap(width: number, height: number = width): MapDefinition {
+  return {
+    version: MAP_FORMAT_VERSION,
+    id: "custom-map",
+    name: "Custom Map",
+    width,
+    height,
+    tiles: Array.from({ length: height }, () => ".".repeat(width)),
+    heights: Array.from({ length: height }, () => "0".repeat(width)),
+    spawns: {
+      player1: getSpawnPositions("player1", MAX_UNITS_PER_TEAM, width, height),
+      player2: getSpawnPositions("player2", MAX_UNITS_PER_TEAM, width, height),
+    },
+  };
+}
+
+/** Copy a map, filling in optional parts the editor works on */
+function cloneForEditing(map: MapDefinition): MapDefinition {
+  const copy = JSON.parse(JSON.stringify(map)) as MapDefinition;
+  copy.heights ??= Array.from({ length: copy.height }, () => "0".repeat(copy.width));
+  return copy;
+}
+
+/** Map id from its name ("Twin Rivers" -> "twin-rivers") */
+function toMapId(name: string): string {
+  const id = name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+  return id || "custom-map";
+}
+
+function setChar(rows: string[], x: number, z: number, char: string): void {
+  rows[z] = rows[z].slice(0, x) + char + rows[z].slice(x + 1);
+}
+
+export function createEditorScene(
+  engine: Engine,
+  canvas: HTMLCanvasElement,
+  navigateTo: (scene: SceneName) => void
+): Scene {
+  const scene = new Scene(engine);
+  const bg = SCENE_BACKGROUNDS.editor;
+  scene.clearColor = new Color4(bg.r, bg.g, bg.b, bg.a);
+
+  let map = cloneForEditing(draft ?? createBlankMap(GRID_SIZE));
+  draft = map;
+  let tool: EditorTool = "wall";
+
+  // ============================================
+  // CAMERA AND LIGHTS
+  // ============================================
+  const camera = new ArcRotateCamera(
+    "camera",
+    BATTLE_CAMERA_ALPHA,
+    BATTLE_CAMERA_BETA,
+    BATTLE_CAMERA_RADIUS,
+    Vector3.Zero(),
+    scene
+  );
+  camera.lowerBetaLimit = BATTLE_CAMERA_LOWER_BETA_LIMIT;
+  camera.upperBetaLimit = BATTLE_CAMERA_UPPER_BETA_LIMIT;
+  // The left button paints, so only the right one turns the camera
+  const pointerInput = camera.inputs.attached.pointers as ArcRotateCameraPointersInput | undefined;
+  if (pointerInput) pointerInput.buttons = [2];
+  camera.attachControl(true);
+  const blockContextMenu = (e: Event) => e.preventDefault();
+  canvas.addEventListener("contextmenu", blockContextMenu);
+
+  /** Frame the whole map, whatever its size */
+  function frameCamera(): void {
+    const scale = Math.max(map.width, map.height) / GRID_SIZE;
+    camera.lowerRadiusLimit = BATTLE_CAMERA_LOWER_RADIUS_LIMIT * scale;
+    camera.upperRadiusLimit = BATTLE_CAMERA_UPPER_RADIUS_LIMIT * scale;
+    camera.radius = BATTLE_CAMERA_RADIUS * scale;
+  }
+
+  new HemisphericLight("ambientLight", new Vector3(0, 1, 0), scene);
+  const dirLight = new DirectionalLight("dirLight", new Vector3(-1, -2, -1), scene);
+  dirLight.intensity = 0.5;
+
+  // ============================================
+  // MATERIALS
+  // ============================================
+  function createMaterial(name: string, color: { r: number; g: number; b: number }): StandardMaterial {
+    const material = new StandardMaterial(name, scene);
+    material.diffuseColor = rgbToColor3(color);
+    material.specularColor = new Color3(0.1, 0.1, 0.1);
+    return material;
+  }
+
+  const tileMaterialLight = createMaterial("tileLightMat", TILE_COLOR_LIGHT);
+  const tileMaterialDark = createMaterial("tileDarkMat", TILE_COLOR_DARK);
+  const wallMaterial = createMaterial("wallMat", TERRAIN_COLOR);
+  const lowWallMaterial = createMaterial("lowWallMat", LOW_WALL_COLOR);
+  const groundTerrainMaterials: Partial<Record<TerrainType, StandardMaterial>> = {
+    rough: createMaterial("roughMat", ROUGH_GROUND_COLOR),
+    water: createMaterial("waterMat", WATER_COLOR),
+    hazard: createMaterial("hazardMat", HAZARD_COLOR),
+  };
+  const spawnMaterials: Record<Team, StandardMaterial> = {
+    player1: createMaterial("player1SpawnMat", DEFAULT_TEAM_COLORS.player1),
+    player2: createMaterial("player2SpawnMat", DEFAULT_TEAM_COLORS.player2),
+  };
+  // Holes show as a faint outline so they can be painted back in
+  const holeMaterial = createMaterial("holeMat", TILE_COLOR_DARK);
+  holeMaterial.alpha = 0.15;
+  const objectiveMaterial = createMaterial("objectiveMat", OBJECTIVE_COLOR);
+  objectiveMaterial.emissiveColor = rgbToColor3(OBJECTIVE_COLOR).scale(0.4);
+
+  // ============================================
+  // GRID
+  // ============================================
+  const tileTopY = 0.05;
+  const tileThickness = 0.1;
+  const wallHeight = TILE_SIZE - TILE_GAP;
+  const lowWallHeight = wallHeight * 0.45;
+
+  let gridOffset = { x: 0, z: 0 };
+  let tileMeshes: Mesh[][] = [];
+  let blockMeshes: (Mesh | null)[][] = [];
+  let markerMeshes: Mesh[] = [];
+  let markerLabels: TextBlock[] = [];
+
+  function getTerrainAt(x: number, z: number): TerrainType | null {
+    return MAP_TILE_LEGEND[map.tiles[z][x]] ?? null;
+  }
+
+  function getLevelAt(x: number, z: number): number {
+    return Number(map.heights![z][x]);
+  }
+
+  function getTileElevation(x: number, z: number): number {
+    return getLevelAt(x, z) * ELEVATION_LEVEL_HEIGHT;
+  }
+
+  /** Rebuild the whole grid (after loading a map or resizing) */
+  function buildGrid(): void {
+    for (const column of tileMeshes) column.forEach(mesh => mesh.dispose());
+    for (const column of blockMeshes) column.forEach(mesh => mesh?.dispose());
+    gridOffset = {
+      x: (map.width * TILE_SIZE) / 2 - TILE_SIZE / 2,
+      z: (map.height * TILE_SIZE) / 2 - TILE_SIZE / 2,
+    };
+    tileMeshes = [];
+    blockMeshes = [];
+
+    for (let x = 0; x < map.width; x++) {
+      tileMeshes[x] = [];
+      blockMeshes[x] = [];
+      for (let z = 0; z < map.height; z++) {
+        // A unit-tall box scaled to reach from below ground up to the tile's level
+        const tile = MeshBuilder.CreateBox(`tile_${x}_${z}`, {
+          width: TILE_SIZE - TILE_GAP,
+          height: 1,
+          depth: TILE_SIZE - TILE_GAP,
+        }, scene);
+        tile.metadata = { type: "tile", gridX: x, gridZ: z };
+        tileMeshes[x][z] = tile;
+        blockMeshes[x][z] = null;
+        refreshTile(x, z);
+      }
+    }
+    refreshMarkers();
+    frameCamera();
+  }
+
+  /** Redraw one tile's ground, height and terrain block */
+  function refreshTile(x: number, z: number): void {
+    const terrain = getTerrainAt(x, z);
+    const elevation = getTileElevation(x, z);
+
+    const tile = tileMeshes[x][z];
+    tile.scaling.y = tileThickness + elevation;
+    tile.position = new Vector3(
+      x * TILE_SIZE - gridOffset.x,
+      tileTopY + elevation - (tileThickness + elevation) / 2,
+      z * TILE_SIZE - gridOffset.z
+    );
+    if (map.tiles[z][x] === MAP_HOLE_CHAR) {
+      tile.material = holeMaterial;
+    } else {
+      tile.material = (terrain && groundTerrainMaterials[terrain])
+        ?? ((x + z) % 2 === 0 ? tileMaterialLight : tileMaterialDark);
+    }
+
+    blockMeshes[x][z]?.dispose();
+    blockMeshes[x][z] = null;
+    if (terrain === "wall" || terrain === "lowWall") {
+      const height = terrain === "wall" ? wallHeight : lowWallHeight;
+      const block = MeshBuilder.CreateBox(`terrain_${x}_${z}`, {
+        width: TILE_SIZE - TILE_GAP,
+        height,
+        depth: TILE_SIZE - TILE_GAP,
+      }, scene);
+      block.position = new Vector3(
+        x * TILE_SIZE - gridOffset.x,
+        elevation + tileTopY + height / 2,
+        z * TILE_SIZE - gridOffset.z
+      );
+      block.material = terrain === "wall" ? wallMaterial : lowWallMaterial;
+      // Painting on a block paints its tile
+      block.metadata = { type: "terrain", gridX: x, gridZ: z };
+      blockMeshes[x][z] = block;
+    }
+  }
+
+  /** Redraw spawn slots (numbered in the order units take them) and objectives */
+  function refreshMarkers(): void {
+    markerMeshes.forEach(mesh => mesh.dispose());
+    markerLabels.forEach(label => label.dispose());
+    markerMeshes = [];
+    markerLabels = [];
+
+    const addMarker = (mesh: Mesh, x: number, z: number, text: string, color: string) => {
+      const terrain = getTerrainAt(x, z);
+      const blockHeight = terrain === "wall" ? wallHeight : terrain === "lowWall" ? lowWallHeight : 0;
+      mesh.position = new Vector3(
+        x * TILE_SIZE - gridOffset.x,
+        getTileElevation(x, z) + tileTopY + blockHeight + 0.02,
+        z * TILE_SIZE - gridOffset.z
+      );
+      mesh.isPickable = false;
+      markerMeshes.push(mesh);
+
+      const label = new TextBlock(`${mesh.name}_label`, text);
+      label.fontSize = 13;
+      label.fontWeight = "bold";
+      label.color = color;
+      label.outlineWidth = 2;
+      label.outlineColor = "black";
+      label.isHitTestVisible = false;
+      gui.addControl(label);
+      label.linkWithMesh(mesh);
+      label.linkOffsetY = -14;
+      markerLabels.push(label);
+    };
+
+    for (const team of ["player1", "player2"] as const) {
+      map.spawns[team].forEach((spawn, i) => {
+        const disc = MeshBuilder.CreateCylinder(`spawn_${team}_${i}`, {
+          diameter: (TILE_SIZE - TILE_GAP) * 0.6,
+          height: 0.03,
+        }, scene);
+        disc.material = spawnMaterials[team];
+        addMarker(disc, spawn.x, spawn.z, String(i + 1), "white");
+      });
+    }
+    (map.objectives ?? []).forEach((objective, i) => {
+      const ring = MeshBuilder.CreateTorus(`objective_${i}`, {
+        diameter: (TILE_SIZE - TILE_GAP) * 0.75,
+        thickness: 0.05,
+        tessellation: 32,
+      }, scene);
+      ring.material = objectiveMaterial;
+      addMarker(ring, objective.x, objective.z, objective.label ?? "", "#f2bf33");
+    });
+  }
+
+  // ============================================
+  // EDITING
+  // ============================================
+
+  /** Apply the current tool to a tile. Returns false if nothing changed. */
+  function applyTool(x: number, z: number): boolean {
+    switch (tool) {
+      case "raise":
+      case "lower": {
+        const level = getLevelAt(x, z);
+        const next = Math.max(0, Math.min(MAX_ELEVATION, level + (tool === "raise" ? 1 : -1)));
+        if (next === level) return false;
+        setChar(map.heights!, x, z, String(next));
+        return true;
+      }
+      case "player1":
+      case "player2": {
+        // Clicking a spawn slot removes it; anywhere else adds the next slot
+        const list = map.spawns[tool];
+        const index = list.findIndex(p => p.x === x && p.z === z);
+        if (index !== -1) {
+          list.splice(index, 1);
+          return true;
+        }
+        const other = tool === "player1" ? "player2" : "player1";
+        map.spawns[other] = map.spawns[other].filter(p => p.x !== x || p.z !== z);
+        list.push({ x, z });
+        return true;
+      }
+      case "objective": {
+        const objectives = map.objectives ?? [];
+        const index = objectives.findIndex(p => p.x === x && p.z === z);
+        if (index !== -1) {
+          objectives.splice(index, 1);
+        } else {
+          // Next free letter (A, B, ...)
+          const used = new Set(objectives.map(o => o.label));
+          let code = 65;
+          while (used.has(String.fromCharCode(code)) && code < 90) code++;
+          objectives.push({ x, z, label: String.fromCharCode(code) });
+        }
+        map.objectives = objectives.length > 0 ? objectives : undefined;
+        return true;
+      }
+      case "hole": {
+        // Holes have no ground, so no height either
+        if (map.tiles[z][x] === MAP_HOLE_CHAR) return false;
+        setChar(map.tiles, x, z, MAP_HOLE_CHAR);
+        setChar(map.heights!, x, z, "0");
+        return true;
+      }
+      default: {
+        const char = TERRAIN_CHARS[tool];
+        if (map.tiles[z][x] === char) return false;
+        setChar(map.tiles, x, z, char);
+        return true;
+      }
+    }
+  }
+
+  // Undo history: the map as it was before each edit
+  const undoStack: string[] = [];
+  const redoStack: string[] = [];
+
+  function pushUndo(before: string): void {
+    undoStack.push(before);
+    if (undoStack.length > EDITOR_UNDO_LIMIT) undoStack.shift();
+    redoStack.length = 0;
+  }
+
+  /** Swap in a different map (undo, redo, import, resize) */
+  function loadMap(next: MapDefinition): void {
+    const resized = next.width !== map.width || next.height !== map.height;
+    map = cloneForEditing(next);
+    draft = map;
+    nameInput.text = map.name;
+    if (resized) {
+      buildGrid();
+    } else {
+      for (let x = 0; x < map.width; x++) {
+        for (let z = 0; z < map.height; z++) refreshTile(x, z);
+      }
+      refreshMarkers();
+    }
+    onMapChanged();
+  }
+
+  function undo(): void {
+    const previous = undoStack.pop();
+    if (!previous) return;
+    redoStack.push(serializeMap(map));
+    loadMap(JSON.parse(previous));
+  }
+
+  function redo(): void {
+    const next = redoStack.pop();
+    if (!next) return;
+    undoStack.push(serializeMap(map));
+    loadMap(JSON.parse(next));
+  }
+
+  /** Grow or shrink the map from its far edges, dropping anything that no longer fits */
+  function resize(width: number, height: number): void {
+    const fits = (size: number) => size >= MAP_MIN_SIZE && size <= MAP_MAX_SIZE;
+    if (!fits(width) || !fits(height) || (width === map.width && height === map.height)) return;
+    pushUndo(serializeMap(map));
+    const fit = (rows: string[], fill: string) => Array.from({ length: height }, (_, z) =>
+      (rows[z] ?? "").slice(0, width).padEnd(width, fill)
+    );
+    const inside = (p: { x: number; z: number }) => p.x < width && p.z < height;
+    const objectives = map.objectives?.filter(inside);
+    loadMap({
+      ...map,
+      width,
+      height,
+      tiles: fit(map.tiles, "."),
+      heights: fit(map.heights!, "0"),
+      spawns: { player1: map.spawns.player1.filter(inside), player2: map.spawns.player2.filter(inside) },
+      objectives: objectives && objectives.length > 0 ? objectives : undefined,
+    });
+  }
+
+  // A stroke is one press of the mouse: a single undo step however many tiles it paints
+  let stroke: { before: string; painted: Set<string>; changed: boolean } | null = null;
+
+  function paintAt(x: number, z: number): void {
+    if (!stroke) return;
+    const key = `${x},${z}`;
+    if (stroke.painted.has(key)) return;
+    stroke.painted.add(key);
+    if (!applyTool(x, z)) return;
+
+    stroke.changed = true;
+    refreshTile(x, z);
+    refreshMarkers();
+    onMapChanged();
+  }
+
+  function pickTile(): { x: number; z: number } | null {
+    const pick = scene.pick(scene.pointerX, scene.pointerY, mesh => mesh.metadata?.gridX !== undefined);
+    const metadata = pick?.pickedMesh?.metadata;
+    return metadata ? { x: metadata.gridX, z: metadata.gridZ } : null;
+  }
+
+  scene.onPointerObservable.add((pointerInfo) => {
+    switch (pointerInfo.type) {
+      case PointerEventTypes.POINTERDOWN: {
+        if (pointerInfo.event.button !== 0) return;
+        const tile = pickTile();
+        if (!tile) return;
+        stroke = { before: serializeMap(map), painted: new Set(), changed: false };
+        paintAt(tile.x, tile.z);
+        break;
+      }
+      case PointerEventTypes.POINTERMOVE: {
+        if (!stroke || CLICK_TOOLS.has(tool)) return;
+        const tile = pickTile();
+        if (tile) paintAt(tile.x, tile.z);
+        break;
+      }
+      case PointerEventTypes.POINTERUP:
+        if (!stroke) return;
+        if (stroke.changed) pushUndo(stroke.before);
+        stroke = null;
+        onMapChanged();
+        break;
+    }
+  });
+
+  // Ctrl+Z undoes, Ctrl+Y or Ctrl+Shift+Z redoes (ignored while typing a name)
+  const keyHandler = (e: KeyboardEvent) => {
+    if (!(e.ctrlKey || e.metaKey) || gui.focusedControl === nameInput) return;
+    const key = e.key.toLowerCase();
+    if (key === "z" && !e.shiftKey) {
+      e.preventDefault();
+      undo();
+    } else if (key === "y" || (key === "z" && e.shiftKey)) {
+      e.preventDefault();
+      redo();
+    }
+  };
+  window.addEventListener("keydown", keyHandler);
+  scene.onDisposeObservable.add(() => {
+    window.removeEventListener("keydown", keyHandler);
+    canvas.removeEventListener("contextmenu", blockContextMenu);
+  });
+
+  // ============================================
+  // SIDE PANEL
+  // ============================================
+  const gui = AdvancedDynamicTexture.CreateFullscreenUI("UI");
+
+  const screenWidth = engine.getRenderWidth();
+  const isMobile = screenWidth < 600;
+  const fontSize = isMobile ? 12 : 14;
+  const buttonHeight = isMobile ? "34px" : "38px";
+
+  const sidePanel = new Rectangle("editorSidePanel");
+  sidePanel.width = isMobile ? "200px" : "260px";
+  sidePanel.height = "100%";
+  sidePanel.horizontalAlignment = Control.HORIZONTAL_ALIGNMENT_LEFT;
+  sidePanel.background = COLORS.bgPanel;
+  sidePanel.color = COLORS.border;
+  sidePanel.thickness = 1;
+  // Clicks on the panel never paint the grid behind it
+  sidePanel.isPointerBlocker = true;
+  gui.addControl(sidePanel);
+
+  const panel = new StackPanel("editorPanel");
+  panel.width = "92%";
+  panel.isVertical = true;
+  panel.verticalAlignment = Control.VERTICAL_ALIGNMENT_TOP;
+  panel.paddingTop = "10px";
+  sidePanel.addControl(panel);
+
+  function createText(name: string, text: string, size: number, color: string): TextBlock {
+    const block = new TextBlock(name);
+    block.text = text;
+    block.color = color;
+    block.fontSize = size;
+    block.fontFamily = "'Exo 2', sans-serif";
+    block.height = `${size + 12}px`;
+    return block;
+  }
+
+  function createEditorButton(name: string, text: string, onClick: () => void): Button {
+    const button = Button.CreateSimpleButton(name, text);
+    button.width = "100%";
+    button.height = buttonHeight;
+    button.color = COLORS.textPrimary;
+    button.background = COLORS.bgButton;
+    button.cornerRadius = 4;
+    button.thickness = 1;
+    button.fontSize = fontSize;
+    button.fontFamily = "'Bebas Neue', sans-serif";
+    button.paddingTop = "2px";
+    button.paddingBottom = "2px";
+    button.paddingLeft = "2px";
+    button.paddingRight = "2px";
+    button.onPointerEnterObservable.add(() => {
+      if (button.isEnabled && button.background === COLORS.bgButton) button.background = COLORS.bgButtonHover;
+    });
+    button.onPointerOutObservable.add(() => {
+      if (button.background === COLORS.bgButtonHover) button.background = COLORS.bgButton;
+    });
+    button.onPointerClickObservable.add(() => {
+      if (button.isEnabled) onClick();
+    });
+    return button;
+  }
+
+  /** Lay buttons out side by side in one row */
+  function createButtonRow(name: string, buttons: Button[]): Grid {
+    const row = new Grid(name);
+    row.width = "100%";
+    row.height = buttonHeight;
+    buttons.forEach((button, i) => {
+      row.addColumnDefinition(1 / buttons.length);
+      row.addControl(button, 0, i);
+    });
+    return row;
+  }
+
+  const header = createText("editorHeader", "M A P   E D I T O R", fontSize + 8, COLORS.accent);
+  header.fontFamily = "'Bebas Neue', sans-serif";
+  panel.addControl(header);
+
+  // Name
+  const nameInput = new InputText("mapNameInput", map.name);
+  nameInput.width = "100%";
+  nameInput.height = buttonHeight;
+  nameInput.maxWidth = "100%";
+  nameInput.color = COLORS.textPrimary;
+  nameInput.background = COLORS.bgButton;
+  nameInput.focusedBackground = COLORS.bgButton;
+  nameInput.thickness = 1;
+  nameInput.fontSize = fontSize;
+  nameInput.placeholderText = "Map name";
+  nameInput.placeholderColor = COLORS.textMuted;
+  nameInput.onTextChangedObservable.add(() => {
+    if (nameInput.text === map.name) return;
+    map.name = nameInput.text.trim();
+    map.id = toMapId(map.name);
+    onMapChanged();
+  });
+  panel.addControl(nameInput);
+
+  // Size, one row per side
+  function createSizeRow(axis: "width" | "height") {
+    const text = createText(`${axis}Text`, "", fontSize, COLORS.textPrimary);
+    const label = new Rectangle(`${axis}Label`);
+    label.thickness = 0;
+    label.addControl(text);
+    const step = (delta: number) => axis === "width"
+      ? resize(map.width + delta, map.height)
+      : resize(map.width, map.height + delta);
+    const shrink = createEditorButton(`${axis}ShrinkBtn`, "−", () => step(-1));
+    const grow = createEditorButton(`${axis}GrowBtn`, "+", () => step(1));
+    const row = new Grid(`${axis}Row`);
+    row.width = "100%";
+    row.height = buttonHeight;
+    row.addColumnDefinition(0.25);
+    row.addColumnDefinition(0.5);
+    row.addColumnDefinition(0.25);
+    row.addControl(shrink, 0, 0);
+    row.addControl(label, 0, 1);
+    row.addControl(grow, 0, 2);
+    panel.addControl(row);
+    return { text, shrink, grow };
+  }
+  const widthRow = createSizeRow("width");
+  const heightRow = createSizeRow("height");
+
+  // Tools, two to a row
+  panel.addControl(createText("toolsLabel", "Tools", fontSize - 2, COLORS.textSecondary));
+  const toolButtons = new Map<EditorTool, Button>();
+  for (let i = 0; i < TOOLS.length; i += 2) {
+    const buttons = TOOLS.slice(i, i + 2).map(({ tool: rowTool, label }) => {
+      const button = createEditorButton(`tool_${rowTool}`, label, () => {
+        tool = rowTool;
+        refreshToolButtons();
+      });
+      toolButtons.set(rowTool, button);
+      return button;
+    });
+    panel.addControl(createButtonRow(`toolRow${i / 2}`, buttons));
+  }
+
+  function refreshToolButtons(): void {
+    for (const [buttonTool, button] of toolButtons) {
+      button.background = buttonTool === tool ? COLORS.bgSelected : COLORS.bgButton;
+    }
+  }
+
+  // History and files
+  panel.addControl(createText("fileLabel", "Map", fontSize - 2, COLORS.textSecondary));
+  const undoBtn = createEditorButton("undoBtn", "Undo", undo);
+  const redoBtn = createEditorButton("redoBtn", "Redo", redo);
+  panel.addControl(createButtonRow("historyRow", [undoBtn, redoBtn]));
+
+  const importBtn = createEditorButton("importBtn", "Import", importMap);
+  const exportBtn = createEditorButton("exportBtn", "Export", exportMap);
+  panel.addControl(createButtonRow("fileRow", [importBtn, exportBtn]));
+
+  const newBtn = createEditorButton("newMapBtn", "New Map", () => {
+    pushUndo(serializeMap(map));
+    loadMap(createBlankMap(GRID_SIZE));
+  });
+  panel.addControl(newBtn);
+
+  const playtestBtn = createEditorButton("playtestBtn", "P L A Y T E S T", () => {
+    startPlaytest(parseMapDefinition(cloneForEditing(map)));
+  });
+  playtestBtn.paddingTop = "8px";
+  panel.addControl(playtestBtn);
+
+  panel.addControl(createEditorButton("editorBackBtn", "B A C K", () => navigateTo("title")));
+
+  // Validation results
+  const statusText = createText("editorStatus", "", fontSize - 2, COLORS.textSecondary);
+  statusText.height = "160px";
+  statusText.textWrapping = true;
+  statusText.textVerticalAlignment = Control.VERTICAL_ALIGNMENT_TOP;
+  statusText.paddingTop = "8px";
+  panel.addControl(statusText);
+
+  function setEnabled(button: Button, enabled: boolean): void {
+    button.isEnabled = enabled;
+    button.alpha = enabled ? 1 : 0.4;
+  }
+
+  /** Re-check the map and update everything that depends on it */
+  function onMapChanged(): void {
+    const problems = getMapProblems(map);
+    if (problems.length === 0) {
+      statusText.text = "Map is playable";
+      statusText.color = COLORS.successText;
+    } else {
+      const shown = problems.slice(0, 5).map(p => `• ${p}`);
+      if (problems.length > shown.length) shown.push(`…and ${problems.length - shown.length} more`);
+      statusText.text = shown.join("\n");
+      statusText.color = COLORS.error;
+    }
+
+    widthRow.text.text = `Width ${map.width}`;
+    heightRow.text.text = `Height ${map.height}`;
+    setEnabled(widthRow.shrink, map.width > MAP_MIN_SIZE);
+    setEnabled(widthRow.grow, map.width < MAP_MAX_SIZE);
+    setEnabled(heightRow.shrink, map.height > MAP_MIN_SIZE);
+    setEnabled(heightRow.grow, map.height < MAP_MAX_SIZE);
+    setEnabled(undoBtn, undoStack.length > 0 || stroke?.changed === true);
+    setEnabled(redoBtn, redoStack.length > 0);
+    setEnabled(exportBtn, problems.length === 0);
+    setEnabled(playtestBtn, problems.length === 0);
+  }
+
+  // ============================================
+  // IMPORT / EXPORT
+  // ============================================
+
+  function exportMap(): void {
+    const blob = new Blob([serializeMap(map)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${map.id}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  // Pick a map file and start editing it
+  function importMap(): void {
+    const input = document.createElement("input");
+    input.type = "file";
+    input.accept = ".json,application/json";
+    input.onchange = () => {
+      const file = input.files?.[0];
+      if (!file) return;
+      file.text().then(text => {
+        try {
+          const imported = parseMapDefinition(JSON.parse(text));
+          pushUndo(serializeMap(map));
+          loadMap(imported);
+        } catch (error) {
+          console.error("Could not load map:", error);
+          alert(`Could not load map: ${error instanceof Error ? error.message : error}`);
+        }
+      });
+    };
+    input.click();
+  }
+
+  buildGrid();
+  refreshToolButtons();
+  onMapChanged();
+
+  return scene;
+}
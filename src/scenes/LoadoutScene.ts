@@ -23,9 +23,29 @@ import {
   Control,
   ScrollViewer,
   Image,
+  InputText,
 } from "@babylonjs/gui";
-import { ALL_CLASSES, getClassData, Loadout, UnitSelection, UnitClass, UnitCustomization, SceneName } from "../types";
-import { getGameMode } from "../main";
+import {
+  Loadout, UnitSelection, UnitClass, UnitCustomization, SceneName, Team, MapStyle,
+  EQUIPMENT_DATA, STANDARD_WEAPONS, getEquipmentOptions,
+} from "../types";
+import type { EquipmentSlot, UnitEquipment } from "../types";
+import { getGameMode, getOnlineSession } from "../main";
+import { DEFAULT_MAP_GEN, MAP_GENERATORS } from "../battle";
+import {
+  type SavedLoadout,
+  listSavedLoadouts,
+  saveLoadout,
+  renameSavedLoadout,
+  duplicateSavedLoadout,
+  deleteSavedLoadout,
+  encodeLoadoutCode,
+  decodeLoadoutCode,
+  getSharedLoadoutsFromUrl,
+  getUnitPointCost,
+  getTeamPointCost,
+  checkTeamPoints,
+} from "../loadouts";
 
 // Import centralized config
 import {
@@ -33,10 +53,17 @@ import {
   SCENE_BACKGROUNDS,
   DEFAULT_PLAYER1_COLOR_INDEX,
   DEFAULT_PLAYER2_COLOR_INDEX,
-  UNITS_PER_TEAM,
+  DEFAULT_UNITS_PER_TEAM,
+  MIN_UNITS_PER_TEAM,
+  MAX_UNITS_PER_TEAM,
+  DEFAULT_POINT_BUDGET,
+  POINT_BUDGET_OPTIONS,
+  MAP_DENSITY_OPTIONS,
   SKIN_TONES,
   HAIR_COLORS,
   EYE_COLORS,
+  ALL_CLASSES,
+  getClassData,
 } from "../config";
 import { MUSIC, AUDIO_VOLUMES, LOOP_BUFFER_TIME, DEBUG_SKIP_OFFSET } from "../config";
 import { createMusicPlayer, hexToColor3, hexToColor4 } from "../utils";
@@ -45,6 +72,12 @@ import { createMusicPlayer, hexToColor3, hexToColor4 } from "../utils";
 // Module-level music player (persists across orientation reloads)
 let loadoutMusic: HTMLAudioElement | null = null;
 
+// Picks carried into the rebuilt scene when a saved loadout is loaded
+let carriedSelections: { selections: Loadout; loadedTeam: Team } | null = null;
+
+// Teams shared by link (?p1= / ?p2=) only pre-fill the first loadout screen
+let sharedLoadoutsApplied = false;
+
 // COLOR PALETTE (matches title screen aesthetic)
 // ============================================
 const COLORS = {
@@ -77,32 +110,11 @@ const COLORS = {
   disabled: "#404040",
   success: "#508040",
   successHover: "#609050",
+  error: "#cc4433",
 };
 
 // Greek letters for unit designations
-const UNIT_DESIGNATIONS = ["Δ", "Ψ", "Ω"]; // Delta, Psi, Omega
-
-// Class info
-const CLASS_INFO: Record<UnitClass, { name: string; tagline: string; abilityName: string; abilityDesc: string }> = {
-  soldier: {
-    name: "Soldier",
-    tagline: "The settlement's last line of defense",
-    abilityName: "COVER",
-    abilityDesc: "Activate to counter enemies in range, potentially interrupting their move",
-  },
-  operator: {
-    name: "Operator",
-    tagline: "A ghost in the chaos of battle",
-    abilityName: "CONCEAL",
-    abilityDesc: "Activate to negate the next incoming hit and avoid triggering enemy Cover",
-  },
-  medic: {
-    name: "Medic",
-    tagline: "Keeping hope alive under fire",
-    abilityName: "HEAL",
-    abilityDesc: "Restore HP to self or adjacent allies (diagonals require line of sight)",
-  },
-};
+const UNIT_DESIGNATIONS = ["Δ", "Ψ", "Ω", "Σ", "Φ", "Λ"]; // Delta, Psi, Omega, Sigma, Phi, Lambda
 
 // Boost info - values can be adjusted later
 const BOOST_INFO = [
@@ -120,7 +132,7 @@ function getBoostCopy(boost: typeof BOOST_INFO[0]): string {
 const WEAPON_INFO = {
   ranged: {
     label: "Ranged",
-    desc: "This unit can attack any unit that is not adjacent (including diagonals) and in its Line of Sight",
+    desc: "This unit can attack units in its Line of Sight, from just outside its dead zone out to its range",
   },
   melee: {
     label: "Melee",
@@ -129,16 +141,29 @@ const WEAPON_INFO = {
 };
 
 // Helper to get full unit description
-function getUnitDescription(unitClass: UnitClass, boostIndex: number, weaponStyle: "ranged" | "melee"): string {
-  const cls = CLASS_INFO[unitClass];
+function getUnitDescription(
+  unitClass: UnitClass,
+  boostIndex: number,
+  weaponStyle: "ranged" | "melee",
+  equipment: UnitEquipment
+): string {
+  const cls = getClassData(unitClass);
   const boost = BOOST_INFO[boostIndex];
   const weapon = WEAPON_INFO[weaponStyle];
+  const gearIds = [equipment.weapon ?? STANDARD_WEAPONS[weaponStyle], equipment.armor, equipment.utility]
+    .filter(id => id !== undefined);
+  const gear = gearIds.map(id => `${EQUIPMENT_DATA[id].name} (${EQUIPMENT_DATA[id].description})`);
+  // Same clamp as the battle: at least one tile beyond the dead zone
+  const rangeBonus = gearIds.reduce((sum, id) => sum + (EQUIPMENT_DATA[id].modifiers.attackRange ?? 0), 0);
+  const range = Math.max(cls.minRange + 1, cls.attackRange + rangeBonus);
+  const weaponDesc = weaponStyle === "ranged" ? `${weapon.desc} (${cls.minRange + 1}-${range} tiles)` : weapon.desc;
 
   return [
     `${cls.name}: ${cls.tagline}`,
-    `[${cls.abilityName}]: ${cls.abilityDesc}`,
+    `[${cls.abilityName.toUpperCase()}]: ${cls.abilityDescription}`,
     getBoostCopy(boost),
-    `[${weapon.label.toUpperCase()}]: ${weapon.desc}`,
+    `[${weapon.label.toUpperCase()}]: ${weaponDesc}`,
+    `[GEAR]: ${gear.join(", ")}`,
   ].join("\n\n");
 }
 
@@ -170,8 +195,8 @@ export function createLoadoutScene(
   const smallFontSize = isMobile ? 11 : isTablet ? 12 : 13;
   const tinyFontSize = isMobile ? 10 : isTablet ? 11 : 12;
   const headerFontSize = isMobile ? 20 : isTablet ? 24 : 26;
-  // Unit row: 3 rows of buttons + padding
-  const unitRowHeight = isMobile ? 160 : isTablet ? 180 : 200;
+  // Unit row: 4 rows of buttons + padding
+  const unitRowHeight = isMobile ? 210 : isTablet ? 236 : 260;
   const panelWidth = isMobile ? "98%" : isTablet ? "94%" : "85%";
   const isDesktop = screenWidth >= 1024;
 
@@ -258,14 +283,35 @@ export function createLoadoutScene(
 
   // Get game mode
   const { mode: gameMode, humanTeam } = getGameMode();
+  const isOnline = gameMode === "online-pvp";
+
+  // Online, both team colors were settled in the lobby
+  const lobby = isOnline ? getOnlineSession() : null;
+
+  // Loading from the library rebuilds the scene; pick up where it left off
+  const carried = carriedSelections?.selections.gameMode === gameMode ? carriedSelections : null;
+  carriedSelections = null;
+  const shared = sharedLoadoutsApplied ? {} : getSharedLoadoutsFromUrl();
+  sharedLoadoutsApplied = true;
+
+  // Teams whose appearance was picked on purpose (loaded, imported or linked)
+  const restoredTeams = new Set<Team>(Object.keys(shared) as Team[]);
+  if (carried) restoredTeams.add(carried.loadedTeam);
 
   const selections: Loadout = {
-    player1: [],
-    player2: [],
-    player1TeamColor: TEAM_COLORS[DEFAULT_PLAYER1_COLOR_INDEX].hex,
-    player2TeamColor: TEAM_COLORS[DEFAULT_PLAYER2_COLOR_INDEX].hex,
+    player1: carried?.selections.player1 ?? shared.player1?.slice(0, MAX_UNITS_PER_TEAM) ?? [],
+    player2: carried?.selections.player2 ?? shared.player2?.slice(0, MAX_UNITS_PER_TEAM) ?? [],
+    player1TeamColor: lobby?.getLobbySeat("player1").teamColor
+      ?? carried?.selections.player1TeamColor
+      ?? TEAM_COLORS[DEFAULT_PLAYER1_COLOR_INDEX].hex,
+    player2TeamColor: lobby?.getLobbySeat("player2").teamColor
+      ?? carried?.selections.player2TeamColor
+      ?? TEAM_COLORS[DEFAULT_PLAYER2_COLOR_INDEX].hex,
     gameMode,
     humanTeam,
+    // Online games use the standard budget so both sides build under the same limit
+    pointBudget: (!isOnline && carried?.selections.pointBudget) || DEFAULT_POINT_BUDGET,
+    mapGen: isOnline ? undefined : { ...(carried?.selections.mapGen ?? DEFAULT_MAP_GEN) },
   };
 
   // Track team color refresh callbacks
@@ -283,6 +329,9 @@ export function createLoadoutScene(
     player2: [],
   };
 
+  // Track point total refresh callbacks (called when a unit or the budget changes)
+  const pointTotalRefreshCallbacks: { player1?: () => void; player2?: () => void } = {};
+
   // Track callbacks to mark units as customized (called when appearance editor saves)
   const customizedMarkers: Record<string, () => void> = {};
 
@@ -368,16 +417,40 @@ export function createLoadoutScene(
   startBtn.alpha = 0.5;
   startBtn.onPointerClickObservable.add(() => {
     if (isReadyToStart()) {
+      if (isOnline) {
+        // The battle starts once the opponent has submitted their team too
+        if (startBtn.textBlock) startBtn.textBlock.text = "W A I T I N G   F O R   O P P O N E N T";
+        startBtn.isEnabled = false;
+        startBtn.alpha = 0.5;
+      }
       onStartBattle(selections);
     }
   });
   startBtnContainer.addControl(startBtn);
 
+  // The host sends back a team that breaks the rules: pick again
+  if (lobby) {
+    lobby.setLoadoutRejectedCallback((reason) => {
+      alert(`Your team was refused: ${reason}`);
+      if (startBtn.textBlock) startBtn.textBlock.text = "S T A R T   B A T T L E";
+      updateStartButton();
+    });
+    scene.onDisposeObservable.add(() => lobby.setLoadoutRejectedCallback(null));
+  }
+
+  function isTeamReady(team: Team): boolean {
+    return checkTeamPoints(selections[team], selections.pointBudget ?? DEFAULT_POINT_BUDGET).ok;
+  }
+
   function isReadyToStart(): boolean {
-    return selections.player1.length === UNITS_PER_TEAM && selections.player2.length === UNITS_PER_TEAM;
+    // Online, each player only picks their own team
+    if (isOnline) return isTeamReady(humanTeam);
+    return isTeamReady("player1") && isTeamReady("player2");
   }
 
   function updateStartButton(): void {
+    pointTotalRefreshCallbacks.player1?.();
+    pointTotalRefreshCallbacks.player2?.();
     const ready = isReadyToStart();
     startBtn.isEnabled = ready;
     startBtn.alpha = ready ? 1 : 0.5;
@@ -398,18 +471,105 @@ export function createLoadoutScene(
   const player1Name = gameMode === "local-pve" && humanTeam !== "player1" ? "Computer" : "Player 1";
   const player2Name = gameMode === "local-pve" && humanTeam !== "player2" ? "Computer" : "Player 2";
 
-  // Create both player panels
-  createPlayerPanel(player1Name, "player1", selections.player1, mainStack);
+  // ============================================
+  // MATCH SETTINGS (point budget, map generation)
+  // ============================================
 
-  // Separator
-  const separator = new Rectangle("separator");
-  separator.width = panelWidth;
-  separator.height = "2px";
-  separator.background = COLORS.borderWarm;
-  separator.thickness = 0;
-  mainStack.addControl(separator);
+  /** A labelled row of buttons picking one of several values */
+  function createOptionRow<T>(
+    name: string,
+    label: string,
+    options: readonly { text: string; value: T }[],
+    isSelected: (value: T) => boolean,
+    onSelect: (value: T) => void,
+    buttonWidth: number = isMobile ? 52 : 70
+  ): void {
+    const row = new StackPanel(`${name}Row`);
+    row.isVertical = false;
+    row.height = `${smallButtonHeight + 10}px`;
+    row.paddingBottom = "10px";
+    mainStack.addControl(row);
+
+    const rowLabel = new TextBlock(`${name}Label`, label);
+    rowLabel.width = isMobile ? "90px" : "120px";
+    rowLabel.color = COLORS.textMuted;
+    rowLabel.fontSize = smallFontSize;
+    row.addControl(rowLabel);
 
-  createPlayerPanel(player2Name, "player2", selections.player2, mainStack);
+    const buttons: Button[] = [];
+    const refreshButtons = (): void => {
+      options.forEach((option, i) => {
+        buttons[i].background = isSelected(option.value) ? COLORS.selected : COLORS.bgButton;
+      });
+    };
+    for (const option of options) {
+      const btn = Button.CreateSimpleButton(`${name}_${option.text}`, option.text);
+      btn.width = `${buttonWidth}px`;
+      btn.height = `${smallButtonHeight}px`;
+      btn.paddingLeft = "3px";
+      btn.paddingRight = "3px";
+      btn.color = COLORS.textPrimary;
+      btn.cornerRadius = 4;
+      btn.fontSize = smallFontSize;
+      btn.onPointerClickObservable.add(() => {
+        onSelect(option.value);
+        refreshButtons();
+      });
+      buttons.push(btn);
+      row.addControl(btn);
+    }
+    refreshButtons();
+  }
+
+  if (!isOnline) {
+    createOptionRow(
+      "budget",
+      "POINT BUDGET",
+      POINT_BUDGET_OPTIONS.map(budget => ({ text: String(budget), value: budget })),
+      budget => budget === selections.pointBudget,
+      budget => {
+        selections.pointBudget = budget;
+        updateStartButton();
+      }
+    );
+
+    // Generated maps only; a hand-authored map ignores these
+    const mapGen = selections.mapGen!;
+    createOptionRow(
+      "mapStyle",
+      "MAP STYLE",
+      (Object.keys(MAP_GENERATORS) as MapStyle[]).map(style => ({ text: MAP_GENERATORS[style].name, value: style })),
+      style => style === mapGen.style,
+      style => { mapGen.style = style; },
+      isMobile ? 52 : 80
+    );
+    createOptionRow(
+      "mapDensity",
+      "TERRAIN",
+      MAP_DENSITY_OPTIONS.map(option => ({ text: option.label, value: option.density })),
+      density => density === mapGen.density,
+      density => { mapGen.density = density; },
+      isMobile ? 60 : 80
+    );
+  }
+
+  if (isOnline) {
+    // Online: only the local team is picked here; the opponent picks theirs
+    createPlayerPanel("You", humanTeam, selections[humanTeam], mainStack);
+  } else {
+    // Create both player panels
+    createPlayerPanel(player1Name, "player1", selections.player1, mainStack);
+
+    // Separator
+    const separator = new Rectangle("separator");
+    separator.width = panelWidth;
+    separator.height = "2px";
+    separator.background = COLORS.borderWarm;
+    separator.thickness = 0;
+    mainStack.addControl(separator);
+
+    createPlayerPanel(player2Name, "player2", selections.player2, mainStack);
+  }
 
   // ============================================
   // PLAYER PANEL
@@ -420,11 +580,14 @@ export function createLoadoutScene(
     selectionArray: UnitSelection[],
     parent: StackPanel
   ): void {
-    const defaultColor = playerId === "player1"
-      ? TEAM_COLORS[DEFAULT_PLAYER1_COLOR_INDEX].hex
-      : TEAM_COLORS[DEFAULT_PLAYER2_COLOR_INDEX].hex;
+    const defaultColor = (playerId === "player1" ? selections.player1TeamColor : selections.player2TeamColor)
+      ?? TEAM_COLORS[playerId === "player1" ? DEFAULT_PLAYER1_COLOR_INDEX : DEFAULT_PLAYER2_COLOR_INDEX].hex;
 
-    const panelHeight = unitRowHeight * UNITS_PER_TEAM + 80;
+    // Start from the carried-over team, or the default size
+    const teamSize = selectionArray.length > 0
+      ? Math.min(selectionArray.length, MAX_UNITS_PER_TEAM)
+      : DEFAULT_UNITS_PER_TEAM;
+    const panelHeight = unitRowHeight * teamSize + 80 + (smallButtonHeight + 10) * 2;
 
     const panel = new Rectangle(`${playerId}Panel`);
     panel.width = panelWidth;
@@ -539,6 +702,60 @@ export function createLoadoutScene(
 
     teamColorRefreshCallbacks[playerId] = refreshColorSwatches;
 
+    // Loadout library and share codes
+    const libraryRow = new Grid(`${playerId}LibraryRow`);
+    libraryRow.width = "95%";
+    libraryRow.height = `${smallButtonHeight + 10}px`;
+    libraryRow.addColumnDefinition(0.4);
+    libraryRow.addColumnDefinition(0.3);
+    libraryRow.addColumnDefinition(0.3);
+    libraryRow.addRowDefinition(1);
+    panelStack.addControl(libraryRow);
+
+    const createPanelButton = (name: string, label: string, column: number, onClick: (btn: Button) => void): Button => {
+      const btn = Button.CreateSimpleButton(`${playerId}${name}`, label);
+      btn.width = "95%";
+      btn.height = `${smallButtonHeight}px`;
+      btn.color = COLORS.textSecondary;
+      btn.background = COLORS.bgButton;
+      btn.cornerRadius = 4;
+      btn.fontSize = smallFontSize;
+      btn.fontFamily = "'Bebas Neue', sans-serif";
+      btn.onPointerEnterObservable.add(() => { btn.background = COLORS.bgButtonHover; });
+      btn.onPointerOutObservable.add(() => { btn.background = COLORS.bgButton; });
+      btn.onPointerClickObservable.add(() => onClick(btn));
+      libraryRow.addControl(btn, 0, column);
+      return btn;
+    };
+
+    createPanelButton("Library", isMobile ? "L I B R A R Y" : "L O A D O U T   L I B R A R Y", 0, () => {
+      openLibrary(playerId, playerName);
+    });
+
+    createPanelButton("CopyCode", "C O P Y   C O D E", 1, (btn) => {
+      const code = encodeLoadoutCode(selectionArray);
+      const showCopied = () => {
+        if (!btn.textBlock) return;
+        btn.textBlock.text = "C O P I E D";
+        setTimeout(() => { if (btn.textBlock) btn.textBlock.text = "C O P Y   C O D E"; }, 1500);
+      };
+      const copy = navigator.clipboard?.writeText(code) ?? Promise.reject(new Error("Clipboard unavailable"));
+      copy.then(showCopied, () => {
+        // No clipboard access: let the player copy it by hand
+        prompt("Copy this loadout code:", code);
+      });
+    });
+
+    createPanelButton("ImportCode", "I M P O R T   C O D E", 2, () => {
+      const code = prompt("Paste a loadout code:");
+      if (!code) return;
+      try {
+        replaceTeam(playerId, decodeLoadoutCode(code));
+      } catch (error) {
+        alert(`Could not import loadout: ${error instanceof Error ? error.message : error}`);
+      }
+    });
+
     // Unit rows container
     const unitsContainer = new StackPanel(`${playerId}Units`);
     unitsContainer.width = "100%";
@@ -547,10 +764,51 @@ export function createLoadoutScene(
     unitsContainer.paddingBottom = "10px";
     panelStack.addControl(unitsContainer);
 
-    // Create 3 unit selection rows
-    for (let i = 0; i < UNITS_PER_TEAM; i++) {
-      createUnitRow(i, playerId, selectionArray, unitsContainer);
+    for (let i = 0; i < teamSize; i++) {
+      createUnitRow(i, playerId, selectionArray, unitsContainer, teamSize > MIN_UNITS_PER_TEAM);
     }
+
+    // Running point total and team size controls
+    const pointsRow = new Grid(`${playerId}PointsRow`);
+    pointsRow.width = "95%";
+    pointsRow.height = `${smallButtonHeight + 10}px`;
+    pointsRow.addColumnDefinition(0.6);
+    pointsRow.addColumnDefinition(0.4);
+    pointsRow.addRowDefinition(1);
+    panelStack.addControl(pointsRow);
+
+    const pointsText = new TextBlock(`${playerId}Points`);
+    pointsText.fontSize = fontSize;
+    pointsText.fontFamily = "'Bebas Neue', sans-serif";
+    pointsText.textHorizontalAlignment = Control.HORIZONTAL_ALIGNMENT_LEFT;
+    pointsText.paddingLeft = "10px";
+    pointsRow.addControl(pointsText, 0, 0);
+
+    const addUnitBtn = Button.CreateSimpleButton(`${playerId}AddUnit`, "+   A D D   U N I T");
+    addUnitBtn.width = "95%";
+    addUnitBtn.height = `${smallButtonHeight}px`;
+    addUnitBtn.color = COLORS.textSecondary;
+    addUnitBtn.background = COLORS.bgButton;
+    addUnitBtn.cornerRadius = 4;
+    addUnitBtn.fontSize = smallFontSize;
+    addUnitBtn.fontFamily = "'Bebas Neue', sans-serif";
+    addUnitBtn.isEnabled = teamSize < MAX_UNITS_PER_TEAM;
+    addUnitBtn.alpha = addUnitBtn.isEnabled ? 1 : 0.5;
+    addUnitBtn.onPointerEnterObservable.add(() => { if (addUnitBtn.isEnabled) addUnitBtn.background = COLORS.bgButtonHover; });
+    addUnitBtn.onPointerOutObservable.add(() => { addUnitBtn.background = COLORS.bgButton; });
+    addUnitBtn.onPointerClickObservable.add(() => {
+      if (!addUnitBtn.isEnabled) return;
+      replaceTeam(playerId, [...selectionArray, { unitClass: ALL_CLASSES[0], boost: 0 }]);
+    });
+    pointsRow.addControl(addUnitBtn, 0, 1);
+
+    pointTotalRefreshCallbacks[playerId] = () => {
+      const budget = selections.pointBudget ?? DEFAULT_POINT_BUDGET;
+      const check = checkTeamPoints(selectionArray, budget);
+      pointsText.text = `POINTS  ${getTeamPointCost(selectionArray)} / ${budget}   -   ${selectionArray.length} UNIT${selectionArray.length === 1 ? "" : "S"}`;
+      pointsText.color = check.ok ? COLORS.textPrimary : COLORS.error;
+    };
+    pointTotalRefreshCallbacks[playerId]!();
   }
 
   // ============================================
@@ -838,7 +1096,7 @@ export function createLoadoutScene(
   function updateEditorPreview(): void {
     if (!editingUnit) return;
 
-    const unitClass = editingUnit.selectionArray[editingUnit.unitIndex]?.unitClass || "soldier";
+    const unitClass = editingUnit.selectionArray[editingUnit.unitIndex]?.unitClass || ALL_CLASSES[0];
     const classData = getClassData(unitClass);
     const gender = editingCustomization.body === "male" ? "m" : "f";
     const modelKey = `${classData.modelFile}_${gender}`;
@@ -896,7 +1154,7 @@ export function createLoadoutScene(
   gui.addControl(appearanceOverlay);
 
   // Set the overlay check for main scroll (skips scrolling when editor is open)
-  mainScrollOverlayCheck = () => appearanceOverlay.isVisible;
+  mainScrollOverlayCheck = () => appearanceOverlay.isVisible || libraryOverlay.isVisible;
 
   // Layout structure differs by device:
   // Mobile portrait: Sticky preview at top (35%), scrollable options below (65%)
@@ -1263,27 +1521,264 @@ export function createLoadoutScene(
     editorLoadedModelKey = "";
   }
 
+  // ============================================
+  // LOADOUT LIBRARY OVERLAY
+  // ============================================
+  let libraryTeam: Team = "player1";
+  let selectedLibraryId: string | null = null;
+
+  const libraryOverlay = new Rectangle("libraryOverlay");
+  libraryOverlay.width = "100%";
+  libraryOverlay.height = "100%";
+  libraryOverlay.background = COLORS.bgDeep + "ee";
+  libraryOverlay.thickness = 0;
+  libraryOverlay.isVisible = false;
+  libraryOverlay.zIndex = 500;
+  gui.addControl(libraryOverlay);
+
+  const libraryPanel = new Rectangle("libraryPanel");
+  libraryPanel.width = isMobile ? "94%" : "520px";
+  libraryPanel.adaptHeightToChildren = true;
+  libraryPanel.background = COLORS.bgPanel;
+  libraryPanel.color = COLORS.borderLight;
+  libraryPanel.thickness = 1;
+  libraryPanel.cornerRadius = 8;
+  libraryOverlay.addControl(libraryPanel);
+
+  const libraryStack = new StackPanel("libraryStack");
+  libraryStack.width = "100%";
+  libraryStack.isVertical = true;
+  libraryStack.paddingTop = "15px";
+  libraryStack.paddingBottom = "15px";
+  libraryStack.paddingLeft = "15px";
+  libraryStack.paddingRight = "15px";
+  libraryPanel.addControl(libraryStack);
+
+  const libraryTitle = new TextBlock("libraryTitle");
+  libraryTitle.height = isMobile ? "36px" : "44px";
+  libraryTitle.color = COLORS.textPrimary;
+  libraryTitle.fontSize = isMobile ? 18 : headerFontSize;
+  libraryTitle.fontFamily = "'Bebas Neue', sans-serif";
+  libraryTitle.textHorizontalAlignment = Control.HORIZONTAL_ALIGNMENT_LEFT;
+  libraryStack.addControl(libraryTitle);
+
+  const libraryNameInput = new InputText("libraryName");
+  libraryNameInput.width = "100%";
+  libraryNameInput.height = `${smallButtonHeight}px`;
+  libraryNameInput.maxWidth = "100%";
+  libraryNameInput.color = COLORS.textPrimary;
+  libraryNameInput.background = COLORS.bgUnitRow;
+  libraryNameInput.focusedBackground = COLORS.bgUnitRow;
+  libraryNameInput.thickness = 1;
+  libraryNameInput.fontSize = fontSize;
+  libraryNameInput.placeholderText = "Loadout name";
+  libraryNameInput.placeholderColor = COLORS.textMuted;
+  libraryStack.addControl(libraryNameInput);
+
+  const libraryListScroll = new ScrollViewer("libraryListScroll");
+  libraryListScroll.width = "100%";
+  libraryListScroll.height = isMobile ? "200px" : "260px";
+  libraryListScroll.thickness = 0;
+  libraryListScroll.paddingTop = "10px";
+  libraryListScroll.barSize = 8;
+  libraryListScroll.barColor = COLORS.borderWarm;
+  libraryListScroll.barBackground = "transparent";
+  libraryStack.addControl(libraryListScroll);
+
+  const libraryList = new StackPanel("libraryList");
+  libraryList.width = "100%";
+  libraryList.isVertical = true;
+  libraryListScroll.addControl(libraryList);
+
+  // Action buttons: two rows so they fit on phones
+  function createLibraryButtonRow(name: string): StackPanel {
+    const row = new StackPanel(name);
+    row.isVertical = false;
+    row.height = `${smallButtonHeight + 10}px`;
+    row.paddingTop = "10px";
+    row.horizontalAlignment = Control.HORIZONTAL_ALIGNMENT_LEFT;
+    libraryStack.addControl(row);
+    return row;
+  }
+
+  function createLibraryButton(row: StackPanel, name: string, label: string, onClick: () => void, primary = false): Button {
+    const background = primary ? COLORS.success : COLORS.bgButton;
+    const hover = primary ? COLORS.successHover : COLORS.bgButtonHover;
+    const btn = Button.CreateSimpleButton(name, label);
+    btn.width = isMobile ? "86px" : "110px";
+    btn.height = `${smallButtonHeight}px`;
+    btn.paddingRight = "6px";
+    btn.color = primary ? COLORS.textPrimary : COLORS.textSecondary;
+    btn.background = background;
+    btn.cornerRadius = 4;
+    btn.fontSize = smallFontSize;
+    btn.fontFamily = "'Bebas Neue', sans-serif";
+    btn.onPointerEnterObservable.add(() => { if (btn.isEnabled) btn.background = hover; });
+    btn.onPointerOutObservable.add(() => { btn.background = background; });
+    btn.onPointerClickObservable.add(() => { if (btn.isEnabled) onClick(); });
+    row.addControl(btn);
+    return btn;
+  }
+
+  const libraryPrimaryRow = createLibraryButtonRow("libraryPrimaryRow");
+  createLibraryButton(libraryPrimaryRow, "librarySave", "S A V E   N E W", saveCurrentToLibrary, true);
+  const libraryLoadBtn = createLibraryButton(libraryPrimaryRow, "libraryLoad", "L O A D", () => {
+    const entry = listSavedLoadouts().find(e => e.id === selectedLibraryId);
+    if (entry) loadFromLibrary(entry);
+  }, true);
+  createLibraryButton(libraryPrimaryRow, "libraryClose", "C L O S E", closeLibrary);
+
+  const libraryEditRow = createLibraryButtonRow("libraryEditRow");
+  const libraryRenameBtn = createLibraryButton(libraryEditRow, "libraryRename", "R E N A M E", () => {
+    if (!selectedLibraryId) return;
+    runLibraryAction(() => renameSavedLoadout(selectedLibraryId!, libraryNameInput.text));
+  });
+  const libraryDuplicateBtn = createLibraryButton(libraryEditRow, "libraryDuplicate", "D U P L I C A T E", () => {
+    if (!selectedLibraryId) return;
+    runLibraryAction(() => {
+      const copy = duplicateSavedLoadout(selectedLibraryId!);
+      if (copy) selectLibraryEntry(copy);
+    });
+  });
+  const libraryDeleteBtn = createLibraryButton(libraryEditRow, "libraryDelete", "D E L E T E", () => {
+    if (!selectedLibraryId) return;
+    runLibraryAction(() => {
+      deleteSavedLoadout(selectedLibraryId!);
+      selectedLibraryId = null;
+    });
+  });
+
+  /** Run a storage change, then redraw; storage failures are shown to the player */
+  function runLibraryAction(action: () => void): void {
+    try {
+      action();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : String(error));
+    }
+    refreshLibraryList();
+  }
+
+  function selectLibraryEntry(entry: SavedLoadout): void {
+    selectedLibraryId = entry.id;
+    libraryNameInput.text = entry.name;
+  }
+
+  function refreshLibraryList(): void {
+    libraryList.clearControls();
+    const entries = listSavedLoadouts();
+    if (!entries.some(e => e.id === selectedLibraryId)) selectedLibraryId = null;
+
+    if (entries.length === 0) {
+      const empty = new TextBlock("libraryEmpty", "No saved loadouts yet");
+      empty.height = "40px";
+      empty.color = COLORS.textMuted;
+      empty.fontSize = smallFontSize;
+      libraryList.addControl(empty);
+    }
+
+    for (const entry of entries) {
+      const isSelected = entry.id === selectedLibraryId;
+      const classes = entry.units.map(u => getClassData(u.unitClass).name).join(" / ");
+      const btn = Button.CreateSimpleButton(`libraryEntry_${entry.id}`, `${entry.name}   -   ${classes}`);
+      btn.width = "100%";
+      btn.height = `${smallButtonHeight}px`;
+      btn.paddingBottom = "4px";
+      btn.color = isSelected ? COLORS.textPrimary : COLORS.textSecondary;
+      btn.background = isSelected ? COLORS.selected : COLORS.bgUnitRow;
+      btn.thickness = 1;
+      btn.cornerRadius = 4;
+      btn.fontSize = smallFontSize;
+      if (btn.textBlock) {
+        btn.textBlock.textHorizontalAlignment = Control.HORIZONTAL_ALIGNMENT_LEFT;
+        btn.textBlock.paddingLeft = "10px";
+      }
+      btn.onPointerClickObservable.add(() => {
+        selectLibraryEntry(entry);
+        refreshLibraryList();
+      });
+      libraryList.addControl(btn);
+    }
+
+    const hasSelection = selectedLibraryId !== null;
+    for (const btn of [libraryLoadBtn, libraryRenameBtn, libraryDuplicateBtn, libraryDeleteBtn]) {
+      btn.isEnabled = hasSelection;
+      btn.alpha = hasSelection ? 1 : 0.5;
+    }
+  }
+
+  function openLibrary(playerId: Team, playerName: string): void {
+    libraryTeam = playerId;
+    selectedLibraryId = null;
+    libraryNameInput.text = "";
+    libraryTitle.text = `LOADOUT LIBRARY - ${playerName.toUpperCase()}`;
+    refreshLibraryList();
+    libraryOverlay.isVisible = true;
+  }
+
+  function closeLibrary(): void {
+    libraryOverlay.isVisible = false;
+  }
+
+  function saveCurrentToLibrary(): void {
+    const teamColor = (libraryTeam === "player1" ? selections.player1TeamColor : selections.player2TeamColor) ?? "";
+    const name = libraryNameInput.text.trim() || `Loadout ${listSavedLoadouts().length + 1}`;
+    runLibraryAction(() => selectLibraryEntry(saveLoadout(name, selections[libraryTeam], teamColor)));
+  }
+
+  function loadFromLibrary(entry: SavedLoadout): void {
+    replaceTeam(libraryTeam, entry.units, entry.teamColor);
+  }
+
+  /** Swap in a saved or imported team (rebuilds the scene, keeping the other team) */
+  function replaceTeam(team: Team, units: UnitSelection[], teamColor?: string): void {
+    const loaded = units.slice(0, MAX_UNITS_PER_TEAM).map(u => ({
+      ...u,
+      customization: u.customization ? { ...u.customization } : undefined,
+    }));
+    const next: Loadout = {
+      ...selections,
+      player1: team === "player1" ? loaded : [...selections.player1],
+      player2: team === "player2" ? loaded : [...selections.player2],
+    };
+
+    // A saved color only applies if it's free (online it was settled in the lobby)
+    const otherColor = team === "player1" ? selections.player2TeamColor : selections.player1TeamColor;
+    const isKnownColor = TEAM_COLORS.some(c => c.hex === teamColor);
+    if (teamColor && !isOnline && isKnownColor && teamColor !== otherColor) {
+      if (team === "player1") next.player1TeamColor = teamColor;
+      else next.player2TeamColor = teamColor;
+    }
+
+    carriedSelections = { selections: next, loadedTeam: team };
+    isOrientationReload = true; // Keep the music playing through the rebuild
+    navigateTo("loadout");
+  }
+
   // ============================================
   // UNIT ROW - Clean grid layout
-  // Mobile: [Greek] [3x3 buttons] [info icon]
-  // Tablet: [Greek] [3x3 buttons] [copy text]
-  // Desktop: [Greek] [3x3 buttons] [copy text] [preview]
+  // Mobile: [Greek] [4x3 buttons] [info icon]
+  // Tablet: [Greek] [4x3 buttons] [copy text]
+  // Desktop: [Greek] [4x3 buttons] [copy text] [preview]
   // ============================================
   function createUnitRow(
     unitIndex: number,
     playerId: string,
     selectionArray: UnitSelection[],
-    parent: StackPanel
+    parent: StackPanel,
+    canRemove: boolean
   ): void {
     // State - defaults based on unit index for variety
     // Delta (0): Soldier/Tough/Ranged, Psi (1): Operator/Deadly/Melee, Omega (2): Medic/Quick/Ranged
-    const defaultClasses: UnitClass[] = ["soldier", "operator", "medic"];
+    const defaultClasses: UnitClass[] = ALL_CLASSES;
     const defaultBoosts = [0, 1, 2]; // Tough, Deadly, Quick
     const defaultStyles: ("ranged" | "melee")[] = ["ranged", "melee", "ranged"];
 
-    let selectedClass: UnitClass = defaultClasses[unitIndex] || "soldier";
-    let selectedBoost = defaultBoosts[unitIndex] ?? 0;
-    let selectedStyle: ("ranged" | "melee") = defaultStyles[unitIndex] || "ranged";
+    // Picks carried over from a library load take precedence
+    const restored = selectionArray[unitIndex];
+    let selectedClass: UnitClass = restored?.unitClass ?? (defaultClasses[unitIndex] || ALL_CLASSES[0]);
+    let selectedBoost = restored?.boost ?? defaultBoosts[unitIndex] ?? 0;
+    let selectedStyle: ("ranged" | "melee") = restored?.customization?.combatStyle ?? (defaultStyles[unitIndex] || "ranged");
+    const selectedEquipment: UnitEquipment = { ...restored?.equipment };
 
     // Card container
     const row = new Rectangle(`${playerId}Unit${unitIndex}`);
@@ -1339,18 +1834,49 @@ export function createLoadoutScene(
     unitDesignation.textVerticalAlignment = Control.VERTICAL_ALIGNMENT_CENTER;
     greekContainer.addControl(unitDesignation);
 
-    // === COLUMN 1: 3x3 Button Grid ===
+    // Unit cost under the designation
+    const costText = new TextBlock();
+    costText.color = COLORS.textMuted;
+    costText.fontSize = tinyFontSize;
+    costText.textVerticalAlignment = Control.VERTICAL_ALIGNMENT_CENTER;
+    costText.top = `${headerFontSize}px`;
+    greekContainer.addControl(costText);
+
+    // Remove this unit (teams can shrink down to the minimum size)
+    const teamForRow = playerId as Team;
+    if (canRemove) {
+      const removeBtn = Button.CreateSimpleButton(`${playerId}Unit${unitIndex}Remove`, "✕");
+      removeBtn.width = "28px";
+      removeBtn.height = "28px";
+      removeBtn.verticalAlignment = Control.VERTICAL_ALIGNMENT_TOP;
+      removeBtn.top = "6px";
+      removeBtn.color = COLORS.textMuted;
+      removeBtn.thickness = 0;
+      removeBtn.fontSize = smallFontSize;
+      removeBtn.onPointerEnterObservable.add(() => { removeBtn.color = COLORS.error; });
+      removeBtn.onPointerOutObservable.add(() => { removeBtn.color = COLORS.textMuted; });
+      removeBtn.onPointerClickObservable.add(() => {
+        if (selectionArray.length <= MIN_UNITS_PER_TEAM) return;
+        replaceTeam(teamForRow, selectionArray.filter((_, i) => i !== unitIndex));
+      });
+      greekContainer.addControl(removeBtn);
+    }
+
+    // === COLUMN 1: 4x3 Button Grid ===
     const buttonGrid = new Grid(`${playerId}Unit${unitIndex}Buttons`);
     buttonGrid.width = "100%";
     buttonGrid.height = "100%";
-    buttonGrid.addColumnDefinition(1 / 3);
-    buttonGrid.addColumnDefinition(1 / 3);
-    buttonGrid.addColumnDefinition(1 / 3);
-    buttonGrid.addRowDefinition(1 / 3);
-    buttonGrid.addRowDefinition(1 / 3);
-    buttonGrid.addRowDefinition(1 / 3);
     mainGrid.addControl(buttonGrid, 0, 1);
 
+    // One sub-grid per button row; the class row has a column for every class
+    const buttonRows = [ALL_CLASSES.length, 3, 3, 3].map((columns, r) => {
+      const rowGrid = new Grid(`${playerId}Unit${unitIndex}ButtonRow${r}`);
+      for (let c = 0; c < columns; c++) rowGrid.addColumnDefinition(1 / columns);
+      buttonGrid.addRowDefinition(1 / 4);
+      buttonGrid.addControl(rowGrid, r, 0);
+      return rowGrid;
+    });
+
     const btnWidth = isMobile ? "90%" : "85%";
     const btnHeight = `${smallButtonHeight}px`;
 
@@ -1363,19 +1889,20 @@ export function createLoadoutScene(
       btn.background = isSelected ? COLORS.selected : COLORS.bgButton;
       btn.cornerRadius = 4;
       btn.fontSize = smallFontSize;
-      buttonGrid.addControl(btn, row, col);
+      buttonRows[row].addControl(btn, 0, col);
       return btn;
     }
 
-    // Row 0: Class buttons (Soldier, Operator, Medic)
+    // Row 0: Class buttons (one per class definition)
     const classButtons: Button[] = [];
     ALL_CLASSES.forEach((cls, i) => {
-      const btn = createBtn(`${playerId}${unitIndex}class${i}`, CLASS_INFO[cls].name, 0, i, cls === selectedClass);
+      const btn = createBtn(`${playerId}${unitIndex}class${i}`, getClassData(cls).name, 0, i, cls === selectedClass);
       btn.onPointerClickObservable.add(() => {
         selectedClass = cls;
         classButtons.forEach((b, j) => {
           b.background = j === i ? COLORS.selected : COLORS.bgButton;
         });
+        refreshEquipment();
         // Randomize appearance when class changes
         updateUnitSelection(true);
         updateCopy();
@@ -1407,17 +1934,59 @@ export function createLoadoutScene(
         weaponButtons.forEach((b, j) => {
           b.background = j === i ? COLORS.selected : COLORS.bgButton;
         });
+        refreshEquipment();
         updateCopy();
         updateUnitSelection();
       });
       weaponButtons.push(btn);
     });
 
+    // Row 3: Equipment buttons (Weapon, Armor, Utility) - each click cycles the slot's options
+    const equipmentSlots: EquipmentSlot[] = ["weapon", "armor", "utility"];
+    const equipmentButtons = equipmentSlots.map((slot, i) =>
+      createBtn(`${playerId}${unitIndex}${slot}`, "", 3, i, false)
+    );
+
+    // Options for a slot; armor and utility can be left empty
+    function slotChoices(slot: EquipmentSlot): (string | undefined)[] {
+      const ids = getEquipmentOptions(slot, selectedClass, selectedStyle).map(item => item.id);
+      return slot === "weapon" ? ids : [undefined, ...ids];
+    }
+
+    // Drop picks the current class/style can't use, then relabel the buttons
+    function refreshEquipment(): void {
+      equipmentSlots.forEach((slot, i) => {
+        const choices = slotChoices(slot);
+        if (!choices.includes(selectedEquipment[slot])) delete selectedEquipment[slot];
+        const id = slot === "weapon" ? selectedEquipment.weapon ?? STANDARD_WEAPONS[selectedStyle] : selectedEquipment[slot];
+        const btn = equipmentButtons[i];
+        if (btn.textBlock) btn.textBlock.text = id ? EQUIPMENT_DATA[id].name : `No ${slot === "armor" ? "Armor" : "Utility"}`;
+        btn.background = id && EQUIPMENT_DATA[id].pointCost > 0 ? COLORS.selected : COLORS.bgButton;
+      });
+    }
+
+    equipmentSlots.forEach((slot, i) => {
+      equipmentButtons[i].onPointerClickObservable.add(() => {
+        const choices = slotChoices(slot);
+        const current = slot === "weapon" ? selectedEquipment.weapon ?? STANDARD_WEAPONS[selectedStyle] : selectedEquipment[slot];
+        const next = choices[(choices.indexOf(current) + 1) % choices.length];
+        if (next === undefined) {
+          delete selectedEquipment[slot];
+        } else {
+          (selectedEquipment as Record<EquipmentSlot, string>)[slot] = next;
+        }
+        refreshEquipment();
+        updateCopy();
+        updateUnitSelection();
+      });
+    });
+    refreshEquipment();
+
     // Row 2, Col 2: Edit button (+ info circle on mobile)
     const circleContainer = new StackPanel();
     circleContainer.isVertical = false;
     circleContainer.horizontalAlignment = Control.HORIZONTAL_ALIGNMENT_CENTER;
-    buttonGrid.addControl(circleContainer, 2, 2);
+    buttonRows[2].addControl(circleContainer, 0, 2);
 
     const circleSize = isMobile ? 34 : 38;
     const circleGap = 6;
@@ -1797,7 +2366,7 @@ export function createLoadoutScene(
 
       // Single text block for unit description
       const tooltipText = new TextBlock();
-      tooltipText.text = getUnitDescription(selectedClass, selectedBoost, selectedStyle);
+      tooltipText.text = getUnitDescription(selectedClass, selectedBoost, selectedStyle, selectedEquipment);
       tooltipText.color = COLORS.textPrimary;
       tooltipText.fontSize = fontSize;
       tooltipText.textWrapping = true;
@@ -1809,7 +2378,7 @@ export function createLoadoutScene(
       copyText = tooltipText;
 
       infoCircle.onPointerClickObservable.add(() => {
-        if (copyText) copyText.text = getUnitDescription(selectedClass, selectedBoost, selectedStyle);
+        if (copyText) copyText.text = getUnitDescription(selectedClass, selectedBoost, selectedStyle, selectedEquipment);
         if (loadMobilePreview) loadMobilePreview();
         if (tooltipBackdrop) tooltipBackdrop.isVisible = true;
         if (tooltipOverlay) tooltipOverlay.isVisible = true;
@@ -1829,7 +2398,7 @@ export function createLoadoutScene(
 
       // Single text block for unit description
       copyText = new TextBlock();
-      copyText.text = getUnitDescription(selectedClass, selectedBoost, selectedStyle);
+      copyText.text = getUnitDescription(selectedClass, selectedBoost, selectedStyle, selectedEquipment);
       copyText.color = COLORS.textSecondary;
       copyText.fontSize = tinyFontSize;
       copyText.textWrapping = true;
@@ -2076,7 +2645,7 @@ export function createLoadoutScene(
     // Update copy text and preview
     function updateCopy(): void {
       if (copyText) {
-        copyText.text = getUnitDescription(selectedClass, selectedBoost, selectedStyle);
+        copyText.text = getUnitDescription(selectedClass, selectedBoost, selectedStyle, selectedEquipment);
       }
       // Update 3D preview on desktop or mobile
       if (loadUnitPreview) {
@@ -2111,7 +2680,7 @@ export function createLoadoutScene(
     function updateUnitSelection(isClassChange = false): void {
       while (selectionArray.length < unitIndex + 1) {
         selectionArray.push({
-          unitClass: "soldier",
+          unitClass: ALL_CLASSES[0],
           customization: randomizeCustomization(),
         });
       }
@@ -2132,16 +2701,24 @@ export function createLoadoutScene(
               combatStyle: selectedStyle,
             },
         boost: selectedBoost,
+        equipment: { ...selectedEquipment },
       };
 
+      costText.text = `${getUnitPointCost(selectionArray[unitIndex])} PTS`;
       updateStartButton();
     }
 
     // Store reference for marking as customized from outside
     customizedMarkers[`${playerId}_${unitIndex}`] = markAsCustomized;
 
-    // Initialize selection with randomized customization, then update preview
-    updateUnitSelection(true);
+    // Initialize selection (randomized unless restored), then update preview
+    if (restored?.customization) {
+      // A loaded team's appearance was chosen on purpose; keep it on class changes
+      hasBeenCustomized = restoredTeams.has(playerId as Team);
+      updateUnitSelection();
+    } else {
+      updateUnitSelection(true);
+    }
     updateCopy();
   }
 
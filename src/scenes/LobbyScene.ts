@@ -0,0 +1,389 @@
+import {
+  Engine,
+  Scene,
+  FreeCamera,
+  Vector3,
+  Color4,
+} from "@babylonjs/core";
+import { AdvancedDynamicTexture, TextBlock, StackPanel, Rectangle, Control, Button, InputText } from "@babylonjs/gui";
+import type { SceneName, Team } from "../types";
+import { setGameMode, connectOnline, getOnlineSession, leaveOnline } from "../main";
+import {
+  type OnlineSession,
+  generateRoomCode,
+  normalizeRoomCode,
+  getInvitedRoomCode,
+  getInviteUrl,
+} from "../network";
+import { SCENE_BACKGROUNDS, TEAM_COLORS, ROOM_CODE_LENGTH } from "../config";
+
+// ============================================
+// COLOR PALETTE (matches title screen aesthetic)
+// ============================================
+const COLORS = {
+  bgPanel: "#14110f",
+  bgButton: "rgba(40, 20, 15, 0.6)",
+  bgButtonHover: "rgba(100, 50, 25, 0.8)",
+  border: "#3a2a1a",
+  textPrimary: "#e8c8a0",
+  textSecondary: "#a08060",
+  textMuted: "#706050",
+  accent: "#ff9650",
+  success: "#508040",
+  successText: "#90d070",
+  error: "#ff6666",
+};
+
+// An invite link (?room=) is followed once per page load
+let inviteHandled = false;
+
+export function createLobbyScene(
+  engine: Engine,
+  _canvas: HTMLCanvasElement,
+  navigateTo: (scene: SceneName) => void
+): Scene {
+  const scene = new Scene(engine);
+
+  const bg = SCENE_BACKGROUNDS.lobby;
+  scene.clearColor = new Color4(bg.r, bg.g, bg.b, bg.a);
+
+  new FreeCamera("camera", Vector3.Zero(), scene);
+
+  const gui = AdvancedDynamicTexture.CreateFullscreenUI("UI");
+
+  // === RESPONSIVE SIZING ===
+  const screenWidth = engine.getRenderWidth();
+  const isMobile = screenWidth < 600;
+  const isDesktop = screenWidth >= 1024;
+  const panelWidth = isDesktop ? "520px" : isMobile ? "94%" : "70%";
+  const fontSize = isMobile ? 14 : 16;
+  const headerFontSize = isMobile ? 26 : 34;
+  const buttonHeight = isMobile ? "44px" : "48px";
+
+  // ============================================
+  // LAYOUT
+  // ============================================
+  const panel = new StackPanel("lobbyPanel");
+  panel.width = panelWidth;
+  panel.isVertical = true;
+  gui.addControl(panel);
+
+  const header = new TextBlock("lobbyHeader");
+  header.text = "O N L I N E   L O B B Y";
+  header.color = COLORS.accent;
+  header.fontFamily = "'Bebas Neue', sans-serif";
+  header.fontSize = headerFontSize;
+  header.height = `${headerFontSize + 30}px`;
+  panel.addControl(header);
+
+  // Join view: create a room or enter a code
+  const joinView = new StackPanel("joinView");
+  joinView.isVertical = true;
+  joinView.width = "100%";
+  panel.addControl(joinView);
+
+  // Room view: code, invite link, both seats
+  const roomView = new StackPanel("roomView");
+  roomView.isVertical = true;
+  roomView.width = "100%";
+  panel.addControl(roomView);
+
+  const statusText = createText("lobbyStatus", "", fontSize - 2, COLORS.textSecondary);
+  statusText.height = "50px";
+  statusText.textWrapping = true;
+  panel.addControl(statusText);
+
+  function createText(name: string, text: string, size: number, color: string): TextBlock {
+    const block = new TextBlock(name);
+    block.text = text;
+    block.color = color;
+    block.fontSize = size;
+    block.fontFamily = "'Exo 2', sans-serif";
+    block.height = `${size + 16}px`;
+    return block;
+  }
+
+  function createLobbyButton(name: string, text: string, onClick: () => void): Button {
+    const button = Button.CreateSimpleButton(name, text);
+    button.width = "100%";
+    button.height = buttonHeight;
+    button.color = COLORS.textPrimary;
+    button.background = COLORS.bgButton;
+    button.cornerRadius = 6;
+    button.thickness = 1;
+    button.fontSize = fontSize;
+    button.fontFamily = "'Bebas Neue', sans-serif";
+    button.paddingTop = "4px";
+    button.paddingBottom = "4px";
+    button.onPointerEnterObservable.add(() => {
+      if (button.isEnabled) button.background = COLORS.bgButtonHover;
+    });
+    button.onPointerOutObservable.add(() => {
+      button.background = COLORS.bgButton;
+    });
+    button.onPointerClickObservable.add(onClick);
+    return button;
+  }
+
+  function setStatus(text: string, isError = false): void {
+    statusText.text = text;
+    statusText.color = isError ? COLORS.error : COLORS.textSecondary;
+  }
+
+  // ============================================
+  // JOIN VIEW
+  // ============================================
+  let connecting = false;
+
+  joinView.addControl(createLobbyButton("createRoomBtn", "C R E A T E   R O O M", () => {
+    join(generateRoomCode(), true);
+  }));
+
+  joinView.addControl(createText("orText", "— or join a friend's room —", fontSize - 2, COLORS.textMuted));
+
+  const codeInput = new InputText("roomCodeInput");
+  codeInput.width = "100%";
+  codeInput.height = buttonHeight;
+  codeInput.maxWidth = "100%";
+  codeInput.color = COLORS.textPrimary;
+  codeInput.background = COLORS.bgPanel;
+  codeInput.focusedBackground = COLORS.bgPanel;
+  codeInput.thickness = 1;
+  codeInput.fontSize = fontSize + 4;
+  codeInput.placeholderText = `${ROOM_CODE_LENGTH}-letter room code`;
+  codeInput.placeholderColor = COLORS.textMuted;
+  codeInput.onTextChangedObservable.add(() => {
+    const normalized = normalizeRoomCode(codeInput.text).slice(0, ROOM_CODE_LENGTH);
+    if (normalized !== codeInput.text) codeInput.text = normalized;
+  });
+  joinView.addControl(codeInput);
+
+  joinView.addControl(createLobbyButton("joinRoomBtn", "J O I N   R O O M", () => {
+    const code = normalizeRoomCode(codeInput.text);
+    if (code.length !== ROOM_CODE_LENGTH) {
+      setStatus(`Room codes are ${ROOM_CODE_LENGTH} characters`, true);
+      return;
+    }
+    join(code, false);
+  }));
+
+  joinView.addControl(createLobbyButton("lobbyBackBtn", "B A C K", () => {
+    leaveOnline();
+    navigateTo("title");
+  }));
+
+  function join(code: string, create: boolean): void {
+    if (connecting) return;
+    connecting = true;
+    setStatus(create ? "Creating room..." : `Joining ${code}...`);
+    connectOnline(code, create)
+      .then(session => {
+        connecting = false;
+        if (scene.isDisposed) {
+          leaveOnline();
+          return;
+        }
+        showRoom(session);
+      })
+      .catch(error => {
+        connecting = false;
+        console.error("Could not join room:", error);
+        const message = error instanceof Error ? error.message : String(error);
+        setStatus(`${message}. Is the relay running? (npm run relay)`, true);
+      });
+  }
+
+  // ============================================
+  // ROOM VIEW
+  // ============================================
+  const roomCodeText = createText("roomCode", "", fontSize + 14, COLORS.accent);
+  roomCodeText.fontFamily = "'Bebas Neue', sans-serif";
+  roomView.addControl(roomCodeText);
+
+  const inviteText = createText("inviteLink", "", fontSize - 4, COLORS.textMuted);
+  roomView.addControl(inviteText);
+
+  const copyInviteBtn = createLobbyButton("copyInviteBtn", "C O P Y   I N V I T E   L I N K", () => {
+    const session = getOnlineSession();
+    if (!session) return;
+    navigator.clipboard?.writeText(getInviteUrl(session.room)).then(
+      () => setStatus("Invite link copied"),
+      () => setStatus("Copy failed - share the room code instead", true)
+    );
+  });
+  roomView.addControl(copyInviteBtn);
+
+  // One row per seat
+  interface SeatRow {
+    name: TextBlock;
+    state: TextBlock;
+    swatch: Rectangle;
+  }
+
+  function createSeatRow(team: Team): SeatRow {
+    const row = new Rectangle(`${team}Seat`);
+    row.width = "100%";
+    row.height = "56px";
+    row.background = COLORS.bgPanel;
+    row.color = COLORS.border;
+    row.thickness = 1;
+    row.cornerRadius = 6;
+    row.paddingTop = "4px";
+    row.paddingBottom = "4px";
+    roomView.addControl(row);
+
+    const swatch = new Rectangle(`${team}SeatColor`);
+    swatch.width = "24px";
+    swatch.height = "24px";
+    swatch.cornerRadius = 4;
+    swatch.thickness = 0;
+    swatch.left = "14px";
+    swatch.horizontalAlignment = Control.HORIZONTAL_ALIGNMENT_LEFT;
+    row.addControl(swatch);
+
+    const name = createText(`${team}SeatName`, "", fontSize, COLORS.textPrimary);
+    name.left = "52px";
+    name.textHorizontalAlignment = Control.HORIZONTAL_ALIGNMENT_LEFT;
+    row.addControl(name);
+
+    const state = createText(`${team}SeatState`, "", fontSize - 2, COLORS.textMuted);
+    state.left = "-14px";
+    state.textHorizontalAlignment = Control.HORIZONTAL_ALIGNMENT_RIGHT;
+    row.addControl(state);
+
+    return { name, state, swatch };
+  }
+
+  const seatRows: Record<Team, SeatRow> = {
+    player1: createSeatRow("player1"),
+    player2: createSeatRow("player2"),
+  };
+
+  roomView.addControl(createText("colorLabel", "Your team color", fontSize - 2, COLORS.textSecondary));
+
+  // Team color picker (the opponent's color is unavailable)
+  const colorRow = new StackPanel("lobbyColorRow");
+  colorRow.isVertical = false;
+  colorRow.height = "40px";
+  roomView.addControl(colorRow);
+
+  const colorSwatches = TEAM_COLORS.map(teamColor => {
+    const swatch = new Rectangle();
+    swatch.width = "36px";
+    swatch.height = "32px";
+    swatch.background = teamColor.hex;
+    swatch.cornerRadius = 4;
+    swatch.paddingLeft = "3px";
+    swatch.paddingRight = "3px";
+    swatch.onPointerClickObservable.add(() => {
+      const session = getOnlineSession();
+      if (!session) return;
+      const seat = session.getLobbySeat(session.team);
+      if (seat.ready || session.getLobbySeat(session.opponentTeam).teamColor === teamColor.hex) return;
+      session.setLobbySeat(teamColor.hex, false);
+    });
+    colorRow.addControl(swatch);
+    return swatch;
+  });
+
+  const readyBtn = createLobbyButton("readyBtn", "", () => {
+    const session = getOnlineSession();
+    if (!session) return;
+    const seat = session.getLobbySeat(session.team);
+    session.setLobbySeat(seat.teamColor, !seat.ready);
+  });
+  roomView.addControl(readyBtn);
+
+  roomView.addControl(createLobbyButton("leaveRoomBtn", "L E A V E   R O O M", () => {
+    leaveOnline();
+    showJoin();
+    setStatus("");
+  }));
+
+  // ============================================
+  // VIEW STATE
+  // ============================================
+  let starting = false;
+
+  function showJoin(): void {
+    joinView.isVisible = true;
+    roomView.isVisible = false;
+  }
+
+  function showRoom(session: OnlineSession): void {
+    joinView.isVisible = false;
+    roomView.isVisible = true;
+    roomCodeText.text = `ROOM  ${session.room}`;
+    inviteText.text = getInviteUrl(session.room);
+    session.setLobbyCallback(() => refreshRoom(session));
+    refreshRoom(session);
+  }
+
+  function refreshRoom(session: OnlineSession): void {
+    if (!session.isConnected()) {
+      leaveOnline();
+      showJoin();
+      setStatus("Lost connection to the relay", true);
+      return;
+    }
+
+    for (const team of ["player1", "player2"] as const) {
+      const seat = session.getLobbySeat(team);
+      const row = seatRows[team];
+      const label = team === "player1" ? "Player 1" : "Player 2";
+      row.name.text = team === session.team ? `${label} (You)` : label;
+      row.swatch.background = seat.connected ? seat.teamColor : COLORS.border;
+      row.state.text = !seat.connected ? "Waiting..." : seat.ready ? "Ready" : "Not ready";
+      row.state.color = seat.ready ? COLORS.successText : COLORS.textMuted;
+    }
+
+    const mine = session.getLobbySeat(session.team);
+    const theirs = session.getLobbySeat(session.opponentTeam);
+    TEAM_COLORS.forEach((teamColor, i) => {
+      const swatch = colorSwatches[i];
+      const isSelected = mine.teamColor === teamColor.hex;
+      swatch.thickness = isSelected ? 3 : 1;
+      swatch.color = isSelected ? "white" : COLORS.border;
+      swatch.alpha = theirs.connected && theirs.teamColor === teamColor.hex ? 0.3 : 1;
+    });
+
+    if (readyBtn.textBlock) readyBtn.textBlock.text = mine.ready ? "N O T   R E A D Y" : "R E A D Y";
+    readyBtn.background = mine.ready ? COLORS.success : COLORS.bgButton;
+
+    if (!theirs.connected) {
+      setStatus("Share the room code or invite link with your opponent");
+    } else if (!session.isLobbyReady()) {
+      setStatus(mine.ready ? "Waiting for your opponent to ready up" : "Pick a color and ready up");
+    } else if (!starting) {
+      // Both players ready: pick teams
+      starting = true;
+      setStatus("Both players ready - starting...");
+      session.setLobbyCallback(null);
+      setGameMode("online-pvp", session.team);
+      setTimeout(() => navigateTo("loadout"), 600);
+    }
+  }
+
+  scene.onDisposeObservable.add(() => {
+    getOnlineSession()?.setLobbyCallback(null);
+  });
+
+  // Coming back to the lobby with a room still open (e.g. after a match):
+  // keep the room but require both players to ready up again
+  const existing = getOnlineSession();
+  if (existing?.isConnected()) {
+    const seat = existing.getLobbySeat(existing.team);
+    existing.setLobbySeat(seat.teamColor, false);
+    showRoom(existing);
+  } else {
+    showJoin();
+    const invited = getInvitedRoomCode();
+    if (invited && !inviteHandled) {
+      inviteHandled = true;
+      codeInput.text = invited;
+      join(invited, false);
+    }
+  }
+
+  return scene;
+}
@@ -7,7 +7,8 @@ import {
 } from "@babylonjs/core";
 import { AdvancedDynamicTexture, TextBlock, StackPanel, Rectangle, Control, Button } from "@babylonjs/gui";
 import type { SceneName, GameMode } from "../types";
-import { setGameMode } from "../main";
+import { setGameMode, startReplay } from "../main";
+import { parseReplay } from "../battle";
 import {
   SCENE_BACKGROUNDS,
   TITLE_HEAT_COLORS,
@@ -281,8 +282,8 @@ export function createTitleScene(
 
   // === MODE SELECTION BUTTONS ===
   // Helper to create a styled button
-  function createModeButton(text: string, mode: GameMode): Button {
-    const button = Button.CreateSimpleButton(`mode_${mode}`, text);
+  function createMenuButton(name: string, text: string, onClick: () => void): Button {
+    const button = Button.CreateSimpleButton(name, text);
     button.width = buttonWidthPercent;
     button.height = buttonHeight;
     button.background = "rgba(40, 20, 15, 0.6)";
@@ -318,12 +319,36 @@ export function createTitleScene(
       button.shadowBlur = 0;
     });
 
-    button.onPointerClickObservable.add(() => {
+    button.onPointerClickObservable.add(onClick);
+
+    return button;
+  }
+
+  function createModeButton(text: string, mode: GameMode): Button {
+    return createMenuButton(`mode_${mode}`, text, () => {
       setGameMode(mode);
       navigateTo("loadout");
     });
+  }
 
-    return button;
+  // Pick a saved replay file and start watching it
+  function openReplayFile(): void {
+    const input = document.createElement("input");
+    input.type = "file";
+    input.accept = ".json,application/json";
+    input.onchange = () => {
+      const file = input.files?.[0];
+      if (!file) return;
+      file.text().then(text => {
+        try {
+          startReplay(parseReplay(text));
+        } catch (error) {
+          console.error("Could not load replay:", error);
+          alert(`Could not load replay: ${error instanceof Error ? error.message : error}`);
+        }
+      });
+    };
+    input.click();
   }
 
   // Local PvP button
@@ -342,6 +367,40 @@ export function createTitleScene(
   panel.addControl(pveButton);
   modeButtons.push(pveButton);
 
+  const onlineSpacer = new TextBlock();
+  onlineSpacer.height = buttonSpacerHeight;
+  onlineSpacer.text = "";
+  panel.addControl(onlineSpacer);
+
+  // Online PvP: rooms are created and joined in the lobby
+  const onlineButton = createMenuButton("mode_online-pvp", "O N L I N E   P V P", () => {
+    navigateTo("lobby");
+  });
+  panel.addControl(onlineButton);
+  modeButtons.push(onlineButton);
+
+  const replaySpacer = new TextBlock();
+  replaySpacer.height = buttonSpacerHeight;
+  replaySpacer.text = "";
+  panel.addControl(replaySpacer);
+
+  // Replay viewer
+  const replayButton = createMenuButton("mode_replay", "R E P L A Y", openReplayFile);
+  panel.addControl(replayButton);
+  modeButtons.push(replayButton);
+
+  const editorSpacer = new TextBlock();
+  editorSpacer.height = buttonSpacerHeight;
+  editorSpacer.text = "";
+  panel.addControl(editorSpacer);
+
+  // Map editor
+  const editorButton = createMenuButton("mode_editor", "M A P   E D I T O R", () => {
+    navigateTo("editor");
+  });
+  panel.addControl(editorButton);
+  modeButtons.push(editorButton);
+
   // === CREATE EMBERS (after panel so they render on top) ===
   const numEmbers = 30;
   for (let i = 0; i < numEmbers; i++) {
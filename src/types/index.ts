@@ -11,20 +11,27 @@
 
 import type { Mesh, AbstractMesh, AnimationGroup, Color3 } from "@babylonjs/core";
 import type { Rectangle, TextBlock } from "@babylonjs/gui";
+import {
+  getClassData,
+  TERRAIN_BLOCK_HEIGHT,
+  LOW_WALL_HEIGHT,
+  ROUGH_GROUND_MOVE_COST,
+  HAZARD_DAMAGE,
+} from "../config";
 
 // =============================================================================
 // SCENE NAVIGATION
 // =============================================================================
 
 /** Available scene names for navigation */
-export type SceneName = "start" | "title" | "loadout" | "battle";
+export type SceneName = "start" | "title" | "lobby" | "loadout" | "battle" | "editor";
 
 // =============================================================================
 // UNIT CLASSES & CUSTOMIZATION
 // =============================================================================
 
-/** Available unit classes */
-export type UnitClass = "soldier" | "operator" | "medic";
+/** Unit class id (classes are defined in config/classes.json) */
+export type UnitClass = string;
 
 /** Body type options */
 export type BodyType = "male" | "female";
@@ -51,7 +58,7 @@ export interface UnitCustomization {
 // =============================================================================
 
 /** Game mode determines controller configuration */
-export type GameMode = "local-pvp" | "local-pve";
+export type GameMode = "local-pvp" | "local-pve" | "online-pvp";
 
 // =============================================================================
 // LOADOUT
@@ -62,6 +69,7 @@ export interface UnitSelection {
   unitClass: UnitClass;
   customization?: UnitCustomization;
   boost?: number;  // Boost selection (0, 1, or 2) - feature coming soon
+  equipment?: UnitEquipment;
 }
 
 /** Complete loadout configuration for a battle */
@@ -71,73 +79,300 @@ export interface Loadout {
   player1TeamColor?: string;  // Hex color for player 1 team
   player2TeamColor?: string;  // Hex color for player 2 team
   gameMode: GameMode;         // PvP or PvE
-  humanTeam?: "player1" | "player2";  // Which team is human in PvE
+  humanTeam?: "player1" | "player2";  // Which team is human in PvE / local in online PvP
+  seed?: number;              // Battle RNG seed (random if omitted)
+  pointBudget?: number;       // Army points each team was built under
+  map?: MapDefinition;        // Hand-authored map (generated from the seed if omitted)
+  mapGen?: MapGenOptions;     // How a generated map is laid out (classic if omitted)
 }
 
 // =============================================================================
 // CLASS DATA
 // =============================================================================
 
-/** Static data defining a unit class's stats and abilities */
+/** Class abilities the battle rules implement */
+export type AbilityId = "cover" | "conceal" | "heal" | "barricade" | "aim";
+
+/** AI playstyles a class can use (see AIController) */
+export type AiArchetype = "frontline" | "stealth" | "support" | "builder" | "marksman";
+
+/**
+ * Static data defining a unit class's stats and abilities.
+ * Loaded from config/classes.json (see config/classes.ts).
+ */
 export interface ClassData {
   id: UnitClass;
+  codeId: number;     // Fixed number stored in loadout codes (0-15, never reused)
   name: string;
+  tagline: string;
   description: string;
   hp: number;
   attack: number;
   moveRange: number;
   attackRange: number;
+  minRange: number;   // Ranged attacks can't reach this close (1 = adjacent tiles)
   healAmount: number;
-  ability: string;
+  pointCost: number;  // Base army points (see loadouts/points.ts)
+  ability: AbilityId;
+  abilityName: string;
+  abilityDescription: string;
   modelFile: string;  // Base filename without gender suffix
+  aiArchetype: AiArchetype;
+}
+
+// =============================================================================
+// EQUIPMENT
+// =============================================================================
+
+/** Equipment slots each unit has */
+export type EquipmentSlot = "weapon" | "armor" | "utility";
+
+export type WeaponId = "pistol" | "rifle" | "carbine" | "sword" | "axe" | "knife";
+export type ArmorId = "light" | "heavy";
+export type UtilityId = "boots" | "scope" | "medkit";
+export type EquipmentId = WeaponId | ArmorId | UtilityId;
+
+/** What a unit carries (an empty armor/utility slot means none; no weapon means the standard one) */
+export interface UnitEquipment {
+  weapon?: WeaponId;
+  armor?: ArmorId;
+  utility?: UtilityId;
+}
+
+/** Flat changes to class stats */
+export interface StatModifiers {
+  hp?: number;
+  attack?: number;
+  moveRange?: number;
+  attackRange?: number;
+  healAmount?: number;
+}
+
+/** Static data defining one piece of equipment */
+export interface EquipmentData {
+  id: EquipmentId;
+  slot: EquipmentSlot;
+  name: string;
+  description: string;
+  modifiers: StatModifiers;
+  pointCost: number;
+  /** Only usable with this combat style (weapons) */
+  combatStyle?: CombatStyle;
+  /** Only usable by classes with this ability */
+  ability?: AbilityId;
+}
+
+/** Equipment definitions, in the order the loadout screen offers them */
+export const EQUIPMENT_DATA: Record<EquipmentId, EquipmentData> = {
+  pistol: {
+    id: "pistol", slot: "weapon", name: "Pistol",
+    description: "Standard sidearm.",
+    modifiers: {}, pointCost: 0, combatStyle: "ranged",
+  },
+  rifle: {
+    id: "rifle", slot: "weapon", name: "Rifle",
+    description: "+1 attack range, -1 move.",
+    modifiers: { attackRange: 1, moveRange: -1 }, pointCost: 15, combatStyle: "ranged",
+  },
+  carbine: {
+    id: "carbine", slot: "weapon", name: "Carbine",
+    description: "+5 attack, -1 attack range.",
+    modifiers: { attack: 5, attackRange: -1 }, pointCost: 10, combatStyle: "ranged",
+  },
+  sword: {
+    id: "sword", slot: "weapon", name: "Sword",
+    description: "Standard blade.",
+    modifiers: {}, pointCost: 0, combatStyle: "melee",
+  },
+  axe: {
+    id: "axe", slot: "weapon", name: "Axe",
+    description: "+6 attack.",
+    modifiers: { attack: 6 }, pointCost: 15, combatStyle: "melee",
+  },
+  knife: {
+    id: "knife", slot: "weapon", name: "Knife",
+    description: "+1 move, -4 attack.",
+    modifiers: { moveRange: 1, attack: -4 }, pointCost: 5, combatStyle: "melee",
+  },
+  light: {
+    id: "light", slot: "armor", name: "Light Armor",
+    description: "+10 HP.",
+    modifiers: { hp: 10 }, pointCost: 10,
+  },
+  heavy: {
+    id: "heavy", slot: "armor", name: "Heavy Armor",
+    description: "+25 HP, -1 move.",
+    modifiers: { hp: 25, moveRange: -1 }, pointCost: 15,
+  },
+  boots: {
+    id: "boots", slot: "utility", name: "Boots",
+    description: "+1 move.",
+    modifiers: { moveRange: 1 }, pointCost: 20,
+  },
+  scope: {
+    id: "scope", slot: "utility", name: "Scope",
+    description: "+1 attack range.",
+    modifiers: { attackRange: 1 }, pointCost: 10, combatStyle: "ranged",
+  },
+  medkit: {
+    id: "medkit", slot: "utility", name: "Medkit",
+    description: "+10 healing.",
+    modifiers: { healAmount: 10 }, pointCost: 15, ability: "heal",
+  },
+};
+
+/** Weapon a unit carries when none is chosen */
+export const STANDARD_WEAPONS: Record<CombatStyle, WeaponId> = {
+  ranged: "pistol",
+  melee: "sword",
+};
+
+/** Equipment a unit of this class and combat style may take in a slot */
+export function getEquipmentOptions(slot: EquipmentSlot, unitClass: UnitClass, combatStyle: CombatStyle): EquipmentData[] {
+  return Object.values(EQUIPMENT_DATA).filter(item =>
+    item.slot === slot &&
+    (!item.combatStyle || item.combatStyle === combatStyle) &&
+    (!item.ability || item.ability === getClassData(unitClass).ability)
+  );
+}
+
+/**
+ * A unit's equipment, one entry per filled slot.
+ * Items the unit can't use (wrong style or class) are left out, and the
+ * weapon slot falls back to the standard weapon for its combat style.
+ */
+export function getUnitEquipment(selection: UnitSelection): EquipmentData[] {
+  const combatStyle = selection.customization?.combatStyle ?? "ranged";
+  const { weapon, armor, utility } = selection.equipment ?? {};
+  const usable = (id: EquipmentId | undefined, slot: EquipmentSlot): EquipmentData | undefined => {
+    const item = id ? EQUIPMENT_DATA[id] : undefined;
+    if (!item || item.slot !== slot) return undefined;
+    return getEquipmentOptions(slot, selection.unitClass, combatStyle).includes(item) ? item : undefined;
+  };
+
+  const items = [usable(weapon, "weapon") ?? EQUIPMENT_DATA[STANDARD_WEAPONS[combatStyle]]];
+  const armorItem = usable(armor, "armor");
+  const utilityItem = usable(utility, "utility");
+  if (armorItem) items.push(armorItem);
+  if (utilityItem) items.push(utilityItem);
+  return items;
+}
+
+/** Combined stat changes from a unit's equipment */
+export function getEquipmentModifiers(selection: UnitSelection): Required<StatModifiers> {
+  const total = { hp: 0, attack: 0, moveRange: 0, attackRange: 0, healAmount: 0 };
+  for (const item of getUnitEquipment(selection)) {
+    total.hp += item.modifiers.hp ?? 0;
+    total.attack += item.modifiers.attack ?? 0;
+    total.moveRange += item.modifiers.moveRange ?? 0;
+    total.attackRange += item.modifiers.attackRange ?? 0;
+    total.healAmount += item.modifiers.healAmount ?? 0;
+  }
+  return total;
+}
+
+// =============================================================================
+// TERRAIN
+// =============================================================================
+
+/** Kinds of terrain a tile can hold (tiles without terrain are open ground) */
+export type TerrainType = "wall" | "lowWall" | "rough" | "water" | "hazard";
+
+/** How a terrain type affects movement, line of sight and units on it */
+export interface TerrainData {
+  name: string;
+  /** Units can stand on it and walk through it */
+  walkable: boolean;
+  /** Movement cost of stepping onto it (walkable terrain only) */
+  moveCost: number;
+  /** How tall it stands above its tile for line of sight, in levels (0 = never blocks) */
+  sightHeight: number;
+  /** Units right next to it can see (and be seen) over it */
+  peekable: boolean;
+  /** Damage to a unit that ends its turn on it */
+  turnEndDamage: number;
 }
 
-/** Class definitions with base stats */
-export const CLASS_DATA: Record<UnitClass, ClassData> = {
-  soldier: {
-    id: "soldier",
-    name: "Soldier",
-    description: "Frontline fighter. Uses Cover to protect allies.",
-    hp: 75,
-    attack: 20,
-    moveRange: 3,
-    attackRange: 2,
-    healAmount: 0,
-    ability: "Cover",
-    modelFile: "soldier",
-  },
-  operator: {
-    id: "operator",
-    name: "Operator",
-    description: "Stealth specialist. Uses Conceal to avoid damage.",
-    hp: 75,
-    attack: 20,
-    moveRange: 3,
-    attackRange: 2,
-    healAmount: 0,
-    ability: "Conceal",
-    modelFile: "operator",
-  },
-  medic: {
-    id: "medic",
-    name: "Medic",
-    description: "Support unit. Heals adjacent allies (requires LOS for diagonals).",
-    hp: 75,
-    attack: 20,
-    moveRange: 3,
-    attackRange: 2,
-    healAmount: 25,
-    ability: "Heal",
-    modelFile: "medic",
+export const TERRAIN_DATA: Record<TerrainType, TerrainData> = {
+  wall: {
+    name: "Wall",
+    walkable: false, moveCost: 0, sightHeight: TERRAIN_BLOCK_HEIGHT, peekable: false, turnEndDamage: 0,
+  },
+  lowWall: {
+    name: "Low Wall",
+    walkable: false, moveCost: 0, sightHeight: LOW_WALL_HEIGHT, peekable: true, turnEndDamage: 0,
+  },
+  rough: {
+    name: "Rough Ground",
+    walkable: true, moveCost: ROUGH_GROUND_MOVE_COST, sightHeight: 0, peekable: false, turnEndDamage: 0,
+  },
+  water: {
+    name: "Water",
+    walkable: false, moveCost: 0, sightHeight: 0, peekable: false, turnEndDamage: 0,
+  },
+  hazard: {
+    name: "Hazard",
+    walkable: true, moveCost: 1, sightHeight: 0, peekable: false, turnEndDamage: HAZARD_DAMAGE,
   },
 };
 
-/** All available unit classes */
-export const ALL_CLASSES: UnitClass[] = ["soldier", "operator", "medic"];
+// =============================================================================
+// MAPS
+// =============================================================================
 
-/** Helper to get class data by class ID */
-export function getClassData(unitClass: UnitClass): ClassData {
-  return CLASS_DATA[unitClass];
+/** Ways a battlefield can be generated (see battle/mapgen.ts) */
+export type MapStyle = "classic" | "symmetric" | "lanes" | "urban" | "open";
+
+/** Settings for a generated battlefield */
+export interface MapGenOptions {
+  style: MapStyle;
+  /** Amount of terrain relative to the style's usual amount (1) */
+  density: number;
+}
+
+/** A tile on a hand-authored map */
+export interface MapPosition {
+  x: number;
+  z: number;
+}
+
+/** A marked tile for scenario goals (shown on the board; no rules use it yet) */
+export interface MapObjective extends MapPosition {
+  label?: string;
+}
+
+/** Scenery props a map can place */
+export type MapDecorationKind = "rock" | "crate" | "barrel" | "bush";
+
+/**
+ * Scenery with no effect on the rules. Positions may be fractional or off
+ * the board, so props can sit between tiles or around the edges.
+ */
+export interface MapDecoration extends MapPosition {
+  kind: MapDecorationKind;
+  /** Turn around the vertical axis, in degrees */
+  rotation?: number;
+}
+
+/**
+ * A hand-authored battlefield, as stored in map JSON files (see maps/format.ts).
+ * Rows run from z = 0 (player 1's home edge) upward; within a row, each
+ * character is one tile, from x = 0.
+ */
+export interface MapDefinition {
+  version: number;
+  id: string;
+  name: string;
+  width: number;
+  height: number;
+  /** One string of terrain characters per row (see MAP_TILE_LEGEND); spaces are holes */
+  tiles: string[];
+  /** Elevation levels as digits, laid out like tiles; flat if omitted */
+  heights?: string[];
+  /** Starting tiles for each team, in the order units take them */
+  spawns: Record<Team, MapPosition[]>;
+  objectives?: MapObjective[];
+  decorations?: MapDecoration[];
 }
 
 // =============================================================================
@@ -147,6 +382,20 @@ export function getClassData(unitClass: UnitClass): ClassData {
 /** Team identifier */
 export type Team = "player1" | "player2";
 
+/** Status effects a unit can carry (see battle/effects.ts for their rules) */
+export type StatusEffectId = "conceal" | "cover" | "aim";
+
+/** A status effect on a unit */
+export interface StatusEffect {
+  id: StatusEffectId;
+  /** Unit that applied it */
+  sourceId: string;
+  /** Holder's turns left, or null if it lasts until something removes it */
+  turnsRemaining: number | null;
+  /** Applications stacked onto this one (1 unless the effect stacks) */
+  stacks: number;
+}
+
 /** Current action mode in the command menu */
 export type ActionMode = "none" | "move" | "attack" | "ability";
 
@@ -189,6 +438,7 @@ export interface FacingConfig {
  */
 export interface Unit {
   // Core identity
+  id: string;  // Stable battle ID shared with the battle engine ("player1-0")
   mesh: Mesh;
   unitClass: UnitClass;
   team: Team;
@@ -200,6 +450,7 @@ export interface Unit {
   // Stats
   moveRange: number;
   attackRange: number;
+  minRange: number;
   hp: number;
   maxHp: number;
   attack: number;
@@ -230,7 +481,6 @@ export interface Unit {
   // Facing system
   facing: FacingConfig;
 
-  // Ability states
-  isConcealed: boolean;
-  isCovering: boolean;
+  // Status effects, mirrored from the battle engine
+  statusEffects: StatusEffect[];
 }
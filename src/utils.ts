@@ -174,11 +174,12 @@ export function manhattanDistance(
  *
  * @param x - X coordinate
  * @param z - Z coordinate
- * @param gridSize - Size of grid (assumes square)
+ * @param width - Grid width (x extent)
+ * @param height - Grid height (z extent); defaults to width for a square grid
  * @returns True if position is in bounds
  */
-export function isInBounds(x: number, z: number, gridSize: number): boolean {
-  return x >= 0 && x < gridSize && z >= 0 && z < gridSize;
+export function isInBounds(x: number, z: number, width: number, height: number = width): boolean {
+  return x >= 0 && x < width && z >= 0 && z < height;
 }
 
 // =============================================================================
@@ -225,42 +226,3 @@ export function playSfx(audio: HTMLAudioElement): void {
   audio.currentTime = 0;
   audio.play();
 }
-
-// =============================================================================
-// RANDOM UTILITIES
-// =============================================================================
-
-/**
- * Get a random integer between min and max (inclusive)
- *
- * @param min - Minimum value
- * @param max - Maximum value
- * @returns Random integer
- */
-export function randomInt(min: number, max: number): number {
-  return Math.floor(Math.random() * (max - min + 1)) + min;
-}
-
-/**
- * Get a random element from an array
- *
- * @param array - Array to pick from
- * @returns Random element
- */
-export function randomElement<T>(array: readonly T[]): T {
-  return array[Math.floor(Math.random() * array.length)];
-}
-
-/**
- * Shuffle an array in place (Fisher-Yates algorithm)
- *
- * @param array - Array to shuffle
- * @returns The shuffled array (same reference)
- */
-export function shuffle<T>(array: T[]): T[] {
-  for (let i = array.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [array[i], array[j]] = [array[j], array[i]];
-  }
-  return array;
-}